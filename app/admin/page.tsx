@@ -0,0 +1,24 @@
+import ToolPage from '@/components/ToolPage'
+import ModelSettingsAdmin from '@/components/ModelSettingsAdmin'
+import UserAdmin from '@/components/UserAdmin'
+import { getServerTranslator } from '@/lib/i18n/server'
+
+export const metadata = {
+  title: 'Administration | Respiratory Disease AI',
+}
+
+export default function AdminPage() {
+  const { t } = getServerTranslator()
+
+  return (
+    <ToolPage
+      title={t('page.admin.title')}
+      description={t('page.admin.description')}
+    >
+      <div className="space-y-10">
+        <UserAdmin />
+        <ModelSettingsAdmin />
+      </div>
+    </ToolPage>
+  )
+}
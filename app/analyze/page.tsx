@@ -0,0 +1,20 @@
+import ToolPage from '@/components/ToolPage'
+import DiseaseAnalyzer from '@/components/DiseaseAnalyzer'
+import { getServerTranslator } from '@/lib/i18n/server'
+
+export const metadata = {
+  title: 'Analyze | Respiratory Disease AI',
+}
+
+export default function AnalyzePage() {
+  const { t } = getServerTranslator()
+
+  return (
+    <ToolPage
+      title={t('page.analyze.title')}
+      description={t('page.analyze.description')}
+    >
+      <DiseaseAnalyzer />
+    </ToolPage>
+  )
+}
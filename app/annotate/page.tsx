@@ -0,0 +1,20 @@
+import ToolPage from '@/components/ToolPage'
+import AnnotationWorkspace from '@/components/AnnotationWorkspace'
+import { getServerTranslator } from '@/lib/i18n/server'
+
+export const metadata = {
+  title: 'Annotate | Respiratory Disease AI',
+}
+
+export default function AnnotatePage() {
+  const { t } = getServerTranslator()
+
+  return (
+    <ToolPage
+      title={t('page.annotate.title')}
+      description={t('page.annotate.description')}
+    >
+      <AnnotationWorkspace />
+    </ToolPage>
+  )
+}
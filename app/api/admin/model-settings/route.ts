@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server'
+import { requireSession } from '@/lib/auth/server'
+import { errorResponse, readJsonBody } from '@/lib/server/errors'
+import { saveModelSettings } from '@/lib/server/modelSettings'
+
+export async function PUT(request: Request) {
+  try {
+    await requireSession(['admin'])
+    return NextResponse.json(await saveModelSettings(await readJsonBody(request)))
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
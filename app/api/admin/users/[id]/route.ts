@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { requireSession } from '@/lib/auth/server'
+import { deleteUser, toPublicUser, updateUser } from '@/lib/auth/users'
+import { HttpError, errorResponse, readJsonBody } from '@/lib/server/errors'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    await requireSession(['admin'])
+    return NextResponse.json(toPublicUser(await updateUser(params.id, await readJsonBody(request))))
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const session = await requireSession(['admin'])
+    // Signing yourself out of administration by accident is hard to undo
+    if (session.user.id === params.id) throw new HttpError(409, 'server.deleteSelf')
+    await deleteUser(params.id)
+    return new NextResponse(null, { status: 204 })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { requireSession } from '@/lib/auth/server'
+import { createUser, listUsers, toPublicUser } from '@/lib/auth/users'
+import { errorResponse, readJsonBody } from '@/lib/server/errors'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    await requireSession(['admin'])
+    return NextResponse.json((await listUsers()).map(toPublicUser))
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    await requireSession(['admin'])
+    return NextResponse.json(toPublicUser(await createUser(await readJsonBody(request))), { status: 201 })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
@@ -0,0 +1,36 @@
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { findAuthProvider } from '@/lib/auth/providers'
+import { landingPath } from '@/lib/auth/roles'
+import { authBaseUrl } from '@/lib/auth/server'
+import { AUTH_STATE_COOKIE, SESSION_COOKIE, createSessionToken, sessionCookieOptions, verifyValue } from '@/lib/auth/session'
+import { HttpError } from '@/lib/server/errors'
+
+interface RouteContext {
+  params: { provider: string }
+}
+
+// Where the identity provider sends the browser back; failures return to the sign-in page with the reason's message code
+export async function GET(request: Request, { params }: RouteContext) {
+  const url = new URL(request.url)
+  const stateCookie = cookies().get(AUTH_STATE_COOKIE)?.value
+
+  let response: NextResponse
+  try {
+    const provider = findAuthProvider(params.provider)
+    if (!provider || provider.type !== 'redirect') throw new HttpError(404, 'server.unknownProvider')
+    const pending = (await verifyValue(stateCookie)) as Record<string, string> | null
+    if (!pending || pending.provider !== provider.id) throw new HttpError(400, 'server.stateExpired')
+
+    const user = await provider.finish(url.searchParams, pending, `${authBaseUrl(request)}/api/auth/${provider.id}/callback`)
+    response = NextResponse.redirect(new URL(landingPath(user.role, pending.next), request.url))
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(user), sessionCookieOptions)
+  } catch (err) {
+    console.error('Sign-in callback error:', err)
+    const signIn = new URL('/signin', request.url)
+    signIn.searchParams.set('error', err instanceof HttpError ? err.code : 'signin.failed')
+    response = NextResponse.redirect(signIn)
+  }
+  response.cookies.delete(AUTH_STATE_COOKIE)
+  return response
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { findAuthProvider } from '@/lib/auth/providers'
+import { landingPath } from '@/lib/auth/roles'
+import { authBaseUrl } from '@/lib/auth/server'
+import {
+  AUTH_STATE_COOKIE,
+  AUTH_STATE_MAX_AGE_SECONDS,
+  SESSION_COOKIE,
+  createSessionToken,
+  sessionCookieOptions,
+  signValue,
+} from '@/lib/auth/session'
+import { HttpError, errorResponse, readJsonBody } from '@/lib/server/errors'
+
+interface RouteContext {
+  params: { provider: string }
+}
+
+// Credentials sign-in: answers with the page to open next and sets the session cookie
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const provider = findAuthProvider(params.provider)
+    if (!provider || provider.type !== 'credentials') throw new HttpError(404, 'server.unknownProvider')
+    const body = await readJsonBody(request)
+    const email = typeof body.email === 'string' ? body.email : ''
+    const password = typeof body.password === 'string' ? body.password : ''
+    const user = email && password ? await provider.authorize(email, password) : null
+    if (!user) throw new HttpError(401, 'server.incorrect')
+
+    const response = NextResponse.json({ redirect: landingPath(user.role, typeof body.next === 'string' ? body.next : null) })
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(user), sessionCookieOptions)
+    return response
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// Redirect sign-in: sends the browser to the identity provider
+export async function GET(request: Request, { params }: RouteContext) {
+  const provider = findAuthProvider(params.provider)
+  if (!provider || provider.type !== 'redirect') return errorResponse(new HttpError(404, 'server.unknownProvider'))
+  const next = new URL(request.url).searchParams.get('next') ?? ''
+  try {
+    const { url, state } = await provider.start(`${authBaseUrl(request)}/api/auth/${provider.id}/callback`)
+    const response = NextResponse.redirect(url)
+    response.cookies.set(AUTH_STATE_COOKIE, await signValue({ ...state, provider: provider.id, next }), {
+      ...sessionCookieOptions,
+      maxAge: AUTH_STATE_MAX_AGE_SECONDS,
+    })
+    return response
+  } catch (err) {
+    console.error('Sign-in start error:', err)
+    const signIn = new URL('/signin', request.url)
+    signIn.searchParams.set('error', err instanceof HttpError ? err.code : 'server.providerUnreachable')
+    return NextResponse.redirect(signIn)
+  }
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server'
+import { SESSION_COOKIE } from '@/lib/auth/session'
+
+// A plain form POST from the navigation, answered with a redirect to the landing page
+export async function POST(request: Request) {
+  const response = NextResponse.redirect(new URL('/', request.url), 303)
+  response.cookies.delete(SESSION_COOKIE)
+  return response
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server'
+import { errorResponse } from '@/lib/server/errors'
+import { readModelSettings } from '@/lib/server/modelSettings'
+
+export const dynamic = 'force-dynamic'
+
+// Read by every browser when it loads the model catalogue; thresholds are not secret
+export async function GET() {
+  try {
+    return NextResponse.json(await readModelSettings())
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server'
+import { requireSession } from '@/lib/auth/server'
+import { errorResponse, readJsonBody } from '@/lib/server/errors'
+import { recordSignOff } from '@/lib/server/signoffs'
+
+export async function POST(request: Request) {
+  try {
+    const session = await requireSession(['clinician'])
+    return NextResponse.json(await recordSignOff(session.user, await readJsonBody(request)), { status: 201 })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
@@ -0,0 +1,20 @@
+import ToolPage from '@/components/ToolPage'
+import AuscultationExam from '@/components/AuscultationExam'
+import { getServerTranslator } from '@/lib/i18n/server'
+
+export const metadata = {
+  title: 'Chest Exam | Respiratory Disease AI',
+}
+
+export default function ExamPage() {
+  const { t } = getServerTranslator()
+
+  return (
+    <ToolPage
+      title={t('page.exam.title')}
+      description={t('page.exam.description')}
+    >
+      <AuscultationExam />
+    </ToolPage>
+  )
+}
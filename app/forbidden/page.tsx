@@ -0,0 +1,31 @@
+import Link from 'next/link'
+import ToolPage from '@/components/ToolPage'
+import { ROLE_HOME, ROLE_LABELS } from '@/lib/auth/roles'
+import { getSession } from '@/lib/auth/server'
+import { getServerTranslator } from '@/lib/i18n/server'
+
+export const metadata = {
+  title: 'Not available | Respiratory Disease AI',
+}
+
+// Shown by the middleware in place of a page the signed-in role may not open
+export default async function ForbiddenPage() {
+  const { t } = getServerTranslator()
+  const session = await getSession()
+
+  return (
+    <ToolPage
+      title={t('page.forbidden.title')}
+      description={session ? t('page.forbidden.description', { role: t(ROLE_LABELS[session.user.role]) }) : ''}
+    >
+      <div className="text-center">
+        <Link
+          href={session ? ROLE_HOME[session.user.role] : '/signin'}
+          className="inline-block px-6 py-3 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg font-semibold hover:from-blue-700 hover:to-indigo-700 transition-colors"
+        >
+          {t(session ? 'forbidden.home' : 'nav.signIn')}
+        </Link>
+      </div>
+    </ToolPage>
+  )
+}
@@ -0,0 +1,20 @@
+import ToolPage from '@/components/ToolPage'
+import PatientHistory from '@/components/PatientHistory'
+import { getServerTranslator } from '@/lib/i18n/server'
+
+export const metadata = {
+  title: 'Patient History | Respiratory Disease AI',
+}
+
+export default function HistoryPage() {
+  const { t } = getServerTranslator()
+
+  return (
+    <ToolPage
+      title={t('page.history.title')}
+      description={t('page.history.description')}
+    >
+      <PatientHistory />
+    </ToolPage>
+  )
+}
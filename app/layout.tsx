@@ -1,5 +1,15 @@
 import './globals.css'
 import { Inter } from 'next/font/google'
+import { cookies } from 'next/headers'
+import SiteNav from '@/components/SiteNav'
+import SiteFooter from '@/components/SiteFooter'
+import OfflineSupport from '@/components/OfflineSupport'
+import LocaleProvider from '@/components/LocaleProvider'
+import MotionPreferences from '@/components/MotionPreferences'
+import SessionProvider from '@/components/SessionProvider'
+import { getSession } from '@/lib/auth/server'
+import { getServerTranslator } from '@/lib/i18n/server'
+import { REDUCED_MOTION_COOKIE } from '@/lib/motion'
 
 const inter = Inter({ subsets: ['latin'] })
 
@@ -8,14 +18,43 @@ export const metadata = {
   description: 'AI-powered respiratory disease classification from audio files',
 }
 
-export default function RootLayout({
+export const viewport = {
+  themeColor: '#2563eb',
+}
+
+export default async function RootLayout({
   children,
 }: {
   children: React.ReactNode
 }) {
+  const { locale, t } = getServerTranslator()
+  const reduceMotion = cookies().get(REDUCED_MOTION_COOKIE)?.value === '1'
+  const session = await getSession()
+
   return (
-    <html lang="en">
-      <body className={inter.className}>{children}</body>
+    <html lang={locale} className={reduceMotion ? 'reduce-motion' : undefined}>
+      <body className={inter.className}>
+        <LocaleProvider initialLocale={locale}>
+          <SessionProvider user={session?.user ?? null}>
+            <MotionPreferences initialReduced={reduceMotion}>
+              <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+                <a
+                  href="#main-content"
+                  className="sr-only focus:not-sr-only focus:fixed focus:top-2 focus:left-2 focus:z-[60] focus:px-4 focus:py-2 focus:bg-white focus:text-blue-700 focus:rounded-lg focus:shadow"
+                >
+                  {t('a11y.skipToContent')}
+                </a>
+                <SiteNav />
+                <main id="main-content" tabIndex={-1} className="focus:outline-none">
+                  {children}
+                </main>
+                <SiteFooter />
+                <OfflineSupport />
+              </div>
+            </MotionPreferences>
+          </SessionProvider>
+        </LocaleProvider>
+      </body>
     </html>
   )
 }
@@ -0,0 +1,17 @@
+import type { MetadataRoute } from 'next'
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'RespireX - Respiratory Disease AI',
+    short_name: 'RespireX',
+    description: 'AI-powered respiratory disease classification from audio files',
+    start_url: '/analyze',
+    display: 'standalone',
+    background_color: '#eff6ff',
+    theme_color: '#2563eb',
+    icons: [
+      { src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+      { src: '/logo.png', sizes: '1805x1657', type: 'image/png' },
+    ],
+  }
+}
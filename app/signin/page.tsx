@@ -0,0 +1,30 @@
+import { redirect } from 'next/navigation'
+import ToolPage from '@/components/ToolPage'
+import SignInForm from '@/components/SignInForm'
+import { summarizeProviders } from '@/lib/auth/providers'
+import { landingPath } from '@/lib/auth/roles'
+import { getSession } from '@/lib/auth/server'
+import { getServerTranslator } from '@/lib/i18n/server'
+
+export const metadata = {
+  title: 'Sign in | Respiratory Disease AI',
+}
+
+interface SignInPageProps {
+  searchParams: { next?: string; error?: string }
+}
+
+export default async function SignInPage({ searchParams }: SignInPageProps) {
+  const { t } = getServerTranslator()
+  const session = await getSession()
+  if (session) redirect(landingPath(session.user.role, searchParams.next))
+
+  return (
+    <ToolPage
+      title={t('page.signin.title')}
+      description={t('page.signin.description')}
+    >
+      <SignInForm providers={summarizeProviders()} next={searchParams.next ?? ''} error={searchParams.error} />
+    </ToolPage>
+  )
+}
@@ -0,0 +1,36 @@
+'use client'
+
+import Link from 'next/link'
+import { LogIn, LogOut, UserCircle } from 'lucide-react'
+import { ROLE_LABELS } from '@/lib/auth/roles'
+import { useI18n } from '@/lib/useI18n'
+import { useSession } from '@/lib/useSession'
+
+// Who is signed in and in which role, with a way out; a sign-in link for visitors
+export default function AccountMenu() {
+  const user = useSession()
+  const { t } = useI18n()
+
+  if (!user) {
+    return (
+      <Link href="/signin" className="flex items-center space-x-1 font-medium text-blue-600 hover:text-blue-700">
+        <LogIn className="w-4 h-4" aria-hidden />
+        <span>{t('nav.signIn')}</span>
+      </Link>
+    )
+  }
+
+  return (
+    <div className="flex items-center space-x-2 text-sm text-gray-600">
+      <UserCircle className="w-5 h-5" aria-hidden />
+      <span title={user.email}>
+        {user.name} <span className="text-gray-400">· {t(ROLE_LABELS[user.role])}</span>
+      </span>
+      <form action="/api/auth/signout" method="post">
+        <button type="submit" title={t('nav.signOut')} aria-label={t('nav.signOut')} className="p-1 rounded hover:text-blue-600">
+          <LogOut className="w-4 h-4" aria-hidden />
+        </button>
+      </form>
+    </div>
+  )
+}
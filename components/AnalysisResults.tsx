@@ -0,0 +1,317 @@
+'use client'
+
+import { useEffect, useId, useMemo, useRef, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { AlertCircle, AlertTriangle, CheckCircle, CloudOff } from 'lucide-react'
+import WaveformViewer from '@/components/WaveformViewer'
+import AnnotationTransfer from '@/components/AnnotationTransfer'
+import ReportButton from '@/components/ReportButton'
+import SignOffStatus from '@/components/SignOffStatus'
+import SegmentTimeline from '@/components/SegmentTimeline'
+import ExplanationPanel from '@/components/ExplanationPanel'
+import DecisionDetails from '@/components/DecisionDetails'
+import BreathingPanel from '@/components/BreathingPanel'
+import { getClassStyle, getConfidenceColor } from '@/components/predictionStyles'
+import type { PredictionResult } from '@/lib/api'
+import type { AnalysisRecord, CaseSelection } from '@/lib/cases'
+import { LabeledSegment, compareSegments, segmentsFromEvents } from '@/lib/annotationFormats'
+import { locateEvent } from '@/lib/breathing'
+import { assessResult } from '@/lib/decision'
+import { weighSaliency } from '@/lib/explanation'
+import { getClassColor, withAlpha } from '@/lib/models'
+import { predictedLabel } from '@/lib/predictions'
+import { AGGREGATION_METHODS, isSegmentedResult } from '@/lib/segmentation'
+import { useBreathing } from '@/lib/useBreathing'
+import { useI18n } from '@/lib/useI18n'
+
+interface AnalysisResultsProps {
+  result: PredictionResult | null
+  // Catalogue id of the model that produced the result
+  modelId: string
+  error: string | null
+  file: File | null
+  resultCase: CaseSelection
+  savedNote?: string | null
+  // History entry the result was saved as; sign-off needs one
+  savedRecord?: AnalysisRecord | null
+  onRecordChange?: (record: AnalysisRecord) => void
+  notice?: string | null
+}
+
+export default function AnalysisResults({
+  result,
+  modelId,
+  error,
+  file,
+  resultCase,
+  savedNote,
+  savedRecord,
+  onRecordChange,
+  notice,
+}: AnalysisResultsProps) {
+  const [referenceSegments, setReferenceSegments] = useState<LabeledSegment[]>([])
+  const [showSaliency, setShowSaliency] = useState(true)
+  const [showPhases, setShowPhases] = useState(true)
+  const [playbackTime, setPlaybackTime] = useState(0)
+  const breathing = useBreathing(result, file)
+  const i18n = useI18n()
+  const { t, formatNumber, formatPercent } = i18n
+  const explanation = result?.explanation
+  // Memoised so the waveform only redraws its regions when the result changes
+  const saliency = useMemo(() => weighSaliency(explanation?.windows ?? []), [explanation])
+  const decision = result ? assessResult(result, modelId, i18n) : null
+  const inconclusive = decision?.outcome === 'inconclusive'
+  const headingRef = useRef<HTMLHeadingElement>(null)
+  const probabilitiesId = useId()
+
+  // A reference annotation belongs to one recording
+  useEffect(() => setReferenceSegments([]), [file])
+
+  // Keyboard and screen-reader users land on the new result instead of staying on the analyze button
+  useEffect(() => {
+    if (result) headingRef.current?.focus()
+  }, [result])
+
+  const announcement = result && decision
+    ? t(inconclusive ? 'results.announceInconclusive' : 'results.announceComplete', {
+        label: predictedLabel(result),
+        confidence: formatPercent(result.confidence),
+      })
+    : ''
+
+  const detectedSegments = result && 'events' in result ? segmentsFromEvents(result.events) : []
+  const referenceComparison = referenceSegments.length > 0 && result && 'events' in result
+    ? compareSegments(referenceSegments, detectedSegments)
+    : null
+
+  return (
+    <div className="space-y-6">
+      {/* Always mounted so the verdict is announced when it arrives */}
+      <p role="status" className="sr-only">{announcement}</p>
+
+      <AnimatePresence>
+        {error && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            role="alert"
+            className="p-4 border-l-4 border-red-500 bg-red-50 rounded-lg"
+          >
+            <div className="flex items-center space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-500" aria-hidden />
+              <p className="text-red-700">{error}</p>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {notice && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            role="status"
+            className="p-4 border-l-4 border-blue-500 bg-blue-50 rounded-lg"
+          >
+            <div className="flex items-center space-x-3">
+              <CloudOff className="w-5 h-5 text-blue-500" aria-hidden />
+              <p className="text-blue-700">{notice}</p>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {result && decision && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            className="space-y-4"
+          >
+            {/* Prediction Results */}
+            <div
+              className={`p-6 bg-gradient-to-r rounded-lg ${inconclusive ? 'from-yellow-50 to-amber-50' : 'from-green-50 to-emerald-50'}`}
+            >
+              <div className="flex items-center space-x-3 mb-4">
+                {inconclusive ? <AlertTriangle className="w-6 h-6 text-yellow-500" aria-hidden /> : <CheckCircle className="w-6 h-6 text-green-500" aria-hidden />}
+                <h4 ref={headingRef} tabIndex={-1} className="text-lg font-semibold text-gray-900 focus:outline-none">
+                  {t(inconclusive ? 'results.inconclusive' : 'results.title')}
+                </h4>
+                {savedNote && <span className="ml-auto text-sm text-green-700">{savedNote}</span>}
+              </div>
+
+              <div className="space-y-4">
+                {/* Disease Prediction */}
+                <div className="p-4 bg-white rounded-lg">
+                  <h5 className="font-medium text-gray-900 mb-2">
+                    {t(inconclusive ? 'results.leading' : isSegmentedResult(result) ? 'results.overall' : 'results.predicted')}
+                  </h5>
+                  <div className="flex items-center justify-between">
+                    <span
+                      className="px-3 py-1 rounded-full text-sm font-medium"
+                      style={getClassStyle(predictedLabel(result), modelId)}
+                    >
+                      {predictedLabel(result)}
+                    </span>
+                    <span className={`text-lg font-bold ${getConfidenceColor(result.confidence, decision.threshold)}`}>
+                      {formatPercent(result.confidence)}
+                    </span>
+                  </div>
+                  {isSegmentedResult(result) && (
+                    <p className="mt-2 text-xs text-gray-500">
+                      {t('results.aggregation', { method: t(AGGREGATION_METHODS[result.aggregation].label), count: formatNumber(result.segments.length) })}
+                    </p>
+                  )}
+                  <DecisionDetails decision={decision} />
+                  {savedRecord && onRecordChange && (
+                    <div className="mt-3 pt-3 border-t border-gray-100">
+                      <SignOffStatus record={savedRecord} onSigned={onRecordChange} />
+                    </div>
+                  )}
+                </div>
+
+                {isSegmentedResult(result) && <SegmentTimeline result={result} modelId={modelId} />}
+
+                {/* Class Probabilities (only for disease model) */}
+                {'class_probabilities' in result && (
+                  <div>
+                    <h5 id={probabilitiesId} className="font-medium text-gray-900 mb-3">{t('results.probabilities')}</h5>
+                    {/* The bars are decorative; each row reads as its class name and percentage */}
+                    <ul aria-labelledby={probabilitiesId} className="space-y-2">
+                      {Object.entries(result.class_probabilities)
+                        .sort(([,a], [,b]) => b - a)
+                        .slice(0, 5)
+                        .map(([disease, probability]) => (
+                          <li key={disease} className="flex items-center justify-between">
+                            <span className="text-sm text-gray-600">{disease}</span>
+                            <div className="flex items-center space-x-2">
+                              <div className="w-20 bg-gray-200 rounded-full h-2" aria-hidden>
+                                <div
+                                  className="bg-blue-500 h-2 rounded-full transition-all duration-300"
+                                  style={{ width: `${probability * 100}%` }}
+                                />
+                              </div>
+                              <span className="text-sm text-gray-500 w-12 text-right">
+                                {formatPercent(probability)}
+                              </span>
+                            </div>
+                          </li>
+                        ))}
+                    </ul>
+                  </div>
+                )}
+
+                {explanation && (
+                  <ExplanationPanel
+                    explanation={explanation}
+                    windows={saliency}
+                    label={predictedLabel(result)}
+                    showOverlay={showSaliency}
+                    onShowOverlayChange={setShowSaliency}
+                  />
+                )}
+              </div>
+            </div>
+
+            {/* Waveform and Spectrogram */}
+            {file && (
+              <div className="p-4 bg-white rounded-lg border border-gray-100">
+                <div className="text-sm text-gray-600 mb-3">{file.name}</div>
+                <WaveformViewer
+                  file={file}
+                  events={'events' in result ? result.events : undefined}
+                  referenceSegments={referenceSegments}
+                  saliency={showSaliency ? saliency : undefined}
+                  cycles={showPhases ? breathing.cycles : undefined}
+                  // Tenths of a second are enough for the phase strip and spare a re-render per frame
+                  onTimeUpdate={(time) => setPlaybackTime(Math.round(time * 10) / 10)}
+                />
+                <div className="mt-3 space-y-2">
+                  <AnnotationTransfer
+                    segments={detectedSegments}
+                    source="model"
+                    recording={{ filename: file.name, duration: result.audio_info.duration }}
+                    onImport={(segments) => setReferenceSegments(segments)}
+                    importLabel={t('results.loadReference')}
+                  />
+                  {referenceComparison && (
+                    <p className="text-sm text-gray-600">{t('results.referenceComparison', referenceComparison)}</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {file && (
+              <BreathingPanel
+                cycles={breathing.cycles}
+                source={breathing.source}
+                isEstimating={breathing.isEstimating}
+                duration={result.audio_info.duration}
+                currentTime={playbackTime}
+                events={'events' in result ? result.events : []}
+                modelId={modelId}
+                showOnWaveform={showPhases}
+                onShowOnWaveformChange={setShowPhases}
+              />
+            )}
+
+            {/* Events */}
+            {('events' in result && result.events.length > 0) && (
+              <div className="p-6 bg-gradient-to-r from-orange-50 to-red-50 rounded-lg">
+                <h5 className="font-medium text-gray-900 mb-4">{t('results.events')}</h5>
+
+                {/* Event List */}
+                <ul className="space-y-2">
+                  {result.events.map((event, index) => (
+                    <li
+                      key={index}
+                      className="p-3 rounded-lg border-l-4"
+                      style={{
+                        borderColor: getClassColor(event.label, modelId),
+                        backgroundColor: withAlpha(getClassColor(event.label, modelId), 0.08),
+                      }}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                          <div
+                            className="w-3 h-3 rounded-full"
+                            style={{ backgroundColor: getClassColor(event.label, modelId) }}
+                            aria-hidden
+                          />
+                          <span className="font-medium capitalize">{event.label}</span>
+                          {breathing.cycles.length > 0 && (
+                            <span className="text-sm text-gray-600">{locateEvent(event, breathing.cycles).description}</span>
+                          )}
+                        </div>
+                        <div className="text-sm text-gray-600">
+                          {formatNumber(event.start)}s - {formatNumber(event.end)}s
+                          <span className="ml-2 text-xs">
+                            {t('results.eventConfidence', { confidence: formatPercent(event.confidence, 0) })}
+                          </span>
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <ReportButton
+              result={result}
+              model={modelId}
+              patientId={resultCase.patientId}
+              visit={resultCase.visit}
+              recording={file}
+              cycles={breathing.cycles}
+              analysedBy={savedRecord?.analysedBy}
+              signOff={savedRecord?.signOff}
+            />
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
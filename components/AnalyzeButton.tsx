@@ -0,0 +1,96 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2, Upload } from 'lucide-react'
+import type { RequestProgress } from '@/lib/api'
+import { describeProgress } from '@/lib/format'
+import { useI18n } from '@/lib/useI18n'
+
+interface AnalyzeButtonProps {
+  label: string
+  disabled: boolean
+  isUploading: boolean
+  onAnalyze: () => void
+  onCancel: () => void
+  // Shown while a multi-request analysis is running
+  segmentProgress?: { completed: number; total: number } | null
+  // Upload and server phase of the current request
+  requestProgress?: RequestProgress | null
+  // Retry or status message shown under the button while uploading
+  note?: string | null
+}
+
+export default function AnalyzeButton({
+  label,
+  disabled,
+  isUploading,
+  onAnalyze,
+  onCancel,
+  segmentProgress,
+  requestProgress,
+  note,
+}: AnalyzeButtonProps) {
+  const [elapsed, setElapsed] = useState(0)
+  const { t, formatNumber } = useI18n()
+
+  // A running clock shows the page is still working during a long server phase
+  useEffect(() => {
+    if (!isUploading) return
+    const started = Date.now()
+    setElapsed(0)
+    const timer = setInterval(() => setElapsed(Math.floor((Date.now() - started) / 1000)), 1000)
+    return () => clearInterval(timer)
+  }, [isUploading])
+
+  const status = segmentProgress
+    ? { text: t('analyze.segments', segmentProgress), fraction: segmentProgress.completed / segmentProgress.total }
+    : describeProgress(requestProgress)
+
+  return (
+    <>
+      <button
+        onClick={onAnalyze}
+        disabled={disabled || isUploading}
+        aria-busy={isUploading}
+        className="w-full py-3 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg font-semibold disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2 hover:shadow-lg transition-all duration-300"
+      >
+        {isUploading ? (
+          <>
+            <Loader2 className="w-4 h-4 animate-spin" aria-hidden />
+            <span>{status.text}</span>
+            {elapsed > 0 && <span className="font-normal opacity-75">{formatNumber(elapsed)} s</span>}
+          </>
+        ) : (
+          <>
+            <Upload className="w-4 h-4" aria-hidden />
+            <span>{label}</span>
+          </>
+        )}
+      </button>
+      {isUploading && status.fraction !== null && (
+        <div
+          role="progressbar"
+          aria-label={t('analyze.progress')}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(status.fraction * 100)}
+          className="w-full bg-gray-200 rounded-full h-1.5"
+        >
+          <div
+            className="bg-blue-500 h-1.5 rounded-full transition-all duration-300"
+            style={{ width: `${Math.round(status.fraction * 100)}%` }}
+          />
+        </div>
+      )}
+      {isUploading && note && <p role="status" className="text-sm text-yellow-700 text-center">{note}</p>}
+      {isUploading && (
+        <button
+          onClick={onCancel}
+          className="w-full py-2 bg-gray-200 text-gray-800 rounded-lg font-medium hover:bg-gray-300 transition-colors"
+        >
+          {t('analyze.cancel')}
+        </button>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,96 @@
+'use client'
+
+import { KeyboardEvent } from 'react'
+import { Trash2 } from 'lucide-react'
+import { Annotation, ANNOTATION_TYPE_LABELS, ANNOTATION_TYPES, AnnotationType } from '@/lib/annotations'
+import { useI18n } from '@/lib/useI18n'
+import { ANNOTATION_COLORS } from './AnnotationTimeline'
+
+interface AnnotationListProps {
+  annotations: Annotation[]
+  selectedId: string | null
+  onSelect: (id: string) => void
+  onUpdate: (id: string, patch: Partial<Omit<Annotation, 'id'>>) => void
+  onDelete: (id: string) => void
+}
+
+const blurOnEnter = (e: KeyboardEvent<HTMLInputElement>) => {
+  if (e.key === 'Enter') e.currentTarget.blur()
+}
+
+export default function AnnotationList({ annotations, selectedId, onSelect, onUpdate, onDelete }: AnnotationListProps) {
+  const { t, formatNumber } = useI18n()
+
+  // Times are committed on blur so each edit is a single undo step
+  const commitTime = (annotation: Annotation, field: 'start' | 'end', raw: string) => {
+    const value = Number(raw)
+    if (raw === '' || !Number.isFinite(value) || Math.abs(value - annotation[field]) < 0.005) return
+    onUpdate(annotation.id, { [field]: value })
+  }
+
+  return (
+    <div className="space-y-2 max-h-64 overflow-y-auto">
+      {annotations.map((annotation) => (
+        <div
+          key={annotation.id}
+          onClick={() => onSelect(annotation.id)}
+          // Tabbing into a row's fields selects it, so Delete and the timeline follow keyboard focus
+          onFocus={() => annotation.id !== selectedId && onSelect(annotation.id)}
+          className={`flex items-center space-x-2 text-sm p-2 rounded-lg cursor-pointer ${
+            annotation.id === selectedId ? 'bg-white shadow-sm ring-1 ring-gray-300' : 'hover:bg-white'
+          }`}
+        >
+          <span className={`w-2 h-2 rounded-full ${ANNOTATION_COLORS[annotation.type]}`} aria-hidden />
+          <select
+            value={annotation.type}
+            onChange={(e) => onUpdate(annotation.id, { type: e.target.value as AnnotationType })}
+            aria-label={t('annotation.eventType')}
+            className="p-1 border border-gray-300 rounded text-sm"
+          >
+            {ANNOTATION_TYPES.map((type) => (
+              <option key={type} value={type}>{t(ANNOTATION_TYPE_LABELS[type])}</option>
+            ))}
+          </select>
+          <input
+            key={`start-${annotation.start}`}
+            type="number"
+            step={0.05}
+            min={0}
+            defaultValue={annotation.start.toFixed(2)}
+            onBlur={(e) => commitTime(annotation, 'start', e.target.value)}
+            aria-label={t('annotation.startLabel', { type: t(ANNOTATION_TYPE_LABELS[annotation.type]) })}
+            onKeyDown={blurOnEnter}
+            className="w-20 p-1 border border-gray-300 rounded text-sm"
+          />
+          <span className="text-gray-400" aria-hidden>–</span>
+          <input
+            key={`end-${annotation.end}`}
+            type="number"
+            step={0.05}
+            min={0}
+            defaultValue={annotation.end.toFixed(2)}
+            onBlur={(e) => commitTime(annotation, 'end', e.target.value)}
+            aria-label={t('annotation.endLabel', { type: t(ANNOTATION_TYPE_LABELS[annotation.type]) })}
+            onKeyDown={blurOnEnter}
+            className="w-20 p-1 border border-gray-300 rounded text-sm"
+          />
+          <span className="text-gray-500">{t('annotation.secondsUnit')}</span>
+          <button
+            onClick={(e) => {
+              e.stopPropagation()
+              onDelete(annotation.id)
+            }}
+            title={t('annotation.delete')}
+            aria-label={t('annotation.deleteAt', {
+              type: t(ANNOTATION_TYPE_LABELS[annotation.type]),
+              time: formatNumber(annotation.start, { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+            })}
+            className="ml-auto p-1 text-gray-400 hover:text-red-600"
+          >
+            <Trash2 className="w-4 h-4" aria-hidden />
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
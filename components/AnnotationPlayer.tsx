@@ -0,0 +1,138 @@
+'use client'
+
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react'
+import { Play, Pause, RotateCcw } from 'lucide-react'
+import { useI18n } from '@/lib/useI18n'
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25]
+const REWIND_SECONDS = 2
+
+interface AnnotationPlayerProps {
+  file: Blob
+  onDurationChange?: (duration: number) => void
+  onTimeUpdate?: (time: number) => void
+}
+
+// Forwards the underlying audio element so callers can read currentTime at the moment of a key press
+const AnnotationPlayer = forwardRef<HTMLAudioElement | null, AnnotationPlayerProps>(function AnnotationPlayer(
+  { file, onDurationChange, onTimeUpdate },
+  ref
+) {
+  const audioRef = useRef<HTMLAudioElement>(null)
+  const [src, setSrc] = useState<string>()
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [duration, setDuration] = useState(0)
+  const [rate, setRate] = useState(1)
+  const { t, formatTime, formatNumber } = useI18n()
+
+  useImperativeHandle(ref, () => audioRef.current as HTMLAudioElement, [])
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file)
+    setSrc(url)
+    setCurrentTime(0)
+    setDuration(0)
+    return () => URL.revokeObjectURL(url)
+  }, [file])
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = rate
+  }, [rate, src])
+
+  const togglePlayPause = () => {
+    const audio = audioRef.current
+    if (!audio) return
+    if (audio.paused) {
+      audio.play()
+    } else {
+      audio.pause()
+    }
+  }
+
+  const seek = (time: number) => {
+    const audio = audioRef.current
+    if (!audio) return
+    audio.currentTime = Math.max(0, Math.min(duration, time))
+    setCurrentTime(audio.currentTime)
+  }
+
+  const handleLoadedMetadata = () => {
+    const audio = audioRef.current
+    if (!audio || !Number.isFinite(audio.duration)) return
+    audio.playbackRate = rate
+    setDuration(audio.duration)
+    onDurationChange?.(audio.duration)
+  }
+
+  const handleTimeUpdate = () => {
+    const time = audioRef.current?.currentTime ?? 0
+    setCurrentTime(time)
+    onTimeUpdate?.(time)
+  }
+
+  return (
+    <div className="p-4 bg-white rounded-lg border border-gray-200 space-y-3">
+      <div className="flex items-center space-x-3">
+        <button
+          onClick={togglePlayPause}
+          disabled={!duration}
+          aria-label={t(isPlaying ? 'player.pause' : 'player.play')}
+          className="w-10 h-10 bg-blue-600 text-white rounded-full flex items-center justify-center hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isPlaying ? <Pause className="w-5 h-5" aria-hidden /> : <Play className="w-5 h-5 ml-0.5" aria-hidden />}
+        </button>
+        <button
+          onClick={() => seek(currentTime - REWIND_SECONDS)}
+          disabled={!duration}
+          title={t('player.back', { seconds: REWIND_SECONDS })}
+          aria-label={t('player.back', { seconds: REWIND_SECONDS })}
+          className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg disabled:opacity-50"
+        >
+          <RotateCcw className="w-4 h-4" aria-hidden />
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step={0.01}
+          value={currentTime}
+          onChange={(e) => seek(Number(e.target.value))}
+          disabled={!duration}
+          aria-label={t('player.position')}
+          aria-valuetext={t('player.positionValue', { current: formatTime(currentTime), total: formatTime(duration) })}
+          className="flex-1"
+        />
+        <span className="text-xs text-gray-500 tabular-nums">
+          {formatTime(currentTime)} / {formatTime(duration)}
+        </span>
+      </div>
+
+      <label className="flex items-center justify-end space-x-2 text-sm">
+        <span className="text-gray-500">{t('player.speed')}</span>
+        <select
+          value={rate}
+          onChange={(e) => setRate(Number(e.target.value))}
+          className="p-1 border border-gray-300 rounded text-sm"
+        >
+          {PLAYBACK_RATES.map((value) => (
+            <option key={value} value={value}>{formatNumber(value)}x</option>
+          ))}
+        </select>
+      </label>
+
+      <audio
+        ref={audioRef}
+        src={src}
+        preload="metadata"
+        onLoadedMetadata={handleLoadedMetadata}
+        onTimeUpdate={handleTimeUpdate}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setIsPlaying(false)}
+      />
+    </div>
+  )
+})
+
+export default AnnotationPlayer
@@ -0,0 +1,167 @@
+'use client'
+
+import { useId, useRef, useState, KeyboardEvent, PointerEvent } from 'react'
+import { ANNOTATION_TYPE_LABELS, Annotation, AnnotationType, MIN_ANNOTATION_LENGTH, clampRange } from '@/lib/annotations'
+import { useI18n } from '@/lib/useI18n'
+
+export const ANNOTATION_COLORS: Record<AnnotationType, string> = {
+  crackle: 'bg-blue-500',
+  wheeze: 'bg-purple-500',
+}
+
+type DragMode = 'start' | 'end' | 'move'
+
+// Arrow keys step by the shortest mark a pointer can make
+const NUDGE_SECONDS = MIN_ANNOTATION_LENGTH
+
+interface Drag {
+  id: string
+  mode: DragMode
+  origin: number
+  start: number
+  end: number
+}
+
+interface AnnotationTimelineProps {
+  annotations: Annotation[]
+  duration: number
+  currentTime: number
+  selectedId: string | null
+  onSelect: (id: string | null) => void
+  onChange: (id: string, range: { start: number; end: number }) => void
+  onSeek: (time: number) => void
+}
+
+export default function AnnotationTimeline({
+  annotations,
+  duration,
+  currentTime,
+  selectedId,
+  onSelect,
+  onChange,
+  onSeek,
+}: AnnotationTimelineProps) {
+  const trackRef = useRef<HTMLDivElement>(null)
+  const hintId = useId()
+  const { t } = useI18n()
+  const dragRef = useRef<Drag | null>(null)
+  // Live range while dragging; committed to history once on release
+  const [draft, setDraft] = useState<{ id: string; start: number; end: number } | null>(null)
+
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect()
+    if (!rect || rect.width === 0) return 0
+    return Math.max(0, Math.min(duration, ((clientX - rect.left) / rect.width) * duration))
+  }
+
+  const beginDrag = (e: PointerEvent, annotation: Annotation, mode: DragMode) => {
+    e.stopPropagation()
+    trackRef.current?.setPointerCapture(e.pointerId)
+    dragRef.current = { id: annotation.id, mode, origin: timeAt(e.clientX), start: annotation.start, end: annotation.end }
+    setDraft({ id: annotation.id, start: annotation.start, end: annotation.end })
+    onSelect(annotation.id)
+  }
+
+  const handlePointerMove = (e: PointerEvent) => {
+    const drag = dragRef.current
+    if (!drag) return
+    const time = timeAt(e.clientX)
+    if (drag.mode === 'start') {
+      setDraft({ id: drag.id, ...clampRange(Math.min(time, drag.end), drag.end, duration) })
+    } else if (drag.mode === 'end') {
+      setDraft({ id: drag.id, ...clampRange(drag.start, Math.max(time, drag.start), duration) })
+    } else {
+      const length = drag.end - drag.start
+      const start = Math.max(0, Math.min(duration - length, drag.start + time - drag.origin))
+      setDraft({ id: drag.id, start, end: start + length })
+    }
+  }
+
+  const handlePointerUp = (e: PointerEvent) => {
+    const drag = dragRef.current
+    if (!drag) {
+      onSelect(null)
+      onSeek(timeAt(e.clientX))
+      return
+    }
+    dragRef.current = null
+    if (draft && (draft.start !== drag.start || draft.end !== drag.end)) {
+      onChange(drag.id, { start: draft.start, end: draft.end })
+    }
+    setDraft(null)
+  }
+
+  // Keyboard counterpart of dragging: arrows move the mark, Shift+arrows move its end
+  const handleKeyDown = (e: KeyboardEvent, annotation: Annotation) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      // Kept from the workspace hotkeys, where Space would toggle playback
+      e.preventDefault()
+      e.stopPropagation()
+      onSelect(annotation.id)
+      return
+    }
+    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return
+    e.preventDefault()
+    const step = e.key === 'ArrowLeft' ? -NUDGE_SECONDS : NUDGE_SECONDS
+    if (e.shiftKey) {
+      onChange(annotation.id, clampRange(annotation.start, annotation.end + step, duration))
+    } else {
+      const length = annotation.end - annotation.start
+      const start = Math.max(0, Math.min(duration - length, annotation.start + step))
+      onChange(annotation.id, { start, end: start + length })
+    }
+  }
+
+  const percent = (time: number) => (duration ? (time / duration) * 100 : 0)
+
+  return (
+    <div
+      ref={trackRef}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      role="group"
+      aria-label={t('annotation.timeline')}
+      aria-describedby={hintId}
+      className="relative h-12 bg-gray-100 rounded-lg cursor-pointer select-none touch-none"
+    >
+      <p id={hintId} className="sr-only">{t('annotation.timelineHint')}</p>
+      {annotations.map((annotation) => {
+        const range = draft?.id === annotation.id ? draft : annotation
+        const selected = annotation.id === selectedId
+        return (
+          <div
+            key={annotation.id}
+            onPointerDown={(e) => beginDrag(e, annotation, 'move')}
+            onKeyDown={(e) => handleKeyDown(e, annotation)}
+            onFocus={() => !selected && onSelect(annotation.id)}
+            tabIndex={0}
+            role="button"
+            aria-pressed={selected}
+            aria-label={t('annotation.mark', {
+              type: t(ANNOTATION_TYPE_LABELS[annotation.type]),
+              start: range.start.toFixed(2),
+              end: range.end.toFixed(2),
+            })}
+            className={`absolute top-1 bottom-1 rounded ${ANNOTATION_COLORS[annotation.type]} ${
+              selected ? 'opacity-90 ring-2 ring-offset-1 ring-gray-900' : 'opacity-60 hover:opacity-80'
+            } cursor-grab focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-1 focus-visible:ring-blue-600`}
+            style={{ left: `${percent(range.start)}%`, width: `${percent(range.end - range.start)}%` }}
+          >
+            <div
+              onPointerDown={(e) => beginDrag(e, annotation, 'start')}
+              className="absolute left-0 top-0 bottom-0 w-1.5 -ml-0.5 cursor-ew-resize bg-black/20 rounded-l"
+            />
+            <div
+              onPointerDown={(e) => beginDrag(e, annotation, 'end')}
+              className="absolute right-0 top-0 bottom-0 w-1.5 -mr-0.5 cursor-ew-resize bg-black/20 rounded-r"
+            />
+          </div>
+        )
+      })}
+      <div
+        className="absolute top-0 bottom-0 w-0.5 bg-red-600 pointer-events-none"
+        style={{ left: `${percent(currentTime)}%` }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import { ChangeEvent, useRef, useState } from 'react'
+import { Download, FileUp } from 'lucide-react'
+import {
+  ANNOTATION_FORMATS,
+  AnnotationDocument,
+  AnnotationFormat,
+  AnnotationFormatError,
+  LabeledSegment,
+  parseAnnotations,
+  serializeAnnotations,
+} from '@/lib/annotationFormats'
+import { baseName, downloadText } from '@/lib/download'
+import { useI18n } from '@/lib/useI18n'
+
+interface AnnotationTransferProps {
+  segments: LabeledSegment[]
+  source: AnnotationDocument['source']
+  recording?: { filename?: string; duration?: number }
+  // May return a note appended to the import confirmation
+  onImport?: (segments: LabeledSegment[], format: AnnotationFormat) => string | void
+  importLabel?: string
+}
+
+export default function AnnotationTransfer({
+  segments,
+  source,
+  recording,
+  onImport,
+  importLabel,
+}: AnnotationTransferProps) {
+  const { t } = useI18n()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
+
+  const handleExport = (format: AnnotationFormat) => {
+    const stem = `${baseName(recording?.filename || 'recording')}-${source}`
+    const text = serializeAnnotations(format, segments, source, recording)
+    downloadText(`${stem}${ANNOTATION_FORMATS[format].extension}`, text, format === 'json' ? 'application/json' : 'text/plain')
+  }
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0]
+    e.target.value = ''
+    if (!selected || !onImport) return
+    try {
+      const { format, segments: imported } = parseAnnotations(selected.name, await selected.text())
+      const note = onImport(imported, format)
+      setMessage({
+        text: note
+          ? t('annotationFile.loadedWithNote', { count: imported.length, format: t(ANNOTATION_FORMATS[format].label), note })
+          : t('annotationFile.loaded', { count: imported.length, format: t(ANNOTATION_FORMATS[format].label) }),
+        isError: false,
+      })
+    } catch (err) {
+      console.error('Annotation import error:', err)
+      setMessage({
+        text:
+          err instanceof AnnotationFormatError
+            ? t('annotationFile.unreadableDetail', { name: selected.name, message: err.message })
+            : t('annotationFile.unreadable', { name: selected.name }),
+        isError: true,
+      })
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {segments.length > 0 && (
+          <>
+            <span className="text-gray-500 flex items-center space-x-1">
+              <Download className="w-4 h-4" />
+              <span>{t('annotationFile.export')}</span>
+            </span>
+            {(Object.keys(ANNOTATION_FORMATS) as AnnotationFormat[]).map((format) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                className="px-2 py-1 bg-white border border-gray-300 rounded hover:bg-gray-50 text-gray-700"
+              >
+                {t(ANNOTATION_FORMATS[format].label)}
+              </button>
+            ))}
+          </>
+        )}
+        {onImport && (
+          <>
+            <button
+              onClick={() => inputRef.current?.click()}
+              className="px-2 py-1 bg-white border border-gray-300 rounded hover:bg-gray-50 text-gray-700 flex items-center space-x-1"
+            >
+              <FileUp className="w-4 h-4" />
+              <span>{importLabel ?? t('annotationFile.import')}</span>
+            </button>
+            <input ref={inputRef} type="file" accept=".txt,.json,.tsv" onChange={handleFile} className="hidden" />
+          </>
+        )}
+      </div>
+      {message && (
+        <p className={`text-xs ${message.isError ? 'text-red-600' : 'text-gray-500'}`}>{message.text}</p>
+      )}
+    </div>
+  )
+}
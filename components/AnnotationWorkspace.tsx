@@ -0,0 +1,319 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Stethoscope, Undo2, Redo2 } from 'lucide-react'
+import AudioDropzone from '@/components/AudioDropzone'
+import AnnotationPlayer from '@/components/AnnotationPlayer'
+import AnnotationTimeline from '@/components/AnnotationTimeline'
+import AnnotationList from '@/components/AnnotationList'
+import AnnotationTransfer from '@/components/AnnotationTransfer'
+import CaseDetails from '@/components/CaseDetails'
+import SelectedFile from '@/components/SelectedFile'
+import AnalyzeButton from '@/components/AnalyzeButton'
+import AnalysisResults from '@/components/AnalysisResults'
+import ModelSelect from '@/components/ModelSelect'
+import NoModelNotice from '@/components/NoModelNotice'
+import { respirex } from '@/lib/api'
+import {
+  ANNOTATION_TYPE_LABELS,
+  Annotation,
+  AnnotationType,
+  clampRange,
+  createAnnotation,
+  sortAnnotations,
+  toAnnotationEvents,
+} from '@/lib/annotations'
+import { LabeledSegment, annotationsFromSegments, segmentsFromAnnotations } from '@/lib/annotationFormats'
+import { CaseSelection, EMPTY_CASE } from '@/lib/cases'
+import { useAnalysis } from '@/lib/useAnalysis'
+import { useI18n } from '@/lib/useI18n'
+import { ModelChoice, useModelSelection } from '@/lib/useModels'
+import { useHistory } from '@/lib/useHistory'
+import { useSession } from '@/lib/useSession'
+
+export default function AnnotationWorkspace() {
+  const selection = useModelSelection('annotation_events')
+  if (!selection.model) return <NoModelNotice />
+  return <Workspace {...selection} model={selection.model} />
+}
+
+function Workspace({ models, model, setModelId }: ModelChoice) {
+  const [file, setFile] = useState<File | null>(null)
+  const [caseSelection, setCaseSelection] = useState<CaseSelection>(EMPTY_CASE)
+  const annotationHistory = useHistory<Annotation[]>([])
+  const annotations = annotationHistory.value
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null)
+  const [recordingDuration, setRecordingDuration] = useState(0)
+  const [playbackTime, setPlaybackTime] = useState(0)
+  // Read out by screen readers, since a mark made during playback gives no other non-visual feedback
+  const [announcement, setAnnouncement] = useState('')
+  const annotationAudioRef = useRef<HTMLAudioElement | null>(null)
+  const analysis = useAnalysis(model.id)
+  // Patient records are clinical data, so annotators label recordings without them
+  const keepsHistory = useSession()?.role === 'clinician'
+  const { t } = useI18n()
+
+  // Annotations are timestamps into a specific recording, so they are reset with it
+  const loadFile = (next: File | null) => {
+    setFile(next)
+    analysis.reset()
+    annotationHistory.reset([])
+    setSelectedAnnotationId(null)
+    setRecordingDuration(0)
+    setPlaybackTime(0)
+  }
+
+  const handleUpload = () => {
+    if (annotations.length === 0) {
+      analysis.setError(t('annotation.none'))
+      return
+    }
+    const request = { events: toAnnotationEvents(annotations), duration: recordingDuration }
+    analysis.analyze(
+      (signal, retry, onProgress) => retry(() => respirex.predictWithModel(model, request, { signal, onProgress })),
+      caseSelection,
+      () => file
+    )
+  }
+
+  // Timestamps come from the playback position, so pausing, seeking and slowing down stay accurate
+  const addAnnotation = (type: AnnotationType) => {
+    const audio = annotationAudioRef.current
+    if (!audio || !recordingDuration) return
+    const annotation = createAnnotation(type, audio.currentTime, recordingDuration)
+    annotationHistory.set((current) => sortAnnotations([...current, annotation]))
+    setSelectedAnnotationId(annotation.id)
+    setAnnouncement(t('annotation.announceMarked', { type: t(ANNOTATION_TYPE_LABELS[type]), time: annotation.start.toFixed(2) }))
+  }
+
+  const updateAnnotation = (id: string, patch: Partial<Omit<Annotation, 'id'>>) => {
+    annotationHistory.set((current) =>
+      sortAnnotations(current.map((annotation) => {
+        if (annotation.id !== id) return annotation
+        const next = { ...annotation, ...patch }
+        return { ...next, ...clampRange(next.start, next.end, recordingDuration) }
+      }))
+    )
+  }
+
+  const deleteAnnotation = (id: string) => {
+    const deleted = annotations.find((annotation) => annotation.id === id)
+    annotationHistory.set((current) => current.filter((annotation) => annotation.id !== id))
+    if (selectedAnnotationId === id) setSelectedAnnotationId(null)
+    if (deleted) {
+      setAnnouncement(t('annotation.announceDeleted', { type: t(ANNOTATION_TYPE_LABELS[deleted.type]), time: deleted.start.toFixed(2) }))
+    }
+  }
+
+  const selectAnnotation = (id: string | null) => {
+    setSelectedAnnotationId(id)
+    const annotation = annotations.find((a) => a.id === id)
+    if (annotation) seekAnnotationAudio(annotation.start)
+  }
+
+  const seekAnnotationAudio = (time: number) => {
+    if (annotationAudioRef.current) annotationAudioRef.current.currentTime = time
+  }
+
+  // Imported files replace the current marks as one undoable step
+  const importAnnotations = (segments: LabeledSegment[]) => {
+    const { annotations: imported, skipped } = annotationsFromSegments(segments, recordingDuration)
+    annotationHistory.set(imported)
+    setSelectedAnnotationId(null)
+    return skipped > 0 ? t('annotation.skipped', { count: skipped }) : undefined
+  }
+
+  const clearAnnotations = () => {
+    annotationHistory.set([])
+    setSelectedAnnotationId(null)
+    analysis.reset()
+  }
+
+  // Hotkeys: C crackle, W wheeze, Space play/pause, Delete removes the selection, Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z or Ctrl+Y redo
+  const hotkeyHandlerRef = useRef<(e: KeyboardEvent) => void>()
+  hotkeyHandlerRef.current = (e: KeyboardEvent) => {
+    if (!file) return
+    const target = e.target as HTMLElement
+    if (target.closest('input, select, textarea, [contenteditable="true"]')) return
+
+    const key = e.key.toLowerCase()
+    const modifier = e.ctrlKey || e.metaKey
+    if (modifier && key === 'z') {
+      e.preventDefault()
+      if (e.shiftKey) annotationHistory.redo()
+      else annotationHistory.undo()
+    } else if (modifier && key === 'y') {
+      e.preventDefault()
+      annotationHistory.redo()
+    } else if (modifier || e.altKey) {
+      return
+    } else if (key === 'c') {
+      addAnnotation('crackle')
+    } else if (key === 'w') {
+      addAnnotation('wheeze')
+    } else if (key === ' ' && annotationAudioRef.current && !target.closest('button')) {
+      e.preventDefault()
+      const audio = annotationAudioRef.current
+      if (audio.paused) audio.play()
+      else audio.pause()
+    } else if ((key === 'delete' || key === 'backspace') && selectedAnnotationId) {
+      e.preventDefault()
+      deleteAnnotation(selectedAnnotationId)
+    }
+  }
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => hotkeyHandlerRef.current?.(e)
+    window.addEventListener('keydown', handler)
+    return () => window.removeEventListener('keydown', handler)
+  }, [])
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <p role="status" className="sr-only">{announcement}</p>
+      <div className="space-y-6">
+        <ModelSelect models={models} value={model} onChange={setModelId} />
+        {keepsHistory && <CaseDetails value={caseSelection} onChange={setCaseSelection} refreshKey={analysis.historyVersion} />}
+
+        <div className="space-y-4">
+          <div className="text-center p-6 bg-gradient-to-r from-orange-50 to-red-50 rounded-lg border-2 border-orange-200">
+            <Stethoscope className="w-12 h-12 text-orange-500 mx-auto mb-4" aria-hidden />
+            <h4 className="text-lg font-semibold text-gray-900 mb-2">{t('annotation.title')}</h4>
+            <p className="text-gray-600 text-sm mb-4">{t('annotation.intro')}</p>
+
+            {/* Playback Controls */}
+            <div className="space-y-3">
+              {file ? (
+                <AnnotationPlayer
+                  ref={annotationAudioRef}
+                  file={file}
+                  onDurationChange={setRecordingDuration}
+                  onTimeUpdate={setPlaybackTime}
+                />
+              ) : (
+                <AudioDropzone onFile={loadFile} />
+              )}
+
+              {/* Event Buttons */}
+              {file && (
+                <>
+                  <div className="grid grid-cols-2 gap-3">
+                    <button
+                      onClick={() => addAnnotation('crackle')}
+                      disabled={!recordingDuration}
+                      aria-keyshortcuts="C"
+                      className="py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      {t('annotation.crackle')} <kbd className="ml-1 text-xs opacity-75" aria-hidden>C</kbd>
+                    </button>
+                    <button
+                      onClick={() => addAnnotation('wheeze')}
+                      disabled={!recordingDuration}
+                      aria-keyshortcuts="W"
+                      className="py-3 bg-purple-600 text-white rounded-lg font-semibold hover:bg-purple-700 transition-colors disabled:opacity-50"
+                    >
+                      {t('annotation.wheeze')} <kbd className="ml-1 text-xs opacity-75" aria-hidden>W</kbd>
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <button
+                      onClick={annotationHistory.undo}
+                      disabled={!annotationHistory.canUndo}
+                      title={t('annotation.undoHint')}
+                      aria-keyshortcuts="Control+Z Meta+Z"
+                      className="py-2 bg-white text-gray-700 border border-gray-300 rounded-lg font-medium hover:bg-gray-50 transition-colors disabled:opacity-50 flex items-center justify-center space-x-2"
+                    >
+                      <Undo2 className="w-4 h-4" aria-hidden />
+                      <span>{t('annotation.undo')}</span>
+                    </button>
+                    <button
+                      onClick={annotationHistory.redo}
+                      disabled={!annotationHistory.canRedo}
+                      title={t('annotation.redoHint')}
+                      aria-keyshortcuts="Control+Shift+Z Meta+Shift+Z Control+Y"
+                      className="py-2 bg-white text-gray-700 border border-gray-300 rounded-lg font-medium hover:bg-gray-50 transition-colors disabled:opacity-50 flex items-center justify-center space-x-2"
+                    >
+                      <Redo2 className="w-4 h-4" aria-hidden />
+                      <span>{t('annotation.redo')}</span>
+                    </button>
+                  </div>
+                </>
+              )}
+
+              {/* Clear Button */}
+              {annotations.length > 0 && (
+                <button
+                  onClick={clearAnnotations}
+                  className="w-full py-2 bg-gray-500 text-white rounded-lg font-medium hover:bg-gray-600 transition-colors"
+                >
+                  {t('annotation.clear')}
+                </button>
+              )}
+            </div>
+            {file && (
+              <p className="mt-3 text-xs text-gray-500">{t('annotation.shortcuts')}</p>
+            )}
+          </div>
+
+          {/* Timeline and Events List */}
+          {file && recordingDuration > 0 && (
+            <AnnotationTimeline
+              annotations={annotations}
+              duration={recordingDuration}
+              currentTime={playbackTime}
+              selectedId={selectedAnnotationId}
+              onSelect={setSelectedAnnotationId}
+              onChange={updateAnnotation}
+              onSeek={seekAnnotationAudio}
+            />
+          )}
+          {file && recordingDuration > 0 && (
+            <AnnotationTransfer
+              segments={segmentsFromAnnotations(annotations)}
+              source="annotator"
+              recording={{ filename: file.name, duration: recordingDuration }}
+              onImport={importAnnotations}
+            />
+          )}
+          {annotations.length > 0 && (
+            <div className="bg-gray-50 rounded-lg p-4">
+              <h5 className="font-semibold text-gray-900 mb-2">{t('annotation.marked')}</h5>
+              <AnnotationList
+                annotations={annotations}
+                selectedId={selectedAnnotationId}
+                onSelect={selectAnnotation}
+                onUpdate={updateAnnotation}
+                onDelete={deleteAnnotation}
+              />
+              <div className="mt-2 text-sm text-gray-600">
+                {t('annotation.total', { count: annotations.length })}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {file && <SelectedFile file={file} onClear={() => loadFile(null)} />}
+        <AnalyzeButton
+          label={t('annotation.analyze')}
+          disabled={annotations.length === 0}
+          isUploading={analysis.isUploading}
+          onAnalyze={handleUpload}
+          onCancel={analysis.cancel}
+          requestProgress={analysis.progress}
+          note={analysis.retryNote}
+        />
+      </div>
+
+      <AnalysisResults
+        result={analysis.result}
+        modelId={analysis.resultModel}
+        error={analysis.error}
+        file={file}
+        resultCase={analysis.resultCase}
+        savedNote={analysis.savedNote}
+        savedRecord={analysis.savedRecord}
+        onRecordChange={analysis.setSavedRecord}
+      />
+    </div>
+  )
+}
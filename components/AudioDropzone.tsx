@@ -0,0 +1,49 @@
+'use client'
+
+import { useDropzone } from 'react-dropzone'
+import { Upload } from 'lucide-react'
+import { AUDIO_ACCEPT } from '@/lib/audio/files'
+import { useI18n } from '@/lib/useI18n'
+
+interface AudioDropzoneProps {
+  onFile: (file: File) => void
+}
+
+export default function AudioDropzone({ onFile }: AudioDropzoneProps) {
+  const { t } = useI18n()
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    accept: AUDIO_ACCEPT,
+    multiple: false,
+    onDrop: (acceptedFiles) => {
+      if (acceptedFiles.length > 0) {
+        onFile(acceptedFiles[0])
+      }
+    }
+  })
+
+  return (
+    <div
+      {...getRootProps({ role: 'button', 'aria-label': t('dropzone.label') })}
+      className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
+        isDragActive
+          ? 'border-blue-500 bg-blue-50'
+          : 'border-gray-300 hover:border-blue-400 hover:bg-gray-50'
+      }`}
+    >
+      <input {...getInputProps()} />
+      <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" aria-hidden />
+      {isDragActive ? (
+        <p className="text-blue-600 font-medium">{t('dropzone.drop')}</p>
+      ) : (
+        <div>
+          <p className="text-gray-600 mb-2">
+            {t('dropzone.prompt')}
+          </p>
+          <p className="text-sm text-gray-500">
+            {t('dropzone.formats')}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+'use client'
+
+import { useEffect, useId, useRef, useState } from 'react'
+import { CheckCircle, AlertTriangle, XCircle, Loader2, ChevronDown, ChevronUp } from 'lucide-react'
+import { QualityReport, QualityStatus, checkAudioQuality } from '@/lib/audio/quality'
+import type { MessageKey } from '@/lib/i18n'
+import { useI18n } from '@/lib/useI18n'
+
+interface AudioQualityCheckProps {
+  file: File
+  onChange?: (report: QualityReport | null) => void
+}
+
+const STATUS_STYLES: Record<QualityStatus, string> = {
+  good: 'bg-green-50 border-green-200 text-green-800',
+  warning: 'bg-yellow-50 border-yellow-200 text-yellow-800',
+  blocked: 'bg-red-50 border-red-200 text-red-800',
+}
+
+const STATUS_LABELS: Record<QualityStatus, MessageKey> = {
+  good: 'quality.good',
+  warning: 'quality.warning',
+  blocked: 'quality.blocked',
+}
+
+export default function AudioQualityCheck({ file, onChange }: AudioQualityCheckProps) {
+  const i18n = useI18n()
+  const { t, formatNumber, formatPercent } = i18n
+  const [report, setReport] = useState<QualityReport | null>(null)
+  const [showDetails, setShowDetails] = useState(false)
+  const detailsId = useId()
+  const onChangeRef = useRef(onChange)
+
+  onChangeRef.current = onChange
+
+  useEffect(() => {
+    let cancelled = false
+    setReport(null)
+    onChangeRef.current?.(null)
+    // Re-checked when the language changes so the issues are worded in it
+    checkAudioQuality(file, i18n).then((next) => {
+      if (cancelled) return
+      setReport(next)
+      setShowDetails(next.status !== 'good')
+      onChangeRef.current?.(next)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [file, i18n])
+
+  if (!report) {
+    return (
+      <div className="p-3 rounded-lg border border-gray-200 bg-gray-50 text-sm text-gray-600 flex items-center space-x-2">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <span>{t('quality.checking')}</span>
+      </div>
+    )
+  }
+
+  const { metrics } = report
+  const oneDecimal = (value: number) => formatNumber(value, { minimumFractionDigits: 1, maximumFractionDigits: 1 })
+
+  return (
+    <div className={`p-3 rounded-lg border text-sm ${STATUS_STYLES[report.status]}`}>
+      <button
+        onClick={() => setShowDetails(!showDetails)}
+        aria-expanded={showDetails}
+        aria-controls={detailsId}
+        className="w-full flex items-center space-x-2 text-left"
+      >
+        {report.status === 'good' ? (
+          <CheckCircle className="w-4 h-4" />
+        ) : report.status === 'warning' ? (
+          <AlertTriangle className="w-4 h-4" />
+        ) : (
+          <XCircle className="w-4 h-4" />
+        )}
+        <span className="font-medium">{t(STATUS_LABELS[report.status])}</span>
+        {report.status !== 'blocked' && <span className="opacity-75">· {t('quality.score', { score: report.score })}</span>}
+        <span className="ml-auto">{showDetails ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}</span>
+      </button>
+
+      {showDetails && (
+        <div id={detailsId} className="mt-3 space-y-2">
+          {report.issues.length > 0 && (
+            <ul className="space-y-1">
+              {report.issues.map((issue) => (
+                <li key={issue.metric} className="flex items-start space-x-2">
+                  <span className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${issue.severity === 'blocking' ? 'bg-red-500' : 'bg-yellow-500'}`} />
+                  <span>{issue.message}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {metrics && (
+            <dl className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-1 text-xs opacity-80">
+              <div><dt className="inline">{t('quality.metric.duration')} </dt><dd className="inline">{t('quality.seconds', { value: oneDecimal(metrics.duration) })}</dd></div>
+              <div><dt className="inline">{t('quality.metric.sampleRate')} </dt><dd className="inline">{metrics.sampleRate ? t('quality.hertz', { value: formatNumber(metrics.sampleRate) }) : t('quality.notAvailable')}</dd></div>
+              <div><dt className="inline">{t('quality.metric.channels')} </dt><dd className="inline">{formatNumber(metrics.channels)}</dd></div>
+              <div><dt className="inline">{t('quality.metric.clipping')} </dt><dd className="inline">{formatPercent(metrics.clippingRatio, 2)}</dd></div>
+              <div><dt className="inline">{t('quality.metric.silence')} </dt><dd className="inline">{formatPercent(metrics.silenceRatio, 0)}</dd></div>
+              <div><dt className="inline">{t('quality.metric.snr')} </dt><dd className="inline">{t('quality.decibels', { value: oneDecimal(metrics.snrDb) })}</dd></div>
+            </dl>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
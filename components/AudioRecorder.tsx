@@ -0,0 +1,286 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Mic, Square, Loader2, RefreshCw } from 'lucide-react'
+import { decodeAudio, encodeWav, toMono } from '@/lib/audio/wav'
+import { useI18n } from '@/lib/useI18n'
+
+const TARGET_DURATIONS = [10, 15, 20, 30, 60]
+
+type RecorderStatus = 'idle' | 'recording' | 'processing'
+
+interface AudioRecorderProps {
+  onRecorded: (file: File) => void
+  disabled?: boolean
+}
+
+interface Session {
+  stream: MediaStream
+  context: AudioContext
+  recorder: MediaRecorder
+  chunks: Blob[]
+  frame: number
+  timer: ReturnType<typeof setInterval>
+  discard: boolean
+}
+
+// Stethoscopes need the raw signal; browser voice processing removes lung sounds
+const captureConstraints = (deviceId: string): MediaStreamConstraints => ({
+  audio: {
+    deviceId: deviceId ? { exact: deviceId } : undefined,
+    echoCancellation: false,
+    noiseSuppression: false,
+    autoGainControl: false,
+  },
+})
+
+export default function AudioRecorder({ onRecorded, disabled = false }: AudioRecorderProps) {
+  const { t, formatNumber } = useI18n()
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([])
+  const [deviceId, setDeviceId] = useState('')
+  const [targetSeconds, setTargetSeconds] = useState(20)
+  const [status, setStatus] = useState<RecorderStatus>('idle')
+  const [elapsed, setElapsed] = useState(0)
+  const [level, setLevel] = useState(0)
+  const [peak, setPeak] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [isSupported, setIsSupported] = useState(true)
+  const sessionRef = useRef<Session | null>(null)
+  const onRecordedRef = useRef(onRecorded)
+  onRecordedRef.current = onRecorded
+
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return
+    const all = await navigator.mediaDevices.enumerateDevices()
+    setDevices(all.filter((device) => device.kind === 'audioinput'))
+  }, [])
+
+  const teardown = useCallback((session: Session) => {
+    cancelAnimationFrame(session.frame)
+    clearInterval(session.timer)
+    session.stream.getTracks().forEach((track) => track.stop())
+    if (session.context.state !== 'closed') session.context.close()
+    setLevel(0)
+  }, [])
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      setIsSupported(false)
+      return
+    }
+    refreshDevices()
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices)
+    return () => {
+      navigator.mediaDevices.removeEventListener('devicechange', refreshDevices)
+      const session = sessionRef.current
+      if (session) {
+        session.discard = true
+        if (session.recorder.state !== 'inactive') session.recorder.stop()
+        teardown(session)
+        sessionRef.current = null
+      }
+    }
+  }, [refreshDevices, teardown])
+
+  const stopRecording = useCallback(() => {
+    const session = sessionRef.current
+    if (!session || session.recorder.state === 'inactive') return
+    setStatus('processing')
+    session.recorder.stop()
+  }, [])
+
+  const finish = async (session: Session, mimeType: string) => {
+    // Discarded sessions were already torn down on unmount
+    if (session.discard) return
+    teardown(session)
+    if (sessionRef.current === session) sessionRef.current = null
+
+    try {
+      const buffer = await decodeAudio(new Blob(session.chunks, { type: mimeType }))
+      const wav = encodeWav(toMono(buffer), buffer.sampleRate)
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+      onRecordedRef.current(new File([wav], `recording-${stamp}.wav`, { type: 'audio/wav' }))
+    } catch (err) {
+      console.error('Recording encode error:', err)
+      setError(t('recorder.encodeFailed'))
+    } finally {
+      setStatus('idle')
+    }
+  }
+
+  const startRecording = async () => {
+    setError(null)
+    setElapsed(0)
+    setPeak(0)
+
+    let stream: MediaStream
+    try {
+      stream = await navigator.mediaDevices.getUserMedia(captureConstraints(deviceId))
+    } catch (err) {
+      console.error('Microphone access error:', err)
+      setError(
+        err instanceof DOMException && err.name === 'NotAllowedError'
+          ? t('recorder.denied')
+          : t('recorder.deviceFailed')
+      )
+      return
+    }
+    // Device labels are only exposed once permission has been granted
+    refreshDevices()
+
+    const context = new AudioContext()
+    const analyser = context.createAnalyser()
+    analyser.fftSize = 2048
+    context.createMediaStreamSource(stream).connect(analyser)
+    const samples = new Float32Array(analyser.fftSize)
+
+    const recorder = new MediaRecorder(stream)
+    const startedAt = performance.now()
+    const session: Session = {
+      stream,
+      context,
+      recorder,
+      chunks: [],
+      frame: 0,
+      timer: setInterval(() => {
+        const seconds = (performance.now() - startedAt) / 1000
+        setElapsed(seconds)
+        if (seconds >= targetSeconds) stopRecording()
+      }, 100),
+      discard: false,
+    }
+
+    const meter = () => {
+      analyser.getFloatTimeDomainData(samples)
+      let sum = 0
+      let max = 0
+      for (let i = 0; i < samples.length; i++) {
+        sum += samples[i] * samples[i]
+        max = Math.max(max, Math.abs(samples[i]))
+      }
+      setLevel(Math.min(1, Math.sqrt(sum / samples.length) * 4))
+      setPeak((previous) => Math.max(previous, max))
+      session.frame = requestAnimationFrame(meter)
+    }
+    session.frame = requestAnimationFrame(meter)
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) session.chunks.push(e.data)
+    }
+    recorder.onstop = () => finish(session, recorder.mimeType)
+
+    sessionRef.current = session
+    recorder.start(250)
+    setStatus('recording')
+  }
+
+  if (!isSupported) {
+    return (
+      <p className="p-4 text-sm text-gray-600 bg-gray-50 rounded-lg">
+        {t('recorder.unsupported')}
+      </p>
+    )
+  }
+
+  const remaining = Math.max(0, targetSeconds - elapsed)
+
+  return (
+    <div className="space-y-4 p-6 bg-gray-50 rounded-lg border-2 border-gray-200">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('recorder.device')}</label>
+          <div className="flex space-x-2">
+            <select
+              value={deviceId}
+              onChange={(e) => setDeviceId(e.target.value)}
+              disabled={status !== 'idle'}
+              className="flex-1 min-w-0 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">{t('recorder.defaultDevice')}</option>
+              {devices.map((device, index) => (
+                <option key={device.deviceId || index} value={device.deviceId}>
+                  {device.label || t('recorder.deviceNumber', { number: index + 1 })}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={refreshDevices}
+              disabled={status !== 'idle'}
+              title={t('recorder.refresh')}
+              aria-label={t('recorder.refresh')}
+              className="p-2 text-gray-500 hover:bg-gray-200 rounded-lg disabled:opacity-50"
+            >
+              <RefreshCw className="w-4 h-4" aria-hidden />
+            </button>
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('recorder.duration')}</label>
+          <select
+            value={targetSeconds}
+            onChange={(e) => setTargetSeconds(Number(e.target.value))}
+            disabled={status !== 'idle'}
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {TARGET_DURATIONS.map((seconds) => (
+              <option key={seconds} value={seconds}>{t('recorder.seconds', { seconds })}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Level Meter */}
+      <div>
+        <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+          <span>{t('recorder.level')}</span>
+          {peak >= 0.99 && <span className="text-red-600 font-medium">{t('recorder.clipping')}</span>}
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
+          <div
+            className={`h-2 rounded-full transition-all duration-75 ${
+              level > 0.9 ? 'bg-red-500' : level > 0.6 ? 'bg-yellow-500' : 'bg-green-500'
+            }`}
+            style={{ width: `${level * 100}%` }}
+          />
+        </div>
+      </div>
+
+      {status === 'recording' && (
+        <div className="text-center">
+          <p className="text-3xl font-bold text-gray-900 tabular-nums">{t('recorder.remainingValue', { seconds: formatNumber(remaining, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) })}</p>
+          <p className="text-sm text-gray-500">{t('recorder.remaining')}</p>
+        </div>
+      )}
+
+      {status === 'recording' ? (
+        <button
+          onClick={stopRecording}
+          className="w-full py-3 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-colors flex items-center justify-center space-x-2"
+        >
+          <Square className="w-4 h-4" />
+          <span>{t('recorder.stop')}</span>
+        </button>
+      ) : (
+        <button
+          onClick={startRecording}
+          disabled={disabled || status === 'processing'}
+          className="w-full py-3 bg-green-600 text-white rounded-lg font-semibold hover:bg-green-700 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {status === 'processing' ? (
+            <>
+              <Loader2 className="w-4 h-4 animate-spin" />
+              <span>{t('recorder.encoding')}</span>
+            </>
+          ) : (
+            <>
+              <Mic className="w-4 h-4" />
+              <span>{t('recorder.start')}</span>
+            </>
+          )}
+        </button>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
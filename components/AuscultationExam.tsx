@@ -0,0 +1,159 @@
+'use client'
+
+import { useState } from 'react'
+import { useDropzone } from 'react-dropzone'
+import { FolderInput, RotateCcw } from 'lucide-react'
+import AnalyzeButton from '@/components/AnalyzeButton'
+import CaseDetails from '@/components/CaseDetails'
+import ChestMap from '@/components/ChestMap'
+import ExamSitePanel from '@/components/ExamSitePanel'
+import ExamSummary from '@/components/ExamSummary'
+import ModelSelect from '@/components/ModelSelect'
+import NoModelNotice from '@/components/NoModelNotice'
+import { AUDIO_ACCEPT, isAudioFile } from '@/lib/audio/files'
+import { EXAM_PROTOCOLS, ExamProtocolId, protocolSites, summarizeExam } from '@/lib/auscultation'
+import { CaseSelection, EMPTY_CASE } from '@/lib/cases'
+import { useAuscultation } from '@/lib/useAuscultation'
+import { useI18n } from '@/lib/useI18n'
+import { ModelChoice, useModelSelection } from '@/lib/useModels'
+
+export default function AuscultationExam() {
+  const { models, model, setModelId } = useModelSelection('audio')
+  // Each site needs class probabilities to be marked normal or abnormal
+  const classifiers = models.filter((item) => item.task === 'classification')
+  const classifier = classifiers.find((item) => item.id === model?.id) ?? classifiers[0]
+  if (!classifier) return <NoModelNotice />
+  return <Exam models={classifiers} model={classifier} setModelId={setModelId} />
+}
+
+function Exam({ models, model, setModelId }: ModelChoice) {
+  const { t } = useI18n()
+  const [protocolId, setProtocolId] = useState<ExamProtocolId>('basic')
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [caseSelection, setCaseSelection] = useState<CaseSelection>(EMPTY_CASE)
+  const [unmatched, setUnmatched] = useState<string[]>([])
+  const exam = useAuscultation()
+  const protocol = EXAM_PROTOCOLS.find((item) => item.id === protocolId) ?? EXAM_PROTOCOLS[0]
+  const sites = protocolSites(protocol)
+  const selectedIndex = Math.max(0, sites.findIndex((site) => site.id === selectedId))
+  const selected = sites[selectedIndex]
+  const summary = summarizeExam(sites, exam.slots, model.id)
+  const pending = sites.filter((site) => exam.slots[site.id]?.file && exam.slots[site.id].status !== 'done').length
+  const recorded = sites.filter((site) => exam.slots[site.id]?.file).length
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    accept: AUDIO_ACCEPT,
+    multiple: true,
+    disabled: exam.isRunning,
+    onDrop: (files) => setUnmatched(exam.assignFiles(files.filter(isAudioFile), sites)),
+  })
+
+  // Moves on to the next site still waiting for a recording, so the protocol can be worked through in order
+  const handleFile = (file: File | null) => {
+    if (exam.isRunning) return
+    exam.setFile(selected.id, file)
+    if (!file) return
+    const rest = sites.slice(selectedIndex + 1).concat(sites.slice(0, selectedIndex))
+    const next = rest.find((site) => !exam.slots[site.id]?.file)
+    if (next) setSelectedId(next.id)
+  }
+
+  const changeModel = (id: string) => {
+    setModelId(id)
+    exam.clearResults()
+  }
+
+  const startOver = () => {
+    exam.reset()
+    setUnmatched([])
+    setSelectedId(null)
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <div className="space-y-6">
+        {!exam.isRunning && <ModelSelect models={models} value={model} onChange={changeModel} />}
+
+        <div className="grid grid-cols-2 gap-2 p-1 bg-gray-100 rounded-lg">
+          {EXAM_PROTOCOLS.map((item) => (
+            <button
+              key={item.id}
+              onClick={() => setProtocolId(item.id)}
+              disabled={exam.isRunning}
+              title={t(item.description)}
+              className={`py-2 rounded-md text-sm font-medium transition-colors ${
+                protocolId === item.id ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {t(item.name)}
+            </button>
+          ))}
+        </div>
+        <p className="-mt-4 text-xs text-gray-500">{t(protocol.description)}</p>
+
+        <CaseDetails
+          value={caseSelection}
+          onChange={setCaseSelection}
+          refreshKey={exam.historyVersion}
+          showRecordingSite={false}
+        />
+
+        <ChestMap sites={sites} slots={exam.slots} modelId={model.id} selectedId={selected.id} onSelect={setSelectedId} />
+
+        <div
+          {...getRootProps()}
+          className={`border-2 border-dashed rounded-lg p-4 text-center cursor-pointer transition-colors ${
+            isDragActive ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-blue-400 hover:bg-gray-50'
+          } ${exam.isRunning ? 'opacity-50 cursor-not-allowed' : ''}`}
+        >
+          <input {...getInputProps()} />
+          <FolderInput className="w-6 h-6 text-gray-400 mx-auto mb-1" />
+          <p className="text-sm text-gray-600">{t('exam.dropAll')}</p>
+        </div>
+        {unmatched.length > 0 && (
+          <p className="text-sm text-yellow-700">
+            {t(unmatched.length === 1 ? 'exam.unmatchedOne' : 'exam.unmatched', { files: unmatched.join(', ') })}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-6">
+        <ExamSitePanel
+          key={selected.id}
+          site={selected}
+          position={selectedIndex + 1}
+          total={sites.length}
+          slot={exam.slots[selected.id]}
+          modelId={model.id}
+          disabled={exam.isRunning}
+          onFile={handleFile}
+          onPrevious={() => setSelectedId(sites[selectedIndex - 1].id)}
+          onNext={() => setSelectedId(sites[selectedIndex + 1].id)}
+        />
+
+        <AnalyzeButton
+          label={t(pending === 1 ? 'exam.analyzeOne' : 'exam.analyze', { count: pending })}
+          disabled={pending === 0}
+          isUploading={exam.isRunning}
+          onAnalyze={() => exam.analyze(model, sites, caseSelection)}
+          onCancel={exam.cancel}
+        />
+        {recorded < sites.length && pending > 0 && !exam.isRunning && (
+          <p className="-mt-4 text-xs text-gray-500">
+            {t('exam.missing', { count: sites.length - recorded, total: sites.length })}
+          </p>
+        )}
+
+        <ExamSummary summary={summary} total={sites.length} modelId={model.id} />
+        {exam.savedNote && <p className="text-sm text-green-700">{exam.savedNote}</p>}
+
+        {recorded > 0 && !exam.isRunning && (
+          <button onClick={startOver} className="text-sm text-gray-500 hover:text-red-600 flex items-center space-x-1">
+            <RotateCcw className="w-4 h-4" />
+            <span>{t('exam.startOver')}</span>
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
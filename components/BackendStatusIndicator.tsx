@@ -0,0 +1,33 @@
+'use client'
+
+import { BackendStatus, probeBackend } from '@/lib/backendStatus'
+import type { MessageKey } from '@/lib/i18n'
+import { useI18n } from '@/lib/useI18n'
+import { useBackendStatus } from '@/lib/useBackendStatus'
+
+const STATUS_STYLES: Record<BackendStatus, { dot: string; label: MessageKey; hint: MessageKey }> = {
+  unknown: { dot: 'bg-gray-300', label: 'backend.unknown', hint: 'backend.unknownHint' },
+  checking: { dot: 'bg-gray-400 animate-pulse', label: 'backend.checking', hint: 'backend.checkingHint' },
+  warming: { dot: 'bg-yellow-400 animate-pulse', label: 'backend.warming', hint: 'backend.warmingHint' },
+  ready: { dot: 'bg-green-500', label: 'backend.ready', hint: 'backend.readyHint' },
+  down: { dot: 'bg-red-500', label: 'backend.down', hint: 'backend.downHint' },
+}
+
+export default function BackendStatusIndicator() {
+  const { t, formatNumber } = useI18n()
+  const { status, latencyMs } = useBackendStatus()
+  const style = STATUS_STYLES[status]
+
+  return (
+    <button
+      onClick={() => probeBackend()}
+      title={t('backend.title', {
+        hint: status === 'ready' && latencyMs !== null ? t('backend.latency', { hint: t(style.hint), latency: formatNumber(latencyMs) }) : t(style.hint),
+      })}
+      className="flex items-center space-x-2 px-3 py-1 rounded-full border border-gray-200 bg-white text-xs text-gray-600 hover:border-gray-300"
+    >
+      <span className={`w-2 h-2 rounded-full ${style.dot}`} />
+      <span>{t(style.label)}</span>
+    </button>
+  )
+}
@@ -0,0 +1,399 @@
+'use client'
+
+import { ChangeEvent, useEffect, useRef, useState } from 'react'
+import { useDropzone } from 'react-dropzone'
+import {
+  Upload, FolderOpen, Play, Square, Trash2, RotateCcw, Download, Loader2,
+  CheckCircle, AlertCircle, Clock, ChevronUp, ChevronDown,
+} from 'lucide-react'
+import {
+  describeApiError,
+  isCancelled,
+  withRetry,
+  DiseasePredictionResult,
+  ModelInfo,
+} from '@/lib/api'
+import InconclusiveBadge from '@/components/InconclusiveBadge'
+import { runWithConcurrency } from '@/lib/concurrency'
+import { assessResult } from '@/lib/decision'
+import { classifyAudio } from '@/lib/models'
+import { rankProbabilities, formatPercent } from '@/lib/predictions'
+import { AUDIO_ACCEPT, isAudioFile } from '@/lib/audio/files'
+import { checkAudioQuality } from '@/lib/audio/quality'
+import { downloadText } from '@/lib/download'
+import type { MessageKey } from '@/lib/i18n'
+import { useI18n } from '@/lib/useI18n'
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4]
+const MAX_RETRIES = 2
+
+type BatchStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled'
+
+interface BatchItem {
+  id: number
+  file: File
+  status: BatchStatus
+  attempts: number
+  result?: DiseasePredictionResult
+  error?: string
+}
+
+type SortKey = 'name' | 'status' | 'prediction' | 'confidence'
+
+const STATUS_ORDER: Record<BatchStatus, number> = {
+  running: 0,
+  retrying: 1,
+  queued: 2,
+  failed: 3,
+  cancelled: 4,
+  done: 5,
+}
+
+const STATUS_STYLES: Record<BatchStatus, string> = {
+  queued: 'text-gray-600 bg-gray-100',
+  running: 'text-blue-700 bg-blue-100',
+  retrying: 'text-yellow-700 bg-yellow-100',
+  done: 'text-green-700 bg-green-100',
+  failed: 'text-red-700 bg-red-100',
+  cancelled: 'text-gray-500 bg-gray-100',
+}
+
+const STATUS_LABELS: Record<BatchStatus, MessageKey> = {
+  queued: 'status.queued',
+  running: 'status.running',
+  retrying: 'status.retrying',
+  done: 'status.done',
+  failed: 'status.failed',
+  cancelled: 'status.cancelled',
+}
+
+let nextItemId = 0
+
+const fileLabel = (file: File) => file.webkitRelativePath || file.name
+
+const csvCell = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`
+
+interface BatchAnalyzerProps {
+  model: ModelInfo
+}
+
+export default function BatchAnalyzer({ model }: BatchAnalyzerProps) {
+  const { t, formatNumber } = useI18n()
+  const [items, setItems] = useState<BatchItem[]>([])
+  const [concurrency, setConcurrency] = useState(2)
+  const [isRunning, setIsRunning] = useState(false)
+  const [sortKey, setSortKey] = useState<SortKey>('name')
+  const [sortAscending, setSortAscending] = useState(true)
+  const controllerRef = useRef<AbortController | null>(null)
+  const folderInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const addFiles = (files: File[]) => {
+    const audio = files.filter(isAudioFile)
+    setItems((current) => [
+      ...current,
+      ...audio.map((file) => ({ id: nextItemId++, file, status: 'queued' as BatchStatus, attempts: 0 })),
+    ])
+  }
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    accept: AUDIO_ACCEPT,
+    multiple: true,
+    disabled: isRunning,
+    onDrop: addFiles,
+  })
+
+  const handleFolder = (e: ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files || []))
+    e.target.value = ''
+  }
+
+  const updateItem = (id: number, patch: Partial<BatchItem>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...patch } : item)))
+  }
+
+  const analyze = async (item: BatchItem, signal: AbortSignal) => {
+    updateItem(item.id, { status: 'running', error: undefined, attempts: 0 })
+    // Files that would fail the pre-flight check on their own are not uploaded
+    const quality = await checkAudioQuality(item.file)
+    const blocking = quality.issues.filter((issue) => issue.severity === 'blocking')
+    if (blocking.length > 0) {
+      updateItem(item.id, { status: 'failed', error: t('quality.failed', { issues: blocking.map((issue) => issue.message).join(' ') }) })
+      return
+    }
+    try {
+      const result = await withRetry(
+        (attempt) => {
+          updateItem(item.id, { status: 'running', attempts: attempt })
+          return classifyAudio(model, item.file, { signal })
+        },
+        {
+          retries: MAX_RETRIES,
+          signal,
+          onRetry: (_attempt, err) => updateItem(item.id, { status: 'retrying', error: describeApiError(err) }),
+        }
+      )
+      updateItem(item.id, { status: 'done', result, error: undefined })
+    } catch (err) {
+      if (isCancelled(err) || signal.aborted) {
+        updateItem(item.id, { status: 'cancelled', error: undefined })
+      } else {
+        updateItem(item.id, { status: 'failed', error: describeApiError(err) })
+      }
+    }
+  }
+
+  const run = async (targets: BatchItem[]) => {
+    if (targets.length === 0) return
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setIsRunning(true)
+    try {
+      await runWithConcurrency(targets, concurrency, (item) => analyze(item, controller.signal), controller.signal)
+    } finally {
+      // Items that never started stay visible as cancelled rather than silently queued
+      if (controller.signal.aborted) {
+        const ids = targets.map((item) => item.id)
+        setItems((current) =>
+          current.map((item) => (ids.indexOf(item.id) !== -1 && item.status === 'queued' ? { ...item, status: 'cancelled' } : item))
+        )
+      }
+      if (controllerRef.current === controller) controllerRef.current = null
+      setIsRunning(false)
+    }
+  }
+
+  const startAll = () => {
+    const pending = items.filter((item) => item.status === 'queued' || item.status === 'cancelled' || item.status === 'failed')
+    setItems((current) =>
+      current.map((item) => (pending.some((p) => p.id === item.id) ? { ...item, status: 'queued', error: undefined } : item))
+    )
+    run(pending)
+  }
+
+  const retryItem = (item: BatchItem) => run([item])
+
+  const cancel = () => controllerRef.current?.abort()
+
+  const removeItem = (id: number) => setItems((current) => current.filter((item) => item.id !== id))
+
+  const clearFinished = () => setItems((current) => current.filter((item) => item.status !== 'done'))
+
+  const exportCsv = () => {
+    const header = ['file', 'status', 'prediction', 'confidence', 'outcome', 'top_1', 'top_2', 'top_3', 'error']
+    const rows = items.map((item) => {
+      const top = item.result ? rankProbabilities(item.result.class_probabilities).slice(0, 3) : []
+      return [
+        fileLabel(item.file),
+        item.status,
+        item.result?.prediction ?? '',
+        item.result ? item.result.confidence.toFixed(4) : '',
+        item.result ? assessResult(item.result, model.id).outcome : '',
+        ...[0, 1, 2].map((i) => (top[i] ? `${top[i].label} ${top[i].probability.toFixed(4)}` : '')),
+        item.error ?? '',
+      ]
+    })
+    const csv = [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n') + '\n'
+    downloadText(`respirex-batch-${new Date().toISOString().slice(0, 10)}.csv`, csv, 'text/csv')
+  }
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending)
+    } else {
+      setSortKey(key)
+      setSortAscending(key === 'name' || key === 'status')
+    }
+  }
+
+  const sorted = items.slice().sort((a, b) => {
+    let order = 0
+    if (sortKey === 'name') order = fileLabel(a.file).localeCompare(fileLabel(b.file))
+    if (sortKey === 'status') order = STATUS_ORDER[a.status] - STATUS_ORDER[b.status]
+    if (sortKey === 'prediction') order = (a.result?.prediction ?? '~').localeCompare(b.result?.prediction ?? '~')
+    if (sortKey === 'confidence') order = (a.result?.confidence ?? -1) - (b.result?.confidence ?? -1)
+    return sortAscending ? order : -order
+  })
+
+  const counts = items.reduce(
+    (acc, item) => ({ ...acc, [item.status]: (acc[item.status] || 0) + 1 }),
+    {} as Partial<Record<BatchStatus, number>>
+  )
+  const finished = (counts.done || 0) + (counts.failed || 0)
+  const hasPending = items.some((item) => item.status !== 'done' && item.status !== 'running' && item.status !== 'retrying')
+
+  const sortHeader = (label: string, column: SortKey) => (
+    <th key={column} className="px-3 py-2 text-left font-medium text-gray-700">
+      <button onClick={() => toggleSort(column)} className="flex items-center space-x-1 hover:text-blue-600">
+        <span>{label}</span>
+        {sortKey === column && (sortAscending ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />)}
+      </button>
+    </th>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div
+          {...getRootProps()}
+          className={`sm:col-span-2 border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
+            isDragActive ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-blue-400 hover:bg-gray-50'
+          } ${isRunning ? 'opacity-50 cursor-not-allowed' : ''}`}
+        >
+          <input {...getInputProps()} />
+          <Upload className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+          <p className="text-gray-600 text-sm">{t('batch.drop')}</p>
+        </div>
+        <button
+          onClick={() => folderInputRef.current?.click()}
+          disabled={isRunning}
+          className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-sm text-gray-600 hover:border-blue-400 hover:bg-gray-50 transition-colors disabled:opacity-50 flex flex-col items-center justify-center"
+        >
+          <FolderOpen className="w-8 h-8 text-gray-400 mb-2" />
+          {t('batch.folder')}
+        </button>
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          onChange={handleFolder}
+          className="hidden"
+          {...{ webkitdirectory: '', directory: '' }}
+        />
+      </div>
+
+      {items.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center gap-3">
+            {isRunning ? (
+              <button
+                onClick={cancel}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-colors flex items-center space-x-2"
+              >
+                <Square className="w-4 h-4" />
+                <span>{t('analyze.cancel')}</span>
+              </button>
+            ) : (
+              <button
+                onClick={startAll}
+                disabled={!hasPending}
+                className="px-4 py-2 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg font-semibold disabled:opacity-50 flex items-center space-x-2"
+              >
+                <Play className="w-4 h-4" />
+                <span>{t('batch.analyze', { count: items.filter((item) => item.status !== 'done').length })}</span>
+              </button>
+            )}
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <span>{t('batch.concurrency')}</span>
+              <select
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                disabled={isRunning}
+                className="p-1 border border-gray-300 rounded text-sm"
+              >
+                {CONCURRENCY_OPTIONS.map((value) => (
+                  <option key={value} value={value}>{formatNumber(value)}</option>
+                ))}
+              </select>
+            </label>
+            <div className="flex-1" />
+            <button
+              onClick={exportCsv}
+              className="px-3 py-2 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center space-x-1"
+            >
+              <Download className="w-4 h-4" />
+              <span>{t('batch.csv')}</span>
+            </button>
+            <button
+              onClick={clearFinished}
+              disabled={isRunning || !counts.done}
+              className="px-3 py-2 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              {t('batch.clear')}
+            </button>
+          </div>
+
+          <div>
+            <div className="flex justify-between text-xs text-gray-500 mb-1">
+              <span>{t('batch.processed', { count: finished, total: items.length })}</span>
+              <span>
+                {t('batch.counts', {
+                  done: counts.done || 0,
+                  failed: counts.failed || 0,
+                  running: (counts.running || 0) + (counts.retrying || 0),
+                })}
+              </span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-blue-500 h-2 rounded-full transition-all duration-300"
+                style={{ width: `${(finished / items.length) * 100}%` }}
+              />
+            </div>
+          </div>
+
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {sortHeader(t('batch.file'), 'name')}
+                  {sortHeader(t('batch.status'), 'status')}
+                  {sortHeader(t('batch.prediction'), 'prediction')}
+                  {sortHeader(t('batch.confidence'), 'confidence')}
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">{t('batch.top')}</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {sorted.map((item) => (
+                  <tr key={item.id} className="bg-white">
+                    <td className="px-3 py-2 text-gray-900 max-w-xs truncate" title={fileLabel(item.file)}>
+                      {fileLabel(item.file)}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className={`inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[item.status]}`}>
+                        {item.status === 'running' && <Loader2 className="w-3 h-3 animate-spin" />}
+                        {item.status === 'retrying' && <Clock className="w-3 h-3" />}
+                        {item.status === 'done' && <CheckCircle className="w-3 h-3" />}
+                        {item.status === 'failed' && <AlertCircle className="w-3 h-3" />}
+                        <span>{t(STATUS_LABELS[item.status])}</span>
+                        {item.attempts > 1 && <span>({item.attempts})</span>}
+                      </span>
+                      {item.error && <p className="text-xs text-red-600 mt-1">{item.error}</p>}
+                    </td>
+                    <td className="px-3 py-2 font-medium text-gray-900">
+                      {item.result?.prediction ?? '—'}
+                      {item.result && <InconclusiveBadge result={item.result} modelId={model.id} />}
+                    </td>
+                    <td className="px-3 py-2 tabular-nums">{item.result ? formatPercent(item.result.confidence) : '—'}</td>
+                    <td className="px-3 py-2 text-gray-600">
+                      {item.result
+                        ? rankProbabilities(item.result.class_probabilities)
+                            .slice(0, 3)
+                            .map((entry) => `${entry.label} ${formatPercent(entry.probability, 0)}`)
+                            .join(', ')
+                        : '—'}
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      {(item.status === 'failed' || item.status === 'cancelled') && !isRunning && (
+                        <button onClick={() => retryItem(item)} title={t('batch.retry')} aria-label={t('batch.retryFile', { name: item.file.name })} className="p-1 text-gray-400 hover:text-blue-600">
+                          <RotateCcw className="w-4 h-4" aria-hidden />
+                        </button>
+                      )}
+                      {!isRunning && (
+                        <button onClick={() => removeItem(item.id)} title={t('batch.remove')} aria-label={t('file.remove', { name: item.file.name })} className="p-1 text-gray-400 hover:text-red-600">
+                          <Trash2 className="w-4 h-4" aria-hidden />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
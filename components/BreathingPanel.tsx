@@ -0,0 +1,127 @@
+'use client'
+
+import { Wind } from 'lucide-react'
+import type { BreathingCycle, DetectedEvent } from '@/lib/api'
+import { BreathingSource, PHASE_COLORS, PHASE_LABELS, PhaseType, formatIeRatio, summarizeBreathing } from '@/lib/breathing'
+import { getClassColor } from '@/lib/models'
+import { useI18n } from '@/lib/useI18n'
+
+interface BreathingPanelProps {
+  cycles: BreathingCycle[]
+  source: BreathingSource
+  isEstimating: boolean
+  duration: number
+  currentTime: number
+  events: DetectedEvent[]
+  modelId?: string
+  showOnWaveform: boolean
+  onShowOnWaveformChange: (show: boolean) => void
+}
+
+const PHASES: PhaseType[] = ['inspiration', 'expiration']
+
+export default function BreathingPanel({
+  cycles,
+  source,
+  isEstimating,
+  duration,
+  currentTime,
+  events,
+  modelId,
+  showOnWaveform,
+  onShowOnWaveformChange,
+}: BreathingPanelProps) {
+  const { t, formatNumber } = useI18n()
+  const summary = summarizeBreathing(cycles)
+  const position = (time: number) => `${Math.min(100, Math.max(0, (time / duration) * 100))}%`
+
+  return (
+    <div className="p-4 bg-white rounded-lg border border-gray-100 space-y-3">
+      <div>
+        <h5 className="font-medium text-gray-900 flex items-center space-x-2">
+          <Wind className="w-4 h-4 text-sky-500" />
+          <span>{t('breathing.title')}</span>
+        </h5>
+        <p className="text-xs text-gray-500">
+          {t(source === 'server' ? 'breathing.fromServer' : 'breathing.estimated')}
+        </p>
+      </div>
+
+      {isEstimating ? (
+        <p className="text-sm text-gray-500">{t('breathing.finding')}</p>
+      ) : cycles.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('breathing.none')}</p>
+      ) : (
+        <>
+          <dl className="grid grid-cols-3 gap-2 text-center">
+            <div className="p-2 bg-gray-50 rounded">
+              <dt className="text-xs text-gray-500">{t('breathing.rate')}</dt>
+              <dd className="font-semibold text-gray-900">
+                {summary.ratePerMinute !== null ? t('breathing.perMinute', { rate: formatNumber(Math.round(summary.ratePerMinute)) }) : '—'}
+              </dd>
+            </div>
+            <div className="p-2 bg-gray-50 rounded">
+              <dt className="text-xs text-gray-500">{t('breathing.ieRatio')}</dt>
+              <dd className="font-semibold text-gray-900">{summary.ieRatio !== null ? formatIeRatio(summary.ieRatio) : '—'}</dd>
+            </div>
+            <div className="p-2 bg-gray-50 rounded">
+              <dt className="text-xs text-gray-500">{t('breathing.cycles')}</dt>
+              <dd className="font-semibold text-gray-900">{formatNumber(summary.cycles)}</dd>
+            </div>
+          </dl>
+
+          {/* Phases along the recording, with detected events above and the playback position.
+              Hidden from screen readers: the figures above and the results event list carry the same information */}
+          {duration > 0 && (
+            <div className="relative h-10" aria-hidden>
+              {events.map((event, index) => (
+                <span
+                  key={index}
+                  title={event.label}
+                  className="absolute top-0 h-2 rounded-sm"
+                  style={{
+                    left: position(event.start),
+                    width: `max(2px, ${((event.end - event.start) / duration) * 100}%)`,
+                    backgroundColor: getClassColor(event.label, modelId),
+                  }}
+                />
+              ))}
+              <div className="absolute inset-x-0 top-3 bottom-0 bg-gray-100 rounded overflow-hidden">
+                {cycles.map((cycle, index) =>
+                  PHASES.map((phase) => (
+                    <span
+                      key={`${index}-${phase}`}
+                      title={t('breathing.breath', { number: index + 1, phase: t(PHASE_LABELS[phase]) })}
+                      className="absolute inset-y-0"
+                      style={{
+                        left: position(cycle[phase].start),
+                        width: `${((cycle[phase].end - cycle[phase].start) / duration) * 100}%`,
+                        backgroundColor: PHASE_COLORS[phase],
+                      }}
+                    />
+                  ))
+                )}
+              </div>
+              <span className="absolute top-0 bottom-0 w-0.5 bg-gray-900" style={{ left: position(currentTime) }} />
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-600">
+            <span className="flex items-center space-x-3">
+              {PHASES.map((phase) => (
+                <span key={phase} className="flex items-center space-x-1">
+                  <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: PHASE_COLORS[phase] }} aria-hidden />
+                  <span>{t(PHASE_LABELS[phase])}</span>
+                </span>
+              ))}
+            </span>
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input type="checkbox" checked={showOnWaveform} onChange={(e) => onShowOnWaveformChange(e.target.checked)} />
+              <span>{t('breathing.shade')}</span>
+            </label>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
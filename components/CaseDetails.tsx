@@ -0,0 +1,199 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { UserPlus, User } from 'lucide-react'
+import {
+  AGE_BANDS,
+  AgeBand,
+  CaseSelection,
+  Patient,
+  PatientTakenError,
+  RECORDING_SITES,
+  SEXES,
+  SEX_LABELS,
+  Sex,
+  SYMPTOMS,
+  listPatients,
+  recordingSiteName,
+  savePatient,
+  symptomName,
+} from '@/lib/cases'
+import { isStorageAvailable } from '@/lib/storage/db'
+import { useI18n } from '@/lib/useI18n'
+import { useSession } from '@/lib/useSession'
+
+interface CaseDetailsProps {
+  value: CaseSelection
+  onChange: (value: CaseSelection) => void
+  refreshKey?: number
+  // Off where each recording carries its own site, as in the multi-site exam
+  showRecordingSite?: boolean
+}
+
+export default function CaseDetails({ value, onChange, refreshKey, showRecordingSite = true }: CaseDetailsProps) {
+  const i18n = useI18n()
+  const { t } = i18n
+  const userId = useSession()?.id
+  const [patients, setPatients] = useState<Patient[]>([])
+  const [isCreating, setIsCreating] = useState(false)
+  const [draft, setDraft] = useState<{ id: string; ageBand: AgeBand; sex: Sex }>({ id: '', ageBand: '18-39', sex: 'unknown' })
+  const [error, setError] = useState<string | null>(null)
+  const [isAvailable, setIsAvailable] = useState(true)
+
+  const refresh = useCallback(() => {
+    listPatients(userId)
+      .then(setPatients)
+      .catch((err) => console.error('Patient list error:', err))
+  }, [userId])
+
+  useEffect(() => {
+    if (!isStorageAvailable()) {
+      setIsAvailable(false)
+      return
+    }
+    refresh()
+  }, [refresh, refreshKey])
+
+  const createPatient = async () => {
+    const id = draft.id.trim()
+    if (!id) {
+      setError(t('case.idRequired'))
+      return
+    }
+    if (patients.some((patient) => patient.id === id)) {
+      setError(t('case.exists', { id }))
+      return
+    }
+    try {
+      await savePatient({ ...draft, id }, userId)
+      setIsCreating(false)
+      setError(null)
+      setDraft({ id: '', ageBand: draft.ageBand, sex: 'unknown' })
+      refresh()
+      onChange({ ...value, patientId: id })
+    } catch (err) {
+      // Another clinician's patient on a shared device is hidden from the list, not free to reuse
+      if (err instanceof PatientTakenError) {
+        setError(t('case.taken', { id }))
+        return
+      }
+      console.error('Save patient error:', err)
+      setError(t('case.saveFailed'))
+    }
+  }
+
+  const toggleSymptom = (symptom: string) => {
+    const symptoms = value.visit.symptoms.indexOf(symptom) === -1
+      ? [...value.visit.symptoms, symptom]
+      : value.visit.symptoms.filter((s) => s !== symptom)
+    onChange({ ...value, visit: { ...value.visit, symptoms } })
+  }
+
+  if (!isAvailable) return null
+
+  const selected = patients.find((patient) => patient.id === value.patientId)
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-gray-900 flex items-center space-x-2">
+          <User className="w-4 h-4 text-gray-500" />
+          <span>{t('case.title')}</span>
+        </h4>
+        <button
+          onClick={() => setIsCreating(!isCreating)}
+          className="text-sm text-blue-600 hover:text-blue-700 flex items-center space-x-1"
+        >
+          <UserPlus className="w-4 h-4" />
+          <span>{t(isCreating ? 'analyze.cancel' : 'case.new')}</span>
+        </button>
+      </div>
+
+      {isCreating ? (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <input
+            value={draft.id}
+            onChange={(e) => setDraft({ ...draft, id: e.target.value })}
+            placeholder={t('case.id')}
+            aria-label={t('case.id')}
+            className="p-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <select
+            value={draft.ageBand}
+            onChange={(e) => setDraft({ ...draft, ageBand: e.target.value as AgeBand })}
+            aria-label={t('case.ageBand')}
+            className="p-2 border border-gray-300 rounded-lg text-sm"
+          >
+            {AGE_BANDS.map((band) => (
+              <option key={band} value={band}>{t('case.age', { band })}</option>
+            ))}
+          </select>
+          <select
+            value={draft.sex}
+            onChange={(e) => setDraft({ ...draft, sex: e.target.value as Sex })}
+            aria-label={t('case.sex')}
+            className="p-2 border border-gray-300 rounded-lg text-sm"
+          >
+            {SEXES.map((sex) => (
+              <option key={sex} value={sex}>{t(SEX_LABELS[sex])}</option>
+            ))}
+          </select>
+          <button
+            onClick={createPatient}
+            className="sm:col-span-3 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+          >
+            {t('case.save')}
+          </button>
+        </div>
+      ) : (
+        <select
+          value={value.patientId ?? ''}
+          onChange={(e) => onChange({ ...value, patientId: e.target.value || null })}
+          className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+        >
+          <option value="">{t('case.none')}</option>
+          {patients.map((patient) => (
+            <option key={patient.id} value={patient.id}>
+              {patient.id} · {patient.ageBand} · {t(SEX_LABELS[patient.sex])}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {selected && !isCreating && (
+        <>
+          {showRecordingSite && (
+            <select
+              value={value.visit.recordingSite}
+              onChange={(e) => onChange({ ...value, visit: { ...value.visit, recordingSite: e.target.value } })}
+              className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="">{t('case.siteUnspecified')}</option>
+              {Object.keys(RECORDING_SITES).map((code) => (
+                <option key={code} value={code}>{recordingSiteName(code, i18n)} ({code})</option>
+              ))}
+            </select>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {SYMPTOMS.map((symptom) => {
+              const active = value.visit.symptoms.indexOf(symptom) !== -1
+              return (
+                <button
+                  key={symptom}
+                  onClick={() => toggleSymptom(symptom)}
+                  className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                    active ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  {symptomName(symptom, i18n)}
+                </button>
+              )
+            })}
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
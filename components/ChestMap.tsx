@@ -0,0 +1,106 @@
+'use client'
+
+import { KeyboardEvent } from 'react'
+import { FINDING_COLORS } from '@/components/predictionStyles'
+import { ChestView, EMPTY_SLOT, ExamSite, SiteSlot, siteFinding, siteName } from '@/lib/auscultation'
+import { MessageKey, Translator } from '@/lib/i18n'
+import { useI18n } from '@/lib/useI18n'
+
+const PENDING_COLOR = '#2563eb'
+
+const TORSO_PATH = 'M72 54 Q100 64 128 54 L160 66 Q172 72 170 92 L158 232 Q100 244 42 232 L30 92 Q28 72 40 66 Z'
+
+interface ChestMapProps {
+  sites: ExamSite[]
+  slots: Record<string, SiteSlot>
+  modelId?: string
+  selectedId: string | null
+  onSelect: (id: string) => void
+}
+
+const VIEW_TITLES: Record<ChestView, MessageKey> = { anterior: 'exam.front', posterior: 'exam.back' }
+
+// The patient's right and left as seen by the examiner, for each view
+const SIDE_MARKS: Record<ChestView, [MessageKey, MessageKey]> = {
+  anterior: ['exam.rightShort', 'exam.leftShort'],
+  posterior: ['exam.leftShort', 'exam.rightShort'],
+}
+
+const siteStyle = (slot: SiteSlot, modelId?: string) => {
+  if (slot.result) {
+    const color = FINDING_COLORS[siteFinding(slot.result, modelId)]
+    return { fill: color, stroke: color, text: '#ffffff' }
+  }
+  if (slot.status === 'failed') return { fill: '#ffffff', stroke: FINDING_COLORS.abnormal, text: FINDING_COLORS.abnormal }
+  if (slot.status === 'running' || slot.status === 'retrying') return { fill: PENDING_COLOR, stroke: PENDING_COLOR, text: '#ffffff' }
+  if (slot.file) return { fill: '#dbeafe', stroke: PENDING_COLOR, text: PENDING_COLOR }
+  return { fill: '#ffffff', stroke: '#9ca3af', text: '#6b7280' }
+}
+
+const describeSlot = (slot: SiteSlot, { t, formatPercent }: Translator) => {
+  if (slot.result) return `${slot.result.prediction} ${formatPercent(slot.result.confidence, 0)}`
+  if (slot.status === 'failed') return t('exam.slot.failed')
+  if (slot.status === 'running' || slot.status === 'retrying') return t('exam.slot.analyzing')
+  return t(slot.file ? 'exam.slot.recorded' : 'exam.slot.empty')
+}
+
+// Anterior and posterior body outlines with one marker per site, numbered in protocol order
+export default function ChestMap({ sites, slots, modelId, selectedId, onSelect }: ChestMapProps) {
+  const i18n = useI18n()
+  const { t } = i18n
+  const views: ChestView[] = ['anterior', 'posterior']
+
+  const handleKey = (e: KeyboardEvent, id: string) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault()
+      onSelect(id)
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {views.map((view) => (
+        <figure key={view} className="text-center">
+          <svg viewBox="0 0 200 260" className="w-full max-w-[220px] mx-auto">
+            <circle cx="100" cy="28" r="20" fill="#f3f4f6" stroke="#d1d5db" strokeWidth="2" />
+            <path d={TORSO_PATH} fill="#f3f4f6" stroke="#d1d5db" strokeWidth="2" />
+            {view === 'anterior' ? (
+              <line x1="100" y1="64" x2="100" y2="160" stroke="#d1d5db" strokeWidth="2" />
+            ) : (
+              <line x1="100" y1="60" x2="100" y2="230" stroke="#d1d5db" strokeWidth="2" strokeDasharray="4 4" />
+            )}
+            {/* The patient's sides, which swap between the two views */}
+            <text x="14" y="130" fontSize="12" fill="#9ca3af" textAnchor="middle">{t(SIDE_MARKS[view][0])}</text>
+            <text x="186" y="130" fontSize="12" fill="#9ca3af" textAnchor="middle">{t(SIDE_MARKS[view][1])}</text>
+            {sites.map((site, index) => {
+              if (site.view !== view) return null
+              const slot = slots[site.id] ?? EMPTY_SLOT
+              const style = siteStyle(slot, modelId)
+              const selected = site.id === selectedId
+              return (
+                <g
+                  key={site.id}
+                  role="button"
+                  tabIndex={0}
+                  aria-label={`${index + 1}. ${siteName(site, i18n)}: ${describeSlot(slot, i18n)}`}
+                  aria-pressed={selected}
+                  onClick={() => onSelect(site.id)}
+                  onKeyDown={(e) => handleKey(e, site.id)}
+                  className={`cursor-pointer outline-none ${slot.status === 'running' || slot.status === 'retrying' ? 'animate-pulse' : ''}`}
+                >
+                  <title>{`${siteName(site, i18n)} (${site.id}): ${describeSlot(slot, i18n)}`}</title>
+                  {selected && <circle cx={site.x} cy={site.y} r="15" fill="none" stroke="#1d4ed8" strokeWidth="2.5" />}
+                  <circle cx={site.x} cy={site.y} r="11" fill={style.fill} stroke={style.stroke} strokeWidth="2" />
+                  <text x={site.x} y={site.y + 4} fontSize="11" fontWeight="600" fill={style.text} textAnchor="middle">
+                    {index + 1}
+                  </text>
+                </g>
+              )
+            })}
+          </svg>
+          <figcaption className="text-sm font-medium text-gray-700">{t(VIEW_TITLES[view])}</figcaption>
+        </figure>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+'use client'
+
+import { GitCompare } from 'lucide-react'
+import type { ModelInfo } from '@/lib/api'
+import { useI18n } from '@/lib/useI18n'
+
+interface ComparisonPanelProps {
+  enabled: boolean
+  onEnabledChange: (enabled: boolean) => void
+  models: ModelInfo[]
+  // Ids of the models to compare
+  selected: string[]
+  onChange: (selected: string[]) => void
+}
+
+export default function ComparisonPanel({ enabled, onEnabledChange, models, selected, onChange }: ComparisonPanelProps) {
+  const { t } = useI18n()
+
+  // Comparing needs at least two models that take a recording
+  if (models.length < 2) return null
+
+  const toggle = (id: string, checked: boolean) =>
+    onChange(checked ? selected.concat(id) : selected.filter((other) => other !== id))
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-3 text-sm">
+      <label className="flex items-center space-x-2 font-medium text-gray-900 cursor-pointer">
+        <input type="checkbox" checked={enabled} onChange={(e) => onEnabledChange(e.target.checked)} />
+        <GitCompare className="w-4 h-4 text-gray-500" />
+        <span>{t('comparison.enable')}</span>
+      </label>
+
+      {enabled && (
+        <div className="space-y-2 text-gray-700">
+          {models.map((model) => (
+            <label key={model.id} className="flex items-start space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.indexOf(model.id) !== -1}
+                onChange={(e) => toggle(model.id, e.target.checked)}
+                className="mt-1"
+              />
+              <span>
+                {model.name}
+                {model.version && <span className="text-gray-500"> ({model.version})</span>}
+                {model.description && <span className="block text-xs text-gray-500">{model.description}</span>}
+              </span>
+            </label>
+          ))}
+          <p className="text-xs text-gray-500">
+            {t('comparison.selected', { count: selected.length })}
+            {selected.length < 2 && ` ${t('comparison.pickTwo')}`}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
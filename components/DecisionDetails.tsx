@@ -0,0 +1,58 @@
+'use client'
+
+import { ArrowRight } from 'lucide-react'
+import type { Decision } from '@/lib/decision'
+import { useI18n } from '@/lib/useI18n'
+
+interface DecisionDetailsProps {
+  decision: Decision
+}
+
+// Uncertainty metrics, the reasons a result is inconclusive and the recommended next step
+export default function DecisionDetails({ decision }: DecisionDetailsProps) {
+  const inconclusive = decision.outcome === 'inconclusive'
+  const { t, formatNumber, formatPercent } = useI18n()
+
+  return (
+    <div className="mt-3 space-y-2 text-sm">
+      <dl className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+        <div title={t('decision.thresholdHint')}>
+          <dt className="inline">{t('decision.threshold')} </dt>
+          <dd className="inline font-medium text-gray-700">{formatPercent(decision.threshold, 0)}</dd>
+        </div>
+        {decision.margin !== undefined && (
+          <div title={t('decision.marginHint')}>
+            <dt className="inline">{t('decision.margin', { label: decision.runnerUp ?? '' })} </dt>
+            <dd className={`inline font-medium ${decision.margin < decision.minMargin ? 'text-red-600' : 'text-gray-700'}`}>
+              {formatPercent(decision.margin)}
+            </dd>
+          </div>
+        )}
+        {decision.entropy !== undefined && (
+          <div title={t('decision.entropyHint')}>
+            <dt className="inline">{t('decision.entropy')} </dt>
+            <dd className="inline font-medium text-gray-700">
+              {formatNumber(decision.entropy, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+            </dd>
+          </div>
+        )}
+      </dl>
+
+      {inconclusive && (
+        <ul className="list-disc list-inside text-yellow-800">
+          {decision.reasons.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      )}
+
+      <p className={`flex items-start space-x-2 p-2 rounded ${inconclusive ? 'bg-yellow-50 text-yellow-900' : 'bg-blue-50 text-blue-900'}`}>
+        <ArrowRight className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        <span>
+          <span className="font-medium">{t('decision.nextStep')} </span>
+          {decision.action}
+        </span>
+      </p>
+    </div>
+  )
+}
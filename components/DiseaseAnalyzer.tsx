@@ -0,0 +1,268 @@
+'use client'
+
+import { useState } from 'react'
+import { Upload, Mic, Layers } from 'lucide-react'
+import AudioDropzone from '@/components/AudioDropzone'
+import AudioRecorder from '@/components/AudioRecorder'
+import BatchAnalyzer from '@/components/BatchAnalyzer'
+import CaseDetails from '@/components/CaseDetails'
+import SelectedFile from '@/components/SelectedFile'
+import AudioQualityCheck from '@/components/AudioQualityCheck'
+import PreprocessPanel from '@/components/PreprocessPanel'
+import SegmentPanel from '@/components/SegmentPanel'
+import ModelSelect from '@/components/ModelSelect'
+import NoModelNotice from '@/components/NoModelNotice'
+import ComparisonPanel from '@/components/ComparisonPanel'
+import AnalyzeButton from '@/components/AnalyzeButton'
+import AnalysisResults from '@/components/AnalysisResults'
+import ModelComparison from '@/components/ModelComparison'
+import OutboxPanel from '@/components/OutboxPanel'
+import { ApiError, RequestProgress, isRetryable, respirex } from '@/lib/api'
+import type { QualityReport } from '@/lib/audio/quality'
+import { DEFAULT_PREPROCESS_OPTIONS, PreprocessOptions, preprocessAudio } from '@/lib/audio/preprocess'
+import { warmUpBackend } from '@/lib/backendStatus'
+import { CaseSelection, EMPTY_CASE, toRecordAuthor } from '@/lib/cases'
+import { classifyAudio } from '@/lib/models'
+import { enqueueAnalysis } from '@/lib/outbox'
+import {
+  AggregationMethod,
+  DEFAULT_SEGMENT_OPTIONS,
+  LONG_RECORDING_SECONDS,
+  SegmentOptions,
+  predictInSegments,
+} from '@/lib/segmentation'
+import { RetryRunner, useAnalysis } from '@/lib/useAnalysis'
+import { useComparison } from '@/lib/useComparison'
+import { useI18n } from '@/lib/useI18n'
+import { ModelChoice, useModelSelection } from '@/lib/useModels'
+import { useSession } from '@/lib/useSession'
+
+type InputMode = 'upload' | 'record' | 'batch'
+
+export default function DiseaseAnalyzer() {
+  const selection = useModelSelection('audio')
+  if (!selection.model) return <NoModelNotice />
+  return <Analyzer {...selection} model={selection.model} />
+}
+
+function Analyzer({ models, model, setModelId }: ModelChoice) {
+  const [file, setFile] = useState<File | null>(null)
+  // The audio the current result was computed on; preprocessing may have trimmed it, and result times follow the trim
+  const [analysedFile, setAnalysedFile] = useState<File | null>(null)
+  const [inputMode, setInputMode] = useState<InputMode>('upload')
+  const [caseSelection, setCaseSelection] = useState<CaseSelection>(EMPTY_CASE)
+  const [quality, setQuality] = useState<QualityReport | null>(null)
+  const [preprocessEnabled, setPreprocessEnabled] = useState(false)
+  const [preprocessOptions, setPreprocessOptions] = useState<PreprocessOptions>(DEFAULT_PREPROCESS_OPTIONS)
+  const [segmentEnabled, setSegmentEnabled] = useState(false)
+  const [segmentOptions, setSegmentOptions] = useState<SegmentOptions>(DEFAULT_SEGMENT_OPTIONS)
+  const [aggregation, setAggregation] = useState<AggregationMethod>('mean')
+  const [segmentProgress, setSegmentProgress] = useState<{ completed: number; total: number } | null>(null)
+  const [compareEnabled, setCompareEnabled] = useState(false)
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const analysis = useAnalysis(model.id)
+  const comparison = useComparison()
+  const { t } = useI18n()
+  const user = useSession()
+  // Segmentation, batches and the offline outbox all combine class probabilities
+  const canClassify = model.task === 'classification'
+  const isComparing = compareEnabled && models.length > 1
+  const compareModels = models.filter((item) => compareIds.indexOf(item.id) !== -1)
+
+  const loadFile = (next: File | null) => {
+    setFile(next)
+    setAnalysedFile(null)
+    analysis.reset()
+    comparison.reset()
+    if (next) warmUpBackend()
+    // A trim range only makes sense for the recording it was set on
+    setPreprocessOptions((current) => ({ ...current, trim: null }))
+  }
+
+  const handleQuality = (report: QualityReport | null) => {
+    setQuality(report)
+    // Long recordings are split by default; the user can still turn it off
+    if (report?.metrics) setSegmentEnabled(report.metrics.duration > LONG_RECORDING_SECONDS)
+  }
+
+  // Starts from the current model plus the next one so a comparison is one click away
+  const toggleCompare = (enabled: boolean) => {
+    setCompareEnabled(enabled)
+    if (enabled && compareIds.length === 0) {
+      setCompareIds([model.id].concat(models.filter((item) => item.id !== model.id).slice(0, 1).map((item) => item.id)))
+    }
+  }
+
+  const handleCompare = () => {
+    if (!file || quality?.status === 'blocked' || compareModels.length < 2) return
+    comparison.compare(
+      compareModels,
+      async (signal) => (preprocessEnabled ? (await preprocessAudio(file, preprocessOptions, signal)).file : file),
+      caseSelection
+    )
+  }
+
+  const handleUpload = () => {
+    if (!file || quality?.status === 'blocked') return
+    const segmented = segmentEnabled && canClassify
+    const segmentation = segmented ? { options: segmentOptions, method: aggregation } : null
+    let upload = file
+    const predict = async (signal: AbortSignal, retry: RetryRunner, onProgress: (progress: RequestProgress) => void) => {
+      if (!canClassify) return retry(() => respirex.predictWithModel(model, upload, { signal, onProgress }))
+      if (!segmented) return retry(() => classifyAudio(model, upload, { signal, onProgress }))
+      try {
+        return await predictInSegments(upload, model, segmentOptions, aggregation, signal, (completed, total) =>
+          setSegmentProgress({ completed, total })
+        )
+      } finally {
+        setSegmentProgress(null)
+      }
+    }
+    analysis.analyze(async (signal, retry, onProgress) => {
+      if (preprocessEnabled) upload = (await preprocessAudio(file, preprocessOptions, signal)).file
+      if (!navigator.onLine) throw new ApiError('network', 'browser is offline')
+      const response = await predict(signal, retry, onProgress)
+      setAnalysedFile(upload)
+      return response
+    }, caseSelection, () => upload, async (err) => {
+      // Keep the recording rather than lose it to a dropped connection or a server that never woke up
+      if (!isRetryable(err) || !canClassify) return null
+      await enqueueAnalysis({
+        upload,
+        caseSelection,
+        analysedBy: toRecordAuthor(user),
+        model,
+        segmentation,
+      })
+      return t('analyze.queuedOffline')
+    })
+  }
+
+  const trim = preprocessEnabled ? preprocessOptions.trim : null
+  const analysedDuration = trim ? trim.end - trim.start : quality?.metrics?.duration
+
+  // Batches need class probabilities and a single model; otherwise only single uploads
+  const inputModes: InputMode[] = canClassify && !isComparing ? ['upload', 'record', 'batch'] : ['upload', 'record']
+  const activeMode = inputModes.indexOf(inputMode) !== -1 ? inputMode : 'upload'
+  const isBatchMode = activeMode === 'batch'
+
+  return (
+    <div className={`grid grid-cols-1 gap-8 ${isBatchMode ? '' : 'lg:grid-cols-2'}`}>
+      <div className="space-y-6">
+        {!isComparing && <ModelSelect models={models} value={model} onChange={setModelId} />}
+        {!isBatchMode && (
+          <ComparisonPanel
+            enabled={compareEnabled}
+            onEnabledChange={toggleCompare}
+            models={models}
+            selected={compareIds}
+            onChange={setCompareIds}
+          />
+        )}
+
+        {!isBatchMode && (
+          <CaseDetails
+            value={caseSelection}
+            onChange={setCaseSelection}
+            refreshKey={analysis.historyVersion + comparison.historyVersion}
+          />
+        )}
+
+        <div className="space-y-4">
+          <div
+            role="group"
+            aria-label={t('analyze.inputMode')}
+            className={`grid gap-2 p-1 bg-gray-100 rounded-lg ${inputModes.length === 3 ? 'grid-cols-3' : 'grid-cols-2'}`}
+          >
+            {inputModes.map((mode) => (
+              <button
+                key={mode}
+                aria-pressed={activeMode === mode}
+                onClick={() => setInputMode(mode)}
+                className={`py-2 rounded-md text-sm font-medium transition-colors flex items-center justify-center space-x-2 ${
+                  activeMode === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {mode === 'upload' ? <Upload className="w-4 h-4" aria-hidden /> : mode === 'record' ? <Mic className="w-4 h-4" aria-hidden /> : <Layers className="w-4 h-4" aria-hidden />}
+                <span>{t(`analyze.mode.${mode}`)}</span>
+              </button>
+            ))}
+          </div>
+
+          {activeMode === 'upload' ? (
+            <AudioDropzone onFile={loadFile} />
+          ) : activeMode === 'record' ? (
+            <AudioRecorder onRecorded={loadFile} disabled={analysis.isUploading || comparison.isRunning} />
+          ) : (
+            <BatchAnalyzer model={model} />
+          )}
+        </div>
+
+        {!isBatchMode && (
+          <>
+            {file && <SelectedFile file={file} onClear={() => loadFile(null)} />}
+            {file && <AudioQualityCheck file={file} onChange={handleQuality} />}
+            {file && (
+              <PreprocessPanel
+                enabled={preprocessEnabled}
+                onEnabledChange={setPreprocessEnabled}
+                options={preprocessOptions}
+                onChange={setPreprocessOptions}
+                file={file}
+                duration={quality?.metrics?.duration}
+              />
+            )}
+            {file && canClassify && !isComparing && (
+              <SegmentPanel
+                enabled={segmentEnabled}
+                onEnabledChange={setSegmentEnabled}
+                options={segmentOptions}
+                onChange={setSegmentOptions}
+                method={aggregation}
+                onMethodChange={setAggregation}
+                duration={analysedDuration}
+              />
+            )}
+            {isComparing ? (
+              <AnalyzeButton
+                label={t('analyze.compare', { count: compareModels.length })}
+                disabled={!file || !quality || quality.status === 'blocked' || compareModels.length < 2}
+                isUploading={comparison.isRunning}
+                onAnalyze={handleCompare}
+                onCancel={comparison.cancel}
+              />
+            ) : (
+              <AnalyzeButton
+                label={t(quality?.status === 'warning' ? 'analyze.buttonAnyway' : 'analyze.button')}
+                disabled={!file || !quality || quality.status === 'blocked'}
+                isUploading={analysis.isUploading}
+                onAnalyze={handleUpload}
+                onCancel={analysis.cancel}
+                segmentProgress={segmentProgress}
+                requestProgress={analysis.progress}
+                note={analysis.retryNote}
+              />
+            )}
+            <OutboxPanel />
+          </>
+        )}
+      </div>
+
+      {isComparing ? (
+        <ModelComparison runs={comparison.runs} error={comparison.error} savedNote={comparison.savedNote} />
+      ) : !isBatchMode && (
+        <AnalysisResults
+          result={analysis.result}
+          modelId={analysis.resultModel}
+          error={analysis.error}
+          file={analysis.result ? analysedFile : file}
+          resultCase={analysis.resultCase}
+          savedNote={analysis.savedNote}
+          savedRecord={analysis.savedRecord}
+          onRecordChange={analysis.setSavedRecord}
+          notice={analysis.notice}
+        />
+      )}
+    </div>
+  )
+}
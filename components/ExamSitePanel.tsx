@@ -0,0 +1,131 @@
+'use client'
+
+import { useState } from 'react'
+import { Upload, Mic, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react'
+import AudioDropzone from '@/components/AudioDropzone'
+import AudioRecorder from '@/components/AudioRecorder'
+import SelectedFile from '@/components/SelectedFile'
+import InconclusiveBadge from '@/components/InconclusiveBadge'
+import { getClassStyle, getConfidenceColor } from '@/components/predictionStyles'
+import { EMPTY_SLOT, ExamSite, SiteSlot, siteName } from '@/lib/auscultation'
+import { describeProgress } from '@/lib/format'
+import { formatPercent, rankProbabilities } from '@/lib/predictions'
+import { useI18n } from '@/lib/useI18n'
+
+type CaptureMode = 'upload' | 'record'
+
+interface ExamSitePanelProps {
+  site: ExamSite
+  // Position in the protocol, from 1
+  position: number
+  total: number
+  slot?: SiteSlot
+  modelId?: string
+  disabled: boolean
+  onFile: (file: File | null) => void
+  onPrevious: () => void
+  onNext: () => void
+}
+
+export default function ExamSitePanel({
+  site,
+  position,
+  total,
+  slot = EMPTY_SLOT,
+  modelId,
+  disabled,
+  onFile,
+  onPrevious,
+  onNext,
+}: ExamSitePanelProps) {
+  const i18n = useI18n()
+  const { t } = i18n
+  const [mode, setMode] = useState<CaptureMode>('record')
+  const isBusy = slot.status === 'queued' || slot.status === 'running' || slot.status === 'retrying'
+
+  // Recordings are named after the site so they stay identifiable in history and downloads
+  const handleRecorded = (file: File) => onFile(new File([file], `${site.id}_${file.name}`, { type: file.type }))
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={onPrevious}
+          disabled={position <= 1}
+          title={t('exam.previous')}
+          aria-label={t('exam.previous')}
+          className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-30"
+        >
+          <ChevronLeft className="w-5 h-5" aria-hidden />
+        </button>
+        <div className="text-center">
+          <p className="text-xs text-gray-500">{t('exam.position', { position, total })}</p>
+          <h3 className="font-semibold text-gray-900">
+            {siteName(site, i18n)} <span className="text-gray-400 font-normal">({site.id})</span>
+          </h3>
+        </div>
+        <button
+          onClick={onNext}
+          disabled={position >= total}
+          title={t('exam.next')}
+          aria-label={t('exam.next')}
+          className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-30"
+        >
+          <ChevronRight className="w-5 h-5" aria-hidden />
+        </button>
+      </div>
+
+      {slot.file ? (
+        <SelectedFile file={slot.file} onClear={() => onFile(null)} />
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2 p-1 bg-gray-100 rounded-lg">
+            {(['record', 'upload'] as CaptureMode[]).map((item) => (
+              <button
+                key={item}
+                onClick={() => setMode(item)}
+                className={`py-2 rounded-md text-sm font-medium transition-colors flex items-center justify-center space-x-2 ${
+                  mode === item ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {item === 'record' ? <Mic className="w-4 h-4" /> : <Upload className="w-4 h-4" />}
+                <span>{t(item === 'record' ? 'analyze.mode.record' : 'analyze.mode.upload')}</span>
+              </button>
+            ))}
+          </div>
+          {mode === 'record' ? <AudioRecorder onRecorded={handleRecorded} disabled={disabled} /> : <AudioDropzone onFile={onFile} />}
+        </>
+      )}
+
+      {isBusy && (
+        <p className="text-sm text-blue-600 flex items-center space-x-2">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>{slot.status === 'queued' ? t('exam.waiting') : describeProgress(slot.progress).text}</span>
+        </p>
+      )}
+      {slot.note && <p className="text-xs text-yellow-700">{slot.note}</p>}
+      {slot.status === 'cancelled' && <p className="text-sm text-gray-500">{t('exam.cancelled')}</p>}
+      {slot.error && <p className="text-sm text-red-600">{slot.error}</p>}
+
+      {slot.result && (
+        <div className="p-3 bg-white rounded-lg space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="px-2 py-0.5 rounded-full text-sm font-semibold" style={getClassStyle(slot.result.prediction, modelId)}>
+              {slot.result.prediction}
+              <InconclusiveBadge result={slot.result} modelId={modelId} />
+            </span>
+            <span className={`font-semibold tabular-nums ${getConfidenceColor(slot.result.confidence)}`}>
+              {formatPercent(slot.result.confidence)}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500">
+            {rankProbabilities(slot.result.class_probabilities)
+              .slice(0, 3)
+              .map((entry) => `${entry.label} ${formatPercent(entry.probability, 0)}`)
+              .join(', ')}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
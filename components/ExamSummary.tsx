@@ -0,0 +1,102 @@
+'use client'
+
+import { AlertTriangle, CheckCircle, ClipboardList } from 'lucide-react'
+import { FINDING_COLORS, getClassStyle } from '@/components/predictionStyles'
+import { ExamSite, ExamSummary as Summary, SiteFinding, siteName } from '@/lib/auscultation'
+import type { MessageKey } from '@/lib/i18n'
+import { useI18n } from '@/lib/useI18n'
+
+interface ExamSummaryProps {
+  summary: Summary
+  total: number
+  modelId?: string
+}
+
+const LEGEND: { finding: SiteFinding; label: MessageKey }[] = [
+  { finding: 'normal', label: 'exam.normal' },
+  { finding: 'abnormal', label: 'exam.abnormal' },
+  { finding: 'inconclusive', label: 'decision.inconclusive' },
+]
+
+const DISTRIBUTION_TEXT: Record<NonNullable<Summary['distribution']>, MessageKey> = {
+  bilateral: 'exam.bilateral',
+  left: 'exam.leftOnly',
+  right: 'exam.rightOnly',
+}
+
+const siteList = (sites: ExamSite[]) => sites.map((site) => site.id).join(', ')
+
+export default function ExamSummary({ summary, total, modelId }: ExamSummaryProps) {
+  const i18n = useI18n()
+  const { t } = i18n
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900 flex items-center space-x-2">
+          <ClipboardList className="w-5 h-5 text-gray-500" />
+          <span>{t('exam.summary')}</span>
+        </h3>
+        <span className="text-sm text-gray-500">{t('exam.analysed', { count: summary.analysed, total })}</span>
+      </div>
+
+      {summary.analysed === 0 ? (
+        <p className="text-sm text-gray-500">{t('exam.empty')}</p>
+      ) : summary.abnormal.length > 0 ? (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800 flex items-start space-x-2">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          <span>
+            {summary.distribution
+              ? t('exam.abnormalAtIn', {
+                  count: summary.abnormal.length,
+                  analysed: summary.analysed,
+                  distribution: t(DISTRIBUTION_TEXT[summary.distribution]),
+                })
+              : t('exam.abnormalAt', { count: summary.abnormal.length, analysed: summary.analysed })}
+          </span>
+        </div>
+      ) : (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800 flex items-start space-x-2">
+          <CheckCircle className="w-5 h-5 flex-shrink-0" />
+          <span>{t('exam.allNormal', { count: summary.analysed })}</span>
+        </div>
+      )}
+
+      {summary.findings.length > 0 && (
+        <ul className="space-y-2 text-sm">
+          {summary.findings.map((finding) => (
+            <li key={finding.label} className="flex items-start space-x-2">
+              <span className="px-2 py-0.5 rounded-full font-medium flex-shrink-0" style={getClassStyle(finding.label, modelId)}>
+                {finding.label}
+              </span>
+              <span className="text-gray-700" title={finding.sites.map((site) => siteName(site, i18n)).join(', ')}>
+                {t(finding.sites.length === 1 ? 'exam.sitesOne' : 'exam.sites', { count: finding.sites.length, sites: siteList(finding.sites) })}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {summary.inconclusive.length > 0 && (
+        <p className="text-sm text-yellow-800">
+          {t(summary.inconclusive.length === 1 ? 'exam.rerecordOne' : 'exam.rerecord', { sites: siteList(summary.inconclusive) })}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+        {LEGEND.map((item) => (
+          <span key={item.finding} className="flex items-center space-x-1">
+            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: FINDING_COLORS[item.finding] }} />
+            <span>{t(item.label)}</span>
+          </span>
+        ))}
+        <span className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded-full bg-blue-100 border-2 border-blue-600" />
+          <span>{t('exam.recorded')}</span>
+        </span>
+      </div>
+
+      {summary.analysed > 0 && <p className="text-xs text-gray-500">{t('disclaimer.body')}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+'use client'
+
+import { useState } from 'react'
+import { Lightbulb } from 'lucide-react'
+import type { Explanation } from '@/lib/api'
+import { WeightedWindow, rankFeatures, topWindows } from '@/lib/explanation'
+import { useI18n } from '@/lib/useI18n'
+
+const FEATURES_SHOWN = 10
+
+interface ExplanationPanelProps {
+  explanation: Explanation
+  windows: WeightedWindow[]
+  // Predicted class, explained when the payload names no target
+  label: string
+  showOverlay: boolean
+  onShowOverlayChange: (show: boolean) => void
+}
+
+export default function ExplanationPanel({ explanation, windows, label, showOverlay, onShowOverlayChange }: ExplanationPanelProps) {
+  const { t, formatTime } = useI18n()
+  const [showAll, setShowAll] = useState(false)
+  const features = rankFeatures(explanation.features)
+  const largest = features.length > 0 ? Math.abs(features[0].importance) : 0
+  const visible = showAll ? features : features.slice(0, FEATURES_SHOWN)
+  const strongest = topWindows(windows, 3)
+
+  return (
+    <div className="p-4 bg-white rounded-lg space-y-4">
+      <div>
+        <h5 className="font-medium text-gray-900 flex items-center space-x-2">
+          <Lightbulb className="w-4 h-4 text-yellow-500" />
+          <span>{t('explanation.title', { label: explanation.target ?? label })}</span>
+        </h5>
+        <p className="text-xs text-gray-500">
+          {explanation.method
+            ? t('explanation.introMethod', { method: explanation.method, label: explanation.target ?? label })
+            : t('explanation.intro', { label: explanation.target ?? label })}
+        </p>
+      </div>
+
+      {windows.length > 0 && (
+        <div className="space-y-2 text-sm">
+          <label className="flex items-center space-x-2 text-gray-700 cursor-pointer">
+            <input type="checkbox" checked={showOverlay} onChange={(e) => onShowOverlayChange(e.target.checked)} />
+            <span>{t('explanation.overlay')}</span>
+          </label>
+          {strongest.length > 0 && (
+            <p className="text-gray-600">
+              {t('explanation.strongest', {
+                windows: strongest.map((window) => `${formatTime(window.start)}–${formatTime(window.end)}`).join(', '),
+              })}
+            </p>
+          )}
+        </div>
+      )}
+
+      {features.length > 0 && (
+        <div>
+          <h6 className="text-sm font-medium text-gray-900 mb-2">{t('explanation.features')}</h6>
+          <ol className="space-y-1.5 text-sm">
+            {visible.map((feature, index) => {
+              const width = largest > 0 ? (Math.abs(feature.importance) / largest) * 50 : 0
+              const positive = feature.importance >= 0
+              return (
+                <li key={`${feature.name}-${index}`} className="flex items-center space-x-2">
+                  <span className="w-5 text-right text-xs text-gray-400">{index + 1}</span>
+                  <span className="flex-1 min-w-0 truncate text-gray-700" title={feature.name}>
+                    {feature.name}
+                    {feature.value !== undefined && <span className="text-xs text-gray-400"> = {feature.value.toPrecision(3)}</span>}
+                  </span>
+                  {/* Bars grow right for support and left for counter-evidence from a centre line */}
+                  <span className="relative w-32 h-2 bg-gray-100 rounded-full flex-shrink-0">
+                    <span className="absolute inset-y-0 left-1/2 w-px bg-gray-300" />
+                    <span
+                      className={`absolute inset-y-0 rounded-full ${positive ? 'bg-red-500' : 'bg-blue-500'}`}
+                      style={positive ? { left: '50%', width: `${width}%` } : { right: '50%', width: `${width}%` }}
+                    />
+                  </span>
+                  <span className={`w-14 text-right text-xs tabular-nums ${positive ? 'text-red-600' : 'text-blue-600'}`}>
+                    {positive ? '+' : ''}{feature.importance.toPrecision(2)}
+                  </span>
+                </li>
+              )
+            })}
+          </ol>
+          {features.length > FEATURES_SHOWN && (
+            <button onClick={() => setShowAll(!showAll)} className="mt-2 text-xs text-blue-600 hover:underline">
+              {showAll ? t('explanation.showFewer') : t('explanation.showAll', { count: features.length })}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,22 @@
+'use client'
+
+import type { PredictionResult } from '@/lib/api'
+import { assessResult } from '@/lib/decision'
+import { useI18n } from '@/lib/useI18n'
+
+interface InconclusiveBadgeProps {
+  result: PredictionResult
+  modelId?: string
+}
+
+// Marks results in lists and tables that fall short of their decision threshold or margin
+export default function InconclusiveBadge({ result, modelId }: InconclusiveBadgeProps) {
+  const i18n = useI18n()
+  const decision = assessResult(result, modelId, i18n)
+  if (decision.outcome !== 'inconclusive') return null
+  return (
+    <span title={decision.reasons.join(' ')} className="ml-1 px-1.5 py-0.5 bg-yellow-100 text-yellow-800 rounded text-xs font-medium">
+      {i18n.t('decision.inconclusive')}
+    </span>
+  )
+}
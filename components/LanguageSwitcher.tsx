@@ -0,0 +1,29 @@
+'use client'
+
+import { Languages } from 'lucide-react'
+import { LOCALES, LOCALE_NAMES, isLocale } from '@/lib/i18n'
+import { useI18n } from '@/lib/useI18n'
+
+export default function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n()
+
+  return (
+    <label className="flex items-center space-x-1 text-gray-600">
+      <Languages className="w-4 h-4" aria-hidden />
+      <span className="sr-only">{t('nav.language')}</span>
+      <select
+        value={locale}
+        onChange={(e) => {
+          if (isLocale(e.target.value)) setLocale(e.target.value)
+        }}
+        className="bg-transparent text-sm font-medium rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+      >
+        {LOCALES.map((item) => (
+          <option key={item} value={item} lang={item}>
+            {LOCALE_NAMES[item]}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
@@ -0,0 +1,34 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { LOCALE_COOKIE, Locale, createTranslator, setActiveLocale } from '@/lib/i18n'
+import { I18nContext } from '@/lib/useI18n'
+
+interface LocaleProviderProps {
+  // Chosen on the server from the cookie or Accept-Language, so the first render matches the HTML
+  initialLocale: Locale
+  children: React.ReactNode
+}
+
+export default function LocaleProvider({ initialLocale, children }: LocaleProviderProps) {
+  const router = useRouter()
+  const [locale, setLocaleState] = useState(() => {
+    if (typeof window !== 'undefined') setActiveLocale(initialLocale)
+    return initialLocale
+  })
+
+  const value = useMemo(() => {
+    const setLocale = (next: Locale) => {
+      setActiveLocale(next)
+      setLocaleState(next)
+      document.documentElement.lang = next
+      document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=31536000; samesite=lax`
+      // Server-rendered headings pick the new language up without losing state in client components
+      router.refresh()
+    }
+    return { ...createTranslator(locale), setLocale }
+  }, [locale, router])
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
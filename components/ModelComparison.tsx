@@ -0,0 +1,204 @@
+'use client'
+
+import { motion, AnimatePresence } from 'framer-motion'
+import { AlertCircle, AlertTriangle, CheckCircle, Loader2, XCircle } from 'lucide-react'
+import InconclusiveBadge from '@/components/InconclusiveBadge'
+import { getClassStyle, getConfidenceColor } from '@/components/predictionStyles'
+import { ComparisonRun, PROBABILITY_DISAGREEMENT, summarizeComparison } from '@/lib/comparison'
+import { describeProgress } from '@/lib/format'
+import { getClassColor } from '@/lib/models'
+import { formatPercent, predictedLabel } from '@/lib/predictions'
+import { useI18n } from '@/lib/useI18n'
+
+interface ModelComparisonProps {
+  runs: ComparisonRun[]
+  error: string | null
+  savedNote?: string | null
+}
+
+const modelTitle = (run: ComparisonRun) => `${run.model.name}${run.model.version ? ` (${run.model.version})` : ''}`
+
+export default function ModelComparison({ runs, error, savedNote }: ModelComparisonProps) {
+  const { t, formatNumber } = useI18n()
+  const summary = summarizeComparison(runs)
+  const probabilityRuns = runs.filter((run) => run.result && 'class_probabilities' in run.result)
+  const eventRuns = runs.filter((run) => summary.eventMatches[run.model.id])
+
+  return (
+    <div className="space-y-6">
+      <AnimatePresence>
+        {error && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            role="alert"
+            className="p-4 border-l-4 border-red-500 bg-red-50 rounded-lg"
+          >
+            <div className="flex items-center space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-500" aria-hidden />
+              <p className="text-red-700">{error}</p>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {summary.compared > 1 && (
+        summary.labels.length === 1 ? (
+          <div className="p-4 border-l-4 border-green-500 bg-green-50 rounded-lg flex items-center space-x-3">
+            <CheckCircle className="w-5 h-5 text-green-500" />
+            <p className="text-green-800">
+              {t('comparison.agree', { count: summary.compared, label: summary.labels[0] })}
+            </p>
+          </div>
+        ) : (
+          <div className="p-4 border-l-4 border-yellow-500 bg-yellow-50 rounded-lg flex items-center space-x-3">
+            <AlertTriangle className="w-5 h-5 text-yellow-600" />
+            <p className="text-yellow-800">
+              {t('comparison.disagree', { labels: summary.labels.join(t('comparison.versus')) })}
+            </p>
+          </div>
+        )
+      )}
+
+      {runs.length > 0 && (
+        <div className="p-6 bg-gradient-to-r from-green-50 to-emerald-50 rounded-lg space-y-4">
+          <div className="flex items-center space-x-3">
+            <h4 className="text-lg font-semibold text-gray-900">{t('comparison.title')}</h4>
+            {savedNote && <span className="ml-auto text-sm text-green-700">{savedNote}</span>}
+          </div>
+
+          {/* One card per model */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {runs.map((run) => {
+              const label = run.result ? predictedLabel(run.result) : null
+              // Without a majority every answer is in question
+              const isOutlier =
+                label !== null && summary.labels.length > 1 && (!summary.consensus || label.toLowerCase() !== summary.consensus.toLowerCase())
+              return (
+                <div
+                  key={run.model.id}
+                  className={`p-4 bg-white rounded-lg border-2 ${isOutlier ? 'border-yellow-400' : 'border-transparent'}`}
+                >
+                  <h5 className="font-medium text-gray-900">{modelTitle(run)}</h5>
+                  {run.result && label ? (
+                    <>
+                      <div className="mt-2 flex items-center justify-between">
+                        <span>
+                          <span className="px-3 py-1 rounded-full text-sm font-medium" style={getClassStyle(label, run.model.id)}>
+                            {label}
+                          </span>
+                          <InconclusiveBadge result={run.result} modelId={run.model.id} />
+                        </span>
+                        <span className={`text-lg font-bold ${getConfidenceColor(run.result.confidence)}`}>
+                          {formatPercent(run.result.confidence)}
+                        </span>
+                      </div>
+                      {run.result.model_version && (
+                        <p className="mt-1 text-xs text-gray-500">{t('comparison.serverVersion', { version: run.result.model_version })}</p>
+                      )}
+                    </>
+                  ) : run.status === 'failed' ? (
+                    <p role="alert" className="mt-2 flex items-center space-x-2 text-sm text-red-600">
+                      <XCircle className="w-4 h-4 flex-shrink-0" aria-hidden />
+                      <span>{run.error}</span>
+                    </p>
+                  ) : run.status === 'cancelled' ? (
+                    <p className="mt-2 text-sm text-gray-500">{t('status.cancelled')}</p>
+                  ) : (
+                    <p className="mt-2 flex items-center space-x-2 text-sm text-gray-600">
+                      <Loader2 className="w-4 h-4 animate-spin flex-shrink-0" />
+                      <span>{run.note ?? describeProgress(run.progress).text}</span>
+                    </p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+
+          {/* Probabilities side by side; rows where the models are far apart are highlighted */}
+          {probabilityRuns.length > 0 && summary.classes.length > 0 && (
+            <div className="p-4 bg-white rounded-lg overflow-x-auto">
+              <h5 className="font-medium text-gray-900 mb-1">{t('comparison.probabilities')}</h5>
+              {probabilityRuns.length > 1 && (
+                <p className="text-xs text-gray-500 mb-3">
+                  {t('comparison.highlighted', { difference: formatPercent(PROBABILITY_DISAGREEMENT, 0) })}
+                </p>
+              )}
+              <table className="w-full text-sm">
+                <thead className="text-xs text-gray-500 text-left">
+                  <tr>
+                    <th className="py-1 font-medium">{t('comparison.class')}</th>
+                    {probabilityRuns.map((run) => (
+                      <th key={run.model.id} className="py-1 pl-3 font-medium text-right">{modelTitle(run)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.classes.map((item) => (
+                    <tr key={item.label} className={`border-t border-gray-100 ${item.disagree ? 'bg-yellow-50' : ''}`}>
+                      <td className="py-1 text-gray-700">
+                        {item.label}
+                        {item.disagree && <AlertTriangle className="inline w-3 h-3 ml-1 text-yellow-600" role="img" aria-label={t('comparison.classDisagree')} />}
+                      </td>
+                      {probabilityRuns.map((run) => {
+                        const probability = item.probabilities[run.model.id] ?? 0
+                        const isTop = run.result && predictedLabel(run.result).toLowerCase() === item.label.toLowerCase()
+                        return (
+                          <td key={run.model.id} className="py-1 pl-3">
+                            <div className="flex items-center justify-end space-x-2">
+                              <div className="w-16 bg-gray-200 rounded-full h-2" aria-hidden>
+                                <div className="bg-blue-500 h-2 rounded-full" style={{ width: `${probability * 100}%` }} />
+                              </div>
+                              <span className={`w-12 text-right ${isTop ? 'font-semibold text-gray-900' : 'text-gray-500'}`}>
+                                {formatPercent(probability)}
+                              </span>
+                            </div>
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Detected events per model; events no other model found are flagged */}
+          {eventRuns.length > 0 && (
+            <div className={`grid grid-cols-1 gap-3 ${eventRuns.length > 1 ? 'sm:grid-cols-2' : ''}`}>
+              {eventRuns.map((run) => {
+                const events = run.result && 'events' in run.result ? run.result.events : []
+                const matches = summary.eventMatches[run.model.id]
+                return (
+                  <div key={run.model.id} className="p-4 bg-white rounded-lg">
+                    <h5 className="font-medium text-gray-900 mb-2">{t('comparison.events', { model: modelTitle(run) })}</h5>
+                    {events.length === 0 && <p className="text-sm text-gray-500">{t('comparison.noEvents')}</p>}
+                    <ul className="space-y-1 text-sm">
+                      {events.map((event, index) => (
+                        <li
+                          key={index}
+                          className={`flex items-center justify-between p-2 rounded ${matches[index] ? '' : 'bg-yellow-50'}`}
+                        >
+                          <span className="flex items-center space-x-2">
+                            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: getClassColor(event.label, run.model.id) }} aria-hidden />
+                            <span className="capitalize">{event.label}</span>
+                            {!matches[index] && <span className="text-xs text-yellow-700">{t('comparison.onlyThis')}</span>}
+                          </span>
+                          <span className="text-gray-600">
+                            {formatNumber(event.start)}s - {formatNumber(event.end)}s
+                            <span className="ml-2 text-xs">({formatPercent(event.confidence, 0)})</span>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+'use client'
+
+import { Cpu } from 'lucide-react'
+import type { ModelInfo } from '@/lib/api'
+import { useI18n } from '@/lib/useI18n'
+
+interface ModelSelectProps {
+  models: ModelInfo[]
+  value: ModelInfo
+  onChange: (id: string) => void
+}
+
+export default function ModelSelect({ models, value, onChange }: ModelSelectProps) {
+  const { t, formatNumber } = useI18n()
+
+  // Nothing to choose with a single model; its name is already in the page title
+  if (models.length < 2) return null
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-2 text-sm">
+      <label className="flex items-center space-x-2 font-medium text-gray-900">
+        <Cpu className="w-4 h-4 text-gray-500" />
+        <span>{t('models.select')}</span>
+        <select
+          value={value.id}
+          onChange={(e) => onChange(e.target.value)}
+          className="flex-1 p-2 border border-gray-300 rounded-lg bg-white font-normal"
+        >
+          {models.map((model) => (
+            <option key={model.id} value={model.id}>
+              {model.name}{model.version ? ` (${model.version})` : ''}
+            </option>
+          ))}
+        </select>
+      </label>
+      {value.description && <p className="text-gray-600">{value.description}</p>}
+      <p className="text-xs text-gray-500">
+        {t(value.task === 'classification' ? 'models.classCount' : 'models.eventTypeCount', { count: formatNumber(value.classes.length) })}
+        {value.expected_latency_seconds ? ` · ${t('models.perAnalysis', { seconds: formatNumber(value.expected_latency_seconds) })}` : ''}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AlertCircle, CheckCircle, Loader2, Save, SlidersHorizontal } from 'lucide-react'
+import { saveModelSettingsRemote } from '@/lib/admin'
+import type { ModelSetting, ModelSettings } from '@/lib/modelSettings'
+import { getBaseModelCatalogue, getModelSettings, setModelSettings } from '@/lib/models'
+import { useI18n } from '@/lib/useI18n'
+import { useModels } from '@/lib/useModels'
+
+// Percent in the inputs, fractions in the settings; empty means the catalogue value
+const toPercent = (value: number | undefined) => (value === undefined ? '' : String(Math.round(value * 1000) / 10))
+
+const fromPercent = (text: string) => (text.trim() === '' ? undefined : Number(text) / 100)
+
+export default function ModelSettingsAdmin() {
+  const { t } = useI18n()
+  // Re-renders once the catalogue has loaded, which is also when the saved settings arrive
+  const catalogue = useModels()
+  const [draft, setDraft] = useState<ModelSettings>(getModelSettings)
+  const [isSaving, setIsSaving] = useState(false)
+  const [status, setStatus] = useState<{ ok: boolean; message: string } | null>(null)
+  const models = getBaseModelCatalogue().models
+
+  useEffect(() => {
+    setDraft(getModelSettings())
+  }, [catalogue])
+
+  const change = (id: string, next: ModelSetting) => {
+    setDraft((current) => ({ ...current, [id]: { ...current[id], ...next } }))
+    setStatus(null)
+  }
+
+  const changeThreshold = (id: string, label: string, text: string) => {
+    const thresholds = { ...draft[id]?.thresholds }
+    const value = fromPercent(text)
+    if (value === undefined) delete thresholds[label]
+    else thresholds[label] = value
+    change(id, { thresholds })
+  }
+
+  const save = async () => {
+    setIsSaving(true)
+    setStatus(null)
+    try {
+      setModelSettings(await saveModelSettingsRemote(draft))
+      setStatus({ ok: true, message: t('modelSettings.saved') })
+    } catch (err) {
+      console.error('Save model settings error:', err)
+      setStatus({ ok: false, message: err instanceof Error ? err.message : String(err) })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+          <SlidersHorizontal className="w-5 h-5 text-gray-500" aria-hidden />
+          <span>{t('modelSettings.title')}</span>
+        </h3>
+        <button
+          onClick={save}
+          disabled={isSaving}
+          className="px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center space-x-2"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" aria-hidden /> : <Save className="w-4 h-4" aria-hidden />}
+          <span>{t('modelSettings.save')}</span>
+        </button>
+      </div>
+      <p className="text-sm text-gray-600">
+        {t('modelSettings.intro')}
+      </p>
+
+      {status && (
+        <div
+          role={status.ok ? 'status' : 'alert'}
+          className={`p-3 rounded-lg flex items-center space-x-2 text-sm ${status.ok ? 'bg-green-50 text-green-700' : 'border-l-4 border-red-500 bg-red-50 text-red-700'}`}
+        >
+          {status.ok ? <CheckCircle className="w-5 h-5 flex-shrink-0" aria-hidden /> : <AlertCircle className="w-5 h-5 flex-shrink-0" aria-hidden />}
+          <span>{status.message}</span>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {models.map((model) => {
+          const setting = draft[model.id] ?? {}
+          return (
+            <fieldset key={model.id} className="p-4 bg-white rounded-lg shadow-sm space-y-3">
+              <legend className="sr-only">{model.name}</legend>
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="mr-auto flex items-center space-x-2 font-medium text-gray-900">
+                  <input
+                    type="checkbox"
+                    checked={setting.enabled !== false}
+                    onChange={(e) => change(model.id, { enabled: e.target.checked })}
+                  />
+                  <span>{model.name}</span>
+                  <span className="text-xs font-normal text-gray-500">{model.id}</span>
+                </label>
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <span>{t('modelSettings.minMargin')}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.5}
+                    value={toPercent(setting.min_margin)}
+                    placeholder={toPercent(model.min_margin)}
+                    onChange={(e) => change(model.id, { min_margin: fromPercent(e.target.value) })}
+                    className="w-20 p-1 border border-gray-300 rounded text-sm"
+                  />
+                </label>
+              </div>
+              {model.classes.length > 0 && (
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  {model.classes.map((item) => (
+                    <label key={item.label} className="flex items-center justify-between space-x-2 text-xs text-gray-700">
+                      <span className="truncate">{item.label} %</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={0.5}
+                        value={toPercent(setting.thresholds?.[item.label])}
+                        placeholder={toPercent(item.threshold)}
+                        onChange={(e) => changeThreshold(model.id, item.label, e.target.value)}
+                        aria-label={t('modelSettings.threshold', { model: model.name, label: item.label })}
+                        className="w-16 p-1 border border-gray-300 rounded text-xs"
+                      />
+                    </label>
+                  ))}
+                </div>
+              )}
+            </fieldset>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
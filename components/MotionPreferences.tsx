@@ -0,0 +1,33 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { MotionConfig } from 'framer-motion'
+import { REDUCED_MOTION_COOKIE } from '@/lib/motion'
+import { MotionPreferenceContext } from '@/lib/useMotionPreference'
+
+interface MotionPreferencesProps {
+  // Read from the cookie on the server so a saved choice applies before the first animation
+  initialReduced: boolean
+  children: React.ReactNode
+}
+
+// Turns framer-motion animations into instant changes when the user or their operating system asks for less motion
+export default function MotionPreferences({ initialReduced, children }: MotionPreferencesProps) {
+  const [reduced, setReducedState] = useState(initialReduced)
+
+  const value = useMemo(() => {
+    const setReduced = (next: boolean) => {
+      setReducedState(next)
+      // CSS transitions and spinners follow the same class as the prefers-reduced-motion media query
+      document.documentElement.classList.toggle('reduce-motion', next)
+      document.cookie = `${REDUCED_MOTION_COOKIE}=${next ? 1 : 0}; path=/; max-age=31536000; samesite=lax`
+    }
+    return { reduced, setReduced }
+  }, [reduced])
+
+  return (
+    <MotionPreferenceContext.Provider value={value}>
+      <MotionConfig reducedMotion={reduced ? 'always' : 'user'}>{children}</MotionConfig>
+    </MotionPreferenceContext.Provider>
+  )
+}
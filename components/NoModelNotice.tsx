@@ -0,0 +1,16 @@
+'use client'
+
+import { AlertTriangle } from 'lucide-react'
+import { useI18n } from '@/lib/useI18n'
+
+// Shown in place of a screen's controls when no model it can run is enabled
+export default function NoModelNotice() {
+  const { t } = useI18n()
+
+  return (
+    <div role="status" className="p-4 border-l-4 border-yellow-500 bg-yellow-50 rounded-lg flex items-center space-x-3">
+      <AlertTriangle className="w-5 h-5 text-yellow-600 flex-shrink-0" aria-hidden />
+      <p className="text-yellow-800">{t('models.none')}</p>
+    </div>
+  )
+}
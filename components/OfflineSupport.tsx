@@ -0,0 +1,39 @@
+'use client'
+
+import { useEffect } from 'react'
+import { WifiOff } from 'lucide-react'
+import { flushOutbox } from '@/lib/outbox'
+import { useI18n } from '@/lib/useI18n'
+import { useOnlineStatus } from '@/lib/useOutbox'
+
+const RETRY_INTERVAL_MS = 60 * 1000
+
+// Registers the service worker and submits queued analyses whenever the connection comes back
+export default function OfflineSupport() {
+  const { t } = useI18n()
+  const online = useOnlineStatus()
+
+  useEffect(() => {
+    // The dev server rebuilds chunks constantly; caching them would serve stale code
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return
+    navigator.serviceWorker.register('/sw.js').catch((err) => console.error('Service worker registration error:', err))
+  }, [])
+
+  useEffect(() => {
+    if (!online) return
+    const flush = () => flushOutbox().catch((err) => console.error('Outbox flush error:', err))
+    flush()
+    // The browser can report online while the backend itself is unreachable, so keep trying
+    const timer = setInterval(flush, RETRY_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [online])
+
+  if (online) return null
+
+  return (
+    <div role="status" className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 px-4 py-2 bg-gray-900 text-white text-sm rounded-full shadow-lg flex items-center space-x-2">
+      <WifiOff className="w-4 h-4" aria-hidden />
+      <span>{t('outbox.offline')}</span>
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+'use client'
+
+import { CheckCircle, Clock, Loader2, RotateCcw, Trash2, XCircle } from 'lucide-react'
+import InconclusiveBadge from '@/components/InconclusiveBadge'
+import { getConfidenceColor } from '@/components/predictionStyles'
+import type { MessageKey } from '@/lib/i18n'
+import { OutboxItem, OutboxStatus, removeOutboxItem, retryOutboxItem } from '@/lib/outbox'
+import { formatPercent } from '@/lib/predictions'
+import { useI18n } from '@/lib/useI18n'
+import { useOnlineStatus, useOutbox } from '@/lib/useOutbox'
+
+const STATUS_LABELS: Record<OutboxStatus, MessageKey> = {
+  queued: 'outbox.queued',
+  sending: 'outbox.sending',
+  sent: 'outbox.sent',
+  failed: 'status.failed',
+}
+
+const StatusIcon = ({ status }: { status: OutboxStatus }) => {
+  if (status === 'sending') return <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />
+  if (status === 'sent') return <CheckCircle className="w-4 h-4 text-green-500" />
+  if (status === 'failed') return <XCircle className="w-4 h-4 text-red-500" />
+  return <Clock className="w-4 h-4 text-gray-400" />
+}
+
+export default function OutboxPanel() {
+  const { t, formatDateTime } = useI18n()
+  const items = useOutbox()
+  const online = useOnlineStatus()
+
+  if (items.length === 0) return null
+
+  const waiting = items.filter((item) => item.status === 'queued').length
+
+  const handleError = (err: unknown) => console.error('Outbox error:', err)
+
+  const describe = (item: OutboxItem) => {
+    if (item.status === 'sent' && item.result) {
+      return (
+        <span>
+          {item.result.prediction}{' '}
+          <span className={getConfidenceColor(item.result.confidence)}>{formatPercent(item.result.confidence)}</span>
+          <InconclusiveBadge result={item.result} modelId={item.model.id} />
+          {item.caseSelection.patientId && <span className="text-gray-500"> · {t('outbox.savedTo', { patient: item.caseSelection.patientId })}</span>}
+        </span>
+      )
+    }
+    return (
+      <span className={item.status === 'failed' ? 'text-red-600' : 'text-gray-500'}>
+        {t(STATUS_LABELS[item.status])}
+        {item.lastError && item.status !== 'sending' ? ` · ${item.lastError}` : ''}
+      </span>
+    )
+  }
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-gray-900">{t('outbox.title')}</h4>
+        {waiting > 0 && (
+          <span className="text-xs text-gray-500">
+            {t(online ? 'outbox.waiting' : 'outbox.waitingOffline', { count: waiting })}
+          </span>
+        )}
+      </div>
+      <ul className="space-y-2">
+        {items.map((item) => (
+          <li key={item.id} className="flex items-start space-x-2">
+            <StatusIcon status={item.status} />
+            <div className="flex-1 min-w-0">
+              <div className="truncate text-gray-900">{item.upload.name}</div>
+              <div className="text-xs">
+                {formatDateTime(item.createdAt)}
+                {item.caseSelection.patientId && item.status !== 'sent' ? ` · ${item.caseSelection.patientId}` : ''}
+              </div>
+              <div className="text-xs">{describe(item)}</div>
+            </div>
+            {(item.status === 'failed' || (item.status === 'queued' && online)) && (
+              <button
+                onClick={() => retryOutboxItem(item).catch(handleError)}
+                className="p-1 text-gray-500 hover:text-blue-600"
+                title={t('outbox.send')}
+                aria-label={t('outbox.send')}
+              >
+                <RotateCcw className="w-4 h-4" aria-hidden />
+              </button>
+            )}
+            {item.status !== 'sending' && (
+              <button
+                onClick={() => {
+                  if (item.status === 'sent' || window.confirm(t('outbox.confirmDiscard'))) {
+                    removeOutboxItem(item.id).catch(handleError)
+                  }
+                }}
+                className="p-1 text-gray-500 hover:text-red-600"
+                title={t(item.status === 'sent' ? 'outbox.dismiss' : 'outbox.discard')}
+                aria-label={t(item.status === 'sent' ? 'outbox.dismiss' : 'outbox.discard')}
+              >
+                <Trash2 className="w-4 h-4" aria-hidden />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
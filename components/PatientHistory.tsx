@@ -0,0 +1,295 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Download, Trash2, Play, Pause, GitCompare, Users } from 'lucide-react'
+import {
+  AnalysisRecord,
+  Patient,
+  SEX_LABELS,
+  deleteAnalysis,
+  deletePatient,
+  exportPatientHistory,
+  getRecording,
+  listAnalyses,
+  listPatients,
+  recordingSiteName,
+  symptomName,
+} from '@/lib/cases'
+import InconclusiveBadge from '@/components/InconclusiveBadge'
+import SignOffStatus from '@/components/SignOffStatus'
+import { isStorageAvailable } from '@/lib/storage/db'
+import { modelName } from '@/lib/models'
+import { formatPercent, isDiseaseResult, predictedLabel, rankProbabilities } from '@/lib/predictions'
+import { downloadText } from '@/lib/download'
+import { useI18n } from '@/lib/useI18n'
+import { useSession } from '@/lib/useSession'
+
+interface PatientHistoryProps {
+  refreshKey?: number
+}
+
+export default function PatientHistory({ refreshKey }: PatientHistoryProps) {
+  const i18n = useI18n()
+  const { t, formatNumber, formatDateTime: formatDate } = i18n
+  const userId = useSession()?.id
+  const [patients, setPatients] = useState<Patient[]>([])
+  const [patientId, setPatientId] = useState<string | null>(null)
+  const [analyses, setAnalyses] = useState<AnalysisRecord[]>([])
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [playingId, setPlayingId] = useState<string | null>(null)
+  const [isAvailable, setIsAvailable] = useState(true)
+  const audioRef = useRef<HTMLAudioElement | null>(null)
+  const audioUrlRef = useRef<string | null>(null)
+
+  const refreshPatients = useCallback(() => {
+    listPatients(userId)
+      .then((list) => {
+        setPatients(list)
+        setPatientId((current) => (current && list.some((p) => p.id === current) ? current : list[0]?.id ?? null))
+      })
+      .catch((err) => console.error('Patient list error:', err))
+  }, [userId])
+
+  useEffect(() => {
+    if (!isStorageAvailable()) {
+      setIsAvailable(false)
+      return
+    }
+    refreshPatients()
+  }, [refreshPatients, refreshKey])
+
+  useEffect(() => {
+    setCompareIds([])
+    if (!patientId) {
+      setAnalyses([])
+      return
+    }
+    listAnalyses(patientId)
+      .then(setAnalyses)
+      .catch((err) => console.error('Analysis list error:', err))
+  }, [patientId, refreshKey])
+
+  const stopPlayback = () => {
+    audioRef.current?.pause()
+    audioRef.current = null
+    if (audioUrlRef.current) URL.revokeObjectURL(audioUrlRef.current)
+    audioUrlRef.current = null
+    setPlayingId(null)
+  }
+
+  useEffect(() => stopPlayback, [])
+
+  const togglePlayback = async (record: AnalysisRecord) => {
+    const wasPlaying = playingId === record.id
+    stopPlayback()
+    if (wasPlaying || !record.recordingId) return
+    const blob = await getRecording(record.recordingId)
+    if (!blob) return
+    const url = URL.createObjectURL(blob)
+    const audio = new Audio(url)
+    audio.onended = stopPlayback
+    audioRef.current = audio
+    audioUrlRef.current = url
+    setPlayingId(record.id)
+    audio.play()
+  }
+
+  const toggleCompare = (id: string) => {
+    setCompareIds((current) =>
+      current.indexOf(id) !== -1 ? current.filter((c) => c !== id) : [...current, id].slice(-2)
+    )
+  }
+
+  const removeAnalysis = async (record: AnalysisRecord) => {
+    if (!window.confirm(t('history.confirmDeleteAnalysis', { date: formatDate(record.createdAt) }))) return
+    if (playingId === record.id) stopPlayback()
+    await deleteAnalysis(record)
+    setAnalyses((current) => current.filter((r) => r.id !== record.id))
+    setCompareIds((current) => current.filter((id) => id !== record.id))
+  }
+
+  const removePatient = async () => {
+    if (!patientId || !window.confirm(t('history.confirmDeletePatient', { patient: patientId }))) return
+    stopPlayback()
+    await deletePatient(patientId)
+    setPatientId(null)
+    refreshPatients()
+  }
+
+  const exportHistory = async () => {
+    if (!patientId) return
+    downloadText(`respirex-${patientId}-history.json`, await exportPatientHistory(patientId), 'application/json')
+  }
+
+  if (!isAvailable) {
+    return <p className="text-center text-gray-500">{t('history.unavailable')}</p>
+  }
+
+  if (patients.length === 0) {
+    return (
+      <div className="text-center text-gray-500 py-12">
+        <Users className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+        <p>{t('history.empty')}</p>
+      </div>
+    )
+  }
+
+  // Oldest first, so deltas read as change since the earlier visit
+  const compared = analyses.filter((r) => compareIds.indexOf(r.id) !== -1).reverse()
+  const [earlier, later] = compared
+  const comparison = compared.length === 2 && isDiseaseResult(earlier.result) && isDiseaseResult(later.result)
+    ? { earlier: earlier.result.class_probabilities, later: later.result.class_probabilities }
+    : null
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      <div className="space-y-2">
+        {patients.map((patient) => (
+          <button
+            key={patient.id}
+            onClick={() => setPatientId(patient.id)}
+            className={`w-full text-left p-3 rounded-lg transition-colors ${
+              patient.id === patientId ? 'bg-blue-600 text-white' : 'bg-white hover:bg-blue-50 text-gray-900'
+            }`}
+          >
+            <p className="font-medium">{patient.id}</p>
+            <p className={`text-xs ${patient.id === patientId ? 'text-blue-100' : 'text-gray-500'}`}>
+              {t('case.age', { band: patient.ageBand })} · {t(SEX_LABELS[patient.sex])}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      <div className="lg:col-span-3 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <h3 className="text-xl font-semibold text-gray-900 mr-auto">
+            {patientId} <span className="text-sm font-normal text-gray-500">({t('history.count', { count: analyses.length })})</span>
+          </h3>
+          <button
+            onClick={exportHistory}
+            className="px-3 py-2 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center space-x-1"
+          >
+            <Download className="w-4 h-4" />
+            <span>{t('annotationFile.export')}</span>
+          </button>
+          <button
+            onClick={removePatient}
+            className="px-3 py-2 text-sm bg-white border border-gray-300 rounded-lg hover:bg-red-50 text-red-600 flex items-center space-x-1"
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>{t('history.deletePatient')}</span>
+          </button>
+        </div>
+
+        {comparison && (
+          <div className="p-4 bg-white rounded-lg border border-blue-200">
+            <h4 className="font-medium text-gray-900 mb-3 flex items-center space-x-2">
+              <GitCompare className="w-4 h-4 text-blue-600" />
+              <span>{formatDate(earlier.createdAt)} → {formatDate(later.createdAt)}</span>
+            </h4>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1 font-medium">{t('comparison.class')}</th>
+                  <th className="py-1 font-medium text-right">{t('history.earlier')}</th>
+                  <th className="py-1 font-medium text-right">{t('history.later')}</th>
+                  <th className="py-1 font-medium text-right">{t('history.change')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rankProbabilities(comparison.later).map(({ label, probability }) => {
+                  const before = comparison.earlier[label] ?? 0
+                  const delta = probability - before
+                  return (
+                    <tr key={label} className="border-t border-gray-100">
+                      <td className="py-1 text-gray-900">{label}</td>
+                      <td className="py-1 text-right tabular-nums">{formatPercent(before)}</td>
+                      <td className="py-1 text-right tabular-nums">{formatPercent(probability)}</td>
+                      <td className={`py-1 text-right tabular-nums ${delta > 0.05 ? 'text-red-600' : delta < -0.05 ? 'text-green-600' : 'text-gray-500'}`}>
+                        {delta > 0 ? '+' : ''}{formatPercent(delta)}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {compareIds.length > 0 && !comparison && (
+          <p className="text-sm text-gray-500">{t('history.compareHint')}</p>
+        )}
+
+        <div className="space-y-3">
+          {analyses.map((record) => (
+            <div key={record.id} className="p-4 bg-white rounded-lg shadow-sm">
+              <div className="flex flex-wrap items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={compareIds.indexOf(record.id) !== -1}
+                  onChange={() => toggleCompare(record.id)}
+                  title={t('history.compare')}
+                  aria-label={t('history.compareAnalysis', { date: formatDate(record.createdAt) })}
+                />
+                <button
+                  onClick={() => togglePlayback(record)}
+                  disabled={!record.recordingId}
+                  title={t(record.recordingId ? 'history.play' : 'history.noRecording')}
+                  aria-label={t(!record.recordingId ? 'history.noRecording' : playingId === record.id ? 'history.pause' : 'history.play')}
+                  className="w-8 h-8 bg-blue-600 text-white rounded-full flex items-center justify-center hover:bg-blue-700 transition-colors disabled:opacity-30"
+                >
+                  {playingId === record.id ? <Pause className="w-4 h-4" aria-hidden /> : <Play className="w-4 h-4 ml-0.5" aria-hidden />}
+                </button>
+                <div className="mr-auto">
+                  <p className="font-medium text-gray-900">
+                    {predictedLabel(record.result)}{' '}
+                    <span className="text-gray-500 font-normal">{formatPercent(record.result.confidence)}</span>
+                    <InconclusiveBadge result={record.result} modelId={record.model} />
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatDate(record.createdAt)} · {modelName(record.model)}
+                    {record.recordingSite && ` · ${recordingSiteName(record.recordingSite, i18n)}`}
+                    {' · '}{record.filename}
+                    {record.analysedBy && ` · ${t('history.by', { name: record.analysedBy.name })}`}
+                  </p>
+                </div>
+                <button onClick={() => removeAnalysis(record)} title={t('history.deleteAnalysis')} aria-label={t('history.deleteAnalysisFrom', { date: formatDate(record.createdAt) })} className="p-1 text-gray-400 hover:text-red-600">
+                  <Trash2 className="w-4 h-4" aria-hidden />
+                </button>
+              </div>
+              {record.symptoms.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {record.symptoms.map((symptom) => (
+                    <span key={symptom} className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded-full text-xs">{symptomName(symptom, i18n)}</span>
+                  ))}
+                </div>
+              )}
+              {'class_probabilities' in record.result && (
+                <p className="mt-2 text-xs text-gray-600">
+                  {rankProbabilities(record.result.class_probabilities)
+                    .map(({ label, probability }) => `${label} ${formatPercent(probability, 0)}`)
+                    .join(' · ')}
+                </p>
+              )}
+              {'events' in record.result && record.result.events.length > 0 && (
+                <p className="mt-2 text-xs text-gray-600">
+                  {t('history.events', {
+                    count: record.result.events.length,
+                    events: record.result.events
+                      .map((event) => `${event.label} ${formatNumber(event.start, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}–${formatNumber(event.end, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}s`)
+                      .join(', '),
+                  })}
+                </p>
+              )}
+              <div className="mt-3">
+                <SignOffStatus
+                  record={record}
+                  onSigned={(signed) => setAnalyses((current) => current.map((r) => (r.id === signed.id ? signed : r)))}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
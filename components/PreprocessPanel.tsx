@@ -0,0 +1,138 @@
+'use client'
+
+import { KeyboardEvent } from 'react'
+import { SlidersHorizontal } from 'lucide-react'
+import { PreprocessOptions } from '@/lib/audio/preprocess'
+import { useI18n } from '@/lib/useI18n'
+
+interface PreprocessPanelProps {
+  enabled: boolean
+  onEnabledChange: (enabled: boolean) => void
+  options: PreprocessOptions
+  onChange: (options: PreprocessOptions) => void
+  file: File
+  // Seconds, once the recording has been decoded
+  duration?: number
+}
+
+const blurOnEnter = (e: KeyboardEvent<HTMLInputElement>) => {
+  if (e.key === 'Enter') e.currentTarget.blur()
+}
+
+export default function PreprocessPanel({ enabled, onEnabledChange, options, onChange, file, duration }: PreprocessPanelProps) {
+  const { t, formatNumber, formatTime } = useI18n()
+  const update = (patch: Partial<PreprocessOptions>) => onChange({ ...options, ...patch })
+  const formatMb = (bytes: number) =>
+    t('file.size', { size: formatNumber(bytes / (1024 * 1024), { minimumFractionDigits: 2, maximumFractionDigits: 2 }) })
+
+  // Invalid entries are dropped and the input snaps back to the current value
+  const setCutoff = (edge: 'lowCutHz' | 'highCutHz', input: HTMLInputElement) => {
+    const value = Number(input.value)
+    const next = { ...options, [edge]: value }
+    if (value > 0 && next.lowCutHz < next.highCutHz) onChange(next)
+    else input.value = String(options[edge])
+  }
+
+  const setTrim = (edge: 'start' | 'end', input: HTMLInputElement) => {
+    if (!duration || !options.trim) return
+    const value = Number(input.value)
+    const next = { ...options.trim, [edge]: Math.min(Math.max(0, value), duration) }
+    if (input.value !== '' && !Number.isNaN(value) && next.end > next.start) update({ trim: next })
+    else input.value = options.trim[edge].toFixed(1)
+  }
+
+  const keptSeconds = options.trim ? options.trim.end - options.trim.start : duration
+  // 16-bit mono WAV; without resampling the browser's decode rate is used, typically 48 kHz
+  const estimatedBytes = keptSeconds ? 44 + keptSeconds * (options.resample ? options.targetSampleRate : 48000) * 2 : null
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-3 text-sm">
+      <label className="flex items-center space-x-2 font-medium text-gray-900 cursor-pointer">
+        <input type="checkbox" checked={enabled} onChange={(e) => onEnabledChange(e.target.checked)} />
+        <SlidersHorizontal className="w-4 h-4 text-gray-500" />
+        <span>{t('preprocess.enable')}</span>
+      </label>
+
+      {enabled && (
+        <div className="space-y-2 text-gray-700">
+          <label className="flex items-center space-x-2">
+            <input type="checkbox" checked={options.resample} onChange={(e) => update({ resample: e.target.checked })} />
+            <span>{t('preprocess.resample', { rate: formatNumber(options.targetSampleRate) })}</span>
+          </label>
+          <label className="flex flex-wrap items-center gap-2">
+            <input type="checkbox" checked={options.bandPass} onChange={(e) => update({ bandPass: e.target.checked })} />
+            <span>{t('preprocess.bandPass')}</span>
+            <input
+              type="number"
+              min={20}
+              step={10}
+              key={`low-${options.lowCutHz}`}
+              defaultValue={options.lowCutHz}
+              disabled={!options.bandPass}
+              onBlur={(e) => setCutoff('lowCutHz', e.target)}
+              onKeyDown={blurOnEnter}
+              className="w-20 p-1 border border-gray-300 rounded"
+            />
+            <span>{t('preprocess.to')}</span>
+            <input
+              type="number"
+              min={200}
+              step={100}
+              key={`high-${options.highCutHz}`}
+              defaultValue={options.highCutHz}
+              disabled={!options.bandPass}
+              onBlur={(e) => setCutoff('highCutHz', e.target)}
+              onKeyDown={blurOnEnter}
+              className="w-20 p-1 border border-gray-300 rounded"
+            />
+            <span>Hz</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input type="checkbox" checked={options.normalize} onChange={(e) => update({ normalize: e.target.checked })} />
+            <span>{t('preprocess.normalize', { level: formatNumber(options.targetLoudnessDb) })}</span>
+          </label>
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={!!options.trim}
+                disabled={!duration}
+                onChange={(e) => update({ trim: e.target.checked && duration ? { start: 0, end: duration } : null })}
+              />
+              <span>{t('preprocess.trim')}</span>
+            </label>
+            <input
+              key={`start-${options.trim?.start}`}
+              type="number"
+              min={0}
+              step={0.1}
+              defaultValue={options.trim ? options.trim.start.toFixed(1) : ''}
+              disabled={!options.trim}
+              onBlur={(e) => setTrim('start', e.target)}
+              onKeyDown={blurOnEnter}
+              className="w-20 p-1 border border-gray-300 rounded"
+            />
+            <span>–</span>
+            <input
+              key={`end-${options.trim?.end}`}
+              type="number"
+              min={0}
+              step={0.1}
+              defaultValue={options.trim ? options.trim.end.toFixed(1) : ''}
+              disabled={!options.trim}
+              onBlur={(e) => setTrim('end', e.target)}
+              onKeyDown={blurOnEnter}
+              className="w-20 p-1 border border-gray-300 rounded"
+            />
+            <span>{duration ? t('preprocess.trimOf', { duration: formatTime(duration) }) : t('annotation.secondsUnit')}</span>
+          </div>
+          {estimatedBytes && (
+            <p className="text-xs text-gray-500">
+              {t('preprocess.size', { estimated: formatMb(estimatedBytes), original: formatMb(file.size) })}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,16 @@
+'use client'
+
+import { useI18n } from '@/lib/useI18n'
+import { useMotionPreference } from '@/lib/useMotionPreference'
+
+export default function ReducedMotionToggle() {
+  const { reduced, setReduced } = useMotionPreference()
+  const { t } = useI18n()
+
+  return (
+    <label className="flex items-center space-x-2 cursor-pointer">
+      <input type="checkbox" checked={reduced} onChange={(e) => setReduced(e.target.checked)} />
+      <span>{t('a11y.reduceMotion')}</span>
+    </label>
+  )
+}
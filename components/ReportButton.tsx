@@ -0,0 +1,57 @@
+'use client'
+
+import { useState } from 'react'
+import { FileText, Loader2 } from 'lucide-react'
+import type { BreathingCycle, PredictionResult } from '@/lib/api'
+import { RecordAuthor, SignOff, VisitDetails, getPatient } from '@/lib/cases'
+import { baseName, downloadBlob } from '@/lib/download'
+import { generateReport } from '@/lib/report'
+import { useI18n } from '@/lib/useI18n'
+
+interface ReportButtonProps {
+  result: PredictionResult
+  // Catalogue id of the model that produced the result
+  model: string
+  patientId?: string | null
+  visit?: VisitDetails
+  recording?: Blob | null
+  // Breathing cycles shown on screen, so the report matches them
+  cycles?: BreathingCycle[]
+  analysedBy?: RecordAuthor
+  signOff?: SignOff
+}
+
+export default function ReportButton({ result, model, patientId, visit, recording, cycles, analysedBy, signOff }: ReportButtonProps) {
+  const { t } = useI18n()
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const createReport = async () => {
+    setIsGenerating(true)
+    setError(null)
+    try {
+      const patient = patientId ? await getPatient(patientId) : null
+      const pdf = await generateReport({ result, model, patient, visit, recording, cycles, analysedBy, signOff })
+      downloadBlob(`${baseName(result.filename || 'analysis')}-report.pdf`, pdf)
+    } catch (err) {
+      console.error('Report error:', err)
+      setError(t('report.failed'))
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={createReport}
+        disabled={isGenerating}
+        className="w-full py-3 px-6 bg-white border border-blue-600 text-blue-600 rounded-lg font-medium hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
+      >
+        {isGenerating ? <Loader2 className="w-5 h-5 animate-spin" /> : <FileText className="w-5 h-5" />}
+        <span>{t(isGenerating ? 'report.generating' : 'report.generate')}</span>
+      </button>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+'use client'
+
+import { KeyboardEvent } from 'react'
+import { Scissors } from 'lucide-react'
+import { AGGREGATION_METHODS, AggregationMethod, SegmentOptions, planSegments } from '@/lib/segmentation'
+import { useI18n } from '@/lib/useI18n'
+
+interface SegmentPanelProps {
+  enabled: boolean
+  onEnabledChange: (enabled: boolean) => void
+  options: SegmentOptions
+  onChange: (options: SegmentOptions) => void
+  method: AggregationMethod
+  onMethodChange: (method: AggregationMethod) => void
+  // Seconds, once the recording has been decoded
+  duration?: number
+}
+
+const blurOnEnter = (e: KeyboardEvent<HTMLInputElement>) => {
+  if (e.key === 'Enter') e.currentTarget.blur()
+}
+
+export default function SegmentPanel({ enabled, onEnabledChange, options, onChange, method, onMethodChange, duration }: SegmentPanelProps) {
+  const { t } = useI18n()
+
+  // Invalid entries are dropped and the input snaps back to the current value
+  const setOption = (key: keyof SegmentOptions, input: HTMLInputElement) => {
+    const value = Number(input.value)
+    const next = { ...options, [key]: value }
+    if (input.value !== '' && next.windowSeconds >= 2 && next.overlapSeconds >= 0 && next.overlapSeconds < next.windowSeconds) onChange(next)
+    else input.value = String(options[key])
+  }
+
+  const segmentCount = duration ? planSegments(duration, options).length : null
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-3 text-sm">
+      <label className="flex items-center space-x-2 font-medium text-gray-900 cursor-pointer">
+        <input type="checkbox" checked={enabled} onChange={(e) => onEnabledChange(e.target.checked)} />
+        <Scissors className="w-4 h-4 text-gray-500" />
+        <span>{t('segments.enable')}</span>
+      </label>
+
+      {enabled && (
+        <div className="space-y-2 text-gray-700">
+          <div className="flex flex-wrap items-center gap-2">
+            <span>{t('segments.window')}</span>
+            <input
+              type="number"
+              min={2}
+              step={1}
+              key={`window-${options.windowSeconds}`}
+              defaultValue={options.windowSeconds}
+              onBlur={(e) => setOption('windowSeconds', e.target)}
+              onKeyDown={blurOnEnter}
+              className="w-16 p-1 border border-gray-300 rounded"
+            />
+            <span>{t('segments.overlap')}</span>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              key={`overlap-${options.overlapSeconds}`}
+              defaultValue={options.overlapSeconds}
+              onBlur={(e) => setOption('overlapSeconds', e.target)}
+              onKeyDown={blurOnEnter}
+              className="w-16 p-1 border border-gray-300 rounded"
+            />
+            <span>{t('annotation.secondsUnit')}</span>
+          </div>
+          <label className="flex flex-wrap items-center gap-2">
+            <span>{t('segments.combine')}</span>
+            <select
+              value={method}
+              onChange={(e) => onMethodChange(e.target.value as AggregationMethod)}
+              className="p-1 border border-gray-300 rounded bg-white"
+            >
+              {(Object.keys(AGGREGATION_METHODS) as AggregationMethod[]).map((key) => (
+                <option key={key} value={key}>{t(AGGREGATION_METHODS[key].label)}</option>
+              ))}
+            </select>
+          </label>
+          <p className="text-xs text-gray-500">
+            {t(AGGREGATION_METHODS[method].description)}
+            {segmentCount && ` ${t(segmentCount === 1 ? 'segments.requestsOne' : 'segments.requests', { count: segmentCount })}`}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
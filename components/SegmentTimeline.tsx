@@ -0,0 +1,92 @@
+'use client'
+
+import { useState } from 'react'
+import { getClassStyle, getConfidenceColor } from '@/components/predictionStyles'
+import { formatPercent } from '@/lib/predictions'
+import { AGGREGATION_METHODS, SegmentedPredictionResult } from '@/lib/segmentation'
+import { useI18n } from '@/lib/useI18n'
+
+interface SegmentTimelineProps {
+  result: SegmentedPredictionResult
+  modelId?: string
+}
+
+export default function SegmentTimeline({ result, modelId }: SegmentTimelineProps) {
+  const { t, formatTime } = useI18n()
+  const [selected, setSelected] = useState<number | null>(null)
+  const { segments } = result
+  const duration = segments.length > 0 ? segments[segments.length - 1].end : 0
+  const method = AGGREGATION_METHODS[result.aggregation]
+
+  return (
+    <div className="p-4 bg-white rounded-lg space-y-3">
+      <div>
+        <h5 className="font-medium text-gray-900">{t('segments.timeline')}</h5>
+        <p className="text-xs text-gray-500">
+          {t('segments.summary', { count: segments.length, method: t(method.label) })} {t(method.description)}
+        </p>
+      </div>
+
+      {/* Overlapping windows alternate between two rows so both edges stay visible */}
+      <div role="group" aria-label={t('segments.group')} className="relative h-16 bg-gray-50 rounded">
+        {segments.map((segment) => (
+          <button
+            key={segment.index}
+            onClick={() => setSelected(selected === segment.index ? null : segment.index)}
+            aria-pressed={selected === segment.index}
+            aria-label={t('segments.segment', {
+              number: segment.index + 1,
+              start: formatTime(segment.start),
+              end: formatTime(segment.end),
+              prediction: segment.prediction,
+              confidence: formatPercent(segment.confidence),
+            })}
+            title={`${formatTime(segment.start)}–${formatTime(segment.end)}: ${segment.prediction} (${formatPercent(segment.confidence)})`}
+            className={`absolute h-7 rounded text-xs font-medium truncate px-1 border ${
+              selected === segment.index ? 'border-gray-900' : 'border-white'
+            }`}
+            style={{
+              ...getClassStyle(segment.prediction, modelId),
+              left: `${(segment.start / duration) * 100}%`,
+              width: `${((segment.end - segment.start) / duration) * 100}%`,
+              top: segment.index % 2 === 0 ? 0 : '2.25rem',
+            }}
+          >
+            {segment.prediction}
+          </button>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-400" aria-hidden>
+        <span>{formatTime(0)}</span>
+        <span>{formatTime(duration)}</span>
+      </div>
+
+      <div className="max-h-48 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead className="text-xs text-gray-500 text-left">
+            <tr>
+              <th className="py-1 font-medium">#</th>
+              <th className="py-1 font-medium">{t('segments.time')}</th>
+              <th className="py-1 font-medium">{t('batch.prediction')}</th>
+              <th className="py-1 font-medium text-right">{t('batch.confidence')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {segments.map((segment) => (
+              <tr
+                key={segment.index}
+                onClick={() => setSelected(segment.index)}
+                className={`cursor-pointer border-t border-gray-100 ${selected === segment.index ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+              >
+                <td className="py-1 text-gray-500">{segment.index + 1}</td>
+                <td className="py-1 text-gray-600">{formatTime(segment.start)}–{formatTime(segment.end)}</td>
+                <td className="py-1 text-gray-900">{segment.prediction}</td>
+                <td className={`py-1 text-right ${getConfidenceColor(segment.confidence)}`}>{formatPercent(segment.confidence)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+'use client'
+
+import { motion } from 'framer-motion'
+import { FileAudio } from 'lucide-react'
+import { useI18n } from '@/lib/useI18n'
+
+interface SelectedFileProps {
+  file: File
+  onClear: () => void
+}
+
+export default function SelectedFile({ file, onClear }: SelectedFileProps) {
+  const { t, formatNumber } = useI18n()
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="p-4 bg-gray-50 rounded-lg"
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <FileAudio className="w-5 h-5 text-gray-500" aria-hidden />
+          <div>
+            <p className="font-medium text-gray-900">{file.name}</p>
+            <p className="text-sm text-gray-500">
+              {t('file.size', { size: formatNumber(file.size / (1024 * 1024), { minimumFractionDigits: 2, maximumFractionDigits: 2 }) })}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onClear}
+          aria-label={t('file.remove', { name: file.name })}
+          className="text-gray-400 hover:text-gray-600"
+        >
+          <span aria-hidden>×</span>
+        </button>
+      </div>
+    </motion.div>
+  )
+}
@@ -0,0 +1,14 @@
+'use client'
+
+import type { SessionUser } from '@/lib/auth/session'
+import { SessionContext } from '@/lib/useSession'
+
+interface SessionProviderProps {
+  // Read from the session cookie on the server; signing in or out reloads the page, so it never changes here
+  user: SessionUser | null
+  children: React.ReactNode
+}
+
+export default function SessionProvider({ user, children }: SessionProviderProps) {
+  return <SessionContext.Provider value={user}>{children}</SessionContext.Provider>
+}
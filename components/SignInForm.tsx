@@ -0,0 +1,131 @@
+'use client'
+
+import { FormEvent, useState } from 'react'
+import { AlertCircle, KeyRound, Loader2 } from 'lucide-react'
+import { describeServerError } from '@/lib/api/errors'
+import type { AuthProviderSummary } from '@/lib/auth/providers'
+import type { MessageKey } from '@/lib/i18n'
+import { useI18n } from '@/lib/useI18n'
+
+interface SignInFormProps {
+  providers: AuthProviderSummary[]
+  // Page that sent the visitor here; the server decides whether their role may open it
+  next: string
+  // Message code for why a redirect sign-in failed, passed back by the callback
+  error?: string
+}
+
+// Codes the sign-in routes put in ?error=; anything else in the address is shown as a plain failure
+const SIGN_IN_ERRORS: MessageKey[] = [
+  'signin.failed',
+  'server.unknownProvider',
+  'server.stateExpired',
+  'server.providerUnreachable',
+  'server.oidcUnavailable',
+  'server.oidcRefused',
+  'server.oidcMismatch',
+  'server.oidcToken',
+  'server.oidcNoEmail',
+  'server.oidcUnverified',
+  'server.accountDisabled',
+  'server.noRole',
+]
+
+const signInErrorKey = (code: string): MessageKey =>
+  SIGN_IN_ERRORS.find((key) => key === code) ?? 'signin.failed'
+
+export default function SignInForm({ providers, next, error: initialError }: SignInFormProps) {
+  const { t } = useI18n()
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(initialError ? t(signInErrorKey(initialError)) : null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const credentials = providers.filter((provider) => provider.type === 'credentials')[0]
+  const redirects = providers.filter((provider) => provider.type === 'redirect')
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!credentials) return
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/auth/${credentials.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password, next }),
+      })
+      const body = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(response.status === 401 ? t('signin.incorrect') : describeServerError(body, t('signin.failed')))
+      // A full load so the server renders the navigation and pages for the new session
+      window.location.assign(body.redirect)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('signin.failed'))
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="max-w-sm mx-auto space-y-6">
+      {error && (
+        <div role="alert" className="p-3 border-l-4 border-red-500 bg-red-50 rounded-lg flex items-center space-x-2 text-sm text-red-700">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" aria-hidden />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {credentials && (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="signin-email" className="block text-sm font-medium text-gray-700 mb-1">{t('signin.email')}</label>
+            <input
+              id="signin-email"
+              type="email"
+              autoComplete="username"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+          <div>
+            <label htmlFor="signin-password" className="block text-sm font-medium text-gray-700 mb-1">{t('signin.password')}</label>
+            <input
+              id="signin-password"
+              type="password"
+              autoComplete="current-password"
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full py-3 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg font-semibold hover:from-blue-700 hover:to-indigo-700 transition-colors disabled:opacity-50 flex items-center justify-center space-x-2"
+          >
+            {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" aria-hidden />}
+            <span>{t('signin.submit')}</span>
+          </button>
+        </form>
+      )}
+
+      {credentials && redirects.length > 0 && (
+        <p className="text-center text-sm text-gray-400">{t('signin.or')}</p>
+      )}
+
+      {redirects.map((provider) => (
+        <a
+          key={provider.id}
+          href={`/api/auth/${provider.id}?${new URLSearchParams({ next }).toString()}`}
+          className="w-full py-3 bg-white text-gray-700 border border-gray-300 rounded-lg font-medium hover:bg-gray-50 transition-colors flex items-center justify-center space-x-2"
+        >
+          <KeyRound className="w-4 h-4" aria-hidden />
+          <span>{t('signin.with', { provider: provider.name })}</span>
+        </a>
+      ))}
+
+      {providers.length === 0 && <p className="text-center text-sm text-gray-500">{t('signin.unavailable')}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2, ShieldCheck } from 'lucide-react'
+import { ROLE_LABELS } from '@/lib/auth/roles'
+import type { AnalysisRecord } from '@/lib/cases'
+import { signOffAnalysis } from '@/lib/signoffs'
+import { useI18n } from '@/lib/useI18n'
+import { useSession } from '@/lib/useSession'
+
+interface SignOffStatusProps {
+  record: AnalysisRecord
+  onSigned: (record: AnalysisRecord) => void
+}
+
+// Who reviewed a saved result, or a sign-off button for clinicians while nobody has
+export default function SignOffStatus({ record, onSigned }: SignOffStatusProps) {
+  const user = useSession()
+  const { t, formatDateTime } = useI18n()
+  const [isSigning, setIsSigning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (record.signOff) {
+    return (
+      <p className="flex items-center space-x-2 text-sm text-green-700">
+        <ShieldCheck className="w-4 h-4 flex-shrink-0" aria-hidden />
+        <span>
+          {t('signoff.signed', {
+            name: record.signOff.name,
+            role: t(ROLE_LABELS[record.signOff.role]),
+            date: formatDateTime(record.signOff.signedAt),
+          })}
+        </span>
+      </p>
+    )
+  }
+
+  if (user?.role !== 'clinician') return <p className="text-sm text-gray-500">{t('signoff.pending')}</p>
+
+  const signOff = async () => {
+    setIsSigning(true)
+    setError(null)
+    try {
+      onSigned(await signOffAnalysis(record))
+    } catch (err) {
+      console.error('Sign-off error:', err)
+      setError(t('signoff.failed', { message: err instanceof Error ? err.message : String(err) }))
+    } finally {
+      setIsSigning(false)
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <button
+        onClick={signOff}
+        disabled={isSigning}
+        className="px-3 py-2 text-sm bg-white border border-green-600 text-green-700 rounded-lg hover:bg-green-50 disabled:opacity-50 flex items-center space-x-2"
+      >
+        {isSigning ? <Loader2 className="w-4 h-4 animate-spin" aria-hidden /> : <ShieldCheck className="w-4 h-4" aria-hidden />}
+        <span>{t('signoff.action', { name: user.name })}</span>
+      </button>
+      {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
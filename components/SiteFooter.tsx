@@ -0,0 +1,53 @@
+import Link from 'next/link'
+import ReducedMotionToggle from '@/components/ReducedMotionToggle'
+import { getSession } from '@/lib/auth/server'
+import { navItemsFor } from '@/lib/navigation'
+import { getServerTranslator } from '@/lib/i18n/server'
+
+export default async function SiteFooter() {
+  const { t } = getServerTranslator()
+  const session = await getSession()
+
+  return (
+    <footer className="bg-gray-900 text-white py-12">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+          <div>
+            <div className="flex items-center space-x-3 mb-4">
+              <div className="w-10 h-10 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-xl flex items-center justify-center">
+                <img src="/logo.png" alt="" className="w-6 h-6" />
+              </div>
+              <h3 className="text-2xl font-bold">RespireX</h3>
+            </div>
+            <p className="text-gray-400">{t('footer.tagline')}</p>
+          </div>
+          <div>
+            <h4 className="text-lg font-semibold mb-4">{t('footer.quickLinks')}</h4>
+            <div className="space-y-2">
+              {navItemsFor(session?.user.role).map((item) => (
+                <Link
+                  key={item.href}
+                  href={item.href}
+                  className="block text-gray-400 hover:text-white transition-colors"
+                >
+                  {t(item.label)}
+                </Link>
+              ))}
+            </div>
+          </div>
+          <div>
+            <h4 className="text-lg font-semibold mb-4">{t('footer.contact')}</h4>
+            <div className="space-y-2 text-gray-400">
+              <p>{t('footer.email', { email: 'respirexai@gmail.com' })}</p>
+              <p>{t('footer.phone', { phone: '+91 8465968724, +91 99824 62685' })}</p>
+            </div>
+          </div>
+        </div>
+        <div className="border-t border-gray-800 mt-8 pt-8 flex flex-col sm:flex-row items-center justify-between gap-4 text-gray-400">
+          <p>{t('footer.copyright')}</p>
+          <ReducedMotionToggle />
+        </div>
+      </div>
+    </footer>
+  )
+}
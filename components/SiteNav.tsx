@@ -0,0 +1,103 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { usePathname } from 'next/navigation'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Menu, X } from 'lucide-react'
+import AccountMenu from '@/components/AccountMenu'
+import BackendStatusIndicator from '@/components/BackendStatusIndicator'
+import LanguageSwitcher from '@/components/LanguageSwitcher'
+import { isActiveNavItem, navItemsFor } from '@/lib/navigation'
+import { useI18n } from '@/lib/useI18n'
+import { useSession } from '@/lib/useSession'
+
+export default function SiteNav() {
+  const pathname = usePathname()
+  const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
+  const { t } = useI18n()
+  const navItems = navItemsFor(useSession()?.role)
+
+  return (
+    <nav aria-label={t('nav.main')} className="fixed top-0 w-full bg-white/95 backdrop-blur-sm shadow-sm border-b border-gray-200 z-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center py-4">
+          <Link href="/" aria-label={t('nav.homeLink')}>
+            <motion.div className="flex items-center space-x-3" whileHover={{ scale: 1.05 }}>
+              <div className="w-10 h-10 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-xl flex items-center justify-center">
+                <img src="/logo.png" alt="" className="w-6 h-6" />
+              </div>
+              <span className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
+                RespireX
+              </span>
+            </motion.div>
+          </Link>
+
+          {/* Desktop Navigation */}
+          <div className="hidden md:flex items-center space-x-8">
+            {navItems.map((item) => (
+              <Link
+                key={item.href}
+                href={item.href}
+                aria-current={isActiveNavItem(item, pathname) ? 'page' : undefined}
+                className={`font-medium transition-colors ${
+                  isActiveNavItem(item, pathname) ? 'text-blue-600' : 'text-gray-600 hover:text-blue-600'
+                }`}
+              >
+                {t(item.label)}
+              </Link>
+            ))}
+            <LanguageSwitcher />
+            <BackendStatusIndicator />
+            <AccountMenu />
+          </div>
+
+          {/* Mobile Menu Button */}
+          <div className="md:hidden flex items-center space-x-2">
+            <LanguageSwitcher />
+            <BackendStatusIndicator />
+            <button
+              className="p-2"
+              aria-label={t('nav.menu')}
+              aria-expanded={mobileMenuOpen}
+              aria-controls="mobile-menu"
+              onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
+            >
+              {mobileMenuOpen ? <X className="w-6 h-6" aria-hidden /> : <Menu className="w-6 h-6" aria-hidden />}
+            </button>
+          </div>
+        </div>
+
+        {/* Mobile Navigation */}
+        <AnimatePresence>
+          {mobileMenuOpen && (
+            <motion.div
+              id="mobile-menu"
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              className="md:hidden border-t border-gray-200 py-4"
+            >
+              <div className="flex flex-col space-y-4">
+                {navItems.map((item) => (
+                  <Link
+                    key={item.href}
+                    href={item.href}
+                    aria-current={isActiveNavItem(item, pathname) ? 'page' : undefined}
+                    onClick={() => setMobileMenuOpen(false)}
+                    className={`font-medium text-left py-2 ${
+                      isActiveNavItem(item, pathname) ? 'text-blue-600' : 'text-gray-600 hover:text-blue-600'
+                    }`}
+                  >
+                    {t(item.label)}
+                  </Link>
+                ))}
+                <AccountMenu />
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+    </nav>
+  )
+}
@@ -0,0 +1,22 @@
+interface ToolPageProps {
+  title: string
+  description: string
+  children: React.ReactNode
+}
+
+// Shared frame for the app screens below the fixed navigation
+export default function ToolPage({ title, description, children }: ToolPageProps) {
+  return (
+    <section className="pt-24 pb-16">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-10">
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">{title}</h1>
+          <p className="text-xl text-gray-600 max-w-3xl mx-auto">{description}</p>
+        </div>
+        <div className="bg-white rounded-2xl p-8 shadow-lg">
+          {children}
+        </div>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,191 @@
+'use client'
+
+import { FormEvent, useEffect, useState } from 'react'
+import { AlertCircle, Loader2, Trash2, UserPlus, Users } from 'lucide-react'
+import type { PublicUser } from '@/lib/auth/users'
+import { ROLES, ROLE_LABELS, Role } from '@/lib/auth/roles'
+import { UserChanges, createUserAccount, deleteUserAccount, fetchUsers, updateUserAccount } from '@/lib/admin'
+import { useI18n } from '@/lib/useI18n'
+import { useSession } from '@/lib/useSession'
+
+const EMPTY_DRAFT = { name: '', email: '', role: 'clinician' as Role, password: '' }
+
+export default function UserAdmin() {
+  const { t } = useI18n()
+  const currentUser = useSession()
+  const [users, setUsers] = useState<PublicUser[] | null>(null)
+  const [draft, setDraft] = useState(EMPTY_DRAFT)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchUsers()
+      .then(setUsers)
+      .catch((err) => {
+        console.error('User list error:', err)
+        setError(err instanceof Error ? err.message : String(err))
+      })
+  }, [])
+
+  // Runs one change at a time, keyed so only the affected row shows a spinner
+  const run = async (key: string, action: () => Promise<void>) => {
+    setBusyId(key)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      console.error('User admin error:', err)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const replace = (updated: PublicUser) =>
+    setUsers((current) => (current ?? []).map((user) => (user.id === updated.id ? updated : user)))
+
+  const handleCreate = (e: FormEvent) => {
+    e.preventDefault()
+    run('new', async () => {
+      const created = await createUserAccount({ ...draft, password: draft.password || undefined })
+      setUsers((current) => (current ?? []).concat(created))
+      setDraft({ ...EMPTY_DRAFT, role: draft.role })
+    })
+  }
+
+  const update = (user: PublicUser, changes: UserChanges) =>
+    run(user.id, async () => replace(await updateUserAccount(user.id, changes)))
+
+  const resetPassword = (user: PublicUser) => {
+    const password = window.prompt(t('users.passwordPrompt', { email: user.email }))
+    if (password === null) return
+    update(user, { password: password || null })
+  }
+
+  const remove = (user: PublicUser) => {
+    if (!window.confirm(t('users.confirmDelete', { email: user.email }))) return
+    run(user.id, async () => {
+      await deleteUserAccount(user.id)
+      setUsers((current) => (current ?? []).filter((item) => item.id !== user.id))
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+        <Users className="w-5 h-5 text-gray-500" aria-hidden />
+        <span>{t('users.title')}</span>
+      </h3>
+
+      {error && (
+        <div role="alert" className="p-3 border-l-4 border-red-500 bg-red-50 rounded-lg flex items-center space-x-2 text-sm text-red-700">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" aria-hidden />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="p-4 bg-gray-50 rounded-lg grid grid-cols-1 sm:grid-cols-5 gap-2">
+        <input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder={t('users.name')}
+          aria-label={t('users.name')}
+          required
+          className="p-2 border border-gray-300 rounded-lg text-sm"
+        />
+        <input
+          type="email"
+          value={draft.email}
+          onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+          placeholder={t('signin.email')}
+          aria-label={t('signin.email')}
+          required
+          className="p-2 border border-gray-300 rounded-lg text-sm"
+        />
+        <select
+          value={draft.role}
+          onChange={(e) => setDraft({ ...draft, role: e.target.value as Role })}
+          aria-label={t('users.role')}
+          className="p-2 border border-gray-300 rounded-lg text-sm"
+        >
+          {ROLES.map((role) => (
+            <option key={role} value={role}>{t(ROLE_LABELS[role])}</option>
+          ))}
+        </select>
+        <input
+          type="password"
+          autoComplete="new-password"
+          value={draft.password}
+          onChange={(e) => setDraft({ ...draft, password: e.target.value })}
+          placeholder={t('users.password')}
+          aria-label={t('users.passwordHint')}
+          className="p-2 border border-gray-300 rounded-lg text-sm"
+        />
+        <button
+          type="submit"
+          disabled={busyId === 'new'}
+          className="px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center space-x-2"
+        >
+          {busyId === 'new' ? <Loader2 className="w-4 h-4 animate-spin" aria-hidden /> : <UserPlus className="w-4 h-4" aria-hidden />}
+          <span>{t('users.add')}</span>
+        </button>
+      </form>
+
+      {users === null && !error && <p className="text-sm text-gray-500">{t('users.loading')}</p>}
+
+      {users && (
+        <ul className="divide-y divide-gray-100 bg-white rounded-lg shadow-sm">
+          {users.map((user) => (
+            <li key={user.id} className="p-4 flex flex-wrap items-center gap-3 text-sm">
+              <div className="mr-auto min-w-0">
+                <p className={`font-medium ${user.disabled ? 'text-gray-400 line-through' : 'text-gray-900'}`}>{user.name}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {user.email} · {t(user.hasPassword ? 'users.hasPassword' : 'users.ssoOnly')}
+                </p>
+              </div>
+              <select
+                value={user.role}
+                onChange={(e) => update(user, { role: e.target.value as Role })}
+                disabled={busyId === user.id}
+                aria-label={t('users.roleFor', { email: user.email })}
+                className="p-2 border border-gray-300 rounded-lg text-sm"
+              >
+                {ROLES.map((role) => (
+                  <option key={role} value={role}>{t(ROLE_LABELS[role])}</option>
+                ))}
+              </select>
+              <label className="flex items-center space-x-1 text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!!user.disabled}
+                  onChange={(e) => update(user, { disabled: e.target.checked })}
+                  disabled={busyId === user.id || user.id === currentUser?.id}
+                />
+                <span>{t('users.disabled')}</span>
+              </label>
+              <button
+                onClick={() => resetPassword(user)}
+                disabled={busyId === user.id}
+                className="px-2 py-1 text-blue-600 hover:text-blue-700 disabled:opacity-50"
+              >
+                {t('users.setPassword')}
+              </button>
+              <button
+                onClick={() => remove(user)}
+                disabled={busyId === user.id || user.id === currentUser?.id}
+                title={t('users.delete')}
+                aria-label={t('users.deleteUser', { email: user.email })}
+                className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-30"
+              >
+                {busyId === user.id ? <Loader2 className="w-4 h-4 animate-spin" aria-hidden /> : <Trash2 className="w-4 h-4" aria-hidden />}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-gray-500">
+        {t('users.note')}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,228 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import WaveSurfer from 'wavesurfer.js'
+import RegionsPlugin, { Region } from 'wavesurfer.js/dist/plugins/regions.js'
+import SpectrogramPlugin from 'wavesurfer.js/dist/plugins/spectrogram.js'
+import TimelinePlugin from 'wavesurfer.js/dist/plugins/timeline.js'
+import { Play, Pause, Repeat, ZoomIn, ZoomOut } from 'lucide-react'
+import type { BreathingCycle, DetectedEvent } from '@/lib/api'
+import type { LabeledSegment } from '@/lib/annotationFormats'
+import { PHASE_COLORS } from '@/lib/breathing'
+import { WeightedWindow, saliencyColor } from '@/lib/explanation'
+import { withAlpha } from '@/lib/models'
+import { getEventColor } from '@/lib/predictions'
+import { useI18n } from '@/lib/useI18n'
+
+const NO_EVENTS: DetectedEvent[] = []
+const NO_SEGMENTS: LabeledSegment[] = []
+const NO_SALIENCY: WeightedWindow[] = []
+const NO_CYCLES: BreathingCycle[] = []
+
+const MIN_ZOOM = 0
+const MAX_ZOOM = 500
+
+interface WaveformViewerProps {
+  file: Blob
+  events?: DetectedEvent[]
+  referenceSegments?: LabeledSegment[]
+  // Heat overlay of how much each stretch contributed to the prediction
+  saliency?: WeightedWindow[]
+  // Inspiration and expiration phases, shaded under everything else
+  cycles?: BreathingCycle[]
+  onTimeUpdate?: (time: number) => void
+}
+
+export default function WaveformViewer({
+  file,
+  events = NO_EVENTS,
+  referenceSegments = NO_SEGMENTS,
+  saliency = NO_SALIENCY,
+  cycles = NO_CYCLES,
+  onTimeUpdate,
+}: WaveformViewerProps) {
+  const waveformRef = useRef<HTMLDivElement>(null)
+  const wavesurferRef = useRef<WaveSurfer | null>(null)
+  const regionsRef = useRef<RegionsPlugin | null>(null)
+  const activeRegionRef = useRef<Region | null>(null)
+  const loopRef = useRef(false)
+  const onTimeUpdateRef = useRef(onTimeUpdate)
+  const { t, formatTime } = useI18n()
+
+  const [isReady, setIsReady] = useState(false)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [duration, setDuration] = useState(0)
+  const [zoom, setZoom] = useState(MIN_ZOOM)
+  const [loop, setLoop] = useState(false)
+
+  onTimeUpdateRef.current = onTimeUpdate
+  loopRef.current = loop
+
+  useEffect(() => {
+    if (!waveformRef.current) return
+
+    const regions = RegionsPlugin.create()
+    const wavesurfer = WaveSurfer.create({
+      container: waveformRef.current,
+      height: 96,
+      waveColor: '#93c5fd',
+      progressColor: '#2563eb',
+      cursorColor: '#1e3a8a',
+      normalize: true,
+      plugins: [
+        regions,
+        // Rendered inside the scroll wrapper so it zooms and scrolls with the waveform
+        SpectrogramPlugin.create({
+          labels: true,
+          height: 128,
+          scale: 'mel',
+          frequencyMax: 4000,
+          fftSamples: 512,
+        }),
+        TimelinePlugin.create(),
+      ],
+    })
+
+    wavesurfer.on('ready', (total) => {
+      setDuration(total)
+      setIsReady(true)
+    })
+    wavesurfer.on('timeupdate', (time) => {
+      setCurrentTime(time)
+      onTimeUpdateRef.current?.(time)
+    })
+    wavesurfer.on('play', () => setIsPlaying(true))
+    wavesurfer.on('pause', () => setIsPlaying(false))
+    wavesurfer.on('finish', () => setIsPlaying(false))
+    // Clicking the waveform outside a region ends any region loop
+    wavesurfer.on('interaction', () => {
+      activeRegionRef.current = null
+    })
+
+    regions.on('region-clicked', (region, e) => {
+      e.stopPropagation()
+      activeRegionRef.current = region
+      region.play()
+    })
+    regions.on('region-out', (region) => {
+      if (activeRegionRef.current !== region) return
+      if (loopRef.current) {
+        region.play()
+      } else {
+        activeRegionRef.current = null
+      }
+    })
+
+    wavesurferRef.current = wavesurfer
+    regionsRef.current = regions
+    setIsReady(false)
+    setCurrentTime(0)
+    setZoom(MIN_ZOOM)
+    wavesurfer.loadBlob(file).catch((err) => console.error('Waveform decode error:', err))
+
+    return () => {
+      activeRegionRef.current = null
+      wavesurferRef.current = null
+      regionsRef.current = null
+      wavesurfer.destroy()
+    }
+  }, [file])
+
+  useEffect(() => {
+    const regions = regionsRef.current
+    if (!regions || !isReady) return
+    regions.clearRegions()
+    // Added first so event regions stay on top and clickable
+    cycles.forEach((cycle) => {
+      regions.addRegion({ ...cycle.inspiration, color: withAlpha(PHASE_COLORS.inspiration, 0.12), content: t('player.inspirationShort'), drag: false, resize: false })
+      regions.addRegion({ ...cycle.expiration, color: withAlpha(PHASE_COLORS.expiration, 0.12), content: t('player.expirationShort'), drag: false, resize: false })
+    })
+    saliency.forEach((window) => {
+      regions.addRegion({
+        start: window.start,
+        end: window.end,
+        color: saliencyColor(window.weight),
+        drag: false,
+        resize: false,
+      })
+    })
+    events.forEach((event) => {
+      regions.addRegion({
+        start: event.start,
+        end: event.end,
+        color: getEventColor(event.label),
+        content: event.label,
+        drag: false,
+        resize: false,
+      })
+    })
+    referenceSegments.forEach((segment) => {
+      regions.addRegion({
+        start: segment.start,
+        end: segment.end,
+        color: getEventColor(segment.label, 0.12),
+        content: t('player.reference', { label: segment.label }),
+        drag: false,
+        resize: false,
+      })
+    })
+  }, [events, referenceSegments, saliency, cycles, isReady, t])
+
+  const handleZoom = (value: number) => {
+    const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, value))
+    setZoom(next)
+    if (isReady) wavesurferRef.current?.zoom(next)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => wavesurferRef.current?.playPause()}
+            disabled={!isReady}
+            aria-label={t(isPlaying ? 'player.pause' : 'player.play')}
+            className="w-10 h-10 bg-blue-600 text-white rounded-full flex items-center justify-center hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isPlaying ? <Pause className="w-5 h-5" aria-hidden /> : <Play className="w-5 h-5 ml-0.5" aria-hidden />}
+          </button>
+          <span className="text-xs text-gray-500 tabular-nums">
+            {formatTime(currentTime)} / {formatTime(duration)}
+          </span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setLoop(!loop)}
+            title={t('player.loop')}
+            aria-label={t('player.loop')}
+            aria-pressed={loop}
+            className={`p-1.5 rounded ${loop ? 'bg-blue-100 text-blue-700' : 'text-gray-500 hover:bg-gray-100'}`}
+          >
+            <Repeat className="w-4 h-4" aria-hidden />
+          </button>
+          <button onClick={() => handleZoom(zoom - 50)} aria-label={t('player.zoomOut')} className="p-1.5 rounded text-gray-500 hover:bg-gray-100">
+            <ZoomOut className="w-4 h-4" aria-hidden />
+          </button>
+          <input
+            type="range"
+            min={MIN_ZOOM}
+            max={MAX_ZOOM}
+            value={zoom}
+            onChange={(e) => handleZoom(Number(e.target.value))}
+            aria-label={t('player.zoom')}
+            className="w-24"
+          />
+          <button onClick={() => handleZoom(zoom + 50)} aria-label={t('player.zoomIn')} className="p-1.5 rounded text-gray-500 hover:bg-gray-100">
+            <ZoomIn className="w-4 h-4" aria-hidden />
+          </button>
+        </div>
+      </div>
+
+      {/* Screen readers get the events from the text list beside the waveform */}
+      <div ref={waveformRef} role="img" aria-label={t('player.waveform')} className="rounded bg-white" />
+
+      {!isReady && <p className="text-xs text-gray-500">{t('player.decoding')}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+'use client'
+
+import { useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { ChevronDown, ChevronUp, AlertTriangle } from 'lucide-react'
+import { useI18n } from '@/lib/useI18n'
+
+// Question and answer come from the message catalogue as faq.<topic>.question / .answer
+const FAQ_TOPICS = ['what', 'reliable', 'formats', 'replacement', 'duration', 'security'] as const
+
+export default function Faq() {
+  const [openFaq, setOpenFaq] = useState<number | null>(null)
+  const { t } = useI18n()
+
+  return (
+    <section id="faq" className="py-16 bg-gradient-to-br from-blue-50 to-indigo-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          whileInView={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+          viewport={{ once: true }}
+          className="text-center mb-16"
+        >
+          <h2 className="text-4xl font-bold text-gray-900 mb-4">{t('faq.title')}</h2>
+          <p className="text-xl text-gray-600">
+            {t('faq.subtitle')}
+          </p>
+        </motion.div>
+
+        <div className="space-y-4">
+          {FAQ_TOPICS.map((topic, index) => (
+            <motion.div
+              key={index}
+              initial={{ opacity: 0, y: 20 }}
+              whileInView={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.1, duration: 0.8 }}
+              viewport={{ once: true }}
+              className="bg-white rounded-lg shadow-sm"
+            >
+              <button
+                id={`faq-question-${topic}`}
+                aria-expanded={openFaq === index}
+                aria-controls={`faq-answer-${topic}`}
+                onClick={() => setOpenFaq(openFaq === index ? null : index)}
+                className="w-full p-6 text-left flex items-center justify-between hover:bg-gray-50 transition-colors"
+              >
+                <span className="font-semibold text-gray-900">{t(`faq.${topic}.question`)}</span>
+                {openFaq === index ? (
+                  <ChevronUp className="w-5 h-5 text-gray-500" aria-hidden />
+                ) : (
+                  <ChevronDown className="w-5 h-5 text-gray-500" aria-hidden />
+                )}
+              </button>
+              <AnimatePresence>
+                {openFaq === index && (
+                  <motion.div
+                    id={`faq-answer-${topic}`}
+                    role="region"
+                    aria-labelledby={`faq-question-${topic}`}
+                    initial={{ opacity: 0, height: 0 }}
+                    animate={{ opacity: 1, height: 'auto' }}
+                    exit={{ opacity: 0, height: 0 }}
+                    className="overflow-hidden"
+                  >
+                    <div className="px-6 pb-6 text-gray-600">
+                      {t(`faq.${topic}.answer`)}
+                    </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+            </motion.div>
+          ))}
+        </div>
+
+        {/* AlertTriangle */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          whileInView={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+          viewport={{ once: true }}
+          className="mt-12 p-6 bg-yellow-50 border-l-4 border-yellow-400 rounded-lg"
+        >
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="w-6 h-6 text-yellow-600 mt-0.5" aria-hidden />
+            <div>
+              <h3 className="font-semibold text-yellow-800 mb-2">{t('disclaimer.title')}</h3>
+              <p className="text-yellow-700">{t('disclaimer.body')}</p>
+            </div>
+          </div>
+        </motion.div>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,52 @@
+'use client'
+
+import Link from 'next/link'
+import { motion } from 'framer-motion'
+import { useI18n } from '@/lib/useI18n'
+
+export default function Hero() {
+  const { t } = useI18n()
+
+  return (
+    <section id="home" className="pt-24 pb-16">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+          className="text-center"
+        >
+          <h1 className="text-5xl md:text-7xl font-bold bg-gradient-to-r from-blue-600 via-purple-600 to-indigo-600 bg-clip-text text-transparent mb-6">
+            RespireX
+          </h1>
+          <p className="text-xl md:text-2xl text-gray-600 mb-4 max-w-3xl mx-auto">
+            {t('hero.tagline')}
+          </p>
+          <p className="text-lg text-gray-500 mb-8 max-w-2xl mx-auto">
+            {t('hero.description')}
+          </p>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3, duration: 0.8 }}
+            className="flex flex-col sm:flex-row gap-4 justify-center items-center"
+          >
+            <Link
+              href="/analyze"
+              className="px-8 py-4 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-xl font-semibold text-lg hover:shadow-lg transition-all duration-300 hover:scale-105"
+            >
+              {t('hero.tryNow')}
+            </Link>
+            <Link
+              href="/#how-it-works"
+              className="px-8 py-4 border-2 border-blue-600 text-blue-600 rounded-xl font-semibold text-lg hover:bg-blue-50 transition-all duration-300"
+            >
+              {t('hero.learnMore')}
+            </Link>
+          </motion.div>
+        </motion.div>
+      </div>
+    </section>
+  )
+}
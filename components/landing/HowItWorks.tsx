@@ -0,0 +1,75 @@
+'use client'
+
+import { motion } from 'framer-motion'
+import { Upload, Brain, Target, Award } from 'lucide-react'
+import { useI18n } from '@/lib/useI18n'
+
+export default function HowItWorks() {
+  const { t } = useI18n()
+
+  return (
+    <section id="how-it-works" className="py-16 bg-white">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          whileInView={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+          viewport={{ once: true }}
+          className="text-center mb-16"
+        >
+          <h2 className="text-4xl font-bold text-gray-900 mb-4">{t('how.title')}</h2>
+          <p className="text-xl text-gray-600 max-w-3xl mx-auto">
+            {t('how.subtitle')}
+          </p>
+        </motion.div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
+          {[
+            {
+              step: "01",
+              title: t('how.upload.title'),
+              description: t('how.upload.description'),
+              icon: <Upload className="w-8 h-8" />
+            },
+            {
+              step: "02", 
+              title: t('how.analysis.title'),
+              description: t('how.analysis.description'),
+              icon: <Brain className="w-8 h-8" />
+            },
+            {
+              step: "03",
+              title: t('how.detection.title'),
+              description: t('how.detection.description'),
+              icon: <Target className="w-8 h-8" />
+            },
+            {
+              step: "04",
+              title: t('how.results.title'),
+              description: t('how.results.description'),
+              icon: <Award className="w-8 h-8" />
+            }
+          ].map((step, index) => (
+            <motion.div
+              key={index}
+              initial={{ opacity: 0, y: 30 }}
+              whileInView={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.1, duration: 0.8 }}
+              viewport={{ once: true }}
+              className="text-center p-6 rounded-2xl bg-gradient-to-br from-blue-50 to-indigo-50 hover:shadow-lg transition-all duration-300"
+            >
+              <div className="w-16 h-16 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-2xl flex items-center justify-center text-white mx-auto mb-4 relative">
+                {step.icon}
+                <div className="absolute -top-2 -right-2 w-6 h-6 bg-white text-blue-600 rounded-full flex items-center justify-center text-xs font-bold">
+                  {step.step}
+                </div>
+              </div>
+              <h3 className="text-xl font-semibold text-gray-900 mb-3">{step.title}</h3>
+              <p className="text-gray-600">{step.description}</p>
+            </motion.div>
+          ))}
+        </div>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,133 @@
+'use client'
+
+import Link from 'next/link'
+import { motion } from 'framer-motion'
+import { Stethoscope, Zap } from 'lucide-react'
+import type { ModelInfo } from '@/lib/api'
+import type { MessageKey } from '@/lib/i18n'
+import { enabledModels } from '@/lib/models'
+import { useModels } from '@/lib/useModels'
+import { useI18n } from '@/lib/useI18n'
+import { getClassStyle } from '@/components/predictionStyles'
+
+interface TaskStyle {
+  icon: typeof Stethoscope
+  subtitle: MessageKey
+  classesLabel: MessageKey
+  iconClassName: string
+  buttonClassName: string
+}
+
+const TASK_STYLES: Record<ModelInfo['task'], TaskStyle> = {
+  classification: {
+    icon: Stethoscope,
+    subtitle: 'models.classification',
+    classesLabel: 'models.classesDetected',
+    iconClassName: 'from-green-500 to-emerald-500',
+    buttonClassName: 'from-blue-600 to-indigo-600',
+  },
+  event_detection: {
+    icon: Zap,
+    subtitle: 'models.eventDetection',
+    classesLabel: 'models.eventsDetected',
+    iconClassName: 'from-orange-500 to-red-500',
+    buttonClassName: 'from-orange-500 to-red-500',
+  },
+}
+
+const INPUT_LINKS: Record<ModelInfo['input_type'], { path: string; label: MessageKey }> = {
+  audio: { path: '/analyze', label: 'models.openAnalyzer' },
+  annotation_events: { path: '/annotate', label: 'models.openAnnotator' },
+}
+
+export default function ModelCards() {
+  const models = enabledModels(useModels().models)
+  const { t } = useI18n()
+
+  return (
+    <section id="models" className="py-16 bg-gradient-to-br from-blue-50 to-indigo-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          whileInView={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+          viewport={{ once: true }}
+          className="text-center mb-16"
+        >
+          <h2 className="text-4xl font-bold text-gray-900 mb-4">{t('models.title')}</h2>
+          <p className="text-xl text-gray-600 max-w-3xl mx-auto">
+            {t('models.subtitle')}
+          </p>
+        </motion.div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {models.map((model, index) => (
+            <ModelCard key={model.id} model={model} fromLeft={index % 2 === 0} />
+          ))}
+        </div>
+      </div>
+    </section>
+  )
+}
+
+function ModelCard({ model, fromLeft }: { model: ModelInfo; fromLeft: boolean }) {
+  const style = TASK_STYLES[model.task]
+  const Icon = style.icon
+  const link = INPUT_LINKS[model.input_type]
+  const { t, formatNumber } = useI18n()
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: fromLeft ? -30 : 30 }}
+      whileInView={{ opacity: 1, x: 0 }}
+      transition={{ duration: 0.8 }}
+      viewport={{ once: true }}
+      className="bg-white rounded-2xl p-8 shadow-lg hover:shadow-xl transition-all duration-300 flex flex-col"
+    >
+      <div className="flex items-center mb-6">
+        <div className={`w-12 h-12 bg-gradient-to-r ${style.iconClassName} rounded-xl flex items-center justify-center text-white mr-4`}>
+          <Icon className="w-6 h-6" />
+        </div>
+        <div>
+          <h3 className="text-2xl font-bold text-gray-900">{model.name}</h3>
+          <p className="text-gray-600">
+            {t(style.subtitle)}{model.version ? ` · ${model.version}` : ''}
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-4 mb-6">
+        <div className="flex items-center justify-between p-4 bg-blue-50 rounded-lg">
+          <span className="font-medium text-gray-900">{t(style.classesLabel)}</span>
+          <span className="text-lg font-semibold text-blue-600">{formatNumber(model.classes.length)}</span>
+        </div>
+        {!!model.expected_latency_seconds && (
+          <div className="flex items-center justify-between p-4 bg-purple-50 rounded-lg">
+            <span className="font-medium text-gray-900">{t('models.processingTime')}</span>
+            <span className="text-lg font-semibold text-purple-600">{t('models.latency', { seconds: formatNumber(model.expected_latency_seconds) })}</span>
+          </div>
+        )}
+      </div>
+
+      {model.description && <p className="text-gray-600 mb-6">{model.description}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        {model.classes.map((item) => (
+          <span key={item.label} className="px-3 py-1 rounded-full text-sm" style={getClassStyle(item.label, model.id)}>
+            {item.label}
+          </span>
+        ))}
+      </div>
+
+      {/* Pinned to the bottom so buttons line up across cards of different lengths */}
+      <div className="mt-auto pt-6">
+        <Link
+          href={`${link.path}?model=${encodeURIComponent(model.id)}`}
+          className={`block w-full py-3 bg-gradient-to-r ${style.buttonClassName} text-white text-center rounded-lg font-semibold hover:shadow-lg transition-all duration-300`}
+        >
+          {t(link.label)}
+        </Link>
+      </div>
+    </motion.div>
+  )
+}
@@ -0,0 +1,66 @@
+'use client'
+
+import { motion } from 'framer-motion'
+import { useI18n } from '@/lib/useI18n'
+
+const TEAM_MEMBERS = [
+  {
+    name: "Aashi Goyal",
+    role: "",
+    image: "/Aashi_Goyal.jpeg",
+    bio: ""
+  },
+  {
+    name: "Jayithi Gavva",
+    role: "",
+    image: "/Jayithi_Gavva.png",
+    bio: ""
+  }
+]
+
+export default function Team() {
+  const { t } = useI18n()
+
+  return (
+    <section id="team" className="py-16 bg-white">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          whileInView={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+          viewport={{ once: true }}
+          className="text-center mb-16"
+        >
+          <h2 className="text-4xl font-bold text-gray-900 mb-4">{t('team.title')}</h2>
+          <p className="text-xl text-gray-600 max-w-3xl mx-auto">
+            {t('team.subtitle')}
+          </p>
+        </motion.div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-12 max-w-4xl mx-auto">
+          {TEAM_MEMBERS.map((member, index) => (
+            <motion.div
+              key={index}
+              initial={{ opacity: 0, y: 30 }}
+              whileInView={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.2, duration: 0.8 }}
+              viewport={{ once: true }}
+              className="text-center p-8 rounded-2xl bg-gradient-to-br from-blue-50 to-indigo-50 hover:shadow-lg transition-all duration-300"
+            >
+              <div className="w-32 h-32 mx-auto mb-6 rounded-full overflow-hidden shadow-lg">
+                <img
+                  src={member.image}
+                  alt={member.name}
+                  className="w-full h-full object-cover"
+                />
+              </div>
+              <h3 className="text-2xl font-bold text-gray-900 mb-2">{member.name}</h3>
+              <p className="text-lg text-blue-600 font-semibold mb-4">{member.role}</p>
+              <p className="text-gray-600 leading-relaxed">{member.bio}</p>
+            </motion.div>
+          ))}
+        </div>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,68 @@
+'use client'
+
+import { motion } from 'framer-motion'
+import { Brain, Target, Clock, Shield } from 'lucide-react'
+import { useI18n } from '@/lib/useI18n'
+
+export default function WhyChoose() {
+  const { t } = useI18n()
+
+  return (
+    <section id="why-choose" className="py-16 bg-white">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          whileInView={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+          viewport={{ once: true }}
+          className="text-center mb-16"
+        >
+          <h2 className="text-4xl font-bold text-gray-900 mb-4">{t('why.title')}</h2>
+          <p className="text-xl text-gray-600 max-w-3xl mx-auto">
+            {t('why.subtitle')}
+          </p>
+        </motion.div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
+          {[
+            {
+              icon: <Brain className="w-8 h-8" />,
+              title: t('why.ai.title'),
+              description: t('why.ai.description')
+            },
+            {
+              icon: <Target className="w-8 h-8" />,
+              title: t('why.insights.title'),
+              description: t('why.insights.description')
+            },
+            {
+              icon: <Clock className="w-8 h-8" />,
+              title: t('why.fast.title'),
+              description: t('why.fast.description')
+            },
+            {
+              icon: <Shield className="w-8 h-8" />,
+              title: t('why.secure.title'),
+              description: t('why.secure.description')
+            }
+          ].map((feature, index) => (
+            <motion.div
+              key={index}
+              initial={{ opacity: 0, y: 30 }}
+              whileInView={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.1, duration: 0.8 }}
+              viewport={{ once: true }}
+              className="text-center p-6 rounded-2xl bg-gradient-to-br from-blue-50 to-indigo-50 hover:shadow-lg transition-all duration-300 hover:scale-105"
+            >
+              <div className="w-16 h-16 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-2xl flex items-center justify-center text-white mx-auto mb-4">
+                {feature.icon}
+              </div>
+              <h3 className="text-xl font-semibold text-gray-900 mb-3">{feature.title}</h3>
+              <p className="text-gray-600">{feature.description}</p>
+            </motion.div>
+          ))}
+        </div>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,24 @@
+import type { CSSProperties } from 'react'
+import type { SiteFinding } from '@/lib/auscultation'
+import { DEFAULT_CLASS_THRESHOLD } from '@/lib/decision'
+import { getClassColor, withAlpha } from '@/lib/models'
+
+// Chip colours come from the model catalogue, so they are inline styles rather than Tailwind classes
+export const getClassStyle = (label: string, modelId?: string): CSSProperties => {
+  const color = getClassColor(label, modelId)
+  return { color, backgroundColor: withAlpha(color, 0.12) }
+}
+
+// Red below the class's decision threshold, yellow just above it, green once well clear
+export const getConfidenceColor = (confidence: number, threshold = DEFAULT_CLASS_THRESHOLD) => {
+  if (confidence < threshold) return 'text-red-600'
+  if (confidence < threshold + 0.2) return 'text-yellow-600'
+  return 'text-green-600'
+}
+
+// Site markers and legend on the chest map
+export const FINDING_COLORS: Record<SiteFinding, string> = {
+  normal: '#16a34a',
+  abnormal: '#dc2626',
+  inconclusive: '#ca8a04',
+}
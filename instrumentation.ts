@@ -0,0 +1,7 @@
+// Checked once at server start, so a production deploy without persistent storage fails before taking requests
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { dataDir } = await import('./lib/server/jsonStore')
+    dataDir()
+  }
+}
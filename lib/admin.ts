@@ -0,0 +1,44 @@
+import { describeServerError } from '@/lib/api/errors'
+import type { PublicUser } from '@/lib/auth/users'
+import type { Role } from '@/lib/auth/roles'
+import { t } from '@/lib/i18n'
+import type { ModelSettings } from '@/lib/modelSettings'
+
+// Browser side of the admin API routes; the server checks the admin role on every call
+export const ADMIN_USERS_URL = '/api/admin/users'
+export const ADMIN_MODEL_SETTINGS_URL = '/api/admin/model-settings'
+
+export interface UserChanges {
+  name?: string
+  email?: string
+  role?: Role
+  // Empty keeps the current password; null removes it
+  password?: string | null
+  disabled?: boolean
+}
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+    cache: 'no-store',
+  })
+  if (response.status === 204) return undefined as T
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) throw new Error(describeServerError(body, t('admin.requestFailed', { status: response.status })))
+  return body as T
+}
+
+export const fetchUsers = () => request<PublicUser[]>(ADMIN_USERS_URL)
+
+export const createUserAccount = (user: UserChanges) =>
+  request<PublicUser>(ADMIN_USERS_URL, { method: 'POST', body: JSON.stringify(user) })
+
+export const updateUserAccount = (id: string, changes: UserChanges) =>
+  request<PublicUser>(`${ADMIN_USERS_URL}/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(changes) })
+
+export const deleteUserAccount = (id: string) =>
+  request<void>(`${ADMIN_USERS_URL}/${encodeURIComponent(id)}`, { method: 'DELETE' })
+
+export const saveModelSettingsRemote = (settings: ModelSettings) =>
+  request<ModelSettings>(ADMIN_MODEL_SETTINGS_URL, { method: 'PUT', body: JSON.stringify(settings) })
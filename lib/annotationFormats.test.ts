@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import {
+  AnnotationFormatError,
+  LabeledSegment,
+  annotationsFromSegments,
+  compareSegments,
+  detectFormat,
+  parseAnnotations,
+  serializeAnnotations,
+} from './annotationFormats'
+
+const segments: LabeledSegment[] = [
+  { label: 'crackle', start: 0.5, end: 1.25 },
+  { label: 'wheeze', start: 2, end: 3.125 },
+]
+
+describe('annotation file round-trips', () => {
+  it('reads back ICBHI cycles', () => {
+    const text = serializeAnnotations('icbhi', segments, 'annotator')
+    expect(parseAnnotations('a.txt', text)).toEqual({ format: 'icbhi', segments })
+  })
+
+  it('reads back Audacity labels', () => {
+    const text = serializeAnnotations('audacity', segments, 'annotator')
+    expect(parseAnnotations('a.labels.txt', text)).toEqual({ format: 'audacity', segments })
+  })
+
+  it('reads back RespireX JSON with confidences', () => {
+    const detected = [{ ...segments[0], confidence: 0.9 }, segments[1]]
+    const text = serializeAnnotations('json', detected, 'model', { filename: 'a.wav', duration: 10 })
+    expect(parseAnnotations('a.json', text)).toEqual({ format: 'json', segments: detected })
+  })
+
+  it('writes one ICBHI row per cycle with every sound in it flagged', () => {
+    const text = serializeAnnotations('icbhi', [
+      { label: 'wheeze', start: 0.4, end: 1 },
+      { label: 'crackle', start: 0.1, end: 0.5 },
+      { label: 'normal', start: 1.5, end: 2 },
+    ], 'reference')
+    expect(text).toBe('0.100\t1.000\t1\t1\n1.500\t2.000\t0\t0\n')
+  })
+})
+
+describe('parsing', () => {
+  it('splits an ICBHI cycle with both sounds into two segments and keeps clean cycles', () => {
+    const { segments: parsed } = parseAnnotations('a.txt', '0.1\t0.9\t1\t1\n1.0\t2.0\t0\t0\n')
+    expect(parsed).toEqual([
+      { label: 'crackle', start: 0.1, end: 0.9 },
+      { label: 'wheeze', start: 0.1, end: 0.9 },
+      { label: 'normal', start: 1, end: 2 },
+    ])
+  })
+
+  it('tells ICBHI from Audacity by the columns', () => {
+    expect(detectFormat('a.txt', '0.1 0.9 1 0')).toBe('icbhi')
+    expect(detectFormat('a.txt', '0.1\t0.9\tcrackle')).toBe('audacity')
+  })
+
+  it('ignores Audacity spectral lines', () => {
+    const { segments: parsed } = parseAnnotations('a.txt', '0.1\t0.9\tCrackle\n\\\t100\t2000\n')
+    expect(parsed).toEqual([{ label: 'crackle', start: 0.1, end: 0.9 }])
+  })
+
+  it('names the line of a bad range', () => {
+    expect(() => parseAnnotations('a.txt', '0.1\t0.9\tcrackle\n2\t1\twheeze')).toThrow(new AnnotationFormatError('end is before start', 2))
+  })
+
+  it('rejects JSON from a newer version', () => {
+    const text = JSON.stringify({ format: 'respirex-annotations', version: 99, events: [] })
+    expect(() => parseAnnotations('a.json', text)).toThrow(AnnotationFormatError)
+  })
+})
+
+describe('annotationsFromSegments', () => {
+  it('keeps crackles and wheezes inside the recording and counts the rest', () => {
+    const { annotations, skipped } = annotationsFromSegments(
+      [
+        ...segments,
+        { label: 'Crackles', start: 4, end: 12 },
+        { label: 'stridor', start: 1, end: 2 },
+        { label: 'wheeze', start: 11, end: 12 },
+        { label: 'normal', start: 5, end: 6 },
+      ],
+      10
+    )
+    expect(annotations.map(({ type, start, end }) => ({ type, start, end }))).toEqual([
+      { type: 'crackle', start: 0.5, end: 1.25 },
+      { type: 'wheeze', start: 2, end: 3.125 },
+      { type: 'crackle', start: 4, end: 10 },
+    ])
+    expect(skipped).toBe(2)
+  })
+})
+
+describe('compareSegments', () => {
+  it('matches overlapping segments with the same label', () => {
+    const detected = [{ label: 'crackles', start: 1, end: 2 }, { label: 'wheeze', start: 5, end: 6 }]
+    expect(compareSegments(segments, detected)).toEqual({
+      referenceMatched: 1,
+      detectedMatched: 1,
+      referenceTotal: 2,
+      detectedTotal: 2,
+    })
+  })
+})
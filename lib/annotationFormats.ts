@@ -0,0 +1,235 @@
+import type { DetectedEvent } from '@/lib/api'
+import { Annotation, clampRange, createAnnotationId, sortAnnotations } from '@/lib/annotations'
+import { MessageKey, t } from '@/lib/i18n'
+
+export type AnnotationFormat = 'icbhi' | 'audacity' | 'json'
+
+export const ANNOTATION_FORMATS: Record<AnnotationFormat, { label: MessageKey; extension: string }> = {
+  icbhi: { label: 'annotationFile.icbhi', extension: '.txt' },
+  audacity: { label: 'annotationFile.audacity', extension: '.labels.txt' },
+  json: { label: 'annotationFile.json', extension: '.json' },
+}
+
+export const JSON_FORMAT_ID = 'respirex-annotations'
+export const JSON_FORMAT_VERSION = 1
+
+// ICBHI cycles flagged with neither sound; kept on import so the file's cycles survive a round trip
+export const CLEAN_CYCLE_LABEL = 'normal'
+
+// Common currency between editor annotations, model events and file formats
+export interface LabeledSegment {
+  label: string
+  start: number
+  end: number
+  confidence?: number
+}
+
+export interface AnnotationDocument {
+  format: typeof JSON_FORMAT_ID
+  version: number
+  source: 'annotator' | 'model' | 'reference'
+  recording?: { filename?: string; duration?: number }
+  events: LabeledSegment[]
+}
+
+// Messages are worded in the active language when thrown
+export class AnnotationFormatError extends Error {
+  constructor(message: string, readonly line?: number) {
+    super(line ? t('annotationFile.line', { line, message }) : message)
+    this.name = 'AnnotationFormatError'
+  }
+}
+
+export const segmentsFromAnnotations = (annotations: Annotation[]): LabeledSegment[] =>
+  annotations.map(({ type, start, end }) => ({ label: type, start, end }))
+
+export const segmentsFromEvents = (events: DetectedEvent[]): LabeledSegment[] =>
+  events.map(({ label, start, end, confidence }) => ({ label, start, end, confidence }))
+
+const seconds = (value: number) => value.toFixed(3)
+
+// Some reference sets use plural labels such as "crackles"
+const normalizeLabel = (label: string) => label.trim().toLowerCase().replace(/s$/, '')
+
+const splitLines = (text: string) =>
+  text.split(/\r?\n/).map((line, index) => ({ line: line.trim(), number: index + 1 })).filter(({ line }) => line)
+
+const readTime = (raw: string, line: number) => {
+  const value = Number(raw)
+  if (raw === undefined || raw === '' || !Number.isFinite(value) || value < 0) {
+    throw new AnnotationFormatError(t('annotationFile.invalidTime', { value: raw ?? '' }), line)
+  }
+  return value
+}
+
+const readRange = (rawStart: string, rawEnd: string, line: number) => {
+  const start = readTime(rawStart, line)
+  const end = readTime(rawEnd, line)
+  if (end < start) throw new AnnotationFormatError(t('annotationFile.endBeforeStart'), line)
+  return { start, end }
+}
+
+const isCleanCycle = (segment: LabeledSegment) => normalizeLabel(segment.label) === CLEAN_CYCLE_LABEL
+
+interface IcbhiCycle {
+  start: number
+  end: number
+  crackles: boolean
+  wheezes: boolean
+}
+
+// Overlapping segments are taken as one respiratory cycle, flagged with every sound marked inside it
+const icbhiCycles = (segments: LabeledSegment[]) => {
+  const cycles: IcbhiCycle[] = []
+  const sorted = [...segments].sort((a, b) => a.start - b.start)
+  sorted.forEach((segment) => {
+    const label = normalizeLabel(segment.label)
+    let cycle = cycles[cycles.length - 1]
+    if (!cycle || segment.start >= cycle.end) {
+      cycle = { start: segment.start, end: segment.end, crackles: false, wheezes: false }
+      cycles.push(cycle)
+    }
+    cycle.end = Math.max(cycle.end, segment.end)
+    cycle.crackles = cycle.crackles || label === 'crackle'
+    cycle.wheezes = cycle.wheezes || label === 'wheeze'
+  })
+  return cycles
+}
+
+// ICBHI 2017: "start end crackles wheezes" per respiratory cycle, flags are 0/1
+export const toIcbhi = (segments: LabeledSegment[]) =>
+  icbhiCycles(segments)
+    .map((cycle) => [seconds(cycle.start), seconds(cycle.end), cycle.crackles ? 1 : 0, cycle.wheezes ? 1 : 0].join('\t'))
+    .join('\n') + '\n'
+
+// Cycles flagged with both sounds become two segments; cycles with neither become one clean cycle
+export const parseIcbhi = (text: string): LabeledSegment[] => {
+  const segments: LabeledSegment[] = []
+  splitLines(text).forEach(({ line, number }) => {
+    const fields = line.split(/\s+/)
+    if (fields.length < 4) throw new AnnotationFormatError(t('annotationFile.icbhiColumns'), number)
+    const range = readRange(fields[0], fields[1], number)
+    const [crackles, wheezes] = [fields[2], fields[3]]
+    if (!/^[01]$/.test(crackles) || !/^[01]$/.test(wheezes)) {
+      throw new AnnotationFormatError(t('annotationFile.icbhiFlags'), number)
+    }
+    if (crackles === '1') segments.push({ label: 'crackle', ...range })
+    if (wheezes === '1') segments.push({ label: 'wheeze', ...range })
+    if (crackles === '0' && wheezes === '0') segments.push({ label: CLEAN_CYCLE_LABEL, ...range })
+  })
+  return segments
+}
+
+// Audacity label track: "start<TAB>end<TAB>label"; lines starting with "\" carry spectral data
+export const toAudacity = (segments: LabeledSegment[]) =>
+  segments.map((s) => [seconds(s.start), seconds(s.end), s.label].join('\t')).join('\n') + '\n'
+
+export const parseAudacity = (text: string): LabeledSegment[] =>
+  splitLines(text)
+    .filter(({ line }) => !line.startsWith('\\'))
+    .map(({ line, number }) => {
+      const [start, end, ...label] = line.split('\t')
+      return { label: label.join('\t').trim().toLowerCase(), ...readRange(start?.trim(), end?.trim(), number) }
+    })
+
+export const toJson = (
+  segments: LabeledSegment[],
+  source: AnnotationDocument['source'],
+  recording?: AnnotationDocument['recording']
+) => {
+  const document: AnnotationDocument = {
+    format: JSON_FORMAT_ID,
+    version: JSON_FORMAT_VERSION,
+    source,
+    recording,
+    events: segments,
+  }
+  return JSON.stringify(document, null, 2) + '\n'
+}
+
+export const parseJson = (text: string): LabeledSegment[] => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new AnnotationFormatError(t('annotationFile.invalidJson'))
+  }
+  const document = data as Partial<AnnotationDocument>
+  if (document?.format !== JSON_FORMAT_ID || !Array.isArray(document.events)) {
+    throw new AnnotationFormatError(t('annotationFile.notDocument', { format: JSON_FORMAT_ID }))
+  }
+  if (typeof document.version !== 'number' || document.version > JSON_FORMAT_VERSION) {
+    throw new AnnotationFormatError(t('annotationFile.version', { version: String(document.version) }))
+  }
+  return document.events.map((event, index) => {
+    if (typeof event?.label !== 'string') throw new AnnotationFormatError(t('annotationFile.noLabel', { index }))
+    const range = readRange(String(event.start), String(event.end), index + 1)
+    return {
+      label: event.label.toLowerCase(),
+      ...range,
+      ...(typeof event.confidence === 'number' ? { confidence: event.confidence } : {}),
+    }
+  })
+}
+
+export const serializeAnnotations = (
+  format: AnnotationFormat,
+  segments: LabeledSegment[],
+  source: AnnotationDocument['source'],
+  recording?: AnnotationDocument['recording']
+) => {
+  switch (format) {
+    case 'icbhi':
+      return toIcbhi(segments)
+    case 'audacity':
+      return toAudacity(segments)
+    default:
+      return toJson(segments, source, recording)
+  }
+}
+
+// ICBHI and Audacity files are both .txt, so fall back to sniffing the column layout
+export const detectFormat = (filename: string, text: string): AnnotationFormat => {
+  if (/\.json$/i.test(filename) || text.trimStart().startsWith('{')) return 'json'
+  const first = splitLines(text).find(({ line }) => !line.startsWith('\\'))
+  if (first && /^\S+\s+\S+\s+[01]\s+[01]$/.test(first.line)) return 'icbhi'
+  return 'audacity'
+}
+
+export const parseAnnotations = (filename: string, text: string) => {
+  const format = detectFormat(filename, text)
+  const segments = format === 'json' ? parseJson(text) : format === 'icbhi' ? parseIcbhi(text) : parseAudacity(text)
+  return { format, segments }
+}
+
+// Editor only knows crackles and wheezes; clean cycles carry no mark, other labels are reported back as skipped
+export const annotationsFromSegments = (segments: LabeledSegment[], recordingDuration: number) => {
+  const annotations: Annotation[] = []
+  let skipped = 0
+  segments.filter((segment) => !isCleanCycle(segment)).forEach((segment) => {
+    const type = normalizeLabel(segment.label)
+    if ((type !== 'crackle' && type !== 'wheeze') || segment.start >= recordingDuration) {
+      skipped++
+      return
+    }
+    annotations.push({ id: createAnnotationId(), type, ...clampRange(segment.start, segment.end, recordingDuration) })
+  })
+  return { annotations: sortAnnotations(annotations), skipped }
+}
+
+const overlaps = (a: LabeledSegment, b: LabeledSegment) => a.start < b.end && b.start < a.end
+
+// True when another segment with the same label overlaps this one
+export const isMatchedSegment = (segment: LabeledSegment, others: LabeledSegment[]) =>
+  others.some((other) => normalizeLabel(other.label) === normalizeLabel(segment.label) && overlaps(segment, other))
+
+// How many reference segments overlap a detected segment with the same label, and vice versa; clean cycles are not events
+export const compareSegments = (allReference: LabeledSegment[], detected: LabeledSegment[]) => {
+  const reference = allReference.filter((segment) => !isCleanCycle(segment))
+  return {
+    referenceMatched: reference.filter((r) => isMatchedSegment(r, detected)).length,
+    detectedMatched: detected.filter((d) => isMatchedSegment(d, reference)).length,
+    referenceTotal: reference.length,
+    detectedTotal: detected.length,
+  }
+}
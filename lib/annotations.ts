@@ -0,0 +1,54 @@
+import type { AnnotationEvent } from '@/lib/api'
+import type { MessageKey } from '@/lib/i18n'
+
+export type AnnotationType = 'crackle' | 'wheeze'
+
+export const ANNOTATION_TYPES: AnnotationType[] = ['crackle', 'wheeze']
+
+export const ANNOTATION_TYPE_LABELS: Record<AnnotationType, MessageKey> = {
+  crackle: 'annotation.crackle',
+  wheeze: 'annotation.wheeze',
+}
+
+// Length given to a new mark before the annotator adjusts it
+export const DEFAULT_DURATIONS: Record<AnnotationType, number> = {
+  crackle: 0.5,
+  wheeze: 1.0,
+}
+
+export const MIN_ANNOTATION_LENGTH = 0.05
+
+export interface Annotation {
+  id: string
+  type: AnnotationType
+  start: number
+  end: number
+}
+
+let nextId = 0
+
+export const createAnnotationId = () => `a${Date.now().toString(36)}-${nextId++}`
+
+export const createAnnotation = (type: AnnotationType, start: number, recordingDuration: number): Annotation => {
+  const end = Math.min(recordingDuration, start + DEFAULT_DURATIONS[type])
+  return {
+    id: createAnnotationId(),
+    type,
+    start: Math.min(start, end - MIN_ANNOTATION_LENGTH),
+    end,
+  }
+}
+
+export const sortAnnotations = (annotations: Annotation[]) =>
+  annotations.slice().sort((a, b) => a.start - b.start || a.end - b.end)
+
+// Clamp a proposed range into the recording while keeping a minimum length
+export const clampRange = (start: number, end: number, recordingDuration: number) => {
+  const s = Math.max(0, Math.min(start, recordingDuration - MIN_ANNOTATION_LENGTH))
+  const e = Math.min(recordingDuration, Math.max(end, s + MIN_ANNOTATION_LENGTH))
+  return { start: s, end: e }
+}
+
+// Shape expected by /predict_annotation
+export const toAnnotationEvents = (annotations: Annotation[]): AnnotationEvent[] =>
+  annotations.map((a) => ({ type: a.type, timestamp: a.start, duration: a.end - a.start }))
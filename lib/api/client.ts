@@ -0,0 +1,170 @@
+import axios, { AxiosError, AxiosInstance, AxiosProgressEvent } from 'axios'
+import { ApiError } from './errors'
+import { JobTransport, JobUpdates, runJob } from './jobs'
+import { parseAnnotationPrediction, parseDiseasePrediction, parseJobStatus, parseModelCatalogue } from './validate'
+import type {
+  AnnotationPredictionResult,
+  AnnotationRequest,
+  ApiMode,
+  DiseasePredictionResult,
+  HealthCheckResult,
+  ModelInfo,
+  PredictionResult,
+  RequestOptions,
+} from './types'
+
+export const DEFAULT_API_BASE_URL = 'https://respirex-api-simple-working.onrender.com'
+export const DEFAULT_TIMEOUT_MS = 30000
+export const DEFAULT_HEALTH_PATH = '/health'
+// Short on purpose: a cold start is detected by the probe timing out, not by waiting for it
+export const HEALTH_TIMEOUT_MS = 8000
+
+export interface ClientConfig {
+  baseUrl?: string
+  timeout?: number
+  healthPath?: string
+  mode?: ApiMode
+  jobUpdates?: JobUpdates
+}
+
+export interface RespireXClient {
+  readonly baseUrl: string
+  readonly mode: ApiMode
+  checkHealth(options?: RequestOptions): Promise<HealthCheckResult>
+  listModels(options?: RequestOptions): Promise<ModelInfo[]>
+  predictWithModel(model: ModelInfo, input: Blob | AnnotationRequest, options?: RequestOptions): Promise<PredictionResult>
+  predictDisease(file: Blob, options?: RequestOptions): Promise<DiseasePredictionResult>
+  predictAnnotation(request: AnnotationRequest, options?: RequestOptions): Promise<AnnotationPredictionResult>
+}
+
+const errorDetail = (data: unknown) => {
+  if (typeof data !== 'object' || data === null) return undefined
+  const body = data as Record<string, unknown>
+  if (typeof body.error === 'string') return body.error
+  if (typeof body.detail === 'string') return body.detail
+  return undefined
+}
+
+export const toApiError = (err: unknown): ApiError => {
+  if (err instanceof ApiError) return err
+  if (axios.isCancel(err)) return new ApiError('cancelled', 'request was cancelled')
+  if (!axios.isAxiosError(err)) {
+    return new ApiError('unknown', err instanceof Error ? err.message : String(err))
+  }
+
+  const axiosError = err as AxiosError
+  if (axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT') {
+    return new ApiError('timeout', axiosError.message)
+  }
+  if (!axiosError.response) {
+    return new ApiError('network', axiosError.message)
+  }
+
+  const { status, data } = axiosError.response
+  const detail = errorDetail(data)
+  if (status >= 500) return new ApiError('server', axiosError.message, { status, detail })
+  if (status >= 400) return new ApiError('bad_request', axiosError.message, { status, detail })
+  return new ApiError('unknown', axiosError.message, { status, detail })
+}
+
+const audioForm = (file: Blob) => {
+  const formData = new FormData()
+  formData.append('file', file, file instanceof File ? file.name : 'recording.wav')
+  return formData
+}
+
+// Upload progress until the last byte is sent; after that the server is working on it
+const uploadProgress = (options: RequestOptions) => (event: AxiosProgressEvent) => {
+  if (!options.onProgress) return
+  if (event.total && event.loaded >= event.total) options.onProgress({ phase: 'processing' })
+  else options.onProgress({ phase: 'uploading', loaded: event.loaded, total: event.total })
+}
+
+const resolveTimeout = () => {
+  const configured = Number(process.env.NEXT_PUBLIC_API_TIMEOUT_MS)
+  return configured > 0 ? configured : DEFAULT_TIMEOUT_MS
+}
+
+export const createRespireXClient = (config: ClientConfig = {}): RespireXClient => {
+  const baseUrl = (config.baseUrl || process.env.NEXT_PUBLIC_API_URL || DEFAULT_API_BASE_URL).replace(/\/+$/, '')
+  const http: AxiosInstance = axios.create({
+    baseURL: baseUrl,
+    timeout: config.timeout ?? resolveTimeout(),
+  })
+
+  const healthPath = config.healthPath || process.env.NEXT_PUBLIC_API_HEALTH_PATH || DEFAULT_HEALTH_PATH
+
+  const mode: ApiMode = config.mode || (process.env.NEXT_PUBLIC_API_MODE === 'job' ? 'job' : 'sync')
+  const jobUpdates: JobUpdates = config.jobUpdates || (process.env.NEXT_PUBLIC_API_JOB_UPDATES === 'poll' ? 'poll' : 'sse')
+
+  const send = async <T>(request: () => Promise<{ data: unknown }>, parse: (data: unknown) => T) => {
+    let data: unknown
+    try {
+      data = (await request()).data
+    } catch (err) {
+      throw toApiError(err)
+    }
+    return parse(data)
+  }
+
+  const jobs: JobTransport = {
+    submit: (path, body, options) =>
+      send(
+        () => http.post(`/jobs${path}`, body, { signal: options.signal, onUploadProgress: uploadProgress(options) }),
+        parseJobStatus
+      ),
+    status: (id, signal) => send(() => http.get(`/jobs/${encodeURIComponent(id)}`, { signal }), parseJobStatus),
+    cancel: (id) => send(() => http.delete(`/jobs/${encodeURIComponent(id)}`), () => undefined),
+    eventsUrl: (id) => `${baseUrl}/jobs/${encodeURIComponent(id)}/events`,
+    parseStatus: parseJobStatus,
+  }
+
+  // One prediction endpoint, called either as a blocking POST or through the job API
+  const predict = <T>(path: string, body: FormData | object, parse: (data: unknown) => T, options: RequestOptions) => {
+    if (mode === 'job') return runJob(jobs, path, body, parse, options, jobUpdates)
+    return send(
+      () => http.post(path, body, { signal: options.signal, onUploadProgress: uploadProgress(options) }),
+      parse
+    )
+  }
+
+  return {
+    baseUrl,
+    mode,
+
+    async checkHealth(options = {}) {
+      const started = Date.now()
+      try {
+        await http.get(healthPath, { signal: options.signal, timeout: HEALTH_TIMEOUT_MS })
+      } catch (err) {
+        const apiError = toApiError(err)
+        // Any answer below 500 means the service is up, even without a health route
+        if (apiError.kind !== 'bad_request') throw apiError
+      }
+      return { latencyMs: Date.now() - started }
+    },
+
+    listModels(options = {}) {
+      return send(() => http.get('/models', { signal: options.signal }), parseModelCatalogue)
+    },
+
+    predictWithModel(model, input, options = {}) {
+      const parse: (data: unknown) => PredictionResult =
+        model.task === 'classification' ? parseDiseasePrediction : parseAnnotationPrediction
+      if (model.input_type === 'audio') {
+        if (!(input instanceof Blob)) return Promise.reject(new ApiError('bad_request', `${model.name} expects an audio file`))
+        return predict(model.endpoint, audioForm(input), parse, options)
+      }
+      if (input instanceof Blob) return Promise.reject(new ApiError('bad_request', `${model.name} expects annotation events`))
+      return predict(model.endpoint, input, parse, options)
+    },
+
+    predictDisease(file, options = {}) {
+      return predict('/predict_disease', audioForm(file), parseDiseasePrediction, options)
+    },
+
+    predictAnnotation(request, options = {}) {
+      return predict('/predict_annotation', request, parseAnnotationPrediction, options)
+    },
+  }
+}
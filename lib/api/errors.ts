@@ -0,0 +1,60 @@
+import { MessageParams, isMessageKey, t } from '@/lib/i18n'
+
+export type ApiErrorKind =
+  | 'timeout'
+  | 'cancelled'
+  | 'network'
+  | 'bad_request'
+  | 'server'
+  | 'invalid_response'
+  | 'unknown'
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind
+  readonly status?: number
+  readonly detail?: string
+
+  constructor(kind: ApiErrorKind, message: string, options: { status?: number; detail?: string } = {}) {
+    super(message)
+    this.name = 'ApiError'
+    this.kind = kind
+    this.status = options.status
+    this.detail = options.detail
+  }
+}
+
+export const isApiError = (err: unknown): err is ApiError => err instanceof ApiError
+
+export const isCancelled = (err: unknown) => isApiError(err) && err.kind === 'cancelled'
+
+// Message for an error body from the app's own routes, which send a message key as the code next to the English detail
+export const describeServerError = (body: Record<string, unknown>, fallback: string): string => {
+  if (isMessageKey(body.code)) {
+    const params = body.params && typeof body.params === 'object' ? (body.params as MessageParams) : undefined
+    return t(body.code, params)
+  }
+  return typeof body.detail === 'string' && body.detail ? body.detail : fallback
+}
+
+// Message shown to the user for a failed request, in the current language
+export const describeApiError = (err: unknown): string => {
+  if (!isApiError(err)) {
+    return t('error.unexpected', { message: err instanceof Error ? err.message : String(err) })
+  }
+  switch (err.kind) {
+    case 'server':
+      return err.detail ? t('error.detail', { detail: err.detail }) : t('error.server')
+    case 'bad_request':
+      return err.detail ? t('error.detail', { detail: err.detail }) : t('error.badRequest')
+    case 'timeout':
+      return t('error.timeout')
+    case 'network':
+      return t('error.network')
+    case 'invalid_response':
+      return t('error.invalidResponse', { message: err.message })
+    case 'cancelled':
+      return t('error.cancelled')
+    default:
+      return t('error.failed', { message: err.message })
+  }
+}
@@ -0,0 +1,14 @@
+import { createRespireXClient } from './client'
+
+export * from './types'
+export * from './errors'
+export { createRespireXClient, toApiError, DEFAULT_API_BASE_URL, DEFAULT_TIMEOUT_MS, DEFAULT_HEALTH_PATH } from './client'
+export type { ClientConfig, RespireXClient } from './client'
+export { parseDiseasePrediction, parseAnnotationPrediction, parseJobStatus, parseModelCatalogue } from './validate'
+export { JOB_POLL_INTERVAL_MS, JOB_TIMEOUT_MS } from './jobs'
+export type { JobUpdates } from './jobs'
+export { withRetry, isRetryable, sleep, backoffDelay } from './retry'
+export type { RetryOptions } from './retry'
+
+// Shared client configured from the NEXT_PUBLIC_API_* environment variables
+export const respirex = createRespireXClient()
@@ -0,0 +1,99 @@
+import { ApiError } from './errors'
+import { sleep } from './retry'
+import type { JobStatus, RequestOptions } from './types'
+
+export type JobUpdates = 'sse' | 'poll'
+
+export const JOB_POLL_INTERVAL_MS = 2000
+// Limit for the whole job; each HTTP call still has the client timeout
+export const JOB_TIMEOUT_MS = 10 * 60 * 1000
+
+// HTTP side of the job API, supplied by the client so errors are mapped the same way as blocking requests
+export interface JobTransport {
+  submit(path: string, body: unknown, options: RequestOptions): Promise<JobStatus>
+  status(id: string, signal?: AbortSignal): Promise<JobStatus>
+  cancel(id: string): Promise<void>
+  eventsUrl(id: string): string
+  parseStatus(data: unknown): JobStatus
+}
+
+const isFinished = ({ status }: JobStatus) => status === 'succeeded' || status === 'failed' || status === 'cancelled'
+
+const report = (job: JobStatus, options: RequestOptions) =>
+  options.onProgress?.({
+    phase: job.status === 'queued' ? 'queued' : 'processing',
+    fraction: job.progress,
+    message: job.message,
+  })
+
+const pollJob = async (transport: JobTransport, id: string, options: RequestOptions, deadline: number) => {
+  for (;;) {
+    await sleep(JOB_POLL_INTERVAL_MS, options.signal)
+    const job = await transport.status(id, options.signal)
+    report(job, options)
+    if (isFinished(job)) return job
+    if (Date.now() > deadline) throw new ApiError('timeout', 'analysis job did not finish in time')
+  }
+}
+
+// Follows server-sent events; falls back to polling if the stream cannot be opened or drops
+const watchJob = (transport: JobTransport, id: string, options: RequestOptions, deadline: number) =>
+  new Promise<JobStatus>((resolve, reject) => {
+    const source = new EventSource(transport.eventsUrl(id))
+    const finish = (settle: () => void) => {
+      source.close()
+      clearTimeout(timer)
+      options.signal?.removeEventListener('abort', onAbort)
+      settle()
+    }
+    const onAbort = () => finish(() => reject(new ApiError('cancelled', 'request was cancelled')))
+    const timer = setTimeout(
+      () => finish(() => reject(new ApiError('timeout', 'analysis job did not finish in time'))),
+      Math.max(0, deadline - Date.now())
+    )
+    options.signal?.addEventListener('abort', onAbort, { once: true })
+
+    source.onmessage = (event) => {
+      let job: JobStatus
+      try {
+        job = transport.parseStatus(JSON.parse(event.data))
+      } catch (err) {
+        finish(() => reject(err instanceof ApiError ? err : new ApiError('invalid_response', 'job event was not valid JSON')))
+        return
+      }
+      report(job, options)
+      if (isFinished(job)) finish(() => resolve(job))
+    }
+    source.onerror = () => finish(() => resolve(pollJob(transport, id, options, deadline)))
+  })
+
+export const runJob = async <T>(
+  transport: JobTransport,
+  path: string,
+  body: unknown,
+  parse: (data: unknown) => T,
+  options: RequestOptions,
+  updates: JobUpdates
+): Promise<T> => {
+  const submitted = await transport.submit(path, body, options)
+  report(submitted, options)
+  // Best effort: tell the server to stop work nobody is waiting for
+  const onAbort = () => {
+    transport.cancel(submitted.id).catch(() => undefined)
+  }
+  options.signal?.addEventListener('abort', onAbort, { once: true })
+
+  try {
+    const deadline = Date.now() + JOB_TIMEOUT_MS
+    const job = isFinished(submitted)
+      ? submitted
+      : updates === 'sse' && typeof EventSource !== 'undefined'
+        ? await watchJob(transport, submitted.id, options, deadline)
+        : await pollJob(transport, submitted.id, options, deadline)
+    if (job.status === 'failed') throw new ApiError('server', 'analysis job failed', { detail: job.error })
+    if (job.status === 'cancelled') throw new ApiError('cancelled', 'analysis job was cancelled')
+    return parse(job.result)
+  } finally {
+    options.signal?.removeEventListener('abort', onAbort)
+  }
+}
@@ -0,0 +1,52 @@
+import { ApiError, ApiErrorKind, isApiError } from './errors'
+
+export interface RetryOptions {
+  retries: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+  signal?: AbortSignal
+  shouldRetry?: (err: unknown) => boolean
+  onRetry?: (attempt: number, err: unknown, delayMs: number) => void
+}
+
+const RETRYABLE_KINDS: ApiErrorKind[] = ['timeout', 'network', 'server']
+
+// Transient failures worth another attempt; bad requests and invalid responses will fail the same way again
+export const isRetryable = (err: unknown) => isApiError(err) && RETRYABLE_KINDS.indexOf(err.kind) !== -1
+
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiError('cancelled', 'request was cancelled'))
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new ApiError('cancelled', 'request was cancelled'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+
+// Exponential backoff with jitter: base, 2x base, 4x base ... capped at maxDelayMs
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number) => {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt - 1))
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2))
+}
+
+export const withRetry = async <T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> => {
+  const { retries, baseDelayMs = 1000, maxDelayMs = 15000, signal, shouldRetry = isRetryable, onRetry } = options
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt)
+    } catch (err) {
+      if (attempt > retries || signal?.aborted || !shouldRetry(err)) throw err
+      const delay = backoffDelay(attempt, baseDelayMs, maxDelayMs)
+      onRetry?.(attempt, err, delay)
+      await sleep(delay, signal)
+    }
+  }
+}
@@ -0,0 +1,155 @@
+export interface AudioInfo {
+  duration: number
+  sample_rate: number
+}
+
+export interface DetectedEvent {
+  start: number
+  end: number
+  label: string
+  confidence: number
+}
+
+export interface TimeRange {
+  start: number
+  end: number
+}
+
+// One breath: inspiration followed by expiration, in seconds from the start of the recording
+export interface BreathingCycle extends TimeRange {
+  inspiration: TimeRange
+  expiration: TimeRange
+}
+
+// Contribution of one stretch of the recording to the prediction; positive scores push towards the explained class
+export interface SaliencyWindow {
+  start: number
+  end: number
+  score: number
+}
+
+// Contribution of one extracted audio feature, signed like SaliencyWindow.score
+export interface FeatureContribution {
+  name: string
+  importance: number
+  // Feature value measured on this recording, when the backend sends it
+  value?: number
+}
+
+// Optional attribution payload explaining why the model chose its answer
+export interface Explanation {
+  // Attribution method, e.g. "shap" or "integrated_gradients"
+  method?: string
+  // Class the scores explain; the predicted class when absent
+  target?: string
+  windows: SaliencyWindow[]
+  features: FeatureContribution[]
+}
+
+export interface DiseasePredictionResult {
+  success: boolean
+  filename: string
+  prediction: string
+  confidence: number
+  class_probabilities: Record<string, number>
+  audio_info: AudioInfo
+  model_version?: string
+  explanation?: Explanation
+  // Breathing cycles segmented by the backend, when it does so
+  cycles?: BreathingCycle[]
+}
+
+export interface AnnotationPredictionResult {
+  success: boolean
+  filename: string
+  disease: string
+  confidence: number
+  events: DetectedEvent[]
+  audio_info: AudioInfo
+  model_version?: string
+  explanation?: Explanation
+  cycles?: BreathingCycle[]
+}
+
+export type PredictionResult = DiseasePredictionResult | AnnotationPredictionResult
+
+// audio: multipart upload of a recording. annotation_events: JSON body of button-press events
+export type ModelInputType = 'audio' | 'annotation_events'
+
+// classification answers like /predict_disease, event_detection like /predict_annotation
+export type ModelTask = 'classification' | 'event_detection'
+
+export interface ModelClass {
+  label: string
+  // Hex colour for chips, timelines and waveform regions
+  color?: string
+  // Lowest probability (0-1) at which this class is reported as the result
+  threshold?: number
+  // Recommended next step when this class is the result
+  action?: string
+  // Marks the class meaning no disease, e.g. "Healthy"; used to flag abnormal sites in a multi-site exam
+  normal?: boolean
+}
+
+// One entry of the backend's model catalogue
+export interface ModelInfo {
+  id: string
+  name: string
+  version?: string
+  description?: string
+  endpoint: string
+  input_type: ModelInputType
+  task: ModelTask
+  classes: ModelClass[]
+  expected_latency_seconds?: number
+  // Smallest lead (0-1) the top class needs over the runner-up to count as conclusive
+  min_margin?: number
+}
+
+// Button-press event recorded by the annotator
+export interface AnnotationEvent {
+  type: string
+  timestamp: number
+  duration: number
+}
+
+export interface AnnotationRequest {
+  events: AnnotationEvent[]
+  duration: number
+}
+
+// sync: one blocking POST per prediction. job: submit, then follow the job over SSE or by polling
+export type ApiMode = 'sync' | 'job'
+
+export type RequestPhase = 'uploading' | 'queued' | 'processing'
+
+export interface RequestProgress {
+  phase: RequestPhase
+  // Bytes sent so far, while uploading
+  loaded?: number
+  total?: number
+  // Server-reported progress (0-1) and status text for job-based requests
+  fraction?: number
+  message?: string
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal
+  onProgress?: (progress: RequestProgress) => void
+}
+
+export type JobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+
+export interface JobStatus {
+  id: string
+  status: JobState
+  progress?: number
+  message?: string
+  // Prediction payload once the job has succeeded; validated like a blocking response
+  result?: unknown
+  error?: string
+}
+
+export interface HealthCheckResult {
+  latencyMs: number
+}
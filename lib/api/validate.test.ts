@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { ApiError } from './errors'
+import { parseAnnotationPrediction, parseDiseasePrediction, parseJobStatus, parseModelCatalogue } from './validate'
+
+const disease = {
+  success: true,
+  filename: 'a.wav',
+  prediction: 'COPD',
+  confidence: 0.8,
+  class_probabilities: { COPD: 0.8, Healthy: 0.2 },
+  audio_info: { duration: 20, sample_rate: 22050 },
+}
+
+const annotation = {
+  success: true,
+  filename: 'a.wav',
+  disease: 'COPD',
+  confidence: 0.7,
+  events: [{ start: 1, end: 2, label: 'crackle', confidence: 0.9 }],
+  audio_info: { duration: 20, sample_rate: 22050 },
+}
+
+// The ApiError a parser throws, for checking its kind and detail
+const caught = (parse: () => unknown) => {
+  try {
+    parse()
+  } catch (err) {
+    if (err instanceof ApiError) return err
+    throw err
+  }
+  throw new Error('expected the parser to throw')
+}
+
+describe('parseDiseasePrediction', () => {
+  it('accepts a complete response', () => {
+    expect(parseDiseasePrediction(disease)).toMatchObject({ prediction: 'COPD', confidence: 0.8 })
+  })
+
+  it('keeps the server error of a reported failure', () => {
+    const err = caught(() => parseDiseasePrediction({ success: false, error: 'audio too short' }))
+    expect(err.kind).toBe('server')
+    expect(err.detail).toBe('audio too short')
+  })
+
+  it('rejects a body that is not an object', () => {
+    expect(caught(() => parseDiseasePrediction([])).kind).toBe('invalid_response')
+  })
+
+  it('rejects probabilities outside 0-1', () => {
+    const err = caught(() => parseDiseasePrediction({ ...disease, class_probabilities: { COPD: 1.5 } }))
+    expect(err.kind).toBe('invalid_response')
+    expect(err.message).toContain('class_probabilities.COPD')
+  })
+
+  it('drops a malformed explanation instead of failing', () => {
+    const result = parseDiseasePrediction({ ...disease, explanation: { windows: 'no' } })
+    expect(result.explanation).toBeUndefined()
+  })
+})
+
+describe('parseAnnotationPrediction', () => {
+  it('accepts a complete response', () => {
+    expect(parseAnnotationPrediction(annotation).events).toHaveLength(1)
+  })
+
+  it('keeps the server error of a reported failure', () => {
+    const err = caught(() => parseAnnotationPrediction({ success: false, error: 'no events' }))
+    expect(err.kind).toBe('server')
+    expect(err.detail).toBe('no events')
+  })
+
+  it('rejects events that end before they start', () => {
+    const err = caught(() => parseAnnotationPrediction({ ...annotation, events: [{ start: 2, end: 1, label: 'x', confidence: 1 }] }))
+    expect(err.message).toContain('events[0].end')
+  })
+})
+
+describe('parseJobStatus', () => {
+  it('rejects an unknown state', () => {
+    expect(caught(() => parseJobStatus({ job_id: 'j', status: 'paused' })).kind).toBe('invalid_response')
+  })
+})
+
+describe('parseModelCatalogue', () => {
+  it('rejects an endpoint that is not a path', () => {
+    const model = { id: 'm', name: 'M', endpoint: 'http://x', input_type: 'audio', task: 'classification' }
+    expect(caught(() => parseModelCatalogue({ models: [model] })).message).toContain('models[0].endpoint')
+  })
+})
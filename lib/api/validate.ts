@@ -0,0 +1,253 @@
+import { ApiError } from './errors'
+import type {
+  AnnotationPredictionResult,
+  AudioInfo,
+  BreathingCycle,
+  DetectedEvent,
+  DiseasePredictionResult,
+  Explanation,
+  FeatureContribution,
+  JobState,
+  JobStatus,
+  ModelClass,
+  ModelInfo,
+  ModelInputType,
+  ModelTask,
+  SaliencyWindow,
+  TimeRange,
+} from './types'
+
+type Json = Record<string, unknown>
+
+const fail = (path: string, expected: string): never => {
+  throw new ApiError('invalid_response', `expected ${path} to be ${expected}`)
+}
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const readObject = (value: unknown, path: string): Json =>
+  isObject(value) ? value : fail(path, 'an object')
+
+const readNumber = (value: unknown, path: string): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'a number')
+
+const readProbability = (value: unknown, path: string): number => {
+  const n = readNumber(value, path)
+  return n >= 0 && n <= 1 ? n : fail(path, 'between 0 and 1')
+}
+
+const readString = (value: unknown, path: string): string =>
+  typeof value === 'string' ? value : fail(path, 'a string')
+
+const readOptionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined
+
+const readAudioInfo = (value: unknown, path: string): AudioInfo => {
+  const info = readObject(value, path)
+  return {
+    duration: readNumber(info.duration, `${path}.duration`),
+    sample_rate: readNumber(info.sample_rate, `${path}.sample_rate`),
+  }
+}
+
+const readEvent = (value: unknown, path: string): DetectedEvent => {
+  const event = readObject(value, path)
+  const start = readNumber(event.start, `${path}.start`)
+  const end = readNumber(event.end, `${path}.end`)
+  if (end < start) fail(`${path}.end`, 'after start')
+  return {
+    start,
+    end,
+    label: readString(event.label, `${path}.label`),
+    confidence: readProbability(event.confidence, `${path}.confidence`),
+  }
+}
+
+const readSaliencyWindow = (value: unknown, path: string): SaliencyWindow => {
+  const window = readObject(value, path)
+  const start = readNumber(window.start, `${path}.start`)
+  const end = readNumber(window.end, `${path}.end`)
+  if (end <= start) fail(`${path}.end`, 'after start')
+  return { start, end, score: readNumber(window.score, `${path}.score`) }
+}
+
+const readFeature = (value: unknown, path: string): FeatureContribution => {
+  const feature = readObject(value, path)
+  return {
+    name: readString(feature.name, `${path}.name`),
+    importance: readNumber(feature.importance, `${path}.importance`),
+    value: typeof feature.value === 'number' && Number.isFinite(feature.value) ? feature.value : undefined,
+  }
+}
+
+const readList = <T>(value: unknown, path: string, read: (item: unknown, path: string) => T): T[] => {
+  if (value === undefined) return []
+  if (!Array.isArray(value)) fail(path, 'an array')
+  return (value as unknown[]).map((item, i) => read(item, `${path}[${i}]`))
+}
+
+// The explanation is extra detail: a malformed one is dropped rather than failing the prediction it came with
+const readExplanation = (value: unknown): Explanation | undefined => {
+  if (value === undefined || value === null) return undefined
+  try {
+    const body = readObject(value, 'explanation')
+    const explanation = {
+      method: readOptionalString(body.method),
+      target: readOptionalString(body.target),
+      windows: readList(body.windows, 'explanation.windows', readSaliencyWindow),
+      features: readList(body.features, 'explanation.features', readFeature),
+    }
+    return explanation.windows.length > 0 || explanation.features.length > 0 ? explanation : undefined
+  } catch {
+    return undefined
+  }
+}
+
+const readTimeRange = (value: unknown, path: string): TimeRange => {
+  const range = readObject(value, path)
+  const start = readNumber(range.start, `${path}.start`)
+  const end = readNumber(range.end, `${path}.end`)
+  if (end < start) fail(`${path}.end`, 'after start')
+  return { start, end }
+}
+
+const readCycle = (value: unknown, path: string): BreathingCycle => {
+  const cycle = readObject(value, path)
+  const inspiration = readTimeRange(cycle.inspiration, `${path}.inspiration`)
+  const expiration = readTimeRange(cycle.expiration, `${path}.expiration`)
+  if (expiration.start < inspiration.end) fail(`${path}.expiration.start`, 'after inspiration')
+  return {
+    start: typeof cycle.start === 'number' ? cycle.start : inspiration.start,
+    end: typeof cycle.end === 'number' ? cycle.end : expiration.end,
+    inspiration,
+    expiration,
+  }
+}
+
+// Like the explanation, cycles are optional detail and a malformed list is dropped
+const readCycles = (value: unknown): BreathingCycle[] | undefined => {
+  if (value === undefined || value === null) return undefined
+  try {
+    const cycles = readList(value, 'cycles', readCycle)
+    return cycles.length > 0 ? cycles : undefined
+  } catch {
+    return undefined
+  }
+}
+
+const readSuccess = (body: Json) => {
+  if (body.success === false) {
+    throw new ApiError('server', 'server reported failure', {
+      detail: typeof body.error === 'string' ? body.error : undefined,
+    })
+  }
+  return true
+}
+
+export const parseDiseasePrediction = (data: unknown): DiseasePredictionResult => {
+  const body = readObject(data, 'response')
+  // A reported failure carries the server's reason, which a shape error would hide
+  const success = readSuccess(body)
+  const probabilities = readObject(body.class_probabilities, 'class_probabilities')
+  const classProbabilities: Record<string, number> = {}
+  Object.keys(probabilities).forEach((label) => {
+    classProbabilities[label] = readProbability(probabilities[label], `class_probabilities.${label}`)
+  })
+  return {
+    success,
+    filename: readString(body.filename, 'filename'),
+    prediction: readString(body.prediction, 'prediction'),
+    confidence: readProbability(body.confidence, 'confidence'),
+    class_probabilities: classProbabilities,
+    audio_info: readAudioInfo(body.audio_info, 'audio_info'),
+    model_version: readOptionalString(body.model_version),
+    explanation: readExplanation(body.explanation),
+    cycles: readCycles(body.cycles),
+  }
+}
+
+export const parseAnnotationPrediction = (data: unknown): AnnotationPredictionResult => {
+  const body = readObject(data, 'response')
+  const success = readSuccess(body)
+  if (!Array.isArray(body.events)) fail('events', 'an array')
+  return {
+    success,
+    filename: typeof body.filename === 'string' ? body.filename : '',
+    disease: readString(body.disease, 'disease'),
+    confidence: readProbability(body.confidence, 'confidence'),
+    events: (body.events as unknown[]).map((event, i) => readEvent(event, `events[${i}]`)),
+    audio_info: readAudioInfo(body.audio_info, 'audio_info'),
+    model_version: readOptionalString(body.model_version),
+    explanation: readExplanation(body.explanation),
+    cycles: readCycles(body.cycles),
+  }
+}
+
+const JOB_STATES: JobState[] = ['queued', 'running', 'succeeded', 'failed', 'cancelled']
+
+export const parseJobStatus = (data: unknown): JobStatus => {
+  const body = readObject(data, 'job')
+  const status = readString(body.status, 'status') as JobState
+  if (JOB_STATES.indexOf(status) === -1) fail('status', `one of ${JOB_STATES.join(', ')}`)
+  return {
+    id: readString(body.job_id ?? body.id, 'job_id'),
+    status,
+    progress: typeof body.progress === 'number' ? Math.min(Math.max(body.progress, 0), 1) : undefined,
+    message: readOptionalString(body.message),
+    result: body.result,
+    error: readOptionalString(body.error),
+  }
+}
+
+const INPUT_TYPES: ModelInputType[] = ['audio', 'annotation_events']
+const TASKS: ModelTask[] = ['classification', 'event_detection']
+
+const readOneOf = <T extends string>(value: unknown, path: string, allowed: T[]): T => {
+  const text = readString(value, path) as T
+  return allowed.indexOf(text) !== -1 ? text : fail(path, `one of ${allowed.join(', ')}`)
+}
+
+const readOptionalProbability = (value: unknown) =>
+  typeof value === 'number' && value >= 0 && value <= 1 ? value : undefined
+
+// Classes may be plain labels or { label, color, threshold, action } objects; malformed extras are dropped, not fatal
+const readModelClass = (value: unknown, path: string): ModelClass => {
+  if (typeof value === 'string') return { label: value }
+  const body = readObject(value, path)
+  const color = readOptionalString(body.color)
+  return {
+    label: readString(body.label, `${path}.label`),
+    color: color && /^#[0-9a-fA-F]{6}$/.test(color) ? color : undefined,
+    threshold: readOptionalProbability(body.threshold),
+    action: readOptionalString(body.action),
+    normal: typeof body.normal === 'boolean' ? body.normal : undefined,
+  }
+}
+
+const readModel = (value: unknown, path: string): ModelInfo => {
+  const body = readObject(value, path)
+  const endpoint = readString(body.endpoint, `${path}.endpoint`)
+  if (endpoint.charAt(0) !== '/') fail(`${path}.endpoint`, 'a path starting with /')
+  const classes = body.classes ?? []
+  if (!Array.isArray(classes)) fail(`${path}.classes`, 'an array')
+  return {
+    id: readString(body.id, `${path}.id`),
+    name: readString(body.name, `${path}.name`),
+    version: readOptionalString(body.version),
+    description: readOptionalString(body.description),
+    endpoint,
+    input_type: readOneOf(body.input_type, `${path}.input_type`, INPUT_TYPES),
+    task: readOneOf(body.task, `${path}.task`, TASKS),
+    classes: (classes as unknown[]).map((item, i) => readModelClass(item, `${path}.classes[${i}]`)),
+    expected_latency_seconds: typeof body.expected_latency_seconds === 'number' ? body.expected_latency_seconds : undefined,
+    min_margin: readOptionalProbability(body.min_margin),
+  }
+}
+
+// Accepts a bare array or { models: [...] }
+export const parseModelCatalogue = (data: unknown): ModelInfo[] => {
+  const list = isObject(data) ? data.models : data
+  if (!Array.isArray(list)) fail('models', 'an array')
+  return (list as unknown[]).map((item, i) => readModel(item, `models[${i}]`))
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { estimateCycles } from './breathing'
+
+const RATE = 8000
+const CYCLE_SECONDS = 4
+
+// Breaths as 400 Hz tones: a loud inspiration at 0-1.2 s and a quieter expiration at 1.6-3 s of every 4 s cycle
+const breathing = (cycles: number, offsetSeconds = 0) =>
+  Float32Array.from({ length: cycles * CYCLE_SECONDS * RATE }, (_, i) => {
+    const time = i / RATE + offsetSeconds
+    const phase = time % CYCLE_SECONDS
+    const level = phase < 1.2 ? 0.5 : phase >= 1.6 && phase < 3 ? 0.25 : 0.002
+    return level * Math.sin((2 * Math.PI * 400 * i) / RATE)
+  })
+
+describe('estimateCycles', () => {
+  it('pairs each inspiration with the expiration after it', () => {
+    const cycles = estimateCycles(breathing(4), RATE)
+    expect(cycles).toHaveLength(4)
+    cycles.forEach((cycle, index) => {
+      expect(cycle.start).toBeCloseTo(index * CYCLE_SECONDS, 0)
+      expect(cycle.inspiration.end).toBeCloseTo(index * CYCLE_SECONDS + 1.2, 0)
+      expect(cycle.expiration.start).toBeCloseTo(index * CYCLE_SECONDS + 1.6, 0)
+    })
+    // Each cycle runs to the next inspiration; the last one to the end of its expiration
+    expect(cycles[0].end).toBe(cycles[1].start)
+    expect(cycles[3].end).toBeCloseTo(15, 0)
+  })
+
+  it('starts from the louder phase when the recording opens mid-breath', () => {
+    const cycles = estimateCycles(breathing(4, 1.4), RATE)
+    expect(cycles.length).toBeGreaterThan(0)
+    // The expiration the recording opens with is skipped
+    expect(cycles[0].start).toBeCloseTo(CYCLE_SECONDS - 1.4, 0)
+  })
+
+  it('finds nothing in silence or a steady sound', () => {
+    expect(estimateCycles(new Float32Array(10 * RATE), RATE)).toEqual([])
+    const steady = Float32Array.from({ length: 10 * RATE }, (_, i) => 0.3 * Math.sin((2 * Math.PI * 400 * i) / RATE))
+    expect(estimateCycles(steady, RATE)).toEqual([])
+  })
+})
@@ -0,0 +1,122 @@
+import type { BreathingCycle, TimeRange } from '@/lib/api'
+import { bandPass } from '@/lib/audio/dsp'
+import { decodeAudio, toMono } from '@/lib/audio/wav'
+
+// Breath sounds sit roughly between 150 Hz and 1 kHz; heart sounds fall mostly below
+const BREATH_BAND = { lowHz: 150, highHz: 1000 }
+const FRAME_SECONDS = 0.05
+const SMOOTHING_FRAMES = 2
+// Hysteresis between the quiet floor (20th percentile) and loud breaths (95th percentile)
+const ON_LEVEL = 0.35
+const OFF_LEVEL = 0.2
+const MAX_GAP_SECONDS = 0.1
+const MIN_PHASE_SECONDS = 0.3
+// 4 to 60 breaths a minute
+const MIN_CYCLE_SECONDS = 1
+const MAX_CYCLE_SECONDS = 15
+
+interface Burst extends TimeRange {
+  energy: number
+}
+
+const percentile = (sorted: Float32Array, fraction: number) =>
+  sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))]
+
+const envelope = (samples: Float32Array, sampleRate: number) => {
+  const frame = Math.max(1, Math.round(sampleRate * FRAME_SECONDS))
+  const frames = new Float32Array(Math.floor(samples.length / frame))
+  for (let f = 0; f < frames.length; f++) {
+    let sum = 0
+    for (let i = f * frame; i < (f + 1) * frame; i++) sum += samples[i] * samples[i]
+    frames[f] = Math.sqrt(sum / frame)
+  }
+  // Moving average so the flutter inside one breath does not split it
+  const smoothed = new Float32Array(frames.length)
+  for (let f = 0; f < frames.length; f++) {
+    let sum = 0
+    let count = 0
+    for (let k = Math.max(0, f - SMOOTHING_FRAMES); k <= Math.min(frames.length - 1, f + SMOOTHING_FRAMES); k++) {
+      sum += frames[k]
+      count++
+    }
+    smoothed[f] = sum / count
+  }
+  return smoothed
+}
+
+const findBursts = (levels: Float32Array): Burst[] => {
+  const sorted = levels.slice().sort()
+  const floor = percentile(sorted, 0.2)
+  const range = percentile(sorted, 0.95) - floor
+  if (range <= 0) return []
+  const on = floor + ON_LEVEL * range
+  const off = floor + OFF_LEVEL * range
+
+  const bursts: Burst[] = []
+  let startFrame = -1
+  let energy = 0
+  for (let f = 0; f <= levels.length; f++) {
+    const level = f < levels.length ? levels[f] : 0
+    if (startFrame < 0 && level >= on) {
+      startFrame = f
+      energy = 0
+    }
+    if (startFrame >= 0) {
+      if (level < off || f === levels.length) {
+        bursts.push({ start: startFrame * FRAME_SECONDS, end: f * FRAME_SECONDS, energy: energy / (f - startFrame) })
+        startFrame = -1
+      } else {
+        energy += level
+      }
+    }
+  }
+
+  // Merge bursts split by a brief dip, then drop clicks too short to be a breath phase
+  const merged: Burst[] = []
+  bursts.forEach((burst) => {
+    const last = merged[merged.length - 1]
+    if (last && burst.start - last.end < MAX_GAP_SECONDS) {
+      const total = last.end - last.start + (burst.end - burst.start)
+      last.energy = (last.energy * (last.end - last.start) + burst.energy * (burst.end - burst.start)) / total
+      last.end = burst.end
+    } else {
+      merged.push({ ...burst })
+    }
+  })
+  return merged.filter((burst) => burst.end - burst.start >= MIN_PHASE_SECONDS)
+}
+
+// Rough cycles from the loudness envelope, for backends that do not segment breaths themselves.
+// Audible phases alternate, and inspiration is usually the louder of the two, which decides the pairing.
+export const estimateCycles = (samples: Float32Array, sampleRate: number): BreathingCycle[] => {
+  const filtered = bandPass(samples, sampleRate, BREATH_BAND.lowHz, Math.min(BREATH_BAND.highHz, sampleRate * 0.45))
+  const bursts = findBursts(envelope(filtered, sampleRate))
+  if (bursts.length < 2) return []
+
+  const meanEnergy = (parity: number) => {
+    const picked = bursts.filter((_, index) => index % 2 === parity)
+    return picked.reduce((sum, burst) => sum + burst.energy, 0) / picked.length
+  }
+  const first = meanEnergy(0) >= meanEnergy(1) ? 0 : 1
+
+  const cycles: BreathingCycle[] = []
+  for (let i = first; i + 1 < bursts.length; i += 2) {
+    const inspiration = bursts[i]
+    const expiration = bursts[i + 1]
+    const next = bursts[i + 2]
+    const cycle = {
+      start: inspiration.start,
+      end: next ? next.start : expiration.end,
+      inspiration: { start: inspiration.start, end: inspiration.end },
+      expiration: { start: expiration.start, end: expiration.end },
+    }
+    const length = cycle.end - cycle.start
+    if (length >= MIN_CYCLE_SECONDS && length <= MAX_CYCLE_SECONDS) cycles.push(cycle)
+  }
+  return cycles
+}
+
+export const estimateCyclesFromFile = async (file: Blob) => {
+  const buffer = await decodeAudio(file)
+  return estimateCycles(toMono(buffer), buffer.sampleRate)
+}
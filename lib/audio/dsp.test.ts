@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { bandPass, highPass, lowPass, normalizeLoudness, processSamples, resample, trim } from './dsp'
+
+const RATE = 8000
+
+const tone = (frequency: number, seconds = 1, rate = RATE) =>
+  Float32Array.from({ length: Math.round(seconds * rate) }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / rate))
+
+const rms = (samples: Float32Array) => Math.sqrt(samples.reduce((sum, value) => sum + value * value, 0) / samples.length)
+
+// Level after the filter has settled, relative to the input tone's
+const gain = (filtered: Float32Array, input: Float32Array) => {
+  const settled = Math.floor(filtered.length / 2)
+  return rms(filtered.subarray(settled)) / rms(input.subarray(settled))
+}
+
+describe('filters', () => {
+  it('low-pass keeps the passband and cuts above the corner', () => {
+    expect(gain(lowPass(tone(100), RATE, 1000), tone(100))).toBeCloseTo(1, 1)
+    expect(gain(lowPass(tone(3000), RATE, 500), tone(3000))).toBeLessThan(0.01)
+  })
+
+  it('high-pass keeps the passband and cuts below the corner', () => {
+    expect(gain(highPass(tone(2000), RATE, 200), tone(2000))).toBeCloseTo(1, 1)
+    expect(gain(highPass(tone(25), RATE, 200), tone(25))).toBeLessThan(0.01)
+  })
+
+  it('band-pass keeps the band and is 6 dB down at its edge', () => {
+    expect(gain(bandPass(tone(400), RATE, 100, 1600), tone(400))).toBeCloseTo(1, 1)
+    // Each of the two cascaded Butterworth sections is 3 dB down at the corner
+    expect(gain(bandPass(tone(1600), RATE, 100, 1600), tone(1600))).toBeCloseTo(0.5, 1)
+  })
+})
+
+describe('resample', () => {
+  it('returns the input unchanged at the same rate', () => {
+    const samples = tone(100)
+    expect(resample(samples, RATE, RATE)).toBe(samples)
+  })
+
+  it('scales the length and interpolates between samples', () => {
+    const out = resample(Float32Array.from([0, 1, 2, 3]), 2, 4)
+    expect(Array.from(out)).toEqual([0, 0.5, 1, 1.5, 2, 2.5, 3, 3])
+    expect(resample(tone(100, 1, 44100), 44100, 22050).length).toBe(22050)
+  })
+})
+
+describe('trim', () => {
+  it('cuts to the range in seconds and clamps it to the recording', () => {
+    const samples = Float32Array.from({ length: 10 }, (_, i) => i)
+    expect(Array.from(trim(samples, 2, 1, 3))).toEqual([2, 3, 4, 5])
+    expect(trim(samples, 2, 4, 20).length).toBe(2)
+  })
+})
+
+describe('normalizeLoudness', () => {
+  it('brings a quiet recording to the target RMS', () => {
+    const out = normalizeLoudness(tone(100).map((value) => value * 0.01), -20)
+    expect(20 * Math.log10(rms(out))).toBeCloseTo(-20, 1)
+  })
+
+  it('stops short of clipping the peaks', () => {
+    const out = normalizeLoudness(tone(100), 0)
+    expect(Math.max(...Array.from(out, Math.abs))).toBeCloseTo(0.98, 3)
+  })
+
+  it('leaves silence alone', () => {
+    const silence = new Float32Array(100)
+    expect(normalizeLoudness(silence, -20)).toBe(silence)
+  })
+})
+
+describe('processSamples', () => {
+  it('reports the rate it resampled to', () => {
+    const { samples, sampleRate } = processSamples(tone(100, 2, 16000), 16000, {
+      resample: true,
+      targetSampleRate: RATE,
+      bandPass: false,
+      lowCutHz: 100,
+      highCutHz: 2000,
+      trim: { start: 0, end: 1 },
+      normalize: false,
+      targetLoudnessDb: -20,
+    })
+    expect(sampleRate).toBe(RATE)
+    expect(samples.length).toBe(RATE)
+  })
+})
@@ -0,0 +1,116 @@
+// Pure signal processing used by the preprocessing worker; no DOM or Web Audio dependencies
+
+export interface PreprocessOptions {
+  resample: boolean
+  targetSampleRate: number
+  bandPass: boolean
+  lowCutHz: number
+  highCutHz: number
+  // Seconds into the recording; null keeps the whole file
+  trim: { start: number; end: number } | null
+  normalize: boolean
+  targetLoudnessDb: number
+}
+
+interface Biquad {
+  b0: number
+  b1: number
+  b2: number
+  a1: number
+  a2: number
+}
+
+const PEAK_CEILING = 0.98
+
+// Audio EQ Cookbook second-order sections (Butterworth Q)
+const biquad = (type: 'lowpass' | 'highpass', cutoffHz: number, sampleRate: number): Biquad => {
+  const w0 = (2 * Math.PI * cutoffHz) / sampleRate
+  const alpha = Math.sin(w0) / (2 * Math.SQRT1_2)
+  const cos = Math.cos(w0)
+  const a0 = 1 + alpha
+  const b1 = type === 'lowpass' ? 1 - cos : -(1 + cos)
+  const b0 = type === 'lowpass' ? b1 / 2 : -b1 / 2
+  return { b0: b0 / a0, b1: b1 / a0, b2: b0 / a0, a1: (-2 * cos) / a0, a2: (1 - alpha) / a0 }
+}
+
+const applyBiquad = (samples: Float32Array, { b0, b1, b2, a1, a2 }: Biquad) => {
+  const out = new Float32Array(samples.length)
+  let x1 = 0
+  let x2 = 0
+  let y1 = 0
+  let y2 = 0
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i]
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2
+    out[i] = y
+    x2 = x1
+    x1 = x
+    y2 = y1
+    y1 = y
+  }
+  return out
+}
+
+// Two cascaded sections per edge give a 24 dB/octave slope
+const cascade = (samples: Float32Array, section: Biquad) => applyBiquad(applyBiquad(samples, section), section)
+
+export const lowPass = (samples: Float32Array, sampleRate: number, cutoffHz: number) =>
+  cascade(samples, biquad('lowpass', Math.min(cutoffHz, sampleRate * 0.45), sampleRate))
+
+export const highPass = (samples: Float32Array, sampleRate: number, cutoffHz: number) =>
+  cascade(samples, biquad('highpass', cutoffHz, sampleRate))
+
+export const bandPass = (samples: Float32Array, sampleRate: number, lowCutHz: number, highCutHz: number) =>
+  lowPass(highPass(samples, sampleRate, lowCutHz), sampleRate, highCutHz)
+
+// Linear interpolation; callers low-pass first when downsampling
+export const resample = (samples: Float32Array, fromRate: number, toRate: number) => {
+  if (fromRate === toRate) return samples
+  const ratio = fromRate / toRate
+  const out = new Float32Array(Math.floor(samples.length / ratio))
+  for (let i = 0; i < out.length; i++) {
+    const position = i * ratio
+    const index = Math.floor(position)
+    const next = Math.min(index + 1, samples.length - 1)
+    const fraction = position - index
+    out[i] = samples[index] * (1 - fraction) + samples[next] * fraction
+  }
+  return out
+}
+
+export const trim = (samples: Float32Array, sampleRate: number, start: number, end: number) => {
+  const from = Math.max(0, Math.floor(start * sampleRate))
+  const to = Math.min(samples.length, Math.ceil(end * sampleRate))
+  return to > from ? samples.slice(from, to) : samples.slice()
+}
+
+// Scale to a target RMS level without letting peaks clip
+export const normalizeLoudness = (samples: Float32Array, targetDb: number) => {
+  let sum = 0
+  let peak = 0
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i]
+    peak = Math.max(peak, Math.abs(samples[i]))
+  }
+  const rms = Math.sqrt(sum / Math.max(1, samples.length))
+  if (rms === 0) return samples
+  const gain = Math.min(Math.pow(10, targetDb / 20) / rms, PEAK_CEILING / peak)
+  const out = new Float32Array(samples.length)
+  for (let i = 0; i < samples.length; i++) out[i] = samples[i] * gain
+  return out
+}
+
+export const processSamples = (input: Float32Array, sampleRate: number, options: PreprocessOptions) => {
+  let samples = options.trim ? trim(input, sampleRate, options.trim.start, options.trim.end) : input
+  if (options.bandPass) samples = bandPass(samples, sampleRate, options.lowCutHz, options.highCutHz)
+
+  let rate = sampleRate
+  if (options.resample && options.targetSampleRate !== sampleRate) {
+    if (options.targetSampleRate < sampleRate) samples = lowPass(samples, sampleRate, options.targetSampleRate * 0.45)
+    samples = resample(samples, sampleRate, options.targetSampleRate)
+    rate = options.targetSampleRate
+  }
+
+  if (options.normalize) samples = normalizeLoudness(samples, options.targetLoudnessDb)
+  return { samples, sampleRate: rate }
+}
@@ -0,0 +1,9 @@
+export const AUDIO_EXTENSIONS = ['.wav', '.mp3', '.m4a', '.flac']
+
+// react-dropzone accept map shared by every audio drop area
+export const AUDIO_ACCEPT = { 'audio/*': AUDIO_EXTENSIONS }
+
+export const isAudioFile = (file: File) => {
+  const name = file.name.toLowerCase()
+  return AUDIO_EXTENSIONS.some((extension) => name.endsWith(extension))
+}
@@ -0,0 +1,78 @@
+import { ApiError } from '@/lib/api'
+import { PreprocessOptions, processSamples } from '@/lib/audio/dsp'
+import { decodeAudio, encodeWav, toMono } from '@/lib/audio/wav'
+import { baseName } from '@/lib/download'
+import type { PreprocessRequest, PreprocessResponse } from '@/lib/audio/preprocess.worker'
+
+export type { PreprocessOptions } from '@/lib/audio/dsp'
+
+const envSampleRate = Number(process.env.NEXT_PUBLIC_API_SAMPLE_RATE)
+
+// Rate the backend models were trained at; librosa's default unless configured
+export const TARGET_SAMPLE_RATE = envSampleRate > 0 ? envSampleRate : 22050
+
+// Adventitious lung sounds sit between roughly 100 Hz and 2 kHz
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  resample: true,
+  targetSampleRate: TARGET_SAMPLE_RATE,
+  bandPass: true,
+  lowCutHz: 100,
+  highCutHz: 2000,
+  trim: null,
+  normalize: true,
+  targetLoudnessDb: -20,
+}
+
+export interface PreprocessResult {
+  file: File
+  duration: number
+  sampleRate: number
+}
+
+const cancelled = () => new ApiError('cancelled', 'request was cancelled')
+
+const runInWorker = (request: PreprocessRequest, signal?: AbortSignal) =>
+  new Promise<Extract<PreprocessResponse, { ok: true }>>((resolve, reject) => {
+    const worker = new Worker(new URL('./preprocess.worker.ts', import.meta.url))
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', onAbort)
+    }
+    const onAbort = () => {
+      finish()
+      reject(cancelled())
+    }
+    worker.onmessage = ({ data }: MessageEvent<PreprocessResponse>) => {
+      finish()
+      if (data.ok) resolve(data)
+      else reject(new Error(`Audio preprocessing failed: ${data.error}`))
+    }
+    worker.onerror = (event) => {
+      finish()
+      reject(new Error(`Audio preprocessing failed: ${event.message}`))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+    worker.postMessage(request, [request.samples.buffer])
+  })
+
+// Decoding needs Web Audio, which workers lack, so only the DSP and WAV encoding run off the main thread
+export const preprocessAudio = async (file: File, options: PreprocessOptions, signal?: AbortSignal): Promise<PreprocessResult> => {
+  if (signal?.aborted) throw cancelled()
+  const buffer = await decodeAudio(file)
+  if (signal?.aborted) throw cancelled()
+
+  const request: PreprocessRequest = { samples: toMono(buffer), sampleRate: buffer.sampleRate, options }
+  let output: { wav: Blob; duration: number; sampleRate: number }
+  if (typeof Worker === 'undefined') {
+    const { samples, sampleRate } = processSamples(request.samples, request.sampleRate, options)
+    output = { wav: encodeWav(samples, sampleRate), duration: samples.length / sampleRate, sampleRate }
+  } else {
+    output = await runInWorker(request, signal)
+  }
+
+  return {
+    file: new File([output.wav], `${baseName(file.name)}.wav`, { type: 'audio/wav' }),
+    duration: output.duration,
+    sampleRate: output.sampleRate,
+  }
+}
@@ -0,0 +1,27 @@
+import { PreprocessOptions, processSamples } from '@/lib/audio/dsp'
+import { encodeWav } from '@/lib/audio/wav'
+
+export interface PreprocessRequest {
+  samples: Float32Array
+  sampleRate: number
+  options: PreprocessOptions
+}
+
+export type PreprocessResponse =
+  | { ok: true; wav: Blob; duration: number; sampleRate: number }
+  | { ok: false; error: string }
+
+// Typed view of the dedicated worker scope; the project compiles against the DOM lib only
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<PreprocessRequest>) => void) | null
+  postMessage: (message: PreprocessResponse) => void
+}
+
+scope.onmessage = ({ data }) => {
+  try {
+    const { samples, sampleRate } = processSamples(data.samples, data.sampleRate, data.options)
+    scope.postMessage({ ok: true, wav: encodeWav(samples, sampleRate), duration: samples.length / sampleRate, sampleRate })
+  } catch (err) {
+    scope.postMessage({ ok: false, error: err instanceof Error ? err.message : String(err) })
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import { createTranslator } from '@/lib/i18n'
+import { QualityMetrics, assessQuality, measureQuality, readHeaderSampleRate } from './quality'
+import { encodeWav } from './wav'
+
+const en = createTranslator('en')
+
+const RATE = 8000
+
+// A 300 Hz tone, inside the lung sound band
+const tone = (seconds: number, amplitude: number) =>
+  Float32Array.from({ length: seconds * RATE }, (_, i) => amplitude * Math.sin((2 * Math.PI * 300 * i) / RATE))
+
+const goodMetrics: QualityMetrics = {
+  duration: 20,
+  sampleRate: 44100,
+  channels: 1,
+  clippingRatio: 0,
+  silenceRatio: 0.1,
+  snrDb: 25,
+}
+
+describe('readHeaderSampleRate', () => {
+  it('reads the rate from a WAV fmt chunk', async () => {
+    const bytes = await encodeWav(new Float32Array(100), 16000).arrayBuffer()
+    expect(readHeaderSampleRate(bytes)).toBe(16000)
+  })
+
+  it('reads the 20-bit rate from FLAC STREAMINFO', () => {
+    const bytes = new Uint8Array(42)
+    bytes.set([0x66, 0x4c, 0x61, 0x43])
+    // 44100 Hz is 0xAC44, stored across bytes 18-20
+    bytes.set([0x0a, 0xc4, 0x40], 18)
+    expect(readHeaderSampleRate(bytes.buffer)).toBe(44100)
+  })
+
+  it('gives up on other containers', () => {
+    expect(readHeaderSampleRate(new Uint8Array([0x49, 0x44, 0x33, 0x04]).buffer)).toBeNull()
+  })
+})
+
+describe('measureQuality', () => {
+  it('measures duration, clipping and silence', () => {
+    const samples = new Float32Array(4 * RATE)
+    samples.set(tone(2, 1))
+    const metrics = measureQuality(samples, RATE, 2, 44100)
+    expect(metrics.duration).toBe(4)
+    expect(metrics.channels).toBe(2)
+    expect(metrics.sampleRate).toBe(44100)
+    expect(metrics.clippingRatio).toBeGreaterThan(0)
+    expect(metrics.silenceRatio).toBeCloseTo(0.5)
+  })
+
+  it('sees a loud tone over a quiet floor as a high SNR', () => {
+    const samples = new Float32Array(10 * RATE)
+    samples.set(tone(10, 0.001))
+    samples.set(tone(5, 0.5), 5 * RATE)
+    expect(measureQuality(samples, RATE, 1, null).snrDb).toBeGreaterThan(40)
+  })
+})
+
+describe('assessQuality', () => {
+  it('passes a clean recording', () => {
+    expect(assessQuality(goodMetrics, en)).toEqual({ status: 'good', score: 100, metrics: goodMetrics, issues: [] })
+  })
+
+  it('warns below the warning thresholds and takes 20 points per warning', () => {
+    const report = assessQuality({ ...goodMetrics, duration: 4, snrDb: 8 }, en)
+    expect(report.status).toBe('warning')
+    expect(report.score).toBe(60)
+    expect(report.issues.map((issue) => issue.metric)).toEqual(['duration', 'snrDb'])
+  })
+
+  it('blocks a recording past any blocking threshold', () => {
+    const report = assessQuality({ ...goodMetrics, clippingRatio: 0.1 }, en)
+    expect(report.status).toBe('blocked')
+    expect(report.score).toBe(0)
+    expect(report.issues).toEqual([{ metric: 'clippingRatio', severity: 'blocking', message: expect.any(String) }])
+  })
+
+  it('skips the sample rate check when the header could not be read', () => {
+    expect(assessQuality({ ...goodMetrics, sampleRate: null }, en).issues).toEqual([])
+    expect(assessQuality({ ...goodMetrics, sampleRate: 3000 }, en).issues[0].metric).toBe('sampleRate')
+  })
+})
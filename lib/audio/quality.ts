@@ -0,0 +1,174 @@
+import { decodeAudio, toMono } from '@/lib/audio/wav'
+import { Translator, getTranslator } from '@/lib/i18n'
+
+export const MAX_FILE_SIZE_MB = 50
+
+export type QualitySeverity = 'warning' | 'blocking'
+export type QualityStatus = 'good' | 'warning' | 'blocked'
+
+export interface QualityMetrics {
+  duration: number
+  // Rate stored in the file; null when the container header is not one we can read
+  sampleRate: number | null
+  channels: number
+  // Fractions of the recording, 0..1
+  clippingRatio: number
+  silenceRatio: number
+  snrDb: number
+}
+
+export interface QualityIssue {
+  metric: keyof QualityMetrics | 'file'
+  severity: QualitySeverity
+  message: string
+}
+
+export interface QualityReport {
+  status: QualityStatus
+  score: number
+  metrics: QualityMetrics | null
+  issues: QualityIssue[]
+}
+
+// Lung sounds sit mostly below 2 kHz, so anything under 4 kHz sampling loses part of the band
+export const QUALITY_THRESHOLDS = {
+  minDuration: { blocking: 2, warning: 5 },
+  minSampleRate: { blocking: 2000, warning: 4000 },
+  maxClippingRatio: { blocking: 0.05, warning: 0.001 },
+  maxSilenceRatio: { blocking: 0.9, warning: 0.5 },
+  minSnrDb: { blocking: 3, warning: 10 },
+}
+
+const FRAME_SECONDS = 0.05
+const CLIP_LEVEL = 0.999
+const SILENCE_DB = -50
+
+const toDb = (value: number) => 20 * Math.log10(Math.max(value, 1e-9))
+
+const percentile = (sorted: number[], p: number) =>
+  sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))]
+
+// Browsers resample on decode, so the recorded rate has to come from the file header (WAV and FLAC)
+export const readHeaderSampleRate = (bytes: ArrayBuffer): number | null => {
+  const view = new DataView(bytes)
+  const tag = (offset: number) =>
+    offset + 4 <= view.byteLength ? String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)) : ''
+
+  if (tag(0) === 'RIFF' && tag(8) === 'WAVE') {
+    let offset = 12
+    while (offset + 16 <= view.byteLength) {
+      if (tag(offset) === 'fmt ') return view.getUint32(offset + 12, true)
+      const size = view.getUint32(offset + 4, true)
+      offset += 8 + size + (size % 2)
+    }
+    return null
+  }
+  // STREAMINFO is always the first metadata block; the rate is a 20-bit field 10 bytes into it
+  if (tag(0) === 'fLaC' && view.byteLength >= 21) {
+    return (view.getUint8(18) << 12) | (view.getUint8(19) << 4) | (view.getUint8(20) >> 4)
+  }
+  return null
+}
+
+export const measureQuality = (
+  samples: Float32Array,
+  analysisRate: number,
+  channels: number,
+  sampleRate: number | null
+): QualityMetrics => {
+  const frameLength = Math.max(1, Math.round(analysisRate * FRAME_SECONDS))
+  const frameRms: number[] = []
+  let clipped = 0
+
+  for (let start = 0; start < samples.length; start += frameLength) {
+    const end = Math.min(start + frameLength, samples.length)
+    let sum = 0
+    for (let i = start; i < end; i++) {
+      sum += samples[i] * samples[i]
+      if (Math.abs(samples[i]) >= CLIP_LEVEL) clipped++
+    }
+    frameRms.push(Math.sqrt(sum / (end - start)))
+  }
+
+  const silent = frameRms.filter((rms) => toDb(rms) < SILENCE_DB).length
+  // Quiet frames approximate the noise floor, loud frames the breath sounds
+  const sorted = frameRms.slice().sort((a, b) => a - b)
+  const noise = percentile(sorted, 0.1)
+  const signal = percentile(sorted, 0.9)
+
+  return {
+    duration: samples.length / analysisRate,
+    sampleRate,
+    channels,
+    clippingRatio: samples.length > 0 ? clipped / samples.length : 0,
+    silenceRatio: frameRms.length > 0 ? silent / frameRms.length : 1,
+    snrDb: signal > 0 ? toDb(signal) - toDb(noise) : 0,
+  }
+}
+
+// Issue messages are worded in the translator's language
+export const assessQuality = (metrics: QualityMetrics, translator: Translator = getTranslator()): QualityReport => {
+  const { t, formatNumber, formatPercent } = translator
+  const limits = QUALITY_THRESHOLDS
+  const percent = (value: number) => formatPercent(value, value < 0.01 ? 2 : 0)
+  const oneDecimal = (value: number) => formatNumber(value, { minimumFractionDigits: 1, maximumFractionDigits: 1 })
+  const issues: QualityIssue[] = []
+  const check = (
+    metric: keyof QualityMetrics,
+    failsBlocking: boolean,
+    failsWarning: boolean,
+    message: string
+  ) => {
+    if (failsBlocking) issues.push({ metric, severity: 'blocking', message })
+    else if (failsWarning) issues.push({ metric, severity: 'warning', message })
+  }
+
+  check('duration', metrics.duration < limits.minDuration.blocking, metrics.duration < limits.minDuration.warning,
+    t('quality.duration', { duration: oneDecimal(metrics.duration), minimum: limits.minDuration.warning }))
+  if (metrics.sampleRate !== null) {
+    check('sampleRate', metrics.sampleRate < limits.minSampleRate.blocking, metrics.sampleRate < limits.minSampleRate.warning,
+      t('quality.sampleRate', { rate: metrics.sampleRate, minimum: limits.minSampleRate.warning }))
+  }
+  check('clippingRatio', metrics.clippingRatio > limits.maxClippingRatio.blocking, metrics.clippingRatio > limits.maxClippingRatio.warning,
+    t('quality.clipping', { percent: percent(metrics.clippingRatio) }))
+  check('silenceRatio', metrics.silenceRatio > limits.maxSilenceRatio.blocking, metrics.silenceRatio > limits.maxSilenceRatio.warning,
+    t('quality.silence', { percent: percent(metrics.silenceRatio) }))
+  check('snrDb', metrics.snrDb < limits.minSnrDb.blocking, metrics.snrDb < limits.minSnrDb.warning,
+    t('quality.snr', { snr: oneDecimal(metrics.snrDb) }))
+
+  const blocking = issues.some((issue) => issue.severity === 'blocking')
+  const warnings = issues.filter((issue) => issue.severity === 'warning').length
+  return {
+    status: blocking ? 'blocked' : warnings > 0 ? 'warning' : 'good',
+    score: blocking ? 0 : Math.max(0, 100 - warnings * 20),
+    metrics,
+    issues,
+  }
+}
+
+const blocked = (message: string): QualityReport => ({
+  status: 'blocked',
+  score: 0,
+  metrics: null,
+  issues: [{ metric: 'file', severity: 'blocking', message }],
+})
+
+// Decode the file in the browser and score it before it is uploaded
+export const checkAudioQuality = async (file: Blob, translator: Translator = getTranslator()): Promise<QualityReport> => {
+  const { t, formatNumber } = translator
+  if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
+    const size = formatNumber(file.size / (1024 * 1024), { minimumFractionDigits: 1, maximumFractionDigits: 1 })
+    return blocked(t('quality.tooLarge', { size, limit: MAX_FILE_SIZE_MB }))
+  }
+  if (file.size === 0) return blocked(t('quality.empty'))
+
+  let buffer: AudioBuffer
+  try {
+    buffer = await decodeAudio(file)
+  } catch (err) {
+    console.error('Audio decode error:', err)
+    return blocked(t('quality.undecodable'))
+  }
+  const sampleRate = readHeaderSampleRate(await file.slice(0, 4096).arrayBuffer())
+  return assessQuality(measureQuality(toMono(buffer), buffer.sampleRate, buffer.numberOfChannels, sampleRate), translator)
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import type { DiseasePredictionResult } from '@/lib/api'
+import { EMPTY_SLOT, EXAM_PROTOCOLS, EXAM_SITES, SiteSlot, protocolSites, siteForFilename, summarizeExam } from './auscultation'
+
+const basic = protocolSites(EXAM_PROTOCOLS[0])
+
+const done = (prediction: string, confidence: number): SiteSlot => {
+  const result: DiseasePredictionResult = {
+    success: true,
+    filename: 'a.wav',
+    prediction,
+    confidence,
+    class_probabilities: { [prediction]: confidence, Other: 1 - confidence },
+    audio_info: { duration: 20, sample_rate: 22050 },
+  }
+  return { ...EMPTY_SLOT, status: 'done', result }
+}
+
+describe('siteForFilename', () => {
+  it('reads side, level and view in the usual spellings', () => {
+    expect(siteForFilename('LL_post_2.wav', EXAM_SITES)?.id).toBe('LL_post')
+    expect(siteForFilename('post-RU.wav', EXAM_SITES)?.id).toBe('RU_post')
+    expect(siteForFilename('RUL ant.m4a', EXAM_SITES)?.id).toBe('RU_ant')
+    expect(siteForFilename('patient7 RML back.wav', EXAM_SITES)?.id).toBe('RM_post')
+  })
+
+  it('takes a zone without a view only when the protocol has one site for it', () => {
+    expect(siteForFilename('LU.wav', basic)?.id).toBe('LU_ant')
+    expect(siteForFilename('LU.wav', EXAM_SITES)).toBeNull()
+  })
+
+  it('gives up on names without a zone', () => {
+    expect(siteForFilename('recording 3.wav', EXAM_SITES)).toBeNull()
+    expect(siteForFilename('LU_ant.wav', [])).toBeNull()
+  })
+})
+
+describe('summarizeExam', () => {
+  it('sorts analysed sites into normal, abnormal and inconclusive', () => {
+    const summary = summarizeExam(basic, {
+      RU_ant: done('Healthy', 0.9),
+      LU_ant: done('COPD', 0.9),
+      RM_post: done('Pneumonia', 0.9),
+      LM_post: done('COPD', 0.9),
+      RL_post: done('COPD', 0.4),
+      LL_post: EMPTY_SLOT,
+    })
+    expect(summary.analysed).toBe(5)
+    expect(summary.normal.map((site) => site.id)).toEqual(['RU_ant'])
+    expect(summary.abnormal.map((site) => site.id)).toEqual(['LU_ant', 'RM_post', 'LM_post'])
+    expect(summary.inconclusive.map((site) => site.id)).toEqual(['RL_post'])
+    expect(summary.findings.map(({ label, sites }) => ({ label, sites: sites.map((site) => site.id) }))).toEqual([
+      { label: 'COPD', sites: ['LU_ant', 'LM_post'] },
+      { label: 'Pneumonia', sites: ['RM_post'] },
+    ])
+    expect(summary.distribution).toBe('bilateral')
+  })
+
+  it('names the one lung with abnormal sites, or none', () => {
+    expect(summarizeExam(basic, { LU_ant: done('COPD', 0.9), RU_ant: done('Healthy', 0.9) }).distribution).toBe('left')
+    expect(summarizeExam(basic, { RU_ant: done('Healthy', 0.9) }).distribution).toBeNull()
+    expect(summarizeExam(basic, {}).analysed).toBe(0)
+  })
+})
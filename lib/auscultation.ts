@@ -0,0 +1,180 @@
+import type { DiseasePredictionResult, RequestProgress } from '@/lib/api'
+import { assessResult } from '@/lib/decision'
+import { MessageKey, Translator, getTranslator } from '@/lib/i18n'
+import { findModel } from '@/lib/models'
+
+export type ChestView = 'anterior' | 'posterior'
+export type ChestSide = 'left' | 'right'
+export type ChestLevel = 'upper' | 'middle' | 'lower'
+
+export interface ExamSite {
+  // Side, level and view, e.g. "LL_post" for left lower posterior, matching how recordings are usually named
+  id: string
+  view: ChestView
+  side: ChestSide
+  level: ChestLevel
+  // Nearest ICBHI location, stored with the result in patient history
+  icbhi: string
+  // Position on the body map in a 200 x 260 view box, seen from the examiner
+  x: number
+  y: number
+}
+
+export type ExamProtocolId = 'basic' | 'full'
+
+export interface ExamProtocol {
+  id: ExamProtocolId
+  name: MessageKey
+  description: MessageKey
+  sites: string[]
+}
+
+export type SiteStatus = 'empty' | 'ready' | 'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled'
+
+export interface SiteSlot {
+  file: File | null
+  status: SiteStatus
+  progress: RequestProgress | null
+  result?: DiseasePredictionResult
+  error?: string
+  note?: string
+}
+
+export type SiteFinding = 'normal' | 'abnormal' | 'inconclusive'
+
+export interface ExamFinding {
+  label: string
+  sites: ExamSite[]
+}
+
+export interface ExamSummary {
+  analysed: number
+  normal: ExamSite[]
+  abnormal: ExamSite[]
+  inconclusive: ExamSite[]
+  // Abnormal sites grouped by predicted class, most widespread first
+  findings: ExamFinding[]
+  // Which lungs the abnormal sites are in; null when there are none
+  distribution: 'bilateral' | ChestSide | null
+}
+
+const SIDE_CODES: Record<ChestSide, string> = { left: 'L', right: 'R' }
+const LEVEL_CODES: Record<ChestLevel, string> = { upper: 'U', middle: 'M', lower: 'L' }
+const VIEW_CODES: Record<ChestView, string> = { anterior: 'ant', posterior: 'post' }
+
+const LEVEL_Y: Record<ChestView, Record<ChestLevel, number>> = {
+  anterior: { upper: 85, middle: 130, lower: 172 },
+  posterior: { upper: 90, middle: 135, lower: 180 },
+}
+
+// Distance from the midline; the lower anterior sites sit out towards the mid-axillary line
+const LEVEL_OFFSET: Record<ChestView, Record<ChestLevel, number>> = {
+  anterior: { upper: 28, middle: 34, lower: 44 },
+  posterior: { upper: 30, middle: 36, lower: 38 },
+}
+
+const makeSite = (view: ChestView, level: ChestLevel, side: ChestSide): ExamSite => {
+  // The examiner faces the patient's front, so the patient's left is on the right of the anterior view
+  const towardsViewerRight = (side === 'left') === (view === 'anterior')
+  const offset = LEVEL_OFFSET[view][level]
+  return {
+    id: `${SIDE_CODES[side]}${LEVEL_CODES[level]}_${VIEW_CODES[view]}`,
+    view,
+    side,
+    level,
+    icbhi: `${view === 'anterior' ? 'A' : 'P'}${side === 'left' ? 'l' : 'r'}`,
+    x: 100 + (towardsViewerRight ? offset : -offset),
+    y: LEVEL_Y[view][level],
+  }
+}
+
+const VIEWS: ChestView[] = ['anterior', 'posterior']
+const LEVELS: ChestLevel[] = ['upper', 'middle', 'lower']
+const SIDES: ChestSide[] = ['right', 'left']
+
+export const EXAM_SITES: ExamSite[] = VIEWS.reduce(
+  (all, view) => all.concat(LEVELS.reduce((row, level) => row.concat(SIDES.map((side) => makeSite(view, level, side))), [] as ExamSite[])),
+  [] as ExamSite[]
+)
+
+export const EXAM_PROTOCOLS: ExamProtocol[] = [
+  {
+    id: 'basic',
+    name: 'exam.protocol.basic',
+    description: 'exam.protocol.basicHint',
+    sites: ['RU_ant', 'LU_ant', 'RM_post', 'LM_post', 'RL_post', 'LL_post'],
+  },
+  {
+    id: 'full',
+    name: 'exam.protocol.full',
+    description: 'exam.protocol.fullHint',
+    sites: EXAM_SITES.map((site) => site.id),
+  },
+]
+
+export const protocolSites = (protocol: ExamProtocol) =>
+  protocol.sites.map((id) => EXAM_SITES.find((site) => site.id === id)).filter((site): site is ExamSite => !!site)
+
+const SIDE_NAMES: Record<ChestSide, MessageKey> = { left: 'site.left', right: 'site.right' }
+const LEVEL_NAMES: Record<ChestLevel, MessageKey> = { upper: 'site.upper', middle: 'site.middle', lower: 'site.lower' }
+const VIEW_NAMES: Record<ChestView, MessageKey> = { anterior: 'site.anterior', posterior: 'site.posterior' }
+
+export const siteName = (site: ExamSite, { t }: Translator = getTranslator()) =>
+  t('site.name', { side: t(SIDE_NAMES[site.side]), level: t(LEVEL_NAMES[site.level]), view: t(VIEW_NAMES[site.view]) })
+
+export const EMPTY_SLOT: SiteSlot = { file: null, status: 'empty', progress: null }
+
+// Accepts "LL_post_2.wav", "post-LL.wav", "RUL ant.m4a" and the like; lobe names ("RML") count as zones
+export const siteForFilename = (filename: string, sites: ExamSite[]): ExamSite | null => {
+  const tokens = filename.toLowerCase().replace(/\.[^.]+$/, '').split(/[^a-z0-9]+/)
+  let zone: RegExpMatchArray | null = null
+  let view: ChestView | null = null
+  for (let i = 0; i < tokens.length; i++) {
+    zone = zone ?? tokens[i].match(/^([lr])([uml])l?$/)
+    if (/^(a|ant|anterior|front)$/.test(tokens[i])) view = 'anterior'
+    if (/^(p|post|posterior|back)$/.test(tokens[i])) view = 'posterior'
+  }
+  if (!zone) return null
+  const [, side, level] = zone
+  const matches = sites.filter(
+    (site) => SIDE_CODES[site.side].toLowerCase() === side && LEVEL_CODES[site.level].toLowerCase() === level && (!view || site.view === view)
+  )
+  // Without a view the zone must be unambiguous in this protocol
+  return matches.length === 1 ? matches[0] : null
+}
+
+// The catalogue marks the no-disease class; older catalogues without the flag fall back to the usual names
+export const isNormalClass = (label: string, modelId?: string) => {
+  const classes = findModel(modelId)?.classes ?? []
+  const flagged = classes.filter((item) => item.normal)
+  if (flagged.length > 0) return flagged.some((item) => item.label.toLowerCase() === label.toLowerCase())
+  return /^(healthy|normal)$/i.test(label)
+}
+
+export const siteFinding = (result: DiseasePredictionResult, modelId?: string): SiteFinding => {
+  if (assessResult(result, modelId).outcome === 'inconclusive') return 'inconclusive'
+  return isNormalClass(result.prediction, modelId) ? 'normal' : 'abnormal'
+}
+
+export const summarizeExam = (sites: ExamSite[], slots: Record<string, SiteSlot>, modelId?: string): ExamSummary => {
+  const summary: ExamSummary = { analysed: 0, normal: [], abnormal: [], inconclusive: [], findings: [], distribution: null }
+  sites.forEach((site) => {
+    const result = slots[site.id]?.result
+    if (!result) return
+    summary.analysed++
+    const finding = siteFinding(result, modelId)
+    summary[finding].push(site)
+    if (finding !== 'abnormal') return
+    const group = summary.findings.find((item) => item.label === result.prediction)
+    if (group) {
+      group.sites.push(site)
+    } else {
+      summary.findings.push({ label: result.prediction, sites: [site] })
+    }
+  })
+  summary.findings.sort((a, b) => b.sites.length - a.sites.length)
+  const left = summary.abnormal.some((site) => site.side === 'left')
+  const right = summary.abnormal.some((site) => site.side === 'right')
+  summary.distribution = left && right ? 'bilateral' : left ? 'left' : right ? 'right' : null
+  return summary
+}
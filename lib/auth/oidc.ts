@@ -0,0 +1,145 @@
+import { createHash, randomBytes } from 'crypto'
+import { HttpError } from '@/lib/server/errors'
+import type { RedirectProvider } from './providers'
+import { Role, isRole } from './roles'
+import { findUserByEmail } from './users'
+
+// Authorization code flow with PKCE against any OpenID Connect issuer. Server only
+export interface OidcConfig {
+  id: string
+  name: string
+  issuer: string
+  clientId: string
+  // Confidential clients; public clients rely on PKCE alone
+  clientSecret?: string
+  scope: string
+  // ID token or userinfo claim holding the user's RespireX role, as a string or a list
+  roleClaim: string
+}
+
+interface Discovery {
+  authorization_endpoint: string
+  token_endpoint: string
+  userinfo_endpoint?: string
+}
+
+type Claims = Record<string, unknown>
+
+const randomToken = () => randomBytes(32).toString('base64url')
+
+const decodeJwtClaims = (token: string): Claims => {
+  const payload = token.split('.')[1]
+  if (!payload) throw new HttpError(502, 'server.oidcToken')
+  return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+}
+
+const fetchJson = async (url: string, init?: RequestInit): Promise<Claims> => {
+  const response = await fetch(url, { ...init, cache: 'no-store' })
+  if (!response.ok) {
+    console.error(`Identity provider answered ${response.status} from ${new URL(url).pathname}`)
+    throw new HttpError(502, 'server.oidcUnavailable')
+  }
+  return response.json()
+}
+
+// First claim value that names a role, so a user in several groups gets the first one RespireX knows
+const roleFromClaim = (value: unknown): Role | undefined => {
+  const values = Array.isArray(value) ? value : [value]
+  return values.find(isRole)
+}
+
+export const createOidcProvider = (config: OidcConfig): RedirectProvider => {
+  const issuer = config.issuer.replace(/\/+$/, '')
+  let discovery: Promise<Discovery> | null = null
+
+  const discover = () => {
+    if (!discovery) {
+      discovery = fetchJson(`${issuer}/.well-known/openid-configuration`).then((value) => value as unknown as Discovery)
+      discovery.catch(() => {
+        discovery = null
+      })
+    }
+    return discovery
+  }
+
+  return {
+    id: config.id,
+    type: 'redirect',
+    name: config.name,
+
+    start: async (callbackUrl) => {
+      const { authorization_endpoint } = await discover()
+      const state = randomToken()
+      const nonce = randomToken()
+      const verifier = randomToken()
+      const url = new URL(authorization_endpoint)
+      url.search = new URLSearchParams({
+        response_type: 'code',
+        client_id: config.clientId,
+        redirect_uri: callbackUrl,
+        scope: config.scope,
+        state,
+        nonce,
+        code_challenge: createHash('sha256').update(verifier).digest('base64url'),
+        code_challenge_method: 'S256',
+      }).toString()
+      return { url: url.toString(), state: { state, nonce, verifier } }
+    },
+
+    finish: async (params, pending, callbackUrl) => {
+      const error = params.get('error')
+      if (error) {
+        console.error(`Identity provider refused the sign-in: ${error}`, params.get('error_description') ?? '')
+        throw new HttpError(401, 'server.oidcRefused')
+      }
+      const code = params.get('code')
+      if (!code || params.get('state') !== pending.state) throw new HttpError(400, 'server.oidcMismatch')
+
+      const { token_endpoint, userinfo_endpoint } = await discover()
+      const body = new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: callbackUrl,
+        client_id: config.clientId,
+        code_verifier: pending.verifier,
+      })
+      if (config.clientSecret) body.set('client_secret', config.clientSecret)
+      const tokens = await fetchJson(token_endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body,
+      })
+
+      // The ID token comes straight from the token endpoint over TLS, which OIDC accepts in place of a signature check
+      const idClaims = typeof tokens.id_token === 'string' ? decodeJwtClaims(tokens.id_token) : {}
+      const audience = Array.isArray(idClaims.aud) ? idClaims.aud : [idClaims.aud]
+      if (idClaims.iss !== issuer || audience.indexOf(config.clientId) === -1 || idClaims.nonce !== pending.nonce) {
+        throw new HttpError(401, 'server.oidcToken')
+      }
+      const userinfo = userinfo_endpoint && typeof tokens.access_token === 'string'
+        ? await fetchJson(userinfo_endpoint, { headers: { Authorization: `Bearer ${tokens.access_token}` } })
+        : {}
+      const claims: Claims = { ...idClaims, ...userinfo }
+
+      const email = typeof claims.email === 'string' ? claims.email : null
+      if (!email) throw new HttpError(401, 'server.oidcNoEmail')
+      const name = typeof claims.name === 'string' && claims.name ? claims.name : email
+
+      // An account created by an administrator decides the role; otherwise the identity provider's claim does.
+      // Only a verified email links to that account, since some providers let users enter any address
+      const account = await findUserByEmail(email)
+      if (account && claims.email_verified !== true) throw new HttpError(403, 'server.oidcUnverified')
+      if (account?.disabled) throw new HttpError(403, 'server.accountDisabled')
+      const role = account?.role ?? roleFromClaim(claims[config.roleClaim])
+      if (!role) throw new HttpError(403, 'server.noRole')
+
+      return {
+        id: account?.id ?? `${config.id}:${String(claims.sub)}`,
+        name: account?.name ?? name,
+        email: account?.email ?? email.toLowerCase(),
+        role,
+        provider: config.id,
+      }
+    },
+  }
+}
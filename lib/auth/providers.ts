@@ -0,0 +1,73 @@
+import type { SessionUser } from './session'
+import { createOidcProvider } from './oidc'
+import { verifyCredentials } from './users'
+
+// Sign-in methods are plugged in here; a new method implements one of these shapes and is added to getAuthProviders
+
+// Email and password checked on the server
+export interface CredentialsProvider {
+  id: string
+  type: 'credentials'
+  name: string
+  authorize: (email: string, password: string) => Promise<SessionUser | null>
+}
+
+// Sends the browser to an identity provider and finishes the sign-in when it comes back
+export interface RedirectProvider {
+  id: string
+  type: 'redirect'
+  name: string
+  // The state is kept in a signed cookie until the callback
+  start: (callbackUrl: string) => Promise<{ url: string; state: Record<string, string> }>
+  finish: (params: URLSearchParams, state: Record<string, string>, callbackUrl: string) => Promise<SessionUser>
+}
+
+export type AuthProvider = CredentialsProvider | RedirectProvider
+
+// Shown on the sign-in page; carries nothing secret
+export interface AuthProviderSummary {
+  id: string
+  type: AuthProvider['type']
+  name: string
+}
+
+export const createCredentialsProvider = (): CredentialsProvider => ({
+  id: 'credentials',
+  type: 'credentials',
+  name: 'Email and password',
+  authorize: async (email, password) => {
+    const user = await verifyCredentials(email, password)
+    return user ? { id: user.id, name: user.name, email: user.email, role: user.role, provider: 'credentials' } : null
+  },
+})
+
+let providers: AuthProvider[] | null = null
+
+// Built once from the environment: credentials unless AUTH_CREDENTIALS=false, OIDC when an issuer and client are set
+export const getAuthProviders = () => {
+  if (!providers) {
+    providers = []
+    if (process.env.AUTH_CREDENTIALS !== 'false') providers.push(createCredentialsProvider())
+    const issuer = process.env.AUTH_OIDC_ISSUER
+    const clientId = process.env.AUTH_OIDC_CLIENT_ID
+    if (issuer && clientId) {
+      providers.push(
+        createOidcProvider({
+          id: 'oidc',
+          name: process.env.AUTH_OIDC_NAME || 'Single sign-on',
+          issuer,
+          clientId,
+          clientSecret: process.env.AUTH_OIDC_CLIENT_SECRET,
+          scope: process.env.AUTH_OIDC_SCOPE || 'openid email profile',
+          roleClaim: process.env.AUTH_OIDC_ROLE_CLAIM || 'roles',
+        })
+      )
+    }
+  }
+  return providers
+}
+
+export const findAuthProvider = (id: string) => getAuthProviders().find((provider) => provider.id === id)
+
+export const summarizeProviders = (): AuthProviderSummary[] =>
+  getAuthProviders().map(({ id, type, name }) => ({ id, type, name }))
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { canAccess, landingPath, safeRedirectPath } from './roles'
+
+describe('safeRedirectPath', () => {
+  it('keeps same-site paths', () => {
+    expect(safeRedirectPath('/history?patient=P1')).toBe('/history?patient=P1')
+  })
+
+  it('falls back for other sites and protocol-relative links', () => {
+    expect(safeRedirectPath('https://evil.example')).toBe('/')
+    expect(safeRedirectPath('//evil.example')).toBe('/')
+    expect(safeRedirectPath('/\\evil.example')).toBe('/')
+    expect(safeRedirectPath(null, '/analyze')).toBe('/analyze')
+  })
+})
+
+describe('canAccess', () => {
+  it('lets anyone open public pages', () => {
+    expect(canAccess(null, '/')).toBe(true)
+  })
+
+  it('checks the role on protected prefixes, but not on lookalike paths', () => {
+    expect(canAccess('clinician', '/analyze')).toBe(true)
+    expect(canAccess('annotator', '/analyze/upload')).toBe(false)
+    expect(canAccess(null, '/admin')).toBe(false)
+    expect(canAccess(null, '/analyzer')).toBe(true)
+  })
+})
+
+describe('landingPath', () => {
+  it('returns to the page that asked for sign-in when the role may open it', () => {
+    expect(landingPath('clinician', '/history?patient=P1')).toBe('/history?patient=P1')
+  })
+
+  it("sends the user to their role's home otherwise", () => {
+    expect(landingPath('annotator', '/analyze')).toBe('/annotate')
+    expect(landingPath('admin', '//evil.example')).toBe('/admin')
+    expect(landingPath('clinician', '/')).toBe('/analyze')
+  })
+})
@@ -0,0 +1,57 @@
+import type { MessageKey } from '@/lib/i18n'
+
+// Shared by the middleware (edge runtime), server components and the client, so no Node APIs here
+export const ROLES = ['clinician', 'annotator', 'admin'] as const
+
+export type Role = (typeof ROLES)[number]
+
+export const ROLE_LABELS: Record<Role, MessageKey> = {
+  clinician: 'role.clinician',
+  annotator: 'role.annotator',
+  admin: 'role.admin',
+}
+
+export const isRole = (value: unknown): value is Role =>
+  typeof value === 'string' && (ROLES as readonly string[]).indexOf(value) !== -1
+
+// Routes that need a signed-in user with one of the roles; everything else is public.
+// Matched on the path prefix, first match wins
+export const ROUTE_ACCESS: { prefix: string; roles: Role[] }[] = [
+  { prefix: '/analyze', roles: ['clinician'] },
+  { prefix: '/exam', roles: ['clinician'] },
+  { prefix: '/history', roles: ['clinician'] },
+  { prefix: '/annotate', roles: ['annotator'] },
+  { prefix: '/admin', roles: ['admin'] },
+  { prefix: '/api/admin', roles: ['admin'] },
+  { prefix: '/api/signoffs', roles: ['clinician'] },
+]
+
+// Where each role lands after signing in, and when it opens a page it may not see
+export const ROLE_HOME: Record<Role, string> = {
+  clinician: '/analyze',
+  annotator: '/annotate',
+  admin: '/admin',
+}
+
+const matchesPrefix = (pathname: string, prefix: string) => pathname === prefix || pathname.indexOf(`${prefix}/`) === 0
+
+export const requiredRoles = (pathname: string) => {
+  const rule = ROUTE_ACCESS.find((item) => matchesPrefix(pathname, item.prefix))
+  return rule ? rule.roles : null
+}
+
+export const canAccess = (role: Role | null | undefined, pathname: string) => {
+  const roles = requiredRoles(pathname)
+  if (!roles) return true
+  return !!role && roles.indexOf(role) !== -1
+}
+
+// Only same-site paths, so a crafted ?next= link cannot send a signed-in user elsewhere
+export const safeRedirectPath = (value: string | null | undefined, fallback = '/') =>
+  value && value.charAt(0) === '/' && value.charAt(1) !== '/' && value.charAt(1) !== '\\' ? value : fallback
+
+// After signing in: the page that asked for it when the role may open it, else the role's home
+export const landingPath = (role: Role, next: string | null | undefined) => {
+  const path = safeRedirectPath(next, '')
+  return path && path !== '/' && canAccess(role, path.split(/[?#]/)[0]) ? path : ROLE_HOME[role]
+}
@@ -0,0 +1,30 @@
+import { cookies } from 'next/headers'
+import { HttpError } from '@/lib/server/errors'
+import { Role } from './roles'
+import { SESSION_COOKIE, Session, verifySessionToken } from './session'
+import { listUsers } from './users'
+
+// Public address of the app for identity provider callbacks; AUTH_URL covers proxies that hide it
+export const authBaseUrl = (request: Request) => (process.env.AUTH_URL || new URL(request.url).origin).replace(/\/+$/, '')
+
+// Signed-in user for server components and route handlers
+export const getSession = () => verifySessionToken(cookies().get(SESSION_COOKIE)?.value)
+
+// The cookie lasts a shift, so the account is read again: a deleted, disabled or re-roled user loses access at once.
+// Single sign-on users without an account keep the role their identity provider gave them at sign-in
+const currentSession = async (session: Session): Promise<Session | null> => {
+  const account = (await listUsers()).find((user) => user.id === session.user.id)
+  if (!account) return session.user.provider === 'credentials' ? null : session
+  if (account.disabled) return null
+  return { ...session, user: { ...session.user, name: account.name, role: account.role } }
+}
+
+// The middleware already guards these routes; handlers check again against the stored account, which the edge
+// middleware cannot read
+export const requireSession = async (roles: Role[]) => {
+  const token = await getSession()
+  const session = token && (await currentSession(token))
+  if (!session) throw new HttpError(401, 'server.signInRequired')
+  if (roles.indexOf(session.user.role) === -1) throw new HttpError(403, 'server.roleRefused')
+  return session
+}
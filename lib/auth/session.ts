@@ -0,0 +1,100 @@
+import { Role, isRole } from './roles'
+
+// Signed with Web Crypto so the same code verifies sessions in the edge middleware and in Node route handlers
+export const SESSION_COOKIE = 'respirex-session'
+
+// Holds a redirect provider's state, PKCE verifier and the page to return to while the browser is away
+export const AUTH_STATE_COOKIE = 'respirex-auth-state'
+export const AUTH_STATE_MAX_AGE_SECONDS = 10 * 60
+
+// A working shift; users sign in again after it. Route handlers re-read the account, so a disabled one loses API access
+// at once, while pages guarded only by the middleware stay open until the session ends
+export const SESSION_MAX_AGE_SECONDS = 8 * 60 * 60
+
+export interface SessionUser {
+  id: string
+  name: string
+  email: string
+  role: Role
+  // Auth provider that signed the user in, e.g. 'credentials' or 'oidc'
+  provider: string
+}
+
+export interface Session {
+  user: SessionUser
+  // Unix seconds
+  expiresAt: number
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i])
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+export const getAuthSecret = () => {
+  const secret = process.env.AUTH_SECRET
+  if (!secret || secret.length < 32) throw new Error('AUTH_SECRET must be set to at least 32 characters')
+  return secret
+}
+
+let keyPromise: Promise<CryptoKey> | null = null
+
+const signingKey = () => {
+  if (!keyPromise) {
+    keyPromise = crypto.subtle.importKey('raw', encoder.encode(getAuthSecret()), { name: 'HMAC', hash: 'SHA-256' }, false, [
+      'sign',
+      'verify',
+    ])
+  }
+  return keyPromise
+}
+
+// payload.signature, both base64url; also used for the short-lived OIDC state cookie
+export const signValue = async (value: unknown) => {
+  const payload = toBase64Url(encoder.encode(JSON.stringify(value)))
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(), encoder.encode(payload))
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+export const verifyValue = async (token: string | null | undefined): Promise<unknown> => {
+  if (!token) return null
+  const [payload, signature, extra] = token.split('.')
+  if (!payload || !signature || extra !== undefined) return null
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await signingKey(), fromBase64Url(signature), encoder.encode(payload))
+    return valid ? JSON.parse(decoder.decode(fromBase64Url(payload))) : null
+  } catch {
+    return null
+  }
+}
+
+export const createSessionToken = (user: SessionUser) =>
+  signValue({ user, expiresAt: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECONDS } as Session)
+
+// The session, or null when the token is missing, tampered with, expired or from an older shape
+export const verifySessionToken = async (token: string | null | undefined): Promise<Session | null> => {
+  const value = (await verifyValue(token)) as Partial<Session> | null
+  const user = value?.user
+  if (!value || typeof value.expiresAt !== 'number' || value.expiresAt * 1000 <= Date.now()) return null
+  if (!user || typeof user.id !== 'string' || typeof user.email !== 'string' || !isRole(user.role)) return null
+  return value as Session
+}
+
+export const sessionCookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+  maxAge: SESSION_MAX_AGE_SECONDS,
+}
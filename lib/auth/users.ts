@@ -0,0 +1,167 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto'
+import { HttpError } from '@/lib/server/errors'
+import { readJsonFile, updateJsonFile } from '@/lib/server/jsonStore'
+import { Role, isRole } from './roles'
+
+// Accounts for the credentials provider, and the role of anyone signing in through OIDC. Server only
+const USERS_FILE = 'users.json'
+
+export const MIN_PASSWORD_LENGTH = 10
+
+export interface StoredUser {
+  id: string
+  email: string
+  name: string
+  role: Role
+  // scrypt$salt$hash; absent for accounts that only sign in through OIDC
+  passwordHash?: string
+  disabled?: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+// What the admin screen sees
+export type PublicUser = Omit<StoredUser, 'passwordHash'> & { hasPassword: boolean }
+
+export interface UserInput {
+  email?: unknown
+  name?: unknown
+  role?: unknown
+  password?: unknown
+  disabled?: unknown
+}
+
+const hashKey = (password: string, salt: Buffer) =>
+  new Promise<Buffer>((resolve, reject) =>
+    scrypt(password, salt, 64, (err, key) => (err ? reject(err) : resolve(key)))
+  )
+
+export const hashPassword = async (password: string) => {
+  const salt = randomBytes(16)
+  return `scrypt$${salt.toString('base64')}$${(await hashKey(password, salt)).toString('base64')}`
+}
+
+const checkPassword = async (password: string, stored: string) => {
+  const [scheme, salt, hash] = stored.split('$')
+  if (scheme !== 'scrypt' || !salt || !hash) return false
+  const expected = Buffer.from(hash, 'base64')
+  const actual = await hashKey(password, Buffer.from(salt, 'base64'))
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase()
+
+export const toPublicUser = ({ passwordHash, ...user }: StoredUser): PublicUser => ({ ...user, hasPassword: !!passwordHash })
+
+// The first administrator comes from the environment, so a fresh deployment can be signed into
+const bootstrapUsers = async (): Promise<StoredUser[]> => {
+  const email = process.env.AUTH_ADMIN_EMAIL
+  const password = process.env.AUTH_ADMIN_PASSWORD
+  if (!email || !password) return []
+  const now = new Date().toISOString()
+  return [{
+    id: randomUUID(),
+    email: normalizeEmail(email),
+    name: 'Administrator',
+    role: 'admin',
+    passwordHash: await hashPassword(password),
+    createdAt: now,
+    updatedAt: now,
+  }]
+}
+
+const readUsers = () => readJsonFile<StoredUser[] | null>(USERS_FILE, null)
+
+// Read-modify-write on the store, creating it with the bootstrap admin on first use
+const updateUsers = <R>(update: (users: StoredUser[]) => Promise<[StoredUser[], R]> | [StoredUser[], R]) =>
+  updateJsonFile<StoredUser[] | null, R>(USERS_FILE, null, async (current) => update(current ?? (await bootstrapUsers())))
+
+export const listUsers = async () => {
+  const users = await readUsers()
+  if (users) return users
+  return updateUsers((created) => [created, created])
+}
+
+export const findUserByEmail = async (email: string) => {
+  const normalized = normalizeEmail(email)
+  return (await listUsers()).find((user) => user.email === normalized)
+}
+
+// The account for a correct email and password; disabled and OIDC-only accounts never match
+export const verifyCredentials = async (email: string, password: string) => {
+  const user = await findUserByEmail(email)
+  if (!user || user.disabled || !user.passwordHash) return null
+  return (await checkPassword(password, user.passwordHash)) ? user : null
+}
+
+const readEmail = (value: unknown) => {
+  if (typeof value !== 'string' || !/^[^\s@]+@[^\s@]+$/.test(value.trim())) throw new HttpError(400, 'server.invalidEmail')
+  return normalizeEmail(value)
+}
+
+const readName = (value: unknown) => {
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, 'server.nameRequired')
+  return value.trim()
+}
+
+const readRole = (value: unknown) => {
+  if (!isRole(value)) throw new HttpError(400, 'server.roleRequired')
+  return value
+}
+
+const readPassword = (value: unknown) => {
+  if (typeof value !== 'string' || value.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, 'server.passwordLength', { min: MIN_PASSWORD_LENGTH })
+  }
+  return value
+}
+
+const activeAdmins = (users: StoredUser[]) => users.filter((user) => user.role === 'admin' && !user.disabled)
+
+// Nobody could manage users again if the last administrator were removed
+const assertAdminRemains = (users: StoredUser[]) => {
+  if (activeAdmins(users).length === 0) throw new HttpError(409, 'server.lastAdmin')
+}
+
+// A password is optional: without one the account can only sign in through OIDC
+export const createUser = (input: UserInput) =>
+  updateUsers(async (users) => {
+    const email = readEmail(input.email)
+    if (users.some((user) => user.email === email)) throw new HttpError(409, 'server.emailTaken')
+    const now = new Date().toISOString()
+    const user: StoredUser = {
+      id: randomUUID(),
+      email,
+      name: readName(input.name),
+      role: readRole(input.role),
+      passwordHash: input.password ? await hashPassword(readPassword(input.password)) : undefined,
+      disabled: input.disabled === true || undefined,
+      createdAt: now,
+      updatedAt: now,
+    }
+    return [users.concat(user), user]
+  })
+
+// An empty password leaves the current one; null removes it
+export const updateUser = (id: string, input: UserInput) =>
+  updateUsers(async (users) => {
+    const existing = users.find((user) => user.id === id)
+    if (!existing) throw new HttpError(404, 'server.userNotFound')
+    const updated: StoredUser = { ...existing, updatedAt: new Date().toISOString() }
+    if (input.name !== undefined) updated.name = readName(input.name)
+    if (input.role !== undefined) updated.role = readRole(input.role)
+    if (input.disabled !== undefined) updated.disabled = input.disabled === true || undefined
+    if (input.password === null) updated.passwordHash = undefined
+    else if (input.password) updated.passwordHash = await hashPassword(readPassword(input.password))
+    const next = users.map((user) => (user.id === id ? updated : user))
+    assertAdminRemains(next)
+    return [next, updated]
+  })
+
+export const deleteUser = (id: string) =>
+  updateUsers((users) => {
+    if (!users.some((user) => user.id === id)) throw new HttpError(404, 'server.userNotFound')
+    const next = users.filter((user) => user.id !== id)
+    assertAdminRemains(next)
+    return [next, undefined]
+  })
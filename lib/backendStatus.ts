@@ -0,0 +1,89 @@
+import { respirex } from '@/lib/api'
+
+// warming: unreachable for less than the cold-start window, so most likely still booting
+export type BackendStatus = 'unknown' | 'checking' | 'warming' | 'ready' | 'down'
+
+export interface BackendState {
+  status: BackendStatus
+  checkedAt: number | null
+  latencyMs: number | null
+  // Start of the current run of failed probes
+  unreachableSince: number | null
+}
+
+// The hosted backend can take over a minute to boot after sleeping
+const COLD_START_WINDOW_MS = 90 * 1000
+// It is put to sleep after 15 minutes without traffic; re-probe a little before that
+const IDLE_AFTER_MS = 10 * 60 * 1000
+const WARMING_RECHECK_MS = 5 * 1000
+const DOWN_RECHECK_MS = 60 * 1000
+
+let state: BackendState = { status: 'unknown', checkedAt: null, latencyMs: null, unreachableSince: null }
+const listeners: Array<(state: BackendState) => void> = []
+let probing: Promise<BackendStatus> | null = null
+let recheckTimer: ReturnType<typeof setTimeout> | null = null
+
+const setState = (patch: Partial<BackendState>) => {
+  state = { ...state, ...patch }
+  listeners.slice().forEach((listener) => listener(state))
+}
+
+const scheduleRecheck = (delayMs: number) => {
+  if (recheckTimer) clearTimeout(recheckTimer)
+  recheckTimer = setTimeout(() => {
+    recheckTimer = null
+    probeBackend()
+  }, delayMs)
+}
+
+export const getBackendState = () => state
+
+export const subscribeBackendStatus = (listener: (state: BackendState) => void) => {
+  listeners.push(listener)
+  return () => {
+    const index = listeners.indexOf(listener)
+    if (index !== -1) listeners.splice(index, 1)
+  }
+}
+
+export const markBackendReady = (latencyMs: number | null = state.latencyMs) => {
+  if (recheckTimer) clearTimeout(recheckTimer)
+  recheckTimer = null
+  setState({ status: 'ready', checkedAt: Date.now(), latencyMs, unreachableSince: null })
+}
+
+// Called for failed probes and for timeouts or 5xx answers on real requests
+export const markBackendUnreachable = () => {
+  const now = Date.now()
+  const since = state.unreachableSince ?? now
+  const status = now - since < COLD_START_WINDOW_MS ? 'warming' : 'down'
+  setState({ status, checkedAt: now, unreachableSince: since })
+  scheduleRecheck(status === 'warming' ? WARMING_RECHECK_MS : DOWN_RECHECK_MS)
+}
+
+// Concurrent calls share one probe. Offline browsers are left alone; the outbox covers that case
+export const probeBackend = () => {
+  if (!probing) {
+    probing = (async () => {
+      if (!navigator.onLine) return state.status
+      if (state.status === 'unknown' || state.status === 'ready') setState({ status: 'checking' })
+      try {
+        const { latencyMs } = await respirex.checkHealth()
+        markBackendReady(latencyMs)
+      } catch {
+        markBackendUnreachable()
+      }
+      return state.status
+    })().finally(() => {
+      probing = null
+    })
+  }
+  return probing
+}
+
+// Wake the backend when an upload is likely, unless it answered recently enough to still be awake
+export const warmUpBackend = () => {
+  const { status, checkedAt } = state
+  if (status === 'ready' && checkedAt && Date.now() - checkedAt < IDLE_AFTER_MS) return
+  probeBackend()
+}
@@ -0,0 +1,95 @@
+import type { BreathingCycle, TimeRange } from '@/lib/api'
+import { MessageKey, Translator, getTranslator } from '@/lib/i18n'
+
+export type BreathingSource = 'server' | 'estimated'
+
+export type PhaseType = 'inspiration' | 'expiration'
+
+export type PhaseTiming = 'early' | 'mid' | 'late'
+
+export interface BreathingSummary {
+  cycles: number
+  // Breaths per minute from the median cycle length
+  ratePerMinute: number | null
+  // Mean inspiration length divided by mean expiration length; about 1:2 at rest
+  ieRatio: number | null
+}
+
+// Where an event falls in the breathing cycle; phase is null between breaths, 'both' when it spans the two
+export interface EventPhase {
+  phase: PhaseType | 'both' | null
+  timing: PhaseTiming | null
+  cycleIndex: number | null
+  description: string
+}
+
+export const PHASE_LABELS: Record<PhaseType, MessageKey> = {
+  inspiration: 'breathing.inspiration',
+  expiration: 'breathing.expiration',
+}
+
+export const PHASE_COLORS: Record<PhaseType, string> = {
+  inspiration: '#0ea5e9',
+  expiration: '#14b8a6',
+}
+
+const PHASE_DESCRIPTIONS: Record<PhaseTiming, Record<PhaseType, MessageKey>> = {
+  early: { inspiration: 'breathing.earlyInspiratory', expiration: 'breathing.earlyExpiratory' },
+  mid: { inspiration: 'breathing.midInspiratory', expiration: 'breathing.midExpiratory' },
+  late: { inspiration: 'breathing.lateInspiratory', expiration: 'breathing.lateExpiratory' },
+}
+
+// An event counts as biphasic when at least this share of it lies in each phase
+const BIPHASIC_SHARE = 0.3
+
+const length = (range: TimeRange) => range.end - range.start
+
+const median = (values: number[]) => {
+  const sorted = values.slice().sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+export const summarizeBreathing = (cycles: BreathingCycle[]): BreathingSummary => {
+  if (cycles.length === 0) return { cycles: 0, ratePerMinute: null, ieRatio: null }
+  const period = median(cycles.map(length))
+  const expiration = mean(cycles.map((cycle) => length(cycle.expiration)))
+  return {
+    cycles: cycles.length,
+    ratePerMinute: period > 0 ? 60 / period : null,
+    ieRatio: expiration > 0 ? mean(cycles.map((cycle) => length(cycle.inspiration))) / expiration : null,
+  }
+}
+
+export const formatIeRatio = (ratio: number) => (ratio <= 1 ? `1:${(1 / ratio).toFixed(1)}` : `${ratio.toFixed(1)}:1`)
+
+const overlap = (a: TimeRange, b: TimeRange) => Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start))
+
+// Thirds of the phase, by where the middle of the event falls
+const timingIn = (event: TimeRange, phase: TimeRange): PhaseTiming => {
+  const position = ((event.start + event.end) / 2 - phase.start) / Math.max(length(phase), 1e-6)
+  if (position < 1 / 3) return 'early'
+  if (position < 2 / 3) return 'mid'
+  return 'late'
+}
+
+// Assigns an event to the phase it overlaps most, e.g. "late inspiratory", described in the translator's language
+export const locateEvent = (event: TimeRange, cycles: BreathingCycle[], { t }: Translator = getTranslator()): EventPhase => {
+  const duration = Math.max(length(event), 1e-6)
+  let best: { cycleIndex: number; phase: PhaseType; amount: number } | null = null
+  for (let i = 0; i < cycles.length; i++) {
+    const inspiration = overlap(event, cycles[i].inspiration)
+    const expiration = overlap(event, cycles[i].expiration)
+    if (inspiration / duration >= BIPHASIC_SHARE && expiration / duration >= BIPHASIC_SHARE) {
+      return { phase: 'both', timing: null, cycleIndex: i, description: t('breathing.biphasic') }
+    }
+    const phase: PhaseType = inspiration >= expiration ? 'inspiration' : 'expiration'
+    const amount = Math.max(inspiration, expiration)
+    if (amount > 0 && (!best || amount > best.amount)) best = { cycleIndex: i, phase, amount }
+  }
+  if (!best) return { phase: null, timing: null, cycleIndex: null, description: t('breathing.between') }
+  const timing = timingIn(event, cycles[best.cycleIndex][best.phase])
+  return { phase: best.phase, timing, cycleIndex: best.cycleIndex, description: t(PHASE_DESCRIPTIONS[timing][best.phase]) }
+}
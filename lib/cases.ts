@@ -0,0 +1,228 @@
+import type { PredictionResult } from '@/lib/api'
+import type { Role } from '@/lib/auth/roles'
+import { MessageKey, Translator, getTranslator } from '@/lib/i18n'
+import { getAll, getOne, promisify, put, transact } from '@/lib/storage/db'
+
+export const AGE_BANDS = ['0-4', '5-17', '18-39', '40-64', '65+'] as const
+export type AgeBand = (typeof AGE_BANDS)[number]
+
+export const SEXES = ['female', 'male', 'other', 'unknown'] as const
+export type Sex = (typeof SEXES)[number]
+
+export const SEX_LABELS: Record<Sex, MessageKey> = {
+  female: 'case.sex.female',
+  male: 'case.sex.male',
+  other: 'case.sex.other',
+  unknown: 'case.sex.unknown',
+}
+
+// ICBHI 2017 chest locations
+export const RECORDING_SITES: Record<string, MessageKey> = {
+  Tc: 'case.site.Tc',
+  Al: 'case.site.Al',
+  Ar: 'case.site.Ar',
+  Pl: 'case.site.Pl',
+  Pr: 'case.site.Pr',
+  Ll: 'case.site.Ll',
+  Lr: 'case.site.Lr',
+}
+
+// Stored with visits as written here, so they stay in English and are translated for display
+export const SYMPTOMS = ['Cough', 'Fever', 'Shortness of breath', 'Wheezing', 'Chest pain', 'Sputum']
+
+const SYMPTOM_LABELS: Record<string, MessageKey> = {
+  Cough: 'case.symptom.cough',
+  Fever: 'case.symptom.fever',
+  'Shortness of breath': 'case.symptom.breathless',
+  Wheezing: 'case.symptom.wheezing',
+  'Chest pain': 'case.symptom.chestPain',
+  Sputum: 'case.symptom.sputum',
+}
+
+// Codes and symptoms from elsewhere, such as imported records, are shown as they are
+export const recordingSiteName = (code: string, { t }: Translator = getTranslator()) =>
+  RECORDING_SITES[code] ? t(RECORDING_SITES[code]) : code
+
+export const symptomName = (symptom: string, { t }: Translator = getTranslator()) =>
+  SYMPTOM_LABELS[symptom] ? t(SYMPTOM_LABELS[symptom]) : symptom
+
+export interface Patient {
+  id: string
+  ageBand: AgeBand
+  sex: Sex
+  // User who registered the patient; patients saved before accounts have none and stay visible to everyone
+  ownerId?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Who ran or signed off an analysis, named as they were at the time
+export interface RecordAuthor {
+  id: string
+  name: string
+  role: Role
+}
+
+export interface SignOff extends RecordAuthor {
+  signedAt: string
+}
+
+export const toRecordAuthor = (user: RecordAuthor | null | undefined): RecordAuthor | undefined =>
+  user ? { id: user.id, name: user.name, role: user.role } : undefined
+
+export interface AnalysisRecord {
+  id: string
+  patientId: string
+  createdAt: string
+  // Catalogue id of the model, e.g. 'disease' or 'annotation'
+  model: string
+  recordingSite: string
+  symptoms: string[]
+  filename: string
+  recordingId?: string
+  result: PredictionResult
+  analysedBy?: RecordAuthor
+  // Set once a clinician has reviewed the result; the app server keeps the same entry in its audit log
+  signOff?: SignOff
+}
+
+interface StoredRecording {
+  id: string
+  filename: string
+  blob: Blob
+}
+
+export interface VisitDetails {
+  recordingSite: string
+  symptoms: string[]
+}
+
+// Patient and visit chosen on an analysis screen; results are only saved when a patient is set
+export interface CaseSelection {
+  patientId: string | null
+  visit: VisitDetails
+}
+
+export const EMPTY_CASE: CaseSelection = {
+  patientId: null,
+  visit: { recordingSite: '', symptoms: [] },
+}
+
+export const EXPORT_FORMAT_ID = 'respirex-patient-history'
+
+export const newId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+const byNewest = (a: { createdAt: string }, b: { createdAt: string }) => b.createdAt.localeCompare(a.createdAt)
+
+export const isPatientVisibleTo = (patient: Patient, userId: string | null | undefined) =>
+  !patient.ownerId || patient.ownerId === userId
+
+// Patients on this device that the user registered, plus any from before accounts
+export const listPatients = async (userId: string | null | undefined) =>
+  (await getAll<Patient>('patients'))
+    .filter((patient) => isPatientVisibleTo(patient, userId))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+
+export const getPatient = (id: string) => getOne<Patient>('patients', id)
+
+// Thrown when a patient ID already belongs to another user on this device
+export class PatientTakenError extends Error {
+  constructor(id: string) {
+    super(`Patient ${id} is registered by another user`)
+    this.name = 'PatientTakenError'
+  }
+}
+
+// The first user to register a patient owns it; nobody else can change its details
+export const savePatient = async (details: Pick<Patient, 'id' | 'ageBand' | 'sex'>, ownerId?: string) => {
+  const existing = await getPatient(details.id)
+  if (existing && existing.ownerId !== ownerId) throw new PatientTakenError(details.id)
+  const now = new Date().toISOString()
+  return put<Patient>('patients', {
+    ...existing,
+    ...details,
+    ownerId: existing ? existing.ownerId : ownerId,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  })
+}
+
+export const listAnalyses = (patientId: string) =>
+  transact('analyses', 'readonly', (tx) =>
+    promisify(tx.objectStore('analyses').index('patientId').getAll(patientId) as IDBRequest<AnalysisRecord[]>)
+  ).then((records) => records.sort(byNewest))
+
+// Stores the result together with the audio so follow-up visits can be replayed and compared
+export const saveAnalysis = async (
+  patientId: string,
+  visit: VisitDetails,
+  model: AnalysisRecord['model'],
+  result: PredictionResult,
+  recording?: File | null,
+  analysedBy?: RecordAuthor
+) => {
+  const now = new Date().toISOString()
+  const record: AnalysisRecord = {
+    id: newId('analysis'),
+    patientId,
+    createdAt: now,
+    model,
+    recordingSite: visit.recordingSite,
+    symptoms: visit.symptoms,
+    filename: recording?.name ?? result.filename,
+    recordingId: recording ? newId('recording') : undefined,
+    result,
+    analysedBy,
+  }
+  await transact(['patients', 'analyses', 'recordings'], 'readwrite', async (tx) => {
+    if (recording && record.recordingId) {
+      tx.objectStore('recordings').put({ id: record.recordingId, filename: recording.name, blob: recording } as StoredRecording)
+    }
+    tx.objectStore('analyses').put(record)
+    const patients = tx.objectStore('patients')
+    const patient = await promisify(patients.get(patientId) as IDBRequest<Patient | undefined>)
+    if (patient) patients.put({ ...patient, updatedAt: now })
+  })
+  return record
+}
+
+export const saveSignOff = async (id: string, signOff: SignOff) => {
+  const record = await getOne<AnalysisRecord>('analyses', id)
+  if (!record) throw new Error(`Analysis ${id} is no longer stored`)
+  return put<AnalysisRecord>('analyses', { ...record, signOff })
+}
+
+export const getRecording = async (id: string) => (await getOne<StoredRecording>('recordings', id))?.blob
+
+export const deleteAnalysis = (record: AnalysisRecord) =>
+  transact(['analyses', 'recordings'], 'readwrite', (tx) => {
+    tx.objectStore('analyses').delete(record.id)
+    if (record.recordingId) tx.objectStore('recordings').delete(record.recordingId)
+  })
+
+export const deletePatient = async (patientId: string) => {
+  const analyses = await listAnalyses(patientId)
+  await transact(['patients', 'analyses', 'recordings'], 'readwrite', (tx) => {
+    analyses.forEach((record) => {
+      tx.objectStore('analyses').delete(record.id)
+      if (record.recordingId) tx.objectStore('recordings').delete(record.recordingId)
+    })
+    tx.objectStore('patients').delete(patientId)
+  })
+}
+
+// Audio stays local; the export carries results and a reference to each recording's filename
+export const exportPatientHistory = async (patientId: string) => {
+  const [patient, analyses] = await Promise.all([getPatient(patientId), listAnalyses(patientId)])
+  return JSON.stringify(
+    {
+      format: EXPORT_FORMAT_ID,
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      patient,
+      analyses: analyses.map(({ recordingId, ...record }) => ({ ...record, hasRecording: !!recordingId })),
+    },
+    null,
+    2
+  ) + '\n'
+}
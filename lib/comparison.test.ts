@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import type { DetectedEvent, ModelInfo, PredictionResult } from '@/lib/api'
+import { ComparisonRun, summarizeComparison } from './comparison'
+
+const model = (id: string): ModelInfo => ({
+  id,
+  name: id,
+  endpoint: `/predict/${id}`,
+  input_type: 'audio',
+  task: 'classification',
+  classes: [],
+})
+
+const audio_info = { duration: 20, sample_rate: 22050 }
+
+const classified = (id: string, class_probabilities: Record<string, number>): ComparisonRun => {
+  const prediction = Object.keys(class_probabilities).sort((a, b) => class_probabilities[b] - class_probabilities[a])[0]
+  const result: PredictionResult = {
+    success: true,
+    filename: 'a.wav',
+    prediction,
+    confidence: class_probabilities[prediction],
+    class_probabilities,
+    audio_info,
+  }
+  return { model: model(id), status: 'done', progress: null, result }
+}
+
+const detected = (id: string, disease: string, events: DetectedEvent[]): ComparisonRun => ({
+  model: model(id),
+  status: 'done',
+  progress: null,
+  result: { success: true, filename: 'a.wav', disease, confidence: 0.8, events, audio_info },
+})
+
+describe('summarizeComparison', () => {
+  it('finds the majority label and flags classes the models disagree on', () => {
+    const summary = summarizeComparison([
+      classified('a', { COPD: 0.7, Healthy: 0.3 }),
+      classified('b', { copd: 0.6, Healthy: 0.4 }),
+      classified('c', { COPD: 0.2, Healthy: 0.8 }),
+    ])
+    expect(summary.labels).toEqual(['COPD', 'Healthy'])
+    expect(summary.consensus).toBe('COPD')
+    expect(summary.compared).toBe(3)
+    expect(summary.classes.map(({ label, disagree }) => ({ label, disagree }))).toEqual([
+      { label: 'Healthy', disagree: true },
+      { label: 'COPD', disagree: true },
+    ])
+    expect(summary.classes[1].probabilities).toEqual({ a: 0.7, b: 0.6, c: 0.2 })
+    expect(summary.classes[1].spread).toBeCloseTo(0.5)
+  })
+
+  it('has no consensus on a tie and leaves out runs that did not finish', () => {
+    const summary = summarizeComparison([
+      classified('a', { COPD: 0.7, Healthy: 0.3 }),
+      classified('b', { COPD: 0.4, Healthy: 0.6 }),
+      { model: model('c'), status: 'failed', progress: null, error: 'timeout' },
+    ])
+    expect(summary.compared).toBe(2)
+    expect(summary.consensus).toBeNull()
+  })
+
+  it('scores a class missing from one model as 0', () => {
+    const summary = summarizeComparison([classified('a', { COPD: 0.9, URTI: 0.1 }), classified('b', { COPD: 0.95, Healthy: 0.05 })])
+    expect(summary.classes.find((item) => item.label === 'URTI')?.probabilities).toEqual({ a: 0.1, b: 0 })
+    expect(summary.classes[0]).toMatchObject({ label: 'COPD', disagree: false })
+  })
+
+  it('marks events another model also found', () => {
+    const summary = summarizeComparison([
+      detected('a', 'COPD', [
+        { label: 'crackle', start: 1, end: 2, confidence: 0.9 },
+        { label: 'wheeze', start: 5, end: 6, confidence: 0.7 },
+      ]),
+      detected('b', 'COPD', [{ label: 'Crackle', start: 1.5, end: 3, confidence: 0.8 }]),
+      classified('c', { COPD: 1 }),
+    ])
+    expect(summary.eventMatches).toEqual({ a: [true, false], b: [true] })
+  })
+
+  it('counts every event as matched when only one model detects events', () => {
+    const summary = summarizeComparison([detected('a', 'COPD', [{ label: 'wheeze', start: 1, end: 2, confidence: 0.9 }])])
+    expect(summary.eventMatches).toEqual({ a: [true] })
+  })
+})
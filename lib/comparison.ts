@@ -0,0 +1,96 @@
+import type { ModelInfo, PredictionResult, RequestProgress } from '@/lib/api'
+import { LabeledSegment, isMatchedSegment, segmentsFromEvents } from '@/lib/annotationFormats'
+import { isDiseaseResult, predictedLabel } from '@/lib/predictions'
+
+// Gap between the highest and lowest probability models give a class before the row is flagged
+export const PROBABILITY_DISAGREEMENT = 0.2
+
+export type ComparisonStatus = 'running' | 'retrying' | 'done' | 'failed' | 'cancelled'
+
+// One model's share of a comparison
+export interface ComparisonRun {
+  model: ModelInfo
+  status: ComparisonStatus
+  progress: RequestProgress | null
+  result?: PredictionResult
+  error?: string
+  note?: string
+}
+
+export interface ClassComparison {
+  label: string
+  // Keyed by model id; only models that return class probabilities appear
+  probabilities: Record<string, number>
+  spread: number
+  disagree: boolean
+}
+
+export interface ComparisonSummary {
+  // Distinct top labels, in run order; one entry means the models agree
+  labels: string[]
+  // Top label shared by more than half of the finished models, if any
+  consensus: string | null
+  // Number of finished runs the summary covers
+  compared: number
+  classes: ClassComparison[]
+  // Keyed by model id: for each detected event, whether another model found an overlapping event with the same label
+  eventMatches: Record<string, boolean[]>
+}
+
+const sameLabel = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+const distinctLabels = (labels: string[]) =>
+  labels.filter((label, index) => labels.findIndex((other) => sameLabel(other, label)) === index)
+
+// Where finished models differ: top label, per-class probabilities and events only one model found
+export const summarizeComparison = (runs: ComparisonRun[]): ComparisonSummary => {
+  const finished = runs.filter((run) => run.status === 'done' && run.result)
+  const results = finished.map((run) => ({ id: run.model.id, result: run.result as PredictionResult }))
+
+  const probabilityRuns = results.filter((item) => isDiseaseResult(item.result))
+  const classLabels: string[] = []
+  probabilityRuns.forEach(({ result }) => {
+    if (isDiseaseResult(result)) classLabels.push(...Object.keys(result.class_probabilities))
+  })
+  const classes = distinctLabels(classLabels)
+    .map((label) => {
+      const probabilities: Record<string, number> = {}
+      probabilityRuns.forEach(({ id, result }) => {
+        if (!isDiseaseResult(result)) return
+        const key = Object.keys(result.class_probabilities).find((other) => sameLabel(other, label))
+        probabilities[id] = key ? result.class_probabilities[key] : 0
+      })
+      const values = Object.keys(probabilities).map((id) => probabilities[id])
+      const spread = values.length > 1 ? Math.max(...values) - Math.min(...values) : 0
+      return { label, probabilities, spread, disagree: spread >= PROBABILITY_DISAGREEMENT }
+    })
+    .sort((a, b) => {
+      const top = (item: ClassComparison) => Math.max(...Object.keys(item.probabilities).map((id) => item.probabilities[id]))
+      return top(b) - top(a)
+    })
+
+  // Events are only compared between models that detect events
+  const eventRuns = results
+    .filter(({ result }) => 'events' in result)
+    .map(({ id, result }) => ({ id, segments: 'events' in result ? segmentsFromEvents(result.events) : [] }))
+  const eventMatches: Record<string, boolean[]> = {}
+  eventRuns.forEach(({ id, segments }) => {
+    const others: LabeledSegment[] = []
+    eventRuns.forEach((other) => {
+      if (other.id !== id) others.push(...other.segments)
+    })
+    eventMatches[id] = segments.map((segment) => eventRuns.length < 2 || isMatchedSegment(segment, others))
+  })
+
+  const topLabels = results.map(({ result }) => predictedLabel(result))
+  const labels = distinctLabels(topLabels)
+  const consensus = labels.filter((label) => topLabels.filter((other) => sameLabel(other, label)).length * 2 > topLabels.length)[0] ?? null
+
+  return {
+    labels,
+    consensus,
+    compared: results.length,
+    classes,
+    eventMatches,
+  }
+}
@@ -0,0 +1,18 @@
+// Run worker over items with at most `limit` in flight; stops taking new items once the signal aborts
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+) => {
+  let next = 0
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++
+      await worker(items[index], index)
+    }
+  }
+  const lanes: Promise<void>[] = []
+  for (let i = 0; i < Math.max(1, Math.min(limit, items.length)); i++) lanes.push(lane())
+  await Promise.all(lanes)
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import type { DiseasePredictionResult } from '@/lib/api'
+import { createTranslator } from '@/lib/i18n'
+import { DEFAULT_CLASS_THRESHOLD, DEFAULT_MIN_MARGIN, assessResult, normalizedEntropy } from './decision'
+import { SegmentPrediction, aggregateSegments } from './segmentation'
+
+const en = createTranslator('en')
+
+const result = (prediction: string, confidence: number, class_probabilities: Record<string, number>): DiseasePredictionResult => ({
+  success: true,
+  filename: 'a.wav',
+  prediction,
+  confidence,
+  class_probabilities,
+  audio_info: { duration: 20, sample_rate: 22050 },
+})
+
+describe('normalizedEntropy', () => {
+  it('is 0 for a certain result and 1 for a uniform one', () => {
+    expect(normalizedEntropy([1, 0, 0])).toBe(0)
+    expect(normalizedEntropy([0.25, 0.25, 0.25, 0.25])).toBeCloseTo(1)
+  })
+})
+
+describe('assessResult', () => {
+  it('is conclusive above the threshold with a clear lead', () => {
+    const decision = assessResult(result('COPD', 0.8, { COPD: 0.8, Healthy: 0.15, URTI: 0.05 }), undefined, en)
+    expect(decision.outcome).toBe('conclusive')
+    expect(decision.threshold).toBe(DEFAULT_CLASS_THRESHOLD)
+    expect(decision.runnerUp).toBe('Healthy')
+    expect(decision.margin).toBeCloseTo(0.65)
+    expect(decision.reasons).toEqual([])
+  })
+
+  it('is inconclusive below the class threshold', () => {
+    const decision = assessResult(result('COPD', 0.5, { COPD: 0.5, Healthy: 0.3, URTI: 0.2 }), undefined, en)
+    expect(decision.outcome).toBe('inconclusive')
+    expect(decision.reasons).toHaveLength(1)
+  })
+
+  it('is inconclusive when the runner-up is close', () => {
+    const decision = assessResult(result('COPD', 0.62, { COPD: 0.62, Healthy: 0.58 }), undefined, en)
+    expect(decision.margin).toBeLessThan(DEFAULT_MIN_MARGIN)
+    expect(decision.outcome).toBe('inconclusive')
+  })
+
+  it('measures the margin on class probabilities when confidence is a vote share', () => {
+    const segment = (index: number, prediction: string, probabilities: Record<string, number>): SegmentPrediction => ({
+      index,
+      start: index * 15,
+      end: index * 15 + 20,
+      prediction,
+      confidence: probabilities[prediction],
+      class_probabilities: probabilities,
+    })
+    // Two of three segments say COPD, but the mean probabilities are almost tied
+    const aggregated = aggregateSegments(
+      [
+        segment(0, 'COPD', { COPD: 0.53, Healthy: 0.47 }),
+        segment(1, 'COPD', { COPD: 0.53, Healthy: 0.47 }),
+        segment(2, 'Healthy', { COPD: 0.46, Healthy: 0.54 }),
+      ],
+      'majority'
+    )
+    const decision = assessResult(result(aggregated.prediction, aggregated.confidence, aggregated.class_probabilities), undefined, en)
+    expect(aggregated.confidence).toBeGreaterThan(DEFAULT_CLASS_THRESHOLD)
+    expect(decision.margin).toBeCloseTo(0.0133, 3)
+    expect(decision.outcome).toBe('inconclusive')
+  })
+
+  it('flags a prediction another class outscores', () => {
+    const decision = assessResult(result('COPD', 0.9, { COPD: 0.4, Healthy: 0.6 }), undefined, en)
+    expect(decision.margin).toBeCloseTo(-0.2)
+    expect(decision.outcome).toBe('inconclusive')
+  })
+})
@@ -0,0 +1,88 @@
+import type { ModelClass, PredictionResult } from '@/lib/api'
+import { Translator, getTranslator } from '@/lib/i18n'
+import { findModel } from '@/lib/models'
+import { isDiseaseResult, predictedLabel, rankProbabilities } from '@/lib/predictions'
+
+// Used for classes and models the catalogue gives no threshold or margin for
+export const DEFAULT_CLASS_THRESHOLD = 0.6
+export const DEFAULT_MIN_MARGIN = 0.1
+
+export type DecisionOutcome = 'conclusive' | 'inconclusive'
+
+export interface Decision {
+  outcome: DecisionOutcome
+  label: string
+  confidence: number
+  threshold: number
+  // Lead of the top class over the runner-up; only for results with class probabilities
+  margin?: number
+  minMargin: number
+  runnerUp?: string
+  // Shannon entropy of the class probabilities divided by its maximum, 0 (certain) to 1 (uniform)
+  entropy?: number
+  // Why the result is inconclusive; empty when conclusive
+  reasons: string[]
+  action: string
+}
+
+export const normalizedEntropy = (probabilities: number[]) => {
+  const total = probabilities.reduce((sum, p) => sum + p, 0)
+  if (probabilities.length < 2 || total <= 0) return 0
+  const entropy = probabilities.reduce((sum, p) => {
+    const share = p / total
+    return share > 0 ? sum - share * Math.log(share) : sum
+  }, 0)
+  return entropy / Math.log(probabilities.length)
+}
+
+const findClass = (label: string, modelId?: string): ModelClass | undefined =>
+  findModel(modelId)?.classes.find((item) => item.label.toLowerCase() === label.toLowerCase())
+
+// Whether a result is confident enough to report, with the metrics behind that call and what to do next.
+// Reasons and the fallback actions are worded in the translator's language; class actions come from the catalogue as is
+export const assessResult = (result: PredictionResult, modelId?: string, translator: Translator = getTranslator()): Decision => {
+  const { t, formatPercent } = translator
+  const label = predictedLabel(result)
+  const modelClass = findClass(label, modelId)
+  const threshold = modelClass?.threshold ?? DEFAULT_CLASS_THRESHOLD
+  const minMargin = findModel(modelId)?.min_margin ?? DEFAULT_MIN_MARGIN
+  const reasons: string[] = []
+
+  if (result.confidence < threshold) {
+    reasons.push(t('decision.belowThreshold', { confidence: formatPercent(result.confidence), threshold: formatPercent(threshold, 0), label }))
+  }
+
+  let margin: number | undefined
+  let runnerUp: string | undefined
+  let entropy: number | undefined
+  if (isDiseaseResult(result)) {
+    const ranked = rankProbabilities(result.class_probabilities)
+    entropy = normalizedEntropy(ranked.map((item) => item.probability))
+    const top = ranked.find((item) => item.label.toLowerCase() === label.toLowerCase())
+    const others = ranked.filter((item) => item !== top)
+    if (others.length > 0) {
+      runnerUp = others[0].label
+      // Both sides from class_probabilities: for segmented results confidence can be a vote share, not a probability
+      margin = (top?.probability ?? result.confidence) - others[0].probability
+      if (margin < 0) {
+        reasons.push(t('decision.outscored', { runnerUp, margin: formatPercent(-margin), label }))
+      } else if (margin < minMargin) {
+        reasons.push(t('decision.narrowMargin', { label, runnerUp, margin: formatPercent(margin), minMargin: formatPercent(minMargin, 0) }))
+      }
+    }
+  }
+
+  const outcome = reasons.length > 0 ? 'inconclusive' : 'conclusive'
+  return {
+    outcome,
+    label,
+    confidence: result.confidence,
+    threshold,
+    margin,
+    minMargin,
+    runnerUp,
+    entropy,
+    reasons,
+    action: outcome === 'inconclusive' ? t('decision.rerecord') : modelClass?.action ?? t('decision.generic'),
+  }
+}
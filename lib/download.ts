@@ -0,0 +1,16 @@
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+export const downloadText = (filename: string, text: string, type = 'text/plain') =>
+  downloadBlob(filename, new Blob([text], { type: `${type};charset=utf-8` }))
+
+// Recording name without its audio extension, used as the stem for exported files
+export const baseName = (filename: string) => filename.replace(/\.[^./\\]+$/, '') || 'recording'
@@ -0,0 +1,32 @@
+import type { FeatureContribution, SaliencyWindow } from '@/lib/api'
+
+// Strongest overlay opacity, so the waveform stays readable under the heat map
+const MAX_OVERLAY_ALPHA = 0.45
+
+export interface WeightedWindow extends SaliencyWindow {
+  // Score scaled by the largest absolute score, -1 to 1
+  weight: number
+}
+
+// Backends report scores on different scales; only their relative size is shown
+export const weighSaliency = (windows: SaliencyWindow[]): WeightedWindow[] => {
+  const largest = windows.reduce((max, window) => Math.max(max, Math.abs(window.score)), 0)
+  return windows.map((window) => ({ ...window, weight: largest > 0 ? window.score / largest : 0 }))
+}
+
+// Red for stretches that support the explained class, blue for those that count against it
+export const saliencyColor = (weight: number) => {
+  const alpha = (Math.abs(weight) * MAX_OVERLAY_ALPHA).toFixed(3)
+  return weight >= 0 ? `rgba(220, 38, 38, ${alpha})` : `rgba(37, 99, 235, ${alpha})`
+}
+
+// Windows that supported the explained class most, strongest first
+export const topWindows = (windows: WeightedWindow[], count: number) =>
+  windows
+    .filter((window) => window.weight > 0)
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, count)
+
+// Features ordered by the size of their contribution, whichever way it points
+export const rankFeatures = (features: FeatureContribution[]) =>
+  features.slice().sort((a, b) => Math.abs(b.importance) - Math.abs(a.importance))
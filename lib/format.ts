@@ -0,0 +1,20 @@
+import type { RequestProgress } from '@/lib/api'
+import { getTranslator, t } from '@/lib/i18n'
+
+export const formatTime = (seconds: number) => getTranslator().formatTime(seconds)
+
+export const formatMb = (bytes: number) =>
+  `${getTranslator().formatNumber(bytes / (1024 * 1024), { minimumFractionDigits: 1, maximumFractionDigits: 1 })} MB`
+
+// Status line and progress bar fraction (null when indeterminate) for a request in flight
+export const describeProgress = (progress: RequestProgress | null | undefined) => {
+  if (!progress) return { text: t('progress.analyzing'), fraction: null }
+  if (progress.phase === 'uploading') {
+    const fraction = progress.total ? (progress.loaded ?? 0) / progress.total : null
+    const sent = progress.total ? t('progress.sent', { sent: formatMb(progress.loaded ?? 0), total: formatMb(progress.total) }) : ''
+    const text = fraction !== null ? t('progress.uploadingPercent', { percent: getTranslator().formatPercent(fraction, 0) }) : t('progress.uploading')
+    return { text: `${text} ${sent}`.trim(), fraction }
+  }
+  if (progress.phase === 'queued') return { text: progress.message ?? t('progress.queued'), fraction: null }
+  return { text: progress.message ?? t('progress.processing'), fraction: progress.fraction ?? null }
+}
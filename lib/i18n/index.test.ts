@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { createTranslator, matchLocale, parseAcceptLanguage } from '.'
+
+describe('parseAcceptLanguage', () => {
+  it('orders tags by weight and keeps the header order for ties', () => {
+    expect(parseAcceptLanguage('en;q=0.5, te-IN, hi;q=0.9, fr')).toEqual(['te-IN', 'fr', 'hi', 'en'])
+  })
+
+  it('drops wildcards, refused languages and empty input', () => {
+    expect(parseAcceptLanguage('*, hi;q=0, te;q=0.3')).toEqual(['te'])
+    expect(parseAcceptLanguage(null)).toEqual([])
+    expect(parseAcceptLanguage('')).toEqual([])
+  })
+})
+
+describe('matchLocale', () => {
+  it('takes the first supported language by its primary subtag', () => {
+    expect(matchLocale(['fr-FR', 'HI-in', 'te'])).toBe('hi')
+  })
+
+  it('falls back to English', () => {
+    expect(matchLocale(['fr', 'de'])).toBe('en')
+    expect(matchLocale([])).toBe('en')
+  })
+})
+
+describe('createTranslator', () => {
+  it('fills in placeholders and leaves unknown ones as they are', () => {
+    const { t } = createTranslator('en')
+    expect(t('annotationFile.line', { line: 2, message: 'end is before start' })).toBe('Line 2: end is before start')
+    expect(t('annotationFile.line', { line: 2 })).toBe('Line 2: {message}')
+  })
+})
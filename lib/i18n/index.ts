@@ -0,0 +1,113 @@
+import { en } from './messages/en'
+import { hi } from './messages/hi'
+import { te } from './messages/te'
+import type { MessageKey, Messages } from './messages/en'
+
+export type { MessageKey, Messages }
+
+export const LOCALES = ['en', 'hi', 'te'] as const
+
+export type Locale = (typeof LOCALES)[number]
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+// Shown in the language switcher, each in its own script
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  hi: 'हिन्दी',
+  te: 'తెలుగు',
+}
+
+// Remembers an explicit choice so the server renders the next page in it
+export const LOCALE_COOKIE = 'respirex-locale'
+
+const CATALOGUES: Record<Locale, Messages> = { en, hi, te }
+
+export type MessageParams = Record<string, string | number>
+
+export interface Translator {
+  locale: Locale
+  t: (key: MessageKey, params?: MessageParams) => string
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string
+  formatPercent: (value: number, digits?: number) => string
+  // Playback position as m:ss
+  formatTime: (seconds: number) => string
+  formatDateTime: (value: string | number | Date) => string
+}
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && (LOCALES as readonly string[]).indexOf(value) !== -1
+
+export const isMessageKey = (value: unknown): value is MessageKey =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(en, value)
+
+// First supported language in preference order, matched on the primary subtag ("hi-IN" picks "hi")
+export const matchLocale = (languages: readonly string[]): Locale => {
+  for (let i = 0; i < languages.length; i++) {
+    const primary = languages[i].trim().toLowerCase().split('-')[0]
+    if (isLocale(primary)) return primary
+  }
+  return DEFAULT_LOCALE
+}
+
+// Accept-Language header as tags ordered by their q weight
+export const parseAcceptLanguage = (header: string | null | undefined) =>
+  (header ?? '')
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';')
+      const q = params.map((param) => param.trim()).filter((param) => param.indexOf('q=') === 0)[0]
+      return { tag, weight: q ? parseFloat(q.slice(2)) || 0 : 1, index }
+    })
+    .filter((entry) => entry.tag && entry.tag !== '*' && entry.weight > 0)
+    .sort((a, b) => b.weight - a.weight || a.index - b.index)
+    .map((entry) => entry.tag)
+
+const interpolate = (message: string, params?: MessageParams) =>
+  params ? message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match)) : message
+
+const translators: Partial<Record<Locale, Translator>> = {}
+
+export const createTranslator = (locale: Locale): Translator => {
+  const cached = translators[locale]
+  if (cached) return cached
+  const messages = CATALOGUES[locale]
+  const numberFormats: Record<string, Intl.NumberFormat> = {}
+  const numberFormat = (options: Intl.NumberFormatOptions = {}) => {
+    const key = JSON.stringify(options)
+    if (!numberFormats[key]) numberFormats[key] = new Intl.NumberFormat(locale, options)
+    return numberFormats[key]
+  }
+  const twoDigits = numberFormat({ minimumIntegerDigits: 2 })
+  const dateTime = new Intl.DateTimeFormat(locale, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+
+  const translator: Translator = {
+    locale,
+    t: (key, params) => interpolate(messages[key] ?? en[key], params),
+    formatNumber: (value, options) => numberFormat(options).format(value),
+    formatPercent: (value, digits = 1) =>
+      numberFormat({ style: 'percent', minimumFractionDigits: digits, maximumFractionDigits: digits }).format(value),
+    formatTime: (seconds) =>
+      `${numberFormat().format(Math.floor(seconds / 60))}:${twoDigits.format(Math.floor(seconds % 60))}`,
+    formatDateTime: (value) => dateTime.format(new Date(value)),
+  }
+  translators[locale] = translator
+  return translator
+}
+
+// Locale for code outside React (errors, progress text, decision reasons); the provider keeps it in step with the switcher
+let active = createTranslator(DEFAULT_LOCALE)
+
+export const getTranslator = () => active
+
+export const setActiveLocale = (locale: Locale) => {
+  active = createTranslator(locale)
+}
+
+export const t = (key: MessageKey, params?: MessageParams) => active.t(key, params)
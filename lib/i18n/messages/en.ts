@@ -0,0 +1,616 @@
+// Source catalogue: the English text of every key. The other locales must translate all of them.
+// Placeholders in {braces} are filled in by t()
+export const en = {
+  'nav.home': 'Home',
+  'nav.models': 'Models',
+  'nav.analyze': 'Analyze',
+  'nav.exam': 'Exam',
+  'nav.annotate': 'Annotate',
+  'nav.history': 'History',
+  'nav.faq': 'FAQs',
+  'nav.team': 'Team',
+  'nav.language': 'Language',
+  'nav.menu': 'Menu',
+  'nav.main': 'Main',
+  'nav.homeLink': 'RespireX home',
+  'nav.admin': 'Admin',
+  'nav.signIn': 'Sign in',
+  'nav.signOut': 'Sign out',
+
+  'a11y.skipToContent': 'Skip to main content',
+  'a11y.reduceMotion': 'Reduce motion',
+
+  'footer.tagline': 'AI-powered respiratory disease detection for better healthcare outcomes.',
+  'footer.quickLinks': 'Quick Links',
+  'footer.contact': 'Contact',
+  'footer.email': 'Email: {email}',
+  'footer.phone': 'Phone: {phone}',
+  'footer.copyright': '© 2025 RespireX. All rights reserved. | Medical AI Research Platform',
+
+  'page.analyze.title': 'Disease Classifier',
+  'page.analyze.description': 'Upload or record a breathing sound, or analyse a whole folder, to classify respiratory disease',
+  'page.annotate.title': 'Annotation Model',
+  'page.annotate.description': 'Mark crackles and wheezes while a recording plays, then let the model assess the annotated events',
+  'page.exam.title': 'Multi-Site Chest Exam',
+  'page.exam.description': 'Record each auscultation site in turn, front and back, and see on the chest map which sites sound abnormal',
+  'page.history.title': 'Patient History',
+  'page.history.description': 'Analyses saved against a patient stay on this device, so follow-up visits can be replayed and compared',
+  'page.admin.title': 'Administration',
+  'page.admin.description': 'Manage who can sign in and in which role, and tune the models every clinician sees',
+  'page.signin.title': 'Sign In',
+  'page.signin.description': 'Sign in with your RespireX account to analyze recordings, annotate or manage the service',
+  'page.forbidden.title': 'Not Available',
+  'page.forbidden.description': 'This page is not open to the {role} role',
+
+  'hero.tagline': 'AI-Powered Respiratory Disease Detection',
+  'hero.description':
+    'Advanced machine learning technology that analyzes breathing sounds to identify respiratory conditions with medical-grade accuracy',
+  'hero.tryNow': 'Try RespireX Now',
+  'hero.learnMore': 'Learn More',
+
+  'why.title': 'Why RespireX?',
+  'why.subtitle':
+    'Cutting-edge AI technology meets medical expertise to deliver accurate, fast, and reliable respiratory disease detection',
+  'why.ai.title': 'AI-Powered Analysis',
+  'why.ai.description': 'Advanced machine learning algorithms trained on thousands of respiratory sound samples',
+  'why.insights.title': 'Data-Driven Insights',
+  'why.insights.description':
+    'Auscultation projective analysis with objective, data-driven insights replacing subjective assessment',
+  'why.fast.title': 'Fast Results',
+  'why.fast.description': 'Get analysis results in seconds, not days. Quick screening for better patient care',
+  'why.secure.title': 'Secure & Private',
+  'why.secure.description': 'Your data is protected with enterprise-grade security and privacy measures',
+
+  'how.title': 'How it works?',
+  'how.subtitle':
+    'Our AI-powered system uses advanced machine learning to analyze respiratory sounds and provide accurate diagnoses',
+  'how.upload.title': 'Upload Audio',
+  'how.upload.description': 'Record or upload breathing sounds using our secure platform',
+  'how.analysis.title': 'AI Analysis',
+  'how.analysis.description': 'Our models extract 243+ audio features and analyze patterns',
+  'how.detection.title': 'Disease Detection',
+  'how.detection.description': 'Advanced algorithms classify respiratory conditions with medical-grade precision',
+  'how.results.title': 'Results & Insights',
+  'how.results.description': 'Get detailed analysis with confidence scores and recommendations',
+
+  'models.title': 'Our AI Models',
+  'models.subtitle': 'Specialized models working together to provide comprehensive respiratory analysis',
+  'models.classification': 'Disease Classification',
+  'models.eventDetection': 'Event Detection',
+  'models.classesDetected': 'Classes Detected',
+  'models.eventsDetected': 'Events Detected',
+  'models.processingTime': 'Processing Time',
+  'models.latency': '~{seconds} seconds',
+  'models.openAnalyzer': 'Analyze a Recording',
+  'models.openAnnotator': 'Open the Annotator',
+  'models.select': 'Model',
+  'models.classCount': '{count} classes',
+  'models.eventTypeCount': '{count} event types',
+  'models.perAnalysis': 'about {seconds} s per analysis',
+  'models.none': 'No model is available here. Ask an administrator to enable one in Model Settings.',
+
+  'team.title': 'Our Team',
+  'team.subtitle': 'Meet the experts behind RespireX - combining AI innovation with medical expertise',
+
+  'faq.title': 'FAQs',
+  'faq.subtitle': 'Everything you need to know about RespireX',
+  'faq.what.question': 'What is RespireX?',
+  'faq.what.answer':
+    'RespireX is an AI-powered respiratory disease detection system that analyzes audio recordings of breathing sounds to identify potential respiratory conditions with medical-grade precision.',
+  'faq.reliable.question': 'How reliable is the diagnosis?',
+  'faq.reliable.answer':
+    'Our AI models provide medical-grade performance for disease classification and clinical-grade analysis for annotation-based predictions, making them suitable for medical screening applications.',
+  'faq.formats.question': 'What audio formats are supported?',
+  'faq.formats.answer':
+    'We support WAV, MP3, M4A, and FLAC audio formats. For best results, use high-quality recordings with minimal background noise.',
+  'faq.replacement.question': 'Is this a replacement for medical diagnosis?',
+  'faq.replacement.answer':
+    'No, RespireX is designed as a screening tool to assist healthcare professionals. Always consult with qualified medical professionals for final diagnosis and treatment.',
+  'faq.duration.question': 'How long does the analysis take?',
+  'faq.duration.answer':
+    'Analysis typically takes 10-30 seconds depending on the audio file size and server load. Our system is optimized for quick results.',
+  'faq.security.question': 'Is my audio data secure?',
+  'faq.security.answer':
+    'Yes, we prioritize data privacy and security. Audio files are processed securely and not stored permanently on our servers.',
+
+  'disclaimer.title': 'Important Medical Disclaimer',
+  'disclaimer.body':
+    'RespireX is designed as a screening tool to assist healthcare professionals and should not be used as a substitute for professional medical diagnosis, treatment, or advice. Always consult with qualified medical professionals for proper diagnosis and treatment of respiratory conditions.',
+
+  'analyze.mode.upload': 'Upload File',
+  'analyze.mode.record': 'Record',
+  'analyze.mode.batch': 'Batch',
+  'analyze.button': 'Analyze Audio',
+  'analyze.buttonAnyway': 'Analyze Anyway',
+  'analyze.compare': 'Compare {count} Models',
+  'analyze.cancel': 'Cancel',
+  'analyze.segments': 'Analyzing segments ({completed}/{total})...',
+  'analyze.queuedOffline':
+    'The analysis server could not be reached. The recording has been queued and will be sent automatically once it is back.',
+  'analyze.saved': "Saved to {patient}'s history.",
+  'analyze.inputMode': 'Input method',
+  'analyze.progress': 'Analysis progress',
+
+  'dropzone.drop': 'Drop the audio file here...',
+  'dropzone.prompt': 'Drag & drop an audio file here, or click to select',
+  'dropzone.formats': 'Supports WAV, MP3, M4A, FLAC formats',
+  'file.size': '{size} MB',
+  'file.remove': 'Remove {name}',
+  'dropzone.label': 'Choose an audio file',
+
+  'progress.analyzing': 'Analyzing...',
+  'progress.uploading': 'Uploading...',
+  'progress.uploadingPercent': 'Uploading {percent}...',
+  'progress.sent': '{sent} of {total}',
+  'progress.queued': 'Waiting in the server queue...',
+  'progress.processing': 'Processing on the server...',
+  'progress.retry':
+    'The server is not responding (it may be waking up). Retrying in {seconds} s, attempt {attempt} of {attempts}.',
+
+  'results.title': 'Analysis Results',
+  'results.inconclusive': 'Inconclusive — Re-record',
+  'results.predicted': 'Predicted Class',
+  'results.overall': 'Overall Verdict',
+  'results.leading': 'Leading Class (not conclusive)',
+  'results.aggregation': '{method} across {count} segments',
+  'results.probabilities': 'All Class Probabilities',
+  'results.events': 'Detected Events',
+  'results.eventConfidence': '({confidence} confidence)',
+  'results.loadReference': 'Load reference',
+  'results.referenceComparison':
+    '{referenceMatched} of {referenceTotal} reference events overlap a detected event of the same type; {detectedMatched} of {detectedTotal} detected events match the reference.',
+  'results.announceComplete': 'Analysis complete: {label}, {confidence} confidence.',
+  'results.announceInconclusive': 'Analysis inconclusive: {label} at {confidence} confidence. Re-record before acting on it.',
+
+  'decision.threshold': 'Threshold',
+  'decision.thresholdHint': 'Lowest confidence at which this class is reported as the result',
+  'decision.margin': 'Margin over {label}',
+  'decision.marginHint': 'Lead of the top class over the runner-up',
+  'decision.entropy': 'Entropy',
+  'decision.entropyHint': 'How spread out the class probabilities are: 0 means all on one class, 1 means evenly spread',
+  'decision.nextStep': 'Next step:',
+  'decision.inconclusive': 'Inconclusive',
+  'decision.belowThreshold': 'Confidence {confidence} is below the {threshold} threshold for {label}.',
+  'decision.outscored': '{runnerUp} scored {margin} higher than the reported {label}.',
+  'decision.narrowMargin': '{label} leads {runnerUp} by only {margin}; at least {minMargin} is needed.',
+  'decision.rerecord':
+    'Re-record for at least 20 seconds in a quiet room with the stethoscope held still, then analyze again. Do not act on this result alone.',
+  'decision.generic': 'Review the result with a clinician and confirm with standard diagnostic tests.',
+
+  'error.unexpected': 'Unexpected error: {message}',
+  'error.detail': 'Error: {detail}',
+  'error.server': 'Server error. Please try again later.',
+  'error.badRequest': 'Invalid request. Please check your input and try again.',
+  'error.timeout': 'Request timeout. Please try again.',
+  'error.network': 'Could not reach the analysis server. Check your connection and try again.',
+  'error.invalidResponse': 'The server returned an unexpected response: {message}',
+  'error.cancelled': 'Request cancelled.',
+  'error.failed': 'Request failed: {message}',
+
+  'role.clinician': 'Clinician',
+  'role.annotator': 'Annotator',
+  'role.admin': 'Administrator',
+
+  'signin.email': 'Email',
+  'signin.password': 'Password',
+  'signin.submit': 'Sign in',
+  'signin.incorrect': 'Incorrect email or password.',
+  'signin.failed': 'Sign-in failed. Please try again.',
+  'signin.or': 'or',
+  'signin.with': 'Sign in with {provider}',
+  'signin.unavailable': 'No sign-in method is configured. Ask your administrator.',
+  'forbidden.home': 'Go to your start page',
+
+  'signoff.signed': 'Signed off by {name} ({role}) on {date}',
+  'signoff.pending': 'Not yet signed off by a clinician',
+  'signoff.action': 'Sign off as {name}',
+  'signoff.failed': 'Could not sign off: {message}',
+
+  'player.play': 'Play',
+  'player.pause': 'Pause',
+  'player.back': 'Back {seconds} seconds',
+  'player.position': 'Playback position',
+  'player.positionValue': '{current} of {total}',
+  'player.speed': 'Speed',
+  'player.loop': 'Loop selected event',
+  'player.zoom': 'Zoom',
+  'player.zoomIn': 'Zoom in',
+  'player.zoomOut': 'Zoom out',
+  'player.waveform': 'Audio waveform with detected events highlighted',
+  'player.decoding': 'Decoding audio...',
+  'player.inspirationShort': 'In',
+  'player.expirationShort': 'Ex',
+  'player.reference': 'ref: {label}',
+
+  'annotation.crackle': 'Crackle',
+  'annotation.wheeze': 'Wheeze',
+  'annotation.title': 'Doctor-Assisted Annotation',
+  'annotation.intro': 'Load a recording, play it, and press a button when you hear a crackle or wheeze',
+  'annotation.undo': 'Undo',
+  'annotation.undoHint': 'Undo (Ctrl+Z)',
+  'annotation.redo': 'Redo',
+  'annotation.redoHint': 'Redo (Ctrl+Shift+Z)',
+  'annotation.clear': 'Clear All',
+  'annotation.shortcuts':
+    'Shortcuts: C crackle · W wheeze · Space play/pause · Delete remove selected · Ctrl+Z undo · Ctrl+Shift+Z redo · arrows move the focused timeline mark',
+  'annotation.marked': 'Marked Events:',
+  'annotation.total': 'Total: {count} events',
+  'annotation.analyze': 'Analyze Annotations',
+  'annotation.none': 'Please mark some crackles or wheezes first.',
+  'annotation.skipped': '{count} skipped: not a crackle or wheeze, or past the end of the recording',
+  'annotation.announceMarked': '{type} marked at {time} s',
+  'annotation.announceDeleted': 'Deleted {type} at {time} s',
+  'annotation.timeline': 'Annotation timeline',
+  'annotation.timelineHint':
+    'Tab to a mark to select it. Left and right arrows move it, Shift with an arrow changes its end, Delete removes it.',
+  'annotation.mark': '{type} from {start} to {end} seconds',
+  'annotation.eventType': 'Event type',
+  'annotation.startLabel': '{type} start, seconds',
+  'annotation.endLabel': '{type} end, seconds',
+  'annotation.secondsUnit': 's',
+  'annotation.delete': 'Delete event',
+  'annotation.deleteAt': 'Delete {type} at {time} s',
+
+  'quality.checking': 'Checking recording quality...',
+  'quality.good': 'Good quality',
+  'quality.warning': 'Usable, with warnings',
+  'quality.blocked': 'Cannot be analysed',
+  'quality.score': 'score {score}/100',
+  'quality.metric.duration': 'Duration:',
+  'quality.metric.sampleRate': 'Sample rate:',
+  'quality.metric.channels': 'Channels:',
+  'quality.metric.clipping': 'Clipping:',
+  'quality.metric.silence': 'Silence:',
+  'quality.metric.snr': 'SNR:',
+  'quality.seconds': '{value} s',
+  'quality.hertz': '{value} Hz',
+  'quality.decibels': '{value} dB',
+  'quality.notAvailable': 'n/a',
+  'quality.duration': 'Recording is only {duration} s long; aim for at least {minimum} s (several breaths).',
+  'quality.sampleRate': 'Sample rate is {rate} Hz; at least {minimum} Hz is needed to capture crackles and wheezes.',
+  'quality.clipping': '{percent} of samples are clipped; reduce the input gain or stethoscope pressure.',
+  'quality.silence': '{percent} of the recording is silent; check the stethoscope contact and microphone.',
+  'quality.snr': 'Estimated signal-to-noise ratio is {snr} dB; record in a quieter room with firm chest contact.',
+  'quality.tooLarge': 'File is {size} MB; the limit is {limit} MB.',
+  'quality.empty': 'File is empty.',
+  'quality.undecodable': 'This file could not be decoded as audio. It may be corrupt or in an unsupported codec.',
+  'quality.failed': 'Quality check: {issues}',
+
+  'annotationFile.icbhi': 'ICBHI 2017',
+  'annotationFile.audacity': 'Audacity labels',
+  'annotationFile.json': 'RespireX JSON',
+  'annotationFile.import': 'Import',
+  'annotationFile.export': 'Export',
+  'annotationFile.loaded': 'Loaded {count} events from {format} file',
+  'annotationFile.loadedWithNote': 'Loaded {count} events from {format} file ({note})',
+  'annotationFile.unreadable': 'Could not read {name}',
+  'annotationFile.unreadableDetail': 'Could not read {name}: {message}',
+  'annotationFile.line': 'Line {line}: {message}',
+  'annotationFile.invalidTime': 'invalid time "{value}"',
+  'annotationFile.endBeforeStart': 'end is before start',
+  'annotationFile.icbhiColumns': 'expected start, end, crackle flag and wheeze flag',
+  'annotationFile.icbhiFlags': 'crackle and wheeze flags must be 0 or 1',
+  'annotationFile.invalidJson': 'file is not valid JSON',
+  'annotationFile.notDocument': 'expected a "{format}" document with an events array',
+  'annotationFile.version': 'unsupported document version {version}',
+  'annotationFile.noLabel': 'events[{index}] has no label',
+
+  'recorder.unsupported': 'Audio recording is not supported in this browser. Please upload a file instead.',
+  'recorder.encodeFailed': 'Could not process the recording. Please try again.',
+  'recorder.denied': 'Microphone access was denied. Allow it in your browser settings to record.',
+  'recorder.deviceFailed': 'Could not open the selected input device.',
+  'recorder.device': 'Input Device',
+  'recorder.defaultDevice': 'Default input',
+  'recorder.deviceNumber': 'Input {number}',
+  'recorder.refresh': 'Refresh devices',
+  'recorder.duration': 'Duration',
+  'recorder.seconds': '{seconds} seconds',
+  'recorder.level': 'Input level',
+  'recorder.clipping': 'Clipping - reduce gain',
+  'recorder.remainingValue': '{seconds}s',
+  'recorder.remaining': 'remaining',
+  'recorder.start': 'Start Recording',
+  'recorder.stop': 'Stop Recording',
+  'recorder.encoding': 'Encoding...',
+
+  'admin.requestFailed': 'Request failed with status {status}',
+
+  'exam.protocol.basic': '6 sites',
+  'exam.protocol.basicHint': 'Upper front, then lower and middle back, both sides.',
+  'exam.protocol.full': '12 sites',
+  'exam.protocol.fullHint': 'Upper, middle and lower zones, front and back, both sides.',
+  'exam.dropAll': 'Drop all recordings at once, named by site, e.g. LL_post_2.wav or RUL_ant.wav',
+  'exam.unmatchedOne': 'Could not tell the site of {files}. Select the site on the map and add it there.',
+  'exam.unmatched': 'Could not tell the site of {files}. Select the site on the map and add them there.',
+  'exam.analyzeOne': 'Analyze {count} Site',
+  'exam.analyze': 'Analyze {count} Sites',
+  'exam.missing': '{count} of {total} sites have no recording yet; they can be added and analysed later.',
+  'exam.startOver': 'Start a new exam',
+  'exam.front': 'Front',
+  'exam.back': 'Back',
+  'exam.rightShort': 'R',
+  'exam.leftShort': 'L',
+  'exam.slot.failed': 'failed',
+  'exam.slot.analyzing': 'analyzing',
+  'exam.slot.recorded': 'recorded',
+  'exam.slot.empty': 'not recorded',
+  'exam.previous': 'Previous site',
+  'exam.next': 'Next site',
+  'exam.position': 'Site {position} of {total}',
+  'exam.waiting': 'Waiting for other sites...',
+  'exam.cancelled': 'Cancelled before a result came back.',
+  'exam.summary': 'Exam Summary',
+  'exam.analysed': '{count} of {total} sites analysed',
+  'exam.empty': 'Record the sites and analyze them to see which ones sound abnormal.',
+  'exam.abnormalAt': 'Abnormal at {count} of {analysed} analysed sites.',
+  'exam.abnormalAtIn': 'Abnormal at {count} of {analysed} analysed sites, {distribution}.',
+  'exam.bilateral': 'in both lungs',
+  'exam.leftOnly': 'in the left lung only',
+  'exam.rightOnly': 'in the right lung only',
+  'exam.allNormal': 'No abnormal sites among the {count} analysed.',
+  'exam.sitesOne': '{count} site: {sites}',
+  'exam.sites': '{count} sites: {sites}',
+  'exam.rerecordOne': 'Re-record this site, the result was inconclusive: {sites}',
+  'exam.rerecord': 'Re-record these sites, the result was inconclusive: {sites}',
+  'exam.normal': 'Normal',
+  'exam.abnormal': 'Abnormal',
+  'exam.recorded': 'Recorded, not analysed',
+  'exam.savedOne': 'Saved {count} site to {patient}\'s history.',
+  'exam.saved': 'Saved {count} sites to {patient}\'s history.',
+
+  'site.name': '{side} {level} {view}',
+  'site.left': 'Left',
+  'site.right': 'Right',
+  'site.upper': 'upper',
+  'site.middle': 'middle',
+  'site.lower': 'lower',
+  'site.anterior': 'anterior',
+  'site.posterior': 'posterior',
+
+  'backend.unknown': 'Server',
+  'backend.unknownHint': 'Server status not checked yet',
+  'backend.checking': 'Checking',
+  'backend.checkingHint': 'Checking the analysis server',
+  'backend.warming': 'Warming up',
+  'backend.warmingHint':
+    'The analysis server is starting after being idle. This can take about a minute; analyses retry automatically',
+  'backend.ready': 'Ready',
+  'backend.readyHint': 'The analysis server is ready',
+  'backend.down': 'Server down',
+  'backend.downHint': 'The analysis server is not responding. Recordings are queued and sent once it is back',
+  'backend.latency': '{hint} ({latency} ms)',
+  'backend.title': '{hint}. Click to check again.',
+
+  'status.queued': 'Queued',
+  'status.running': 'Running',
+  'status.retrying': 'Retrying',
+  'status.done': 'Done',
+  'status.failed': 'Failed',
+  'status.cancelled': 'Cancelled',
+
+  'batch.drop': 'Drop recordings or a folder here, or click to select several files',
+  'batch.folder': 'Select Folder',
+  'batch.analyze': 'Analyze {count} Files',
+  'batch.concurrency': 'Parallel uploads',
+  'batch.csv': 'CSV',
+  'batch.clear': 'Clear Finished',
+  'batch.processed': '{count} of {total} processed',
+  'batch.counts': '{done} done · {failed} failed · {running} in progress',
+  'batch.file': 'File',
+  'batch.status': 'Status',
+  'batch.prediction': 'Prediction',
+  'batch.confidence': 'Confidence',
+  'batch.top': 'Top 3',
+  'batch.retry': 'Retry',
+  'batch.retryFile': 'Retry {name}',
+  'batch.remove': 'Remove',
+
+  'breathing.title': 'Breathing Cycles',
+  'breathing.fromServer': 'Segmented by the analysis server.',
+  'breathing.estimated': 'Estimated in the browser from the loudness of the recording; check it against what you hear.',
+  'breathing.finding': 'Finding breaths...',
+  'breathing.none': 'No clear breathing cycles were found in this recording.',
+  'breathing.rate': 'Respiratory rate',
+  'breathing.perMinute': '{rate} /min',
+  'breathing.ieRatio': 'I:E ratio',
+  'breathing.cycles': 'Cycles',
+  'breathing.breath': 'Breath {number}: {phase}',
+  'breathing.shade': 'Shade phases on the waveform',
+  'breathing.inspiration': 'Inspiration',
+  'breathing.expiration': 'Expiration',
+  'breathing.earlyInspiratory': 'early inspiratory',
+  'breathing.midInspiratory': 'mid inspiratory',
+  'breathing.lateInspiratory': 'late inspiratory',
+  'breathing.earlyExpiratory': 'early expiratory',
+  'breathing.midExpiratory': 'mid expiratory',
+  'breathing.lateExpiratory': 'late expiratory',
+  'breathing.biphasic': 'inspiratory and expiratory',
+  'breathing.between': 'between breaths',
+
+  'case.title': 'Patient & Visit',
+  'case.new': 'New patient',
+  'case.id': 'Patient / case ID',
+  'case.idRequired': 'Enter a patient or case ID.',
+  'case.exists': 'Patient {id} already exists. Select it from the list instead.',
+  'case.taken': 'Patient {id} is registered by another user on this device. Use a different ID.',
+  'case.saveFailed': 'Could not save the patient record.',
+  'case.ageBand': 'Age band',
+  'case.age': 'Age {band}',
+  'case.sex': 'Sex',
+  'case.sex.female': 'Female',
+  'case.sex.male': 'Male',
+  'case.sex.other': 'Other',
+  'case.sex.unknown': 'Unknown',
+  'case.save': 'Save Patient',
+  'case.none': 'No patient (result is not saved)',
+  'case.siteUnspecified': 'Recording site not specified',
+  'case.site.Tc': 'Trachea',
+  'case.site.Al': 'Anterior left',
+  'case.site.Ar': 'Anterior right',
+  'case.site.Pl': 'Posterior left',
+  'case.site.Pr': 'Posterior right',
+  'case.site.Ll': 'Lateral left',
+  'case.site.Lr': 'Lateral right',
+  'case.symptom.cough': 'Cough',
+  'case.symptom.fever': 'Fever',
+  'case.symptom.breathless': 'Shortness of breath',
+  'case.symptom.wheezing': 'Wheezing',
+  'case.symptom.chestPain': 'Chest pain',
+  'case.symptom.sputum': 'Sputum',
+
+  'comparison.enable': 'Compare models',
+  'comparison.selected': 'The recording is sent to every selected model at once; {count} selected.',
+  'comparison.pickTwo': 'Pick at least two.',
+  'comparison.title': 'Model Comparison',
+  'comparison.agree': 'All {count} models predict {label}.',
+  'comparison.disagree': 'The models disagree: {labels}. Review each answer before relying on any of them.',
+  'comparison.versus': ' vs ',
+  'comparison.serverVersion': 'Server version {version}',
+  'comparison.probabilities': 'Class Probabilities',
+  'comparison.highlighted': 'Highlighted rows differ by {difference} or more between models.',
+  'comparison.class': 'Class',
+  'comparison.classDisagree': 'Models disagree',
+  'comparison.events': 'Events: {model}',
+  'comparison.noEvents': 'No events detected.',
+  'comparison.onlyThis': 'only this model',
+  'comparison.savedOne': 'Saved {count} result to {patient}\'s history.',
+  'comparison.saved': 'Saved {count} results to {patient}\'s history.',
+
+  'explanation.title': 'Why {label}?',
+  'explanation.intro': 'What the model relied on. Red supports {label}, blue counts against it.',
+  'explanation.introMethod':
+    'What the model relied on, computed with {method}. Red supports {label}, blue counts against it.',
+  'explanation.overlay': 'Show heat overlay on the waveform',
+  'explanation.strongest': 'Strongest evidence at {windows}.',
+  'explanation.features': 'Top Contributing Features',
+  'explanation.showFewer': 'Show fewer',
+  'explanation.showAll': 'Show all {count} features',
+
+  'outbox.offline': 'Offline. New analyses are queued and sent when the connection returns.',
+  'outbox.title': 'Queued Analyses',
+  'outbox.queued': 'Waiting for connection',
+  'outbox.sending': 'Sending...',
+  'outbox.sent': 'Analysed',
+  'outbox.savedTo': 'saved to {patient}',
+  'outbox.waiting': '{count} waiting',
+  'outbox.waitingOffline': '{count} waiting · offline',
+  'outbox.send': 'Send now',
+  'outbox.confirmDiscard': 'Discard this queued recording? It has not been analysed yet.',
+  'outbox.dismiss': 'Dismiss',
+  'outbox.discard': 'Discard',
+
+  'history.unavailable': 'Local history is not available in this browser.',
+  'history.empty': 'No patients yet. Select or create a patient before analysing to keep a history.',
+  'history.count': '{count} analyses',
+  'history.deletePatient': 'Delete Patient',
+  'history.confirmDeletePatient': 'Delete patient {patient} and all stored analyses and recordings?',
+  'history.confirmDeleteAnalysis': 'Delete the analysis from {date}?',
+  'history.earlier': 'Earlier',
+  'history.later': 'Later',
+  'history.change': 'Change',
+  'history.compareHint': 'Select two Disease Classifier analyses to compare their probabilities.',
+  'history.compare': 'Compare',
+  'history.compareAnalysis': 'Compare analysis from {date}',
+  'history.play': 'Play recording',
+  'history.pause': 'Pause recording',
+  'history.noRecording': 'No recording stored',
+  'history.by': 'by {name}',
+  'history.deleteAnalysis': 'Delete analysis',
+  'history.deleteAnalysisFrom': 'Delete analysis from {date}',
+  'history.events': '{count} events: {events}',
+
+  'modelSettings.title': 'Model Settings',
+  'modelSettings.save': 'Save settings',
+  'modelSettings.saved': 'Saved. Every browser picks the settings up on its next page load.',
+  'modelSettings.intro':
+    'Thresholds and margins are percentages; leave a field empty to use the value the model catalogue gives.',
+  'modelSettings.minMargin': 'Minimum margin %',
+  'modelSettings.threshold': '{model} threshold for {label}, percent',
+
+  'preprocess.enable': 'Preprocess before upload',
+  'preprocess.resample': 'Mono, resampled to {rate} Hz',
+  'preprocess.bandPass': 'Band-pass',
+  'preprocess.to': 'to',
+  'preprocess.normalize': 'Normalise loudness to {level} dBFS',
+  'preprocess.trim': 'Trim to',
+  'preprocess.trimOf': 's of {duration}',
+  'preprocess.size': 'Upload size: about {estimated} instead of {original}',
+
+  'report.generate': 'Generate Report (PDF)',
+  'report.generating': 'Generating Report...',
+  'report.failed': 'Could not generate the report.',
+
+  'segments.enable': 'Split into segments',
+  'segments.window': 'Windows of',
+  'segments.overlap': 's, overlapping by',
+  'segments.combine': 'Combine by',
+  'segments.mean': 'Mean probability',
+  'segments.meanHint': 'Class probabilities averaged over all segments; the verdict is the highest average.',
+  'segments.majority': 'Majority vote',
+  'segments.majorityHint': 'Each segment votes for its prediction; confidence is the share of segments that agree.',
+  'segments.maxConfidence': 'Most confident segment',
+  'segments.maxConfidenceHint': 'The verdict of the single segment the model was most confident about.',
+  'segments.requestsOne': '{count} request will be sent.',
+  'segments.requests': '{count} requests will be sent.',
+  'segments.timeline': 'Segment Timeline',
+  'segments.summary': '{count} segments · aggregated by {method}.',
+  'segments.group': 'Segments',
+  'segments.segment': 'Segment {number}, {start} to {end}: {prediction}, {confidence}',
+  'segments.time': 'Time',
+
+  'users.title': 'Users',
+  'users.name': 'Name',
+  'users.role': 'Role',
+  'users.password': 'Password (optional)',
+  'users.passwordHint': 'Password, optional for single sign-on accounts',
+  'users.add': 'Add user',
+  'users.loading': 'Loading users...',
+  'users.hasPassword': 'password',
+  'users.ssoOnly': 'single sign-on only',
+  'users.roleFor': 'Role for {email}',
+  'users.disabled': 'Disabled',
+  'users.setPassword': 'Set password',
+  'users.passwordPrompt':
+    'New password for {email}. Leave empty to remove it, so the account can only sign in through single sign-on.',
+  'users.delete': 'Delete user',
+  'users.deleteUser': 'Delete user {email}',
+  'users.confirmDelete': 'Delete the account for {email}? Their sign-offs stay in the audit log.',
+  'users.note':
+    'Disabling a user or changing their role blocks their sign-offs and admin actions at once; the pages they can open change at their next sign-in.',
+
+  'server.internal': 'Internal server error',
+  'server.expectedJson': 'Expected a JSON object',
+  'server.signInRequired': 'Sign in to continue',
+  'server.roleRefused': 'Your role does not allow this',
+  'server.unknownProvider': 'Unknown sign-in method',
+  'server.incorrect': 'Email or password is incorrect',
+  'server.stateExpired': 'The sign-in took too long or was started in another browser',
+  'server.providerUnreachable': 'The sign-in service is not reachable',
+  'server.oidcUnavailable': 'The identity provider could not complete the sign-in',
+  'server.oidcRefused': 'The identity provider refused the sign-in',
+  'server.oidcMismatch': 'The sign-in response did not match this browser',
+  'server.oidcToken': 'The ID token was not issued for this sign-in',
+  'server.oidcNoEmail': 'The identity provider did not share an email address',
+  'server.oidcUnverified':
+    'The identity provider has not verified this email address, so it cannot sign in to the existing account',
+  'server.accountDisabled': 'This account has been disabled',
+  'server.noRole': 'This account has no RespireX role yet; ask an administrator to add it',
+  'server.invalidEmail': 'Enter a valid email address',
+  'server.nameRequired': 'Enter a name',
+  'server.roleRequired': 'Choose a role',
+  'server.passwordLength': 'Passwords need at least {min} characters',
+  'server.lastAdmin': 'At least one active administrator must remain',
+  'server.emailTaken': 'A user with this email already exists',
+  'server.userNotFound': 'User not found',
+  'server.deleteSelf': 'You cannot delete your own account',
+  'server.fieldRequired': '{field} is required',
+  'server.settingsShape': 'Expected settings by model id',
+  'server.settingsObject': '{path} must be an object',
+  'server.settingsEnabled': '{path} must be true or false',
+  'server.settingsNumber': '{path} must be a number between 0 and 1',
+
+  'report.shaded': 'Shaded:',
+}
+
+export type Messages = typeof en
+export type MessageKey = keyof Messages
@@ -0,0 +1,613 @@
+import type { Messages } from './en'
+
+export const hi: Messages = {
+  'nav.home': 'होम',
+  'nav.models': 'मॉडल',
+  'nav.analyze': 'विश्लेषण',
+  'nav.exam': 'जाँच',
+  'nav.annotate': 'एनोटेट',
+  'nav.history': 'इतिहास',
+  'nav.faq': 'सामान्य प्रश्न',
+  'nav.team': 'टीम',
+  'nav.language': 'भाषा',
+  'nav.menu': 'मेनू',
+  'nav.main': 'मुख्य',
+  'nav.homeLink': 'RespireX होम',
+  'nav.admin': 'प्रशासन',
+  'nav.signIn': 'साइन इन',
+  'nav.signOut': 'साइन आउट',
+
+  'a11y.skipToContent': 'मुख्य सामग्री पर जाएँ',
+  'a11y.reduceMotion': 'एनिमेशन कम करें',
+
+  'footer.tagline': 'बेहतर स्वास्थ्य परिणामों के लिए AI आधारित श्वसन रोग पहचान।',
+  'footer.quickLinks': 'त्वरित लिंक',
+  'footer.contact': 'संपर्क',
+  'footer.email': 'ईमेल: {email}',
+  'footer.phone': 'फ़ोन: {phone}',
+  'footer.copyright': '© 2025 RespireX. सर्वाधिकार सुरक्षित। | मेडिकल AI अनुसंधान प्लेटफ़ॉर्म',
+
+  'page.analyze.title': 'रोग वर्गीकरण',
+  'page.analyze.description': 'श्वसन रोग का वर्गीकरण करने के लिए साँस की आवाज़ अपलोड या रिकॉर्ड करें, या पूरे फ़ोल्डर का विश्लेषण करें',
+  'page.annotate.title': 'एनोटेशन मॉडल',
+  'page.annotate.description': 'रिकॉर्डिंग चलते समय क्रैकल और व्हीज़ चिह्नित करें, फिर मॉडल से चिह्नित घटनाओं का आकलन कराएँ',
+  'page.exam.title': 'बहु-स्थान छाती जाँच',
+  'page.exam.description': 'आगे और पीछे, हर ऑस्कल्टेशन स्थान को बारी-बारी से रिकॉर्ड करें और छाती के नक्शे पर देखें कि कौन-से स्थान असामान्य हैं',
+  'page.history.title': 'मरीज़ का इतिहास',
+  'page.history.description': 'मरीज़ के नाम से सहेजे गए विश्लेषण इसी डिवाइस पर रहते हैं, ताकि अगली मुलाक़ातों में उन्हें फिर से सुना और तुलना की जा सके',
+  'page.admin.title': 'प्रशासन',
+  'page.admin.description': 'तय करें कि कौन किस भूमिका में साइन इन कर सकता है, और हर क्लिनिशियन को दिखने वाले मॉडल समायोजित करें',
+  'page.signin.title': 'साइन इन',
+  'page.signin.description': 'रिकॉर्डिंग का विश्लेषण, एनोटेशन या सेवा का प्रबंधन करने के लिए अपने RespireX खाते से साइन इन करें',
+  'page.forbidden.title': 'उपलब्ध नहीं',
+  'page.forbidden.description': 'यह पेज {role} भूमिका के लिए खुला नहीं है',
+
+  'hero.tagline': 'AI आधारित श्वसन रोग पहचान',
+  'hero.description':
+    'उन्नत मशीन लर्निंग तकनीक जो साँस की आवाज़ों का विश्लेषण करके चिकित्सा-स्तर की सटीकता से श्वसन रोगों की पहचान करती है',
+  'hero.tryNow': 'RespireX आज़माएँ',
+  'hero.learnMore': 'और जानें',
+
+  'why.title': 'RespireX क्यों?',
+  'why.subtitle': 'अत्याधुनिक AI तकनीक और चिकित्सा विशेषज्ञता मिलकर सटीक, तेज़ और भरोसेमंद श्वसन रोग पहचान देती हैं',
+  'why.ai.title': 'AI आधारित विश्लेषण',
+  'why.ai.description': 'हज़ारों श्वसन ध्वनि नमूनों पर प्रशिक्षित उन्नत मशीन लर्निंग एल्गोरिद्म',
+  'why.insights.title': 'डेटा आधारित जानकारी',
+  'why.insights.description': 'व्यक्तिपरक आकलन की जगह वस्तुनिष्ठ, डेटा आधारित जानकारी के साथ ऑस्कल्टेशन विश्लेषण',
+  'why.fast.title': 'तेज़ परिणाम',
+  'why.fast.description': 'दिनों में नहीं, सेकंडों में विश्लेषण के परिणाम पाएँ। बेहतर मरीज़ देखभाल के लिए त्वरित स्क्रीनिंग',
+  'why.secure.title': 'सुरक्षित और निजी',
+  'why.secure.description': 'आपका डेटा उच्च-स्तरीय सुरक्षा और गोपनीयता उपायों से सुरक्षित है',
+
+  'how.title': 'यह कैसे काम करता है?',
+  'how.subtitle': 'हमारी AI प्रणाली उन्नत मशीन लर्निंग से श्वसन ध्वनियों का विश्लेषण करके सटीक निदान देती है',
+  'how.upload.title': 'ऑडियो अपलोड करें',
+  'how.upload.description': 'हमारे सुरक्षित प्लेटफ़ॉर्म से साँस की आवाज़ रिकॉर्ड या अपलोड करें',
+  'how.analysis.title': 'AI विश्लेषण',
+  'how.analysis.description': 'हमारे मॉडल 243+ ऑडियो विशेषताएँ निकालकर पैटर्न का विश्लेषण करते हैं',
+  'how.detection.title': 'रोग पहचान',
+  'how.detection.description': 'उन्नत एल्गोरिद्म चिकित्सा-स्तर की सटीकता से श्वसन रोगों का वर्गीकरण करते हैं',
+  'how.results.title': 'परिणाम और जानकारी',
+  'how.results.description': 'विश्वास स्कोर और सुझावों के साथ विस्तृत विश्लेषण पाएँ',
+
+  'models.title': 'हमारे AI मॉडल',
+  'models.subtitle': 'संपूर्ण श्वसन विश्लेषण के लिए मिलकर काम करने वाले विशेष मॉडल',
+  'models.classification': 'रोग वर्गीकरण',
+  'models.eventDetection': 'घटना पहचान',
+  'models.classesDetected': 'पहचाने गए वर्ग',
+  'models.eventsDetected': 'पहचानी गई घटनाएँ',
+  'models.processingTime': 'प्रोसेसिंग समय',
+  'models.latency': '~{seconds} सेकंड',
+  'models.openAnalyzer': 'रिकॉर्डिंग का विश्लेषण करें',
+  'models.openAnnotator': 'एनोटेटर खोलें',
+  'models.select': 'मॉडल',
+  'models.classCount': '{count} वर्ग',
+  'models.eventTypeCount': '{count} घटना प्रकार',
+  'models.perAnalysis': 'प्रति विश्लेषण लगभग {seconds} सेकंड',
+  'models.none': 'यहाँ कोई मॉडल उपलब्ध नहीं है। किसी व्यवस्थापक से मॉडल सेटिंग में एक मॉडल सक्षम करने को कहें।',
+
+  'team.title': 'हमारी टीम',
+  'team.subtitle': 'RespireX के पीछे के विशेषज्ञों से मिलें - AI नवाचार और चिकित्सा विशेषज्ञता का संगम',
+
+  'faq.title': 'सामान्य प्रश्न',
+  'faq.subtitle': 'RespireX के बारे में जानने योग्य सब कुछ',
+  'faq.what.question': 'RespireX क्या है?',
+  'faq.what.answer':
+    'RespireX एक AI आधारित श्वसन रोग पहचान प्रणाली है, जो साँस की आवाज़ों की रिकॉर्डिंग का विश्लेषण करके चिकित्सा-स्तर की सटीकता से संभावित श्वसन रोगों की पहचान करती है।',
+  'faq.reliable.question': 'निदान कितना भरोसेमंद है?',
+  'faq.reliable.answer':
+    'हमारे AI मॉडल रोग वर्गीकरण में चिकित्सा-स्तर का और एनोटेशन आधारित अनुमानों में क्लिनिकल-स्तर का प्रदर्शन देते हैं, जिससे वे चिकित्सा स्क्रीनिंग के लिए उपयुक्त हैं।',
+  'faq.formats.question': 'कौन-से ऑडियो फ़ॉर्मेट समर्थित हैं?',
+  'faq.formats.answer':
+    'हम WAV, MP3, M4A और FLAC ऑडियो फ़ॉर्मेट समर्थित करते हैं। अच्छे परिणामों के लिए कम पृष्ठभूमि शोर वाली उच्च गुणवत्ता की रिकॉर्डिंग इस्तेमाल करें।',
+  'faq.replacement.question': 'क्या यह चिकित्सा निदान का विकल्प है?',
+  'faq.replacement.answer':
+    'नहीं, RespireX स्वास्थ्य पेशेवरों की सहायता के लिए बनाया गया एक स्क्रीनिंग टूल है। अंतिम निदान और उपचार के लिए हमेशा योग्य चिकित्सकों से परामर्श करें।',
+  'faq.duration.question': 'विश्लेषण में कितना समय लगता है?',
+  'faq.duration.answer':
+    'ऑडियो फ़ाइल के आकार और सर्वर पर भार के अनुसार विश्लेषण में आमतौर पर 10-30 सेकंड लगते हैं। हमारी प्रणाली तेज़ परिणामों के लिए बनाई गई है।',
+  'faq.security.question': 'क्या मेरा ऑडियो डेटा सुरक्षित है?',
+  'faq.security.answer':
+    'हाँ, हम डेटा की गोपनीयता और सुरक्षा को प्राथमिकता देते हैं। ऑडियो फ़ाइलें सुरक्षित रूप से प्रोसेस की जाती हैं और हमारे सर्वर पर स्थायी रूप से संग्रहीत नहीं की जातीं।',
+
+  'disclaimer.title': 'महत्वपूर्ण चिकित्सा अस्वीकरण',
+  'disclaimer.body':
+    'RespireX स्वास्थ्य पेशेवरों की सहायता के लिए बनाया गया एक स्क्रीनिंग टूल है और इसे पेशेवर चिकित्सा निदान, उपचार या सलाह के विकल्प के रूप में इस्तेमाल नहीं किया जाना चाहिए। श्वसन रोगों के सही निदान और उपचार के लिए हमेशा योग्य चिकित्सकों से परामर्श करें।',
+
+  'analyze.mode.upload': 'फ़ाइल अपलोड करें',
+  'analyze.mode.record': 'रिकॉर्ड करें',
+  'analyze.mode.batch': 'बैच',
+  'analyze.button': 'ऑडियो का विश्लेषण करें',
+  'analyze.buttonAnyway': 'फिर भी विश्लेषण करें',
+  'analyze.compare': '{count} मॉडलों की तुलना करें',
+  'analyze.cancel': 'रद्द करें',
+  'analyze.segments': 'खंडों का विश्लेषण हो रहा है ({completed}/{total})...',
+  'analyze.queuedOffline':
+    'विश्लेषण सर्वर से संपर्क नहीं हो सका। रिकॉर्डिंग कतार में रख दी गई है और सर्वर वापस आते ही अपने-आप भेज दी जाएगी।',
+  'analyze.saved': '{patient} के इतिहास में सहेजा गया।',
+  'analyze.inputMode': 'इनपुट का तरीका',
+  'analyze.progress': 'विश्लेषण की प्रगति',
+
+  'dropzone.drop': 'ऑडियो फ़ाइल यहाँ छोड़ें...',
+  'dropzone.prompt': 'ऑडियो फ़ाइल यहाँ खींचकर छोड़ें, या चुनने के लिए क्लिक करें',
+  'dropzone.formats': 'WAV, MP3, M4A, FLAC फ़ॉर्मेट समर्थित हैं',
+  'file.size': '{size} MB',
+  'file.remove': '{name} हटाएँ',
+  'dropzone.label': 'ऑडियो फ़ाइल चुनें',
+
+  'progress.analyzing': 'विश्लेषण हो रहा है...',
+  'progress.uploading': 'अपलोड हो रहा है...',
+  'progress.uploadingPercent': 'अपलोड हो रहा है {percent}...',
+  'progress.sent': '{total} में से {sent}',
+  'progress.queued': 'सर्वर की कतार में प्रतीक्षा...',
+  'progress.processing': 'सर्वर पर प्रोसेस हो रहा है...',
+  'progress.retry':
+    'सर्वर जवाब नहीं दे रहा है (शायद चालू हो रहा है)। {seconds} सेकंड में फिर कोशिश होगी, प्रयास {attempts} में से {attempt}।',
+
+  'results.title': 'विश्लेषण के परिणाम',
+  'results.inconclusive': 'अनिर्णायक — फिर से रिकॉर्ड करें',
+  'results.predicted': 'अनुमानित वर्ग',
+  'results.overall': 'कुल निष्कर्ष',
+  'results.leading': 'सबसे आगे वाला वर्ग (निर्णायक नहीं)',
+  'results.aggregation': '{count} खंडों पर {method}',
+  'results.probabilities': 'सभी वर्गों की संभावनाएँ',
+  'results.events': 'पहचानी गई घटनाएँ',
+  'results.eventConfidence': '({confidence} विश्वास)',
+  'results.loadReference': 'संदर्भ लोड करें',
+  'results.referenceComparison':
+    '{referenceTotal} में से {referenceMatched} संदर्भ घटनाएँ उसी प्रकार की किसी पहचानी गई घटना से मेल खाती हैं; {detectedTotal} में से {detectedMatched} पहचानी गई घटनाएँ संदर्भ से मेल खाती हैं।',
+  'results.announceComplete': 'विश्लेषण पूरा: {label}, {confidence} विश्वास।',
+  'results.announceInconclusive': 'विश्लेषण अनिर्णायक: {label}, {confidence} विश्वास। इस पर कदम उठाने से पहले फिर से रिकॉर्ड करें।',
+
+  'decision.threshold': 'सीमा',
+  'decision.thresholdHint': 'न्यूनतम विश्वास जिस पर यह वर्ग परिणाम के रूप में बताया जाता है',
+  'decision.margin': '{label} से अंतर',
+  'decision.marginHint': 'शीर्ष वर्ग की दूसरे स्थान वाले वर्ग पर बढ़त',
+  'decision.entropy': 'एन्ट्रॉपी',
+  'decision.entropyHint': 'वर्ग संभावनाएँ कितनी फैली हैं: 0 यानी सब एक वर्ग पर, 1 यानी बराबर फैली हुई',
+  'decision.nextStep': 'अगला कदम:',
+  'decision.inconclusive': 'अनिर्णायक',
+  'decision.belowThreshold': 'विश्वास {confidence}, {label} की {threshold} सीमा से कम है।',
+  'decision.outscored': '{runnerUp} का स्कोर बताए गए {label} से {margin} अधिक है।',
+  'decision.narrowMargin': '{label}, {runnerUp} से केवल {margin} आगे है; कम से कम {minMargin} चाहिए।',
+  'decision.rerecord':
+    'शांत कमरे में स्टेथोस्कोप को स्थिर रखकर कम से कम 20 सेकंड तक फिर से रिकॉर्ड करें, फिर दोबारा विश्लेषण करें। केवल इस परिणाम के आधार पर कोई कदम न उठाएँ।',
+  'decision.generic': 'परिणाम की समीक्षा किसी चिकित्सक के साथ करें और मानक नैदानिक जाँचों से पुष्टि करें।',
+
+  'error.unexpected': 'अनपेक्षित त्रुटि: {message}',
+  'error.detail': 'त्रुटि: {detail}',
+  'error.server': 'सर्वर त्रुटि। कृपया थोड़ी देर बाद फिर कोशिश करें।',
+  'error.badRequest': 'अमान्य अनुरोध। कृपया अपना इनपुट जाँचें और फिर कोशिश करें।',
+  'error.timeout': 'अनुरोध का समय समाप्त हो गया। कृपया फिर कोशिश करें।',
+  'error.network': 'विश्लेषण सर्वर से संपर्क नहीं हो सका। अपना इंटरनेट कनेक्शन जाँचें और फिर कोशिश करें।',
+  'error.invalidResponse': 'सर्वर ने अनपेक्षित जवाब दिया: {message}',
+  'error.cancelled': 'अनुरोध रद्द किया गया।',
+  'error.failed': 'अनुरोध विफल रहा: {message}',
+
+  'role.clinician': 'क्लिनिशियन',
+  'role.annotator': 'एनोटेटर',
+  'role.admin': 'प्रशासक',
+
+  'signin.email': 'ईमेल',
+  'signin.password': 'पासवर्ड',
+  'signin.submit': 'साइन इन करें',
+  'signin.incorrect': 'ईमेल या पासवर्ड गलत है।',
+  'signin.failed': 'साइन इन विफल रहा। कृपया फिर से प्रयास करें।',
+  'signin.or': 'या',
+  'signin.with': '{provider} से साइन इन करें',
+  'signin.unavailable': 'साइन इन का कोई तरीका सेट नहीं है। अपने प्रशासक से पूछें।',
+  'forbidden.home': 'अपने शुरुआती पेज पर जाएँ',
+
+  'signoff.signed': '{name} ({role}) द्वारा {date} को स्वीकृत',
+  'signoff.pending': 'अभी किसी क्लिनिशियन ने स्वीकृत नहीं किया है',
+  'signoff.action': '{name} के रूप में स्वीकृत करें',
+  'signoff.failed': 'स्वीकृत नहीं किया जा सका: {message}',
+
+  'player.play': 'चलाएँ',
+  'player.pause': 'रोकें',
+  'player.back': '{seconds} सेकंड पीछे',
+  'player.position': 'चलाने की स्थिति',
+  'player.positionValue': '{total} में से {current}',
+  'player.speed': 'गति',
+  'player.loop': 'चुनी गई घटना दोहराएँ',
+  'player.zoom': 'ज़ूम',
+  'player.zoomIn': 'ज़ूम इन',
+  'player.zoomOut': 'ज़ूम आउट',
+  'player.waveform': 'ऑडियो तरंग, जिसमें पहचानी गई घटनाएँ चिह्नित हैं',
+  'player.decoding': 'ऑडियो डिकोड हो रहा है...',
+  'player.inspirationShort': 'श्वास',
+  'player.expirationShort': 'उच्छ्वास',
+  'player.reference': 'संदर्भ: {label}',
+
+  'annotation.crackle': 'क्रैकल',
+  'annotation.wheeze': 'व्हीज़',
+  'annotation.title': 'डॉक्टर-सहायता प्राप्त एनोटेशन',
+  'annotation.intro': 'रिकॉर्डिंग लोड करें, उसे चलाएँ, और क्रैकल या व्हीज़ सुनाई देने पर बटन दबाएँ',
+  'annotation.undo': 'पूर्ववत करें',
+  'annotation.undoHint': 'पूर्ववत करें (Ctrl+Z)',
+  'annotation.redo': 'फिर से करें',
+  'annotation.redoHint': 'फिर से करें (Ctrl+Shift+Z)',
+  'annotation.clear': 'सब हटाएँ',
+  'annotation.shortcuts':
+    'शॉर्टकट: C क्रैकल · W व्हीज़ · Space चलाएँ/रोकें · Delete चुना हुआ हटाएँ · Ctrl+Z पूर्ववत · Ctrl+Shift+Z फिर से · तीर कुंजियाँ टाइमलाइन पर फ़ोकस वाला चिह्न खिसकाती हैं',
+  'annotation.marked': 'चिह्नित घटनाएँ:',
+  'annotation.total': 'कुल: {count} घटनाएँ',
+  'annotation.analyze': 'एनोटेशन का विश्लेषण करें',
+  'annotation.none': 'कृपया पहले कुछ क्रैकल या व्हीज़ चिह्नित करें।',
+  'annotation.skipped': '{count} छोड़े गए: क्रैकल या व्हीज़ नहीं, या रिकॉर्डिंग के अंत के बाद',
+  'annotation.announceMarked': '{time} सेकंड पर {type} चिह्नित',
+  'annotation.announceDeleted': '{time} सेकंड पर {type} हटाया गया',
+  'annotation.timeline': 'एनोटेशन टाइमलाइन',
+  'annotation.timelineHint':
+    'किसी चिह्न को चुनने के लिए Tab दबाएँ। बाएँ और दाएँ तीर उसे खिसकाते हैं, Shift के साथ तीर उसका अंत बदलता है, Delete उसे हटाता है।',
+  'annotation.mark': '{start} से {end} सेकंड तक {type}',
+  'annotation.eventType': 'घटना का प्रकार',
+  'annotation.startLabel': '{type} की शुरुआत, सेकंड',
+  'annotation.endLabel': '{type} का अंत, सेकंड',
+  'annotation.secondsUnit': 'से.',
+  'annotation.delete': 'घटना हटाएँ',
+  'annotation.deleteAt': '{time} से. पर {type} हटाएँ',
+
+  'quality.checking': 'रिकॉर्डिंग की गुणवत्ता जाँची जा रही है...',
+  'quality.good': 'अच्छी गुणवत्ता',
+  'quality.warning': 'उपयोग योग्य, चेतावनियों के साथ',
+  'quality.blocked': 'विश्लेषण नहीं किया जा सकता',
+  'quality.score': 'स्कोर {score}/100',
+  'quality.metric.duration': 'अवधि:',
+  'quality.metric.sampleRate': 'सैंपल दर:',
+  'quality.metric.channels': 'चैनल:',
+  'quality.metric.clipping': 'क्लिपिंग:',
+  'quality.metric.silence': 'मौन:',
+  'quality.metric.snr': 'SNR:',
+  'quality.seconds': '{value} से.',
+  'quality.hertz': '{value} Hz',
+  'quality.decibels': '{value} dB',
+  'quality.notAvailable': 'उपलब्ध नहीं',
+  'quality.duration': 'रिकॉर्डिंग केवल {duration} से. लंबी है; कम से कम {minimum} से. (कई साँसें) रिकॉर्ड करें।',
+  'quality.sampleRate': 'सैंपल दर {rate} Hz है; क्रैकल और व्हीज़ पकड़ने के लिए कम से कम {minimum} Hz चाहिए।',
+  'quality.clipping': '{percent} सैंपल क्लिप हुए हैं; इनपुट गेन या स्टेथोस्कोप का दबाव कम करें।',
+  'quality.silence': 'रिकॉर्डिंग का {percent} हिस्सा मौन है; स्टेथोस्कोप का संपर्क और माइक्रोफ़ोन जाँचें।',
+  'quality.snr':
+    'अनुमानित सिग्नल-टू-नॉइज़ अनुपात {snr} dB है; शांत कमरे में, छाती से मज़बूत संपर्क के साथ रिकॉर्ड करें।',
+  'quality.tooLarge': 'फ़ाइल {size} MB की है; सीमा {limit} MB है।',
+  'quality.empty': 'फ़ाइल खाली है।',
+  'quality.undecodable':
+    'इस फ़ाइल को ऑडियो के रूप में डिकोड नहीं किया जा सका। यह खराब हो सकती है या असमर्थित कोडेक में हो सकती है।',
+  'quality.failed': 'गुणवत्ता जाँच: {issues}',
+
+  'annotationFile.icbhi': 'ICBHI 2017',
+  'annotationFile.audacity': 'Audacity लेबल',
+  'annotationFile.json': 'RespireX JSON',
+  'annotationFile.import': 'आयात करें',
+  'annotationFile.export': 'निर्यात करें',
+  'annotationFile.loaded': '{format} फ़ाइल से {count} घटनाएँ लोड की गईं',
+  'annotationFile.loadedWithNote': '{format} फ़ाइल से {count} घटनाएँ लोड की गईं ({note})',
+  'annotationFile.unreadable': '{name} पढ़ी नहीं जा सकी',
+  'annotationFile.unreadableDetail': '{name} पढ़ी नहीं जा सकी: {message}',
+  'annotationFile.line': 'पंक्ति {line}: {message}',
+  'annotationFile.invalidTime': 'अमान्य समय "{value}"',
+  'annotationFile.endBeforeStart': 'अंत शुरुआत से पहले है',
+  'annotationFile.icbhiColumns': 'शुरुआत, अंत, क्रैकल फ़्लैग और व्हीज़ फ़्लैग अपेक्षित थे',
+  'annotationFile.icbhiFlags': 'क्रैकल और व्हीज़ फ़्लैग 0 या 1 होने चाहिए',
+  'annotationFile.invalidJson': 'फ़ाइल मान्य JSON नहीं है',
+  'annotationFile.notDocument': 'events सूची वाला "{format}" दस्तावेज़ अपेक्षित था',
+  'annotationFile.version': 'असमर्थित दस्तावेज़ संस्करण {version}',
+  'annotationFile.noLabel': 'events[{index}] का कोई लेबल नहीं है',
+
+  'recorder.unsupported': 'इस ब्राउज़र में ऑडियो रिकॉर्डिंग समर्थित नहीं है। कृपया इसके बजाय फ़ाइल अपलोड करें।',
+  'recorder.encodeFailed': 'रिकॉर्डिंग संसाधित नहीं हो सकी। कृपया फिर से प्रयास करें।',
+  'recorder.denied': 'माइक्रोफ़ोन की अनुमति नहीं दी गई। रिकॉर्ड करने के लिए ब्राउज़र सेटिंग में इसकी अनुमति दें।',
+  'recorder.deviceFailed': 'चुना गया इनपुट डिवाइस खोला नहीं जा सका।',
+  'recorder.device': 'इनपुट डिवाइस',
+  'recorder.defaultDevice': 'डिफ़ॉल्ट इनपुट',
+  'recorder.deviceNumber': 'इनपुट {number}',
+  'recorder.refresh': 'डिवाइस रीफ़्रेश करें',
+  'recorder.duration': 'अवधि',
+  'recorder.seconds': '{seconds} सेकंड',
+  'recorder.level': 'इनपुट स्तर',
+  'recorder.clipping': 'क्लिपिंग - गेन कम करें',
+  'recorder.remainingValue': '{seconds} से.',
+  'recorder.remaining': 'शेष',
+  'recorder.start': 'रिकॉर्डिंग शुरू करें',
+  'recorder.stop': 'रिकॉर्डिंग रोकें',
+  'recorder.encoding': 'एन्कोड हो रहा है...',
+
+  'admin.requestFailed': 'अनुरोध विफल रहा, स्थिति {status}',
+
+  'exam.protocol.basic': '6 स्थान',
+  'exam.protocol.basicHint': 'ऊपर सामने, फिर नीचे और बीच में पीछे, दोनों तरफ़।',
+  'exam.protocol.full': '12 स्थान',
+  'exam.protocol.fullHint': 'ऊपरी, मध्य और निचले क्षेत्र, सामने और पीछे, दोनों तरफ़।',
+  'exam.dropAll': 'सभी रिकॉर्डिंग एक साथ छोड़ें, स्थान के नाम से, जैसे LL_post_2.wav या RUL_ant.wav',
+  'exam.unmatchedOne': '{files} का स्थान पहचाना नहीं जा सका। नक्शे पर स्थान चुनें और इसे वहाँ जोड़ें।',
+  'exam.unmatched': '{files} के स्थान पहचाने नहीं जा सके। नक्शे पर स्थान चुनें और उन्हें वहाँ जोड़ें।',
+  'exam.analyzeOne': '{count} स्थान का विश्लेषण करें',
+  'exam.analyze': '{count} स्थानों का विश्लेषण करें',
+  'exam.missing':
+    '{total} में से {count} स्थानों की अभी कोई रिकॉर्डिंग नहीं है; इन्हें बाद में जोड़ा और विश्लेषित किया जा सकता है।',
+  'exam.startOver': 'नई जाँच शुरू करें',
+  'exam.front': 'सामने',
+  'exam.back': 'पीछे',
+  'exam.rightShort': 'दा',
+  'exam.leftShort': 'बा',
+  'exam.slot.failed': 'विफल',
+  'exam.slot.analyzing': 'विश्लेषण हो रहा है',
+  'exam.slot.recorded': 'रिकॉर्ड किया गया',
+  'exam.slot.empty': 'रिकॉर्ड नहीं किया गया',
+  'exam.previous': 'पिछला स्थान',
+  'exam.next': 'अगला स्थान',
+  'exam.position': '{total} में से स्थान {position}',
+  'exam.waiting': 'अन्य स्थानों की प्रतीक्षा...',
+  'exam.cancelled': 'परिणाम आने से पहले रद्द किया गया।',
+  'exam.summary': 'जाँच सारांश',
+  'exam.analysed': '{total} में से {count} स्थानों का विश्लेषण हुआ',
+  'exam.empty': 'स्थानों को रिकॉर्ड करें और उनका विश्लेषण करें, ताकि पता चले कि कौन-से असामान्य सुनाई देते हैं।',
+  'exam.abnormalAt': 'विश्लेषित {analysed} में से {count} स्थानों पर असामान्य।',
+  'exam.abnormalAtIn': 'विश्लेषित {analysed} में से {count} स्थानों पर असामान्य, {distribution}।',
+  'exam.bilateral': 'दोनों फेफड़ों में',
+  'exam.leftOnly': 'केवल बाएँ फेफड़े में',
+  'exam.rightOnly': 'केवल दाएँ फेफड़े में',
+  'exam.allNormal': 'विश्लेषित {count} में कोई असामान्य स्थान नहीं।',
+  'exam.sitesOne': '{count} स्थान: {sites}',
+  'exam.sites': '{count} स्थान: {sites}',
+  'exam.rerecordOne': 'इस स्थान को फिर से रिकॉर्ड करें, परिणाम अनिर्णायक था: {sites}',
+  'exam.rerecord': 'इन स्थानों को फिर से रिकॉर्ड करें, परिणाम अनिर्णायक था: {sites}',
+  'exam.normal': 'सामान्य',
+  'exam.abnormal': 'असामान्य',
+  'exam.recorded': 'रिकॉर्ड किया गया, विश्लेषण नहीं हुआ',
+  'exam.savedOne': '{count} स्थान {patient} के इतिहास में सहेजा गया।',
+  'exam.saved': '{count} स्थान {patient} के इतिहास में सहेजे गए।',
+
+  'site.name': '{side} {level} {view}',
+  'site.left': 'बायाँ',
+  'site.right': 'दायाँ',
+  'site.upper': 'ऊपरी',
+  'site.middle': 'मध्य',
+  'site.lower': 'निचला',
+  'site.anterior': 'अग्र',
+  'site.posterior': 'पश्च',
+
+  'backend.unknown': 'सर्वर',
+  'backend.unknownHint': 'सर्वर की स्थिति अभी जाँची नहीं गई',
+  'backend.checking': 'जाँच हो रही है',
+  'backend.checkingHint': 'विश्लेषण सर्वर जाँचा जा रहा है',
+  'backend.warming': 'शुरू हो रहा है',
+  'backend.warmingHint':
+    'विश्लेषण सर्वर निष्क्रिय रहने के बाद शुरू हो रहा है। इसमें लगभग एक मिनट लग सकता है; विश्लेषण अपने आप दोबारा होंगे',
+  'backend.ready': 'तैयार',
+  'backend.readyHint': 'विश्लेषण सर्वर तैयार है',
+  'backend.down': 'सर्वर बंद है',
+  'backend.downHint':
+    'विश्लेषण सर्वर जवाब नहीं दे रहा है। रिकॉर्डिंग कतार में रखी जाती हैं और उसके लौटने पर भेजी जाती हैं',
+  'backend.latency': '{hint} ({latency} ms)',
+  'backend.title': '{hint}। फिर से जाँचने के लिए क्लिक करें।',
+
+  'status.queued': 'कतार में',
+  'status.running': 'चल रहा है',
+  'status.retrying': 'फिर से प्रयास',
+  'status.done': 'पूर्ण',
+  'status.failed': 'विफल',
+  'status.cancelled': 'रद्द',
+
+  'batch.drop': 'रिकॉर्डिंग या फ़ोल्डर यहाँ छोड़ें, या कई फ़ाइलें चुनने के लिए क्लिक करें',
+  'batch.folder': 'फ़ोल्डर चुनें',
+  'batch.analyze': '{count} फ़ाइलों का विश्लेषण करें',
+  'batch.concurrency': 'समानांतर अपलोड',
+  'batch.csv': 'CSV',
+  'batch.clear': 'पूर्ण हटाएँ',
+  'batch.processed': '{total} में से {count} संसाधित',
+  'batch.counts': '{done} पूर्ण · {failed} विफल · {running} जारी',
+  'batch.file': 'फ़ाइल',
+  'batch.status': 'स्थिति',
+  'batch.prediction': 'पूर्वानुमान',
+  'batch.confidence': 'विश्वास',
+  'batch.top': 'शीर्ष 3',
+  'batch.retry': 'फिर से प्रयास करें',
+  'batch.retryFile': '{name} फिर से प्रयास करें',
+  'batch.remove': 'हटाएँ',
+
+  'breathing.title': 'श्वास चक्र',
+  'breathing.fromServer': 'विश्लेषण सर्वर द्वारा विभाजित।',
+  'breathing.estimated': 'रिकॉर्डिंग की तीव्रता से ब्राउज़र में अनुमानित; जो आप सुनते हैं उससे मिलान करें।',
+  'breathing.finding': 'साँसें खोजी जा रही हैं...',
+  'breathing.none': 'इस रिकॉर्डिंग में कोई स्पष्ट श्वास चक्र नहीं मिला।',
+  'breathing.rate': 'श्वसन दर',
+  'breathing.perMinute': '{rate} /मिनट',
+  'breathing.ieRatio': 'I:E अनुपात',
+  'breathing.cycles': 'चक्र',
+  'breathing.breath': 'साँस {number}: {phase}',
+  'breathing.shade': 'वेवफ़ॉर्म पर चरण छायांकित करें',
+  'breathing.inspiration': 'श्वास लेना',
+  'breathing.expiration': 'श्वास छोड़ना',
+  'breathing.earlyInspiratory': 'प्रारंभिक अंतःश्वसन',
+  'breathing.midInspiratory': 'मध्य अंतःश्वसन',
+  'breathing.lateInspiratory': 'अंतिम अंतःश्वसन',
+  'breathing.earlyExpiratory': 'प्रारंभिक निःश्वसन',
+  'breathing.midExpiratory': 'मध्य निःश्वसन',
+  'breathing.lateExpiratory': 'अंतिम निःश्वसन',
+  'breathing.biphasic': 'अंतःश्वसन और निःश्वसन',
+  'breathing.between': 'साँसों के बीच',
+
+  'case.title': 'रोगी और विज़िट',
+  'case.new': 'नया रोगी',
+  'case.id': 'रोगी / केस आईडी',
+  'case.idRequired': 'रोगी या केस आईडी दर्ज करें।',
+  'case.exists': 'रोगी {id} पहले से मौजूद है। इसके बजाय सूची से चुनें।',
+  'case.taken': 'रोगी {id} इस डिवाइस पर किसी अन्य उपयोगकर्ता द्वारा पंजीकृत है। कोई दूसरी आईडी उपयोग करें।',
+  'case.saveFailed': 'रोगी का रिकॉर्ड सहेजा नहीं जा सका।',
+  'case.ageBand': 'आयु वर्ग',
+  'case.age': 'आयु {band}',
+  'case.sex': 'लिंग',
+  'case.sex.female': 'महिला',
+  'case.sex.male': 'पुरुष',
+  'case.sex.other': 'अन्य',
+  'case.sex.unknown': 'अज्ञात',
+  'case.save': 'रोगी सहेजें',
+  'case.none': 'कोई रोगी नहीं (परिणाम सहेजा नहीं जाएगा)',
+  'case.siteUnspecified': 'रिकॉर्डिंग स्थान निर्दिष्ट नहीं',
+  'case.site.Tc': 'श्वासनली',
+  'case.site.Al': 'अग्र बायाँ',
+  'case.site.Ar': 'अग्र दायाँ',
+  'case.site.Pl': 'पश्च बायाँ',
+  'case.site.Pr': 'पश्च दायाँ',
+  'case.site.Ll': 'पार्श्व बायाँ',
+  'case.site.Lr': 'पार्श्व दायाँ',
+  'case.symptom.cough': 'खाँसी',
+  'case.symptom.fever': 'बुखार',
+  'case.symptom.breathless': 'साँस फूलना',
+  'case.symptom.wheezing': 'घरघराहट',
+  'case.symptom.chestPain': 'सीने में दर्द',
+  'case.symptom.sputum': 'बलगम',
+
+  'comparison.enable': 'मॉडल की तुलना करें',
+  'comparison.selected': 'रिकॉर्डिंग सभी चुने गए मॉडलों को एक साथ भेजी जाती है; {count} चुने गए।',
+  'comparison.pickTwo': 'कम से कम दो चुनें।',
+  'comparison.title': 'मॉडल तुलना',
+  'comparison.agree': 'सभी {count} मॉडल {label} का पूर्वानुमान करते हैं।',
+  'comparison.disagree': 'मॉडल असहमत हैं: {labels}। किसी पर भरोसा करने से पहले हर उत्तर की समीक्षा करें।',
+  'comparison.versus': ' बनाम ',
+  'comparison.serverVersion': 'सर्वर संस्करण {version}',
+  'comparison.probabilities': 'वर्ग संभावनाएँ',
+  'comparison.highlighted': 'हाइलाइट की गई पंक्तियाँ मॉडलों के बीच {difference} या अधिक भिन्न हैं।',
+  'comparison.class': 'वर्ग',
+  'comparison.classDisagree': 'मॉडल असहमत हैं',
+  'comparison.events': 'घटनाएँ: {model}',
+  'comparison.noEvents': 'कोई घटना नहीं मिली।',
+  'comparison.onlyThis': 'केवल यह मॉडल',
+  'comparison.savedOne': '{count} परिणाम {patient} के इतिहास में सहेजा गया।',
+  'comparison.saved': '{count} परिणाम {patient} के इतिहास में सहेजे गए।',
+
+  'explanation.title': '{label} क्यों?',
+  'explanation.intro': 'मॉडल किस पर निर्भर रहा। लाल {label} का समर्थन करता है, नीला इसके विरुद्ध है।',
+  'explanation.introMethod':
+    'मॉडल किस पर निर्भर रहा, {method} से गणना की गई। लाल {label} का समर्थन करता है, नीला इसके विरुद्ध है।',
+  'explanation.overlay': 'वेवफ़ॉर्म पर हीट ओवरले दिखाएँ',
+  'explanation.strongest': 'सबसे मज़बूत प्रमाण {windows} पर।',
+  'explanation.features': 'सबसे अधिक योगदान देने वाली विशेषताएँ',
+  'explanation.showFewer': 'कम दिखाएँ',
+  'explanation.showAll': 'सभी {count} विशेषताएँ दिखाएँ',
+
+  'outbox.offline': 'ऑफ़लाइन। नए विश्लेषण कतार में रखे जाते हैं और कनेक्शन लौटने पर भेजे जाते हैं।',
+  'outbox.title': 'कतार में विश्लेषण',
+  'outbox.queued': 'कनेक्शन की प्रतीक्षा',
+  'outbox.sending': 'भेजा जा रहा है...',
+  'outbox.sent': 'विश्लेषित',
+  'outbox.savedTo': '{patient} में सहेजा गया',
+  'outbox.waiting': '{count} प्रतीक्षा में',
+  'outbox.waitingOffline': '{count} प्रतीक्षा में · ऑफ़लाइन',
+  'outbox.send': 'अभी भेजें',
+  'outbox.confirmDiscard': 'कतार में रखी यह रिकॉर्डिंग हटाएँ? इसका अभी विश्लेषण नहीं हुआ है।',
+  'outbox.dismiss': 'बंद करें',
+  'outbox.discard': 'हटाएँ',
+
+  'history.unavailable': 'इस ब्राउज़र में स्थानीय इतिहास उपलब्ध नहीं है।',
+  'history.empty': 'अभी कोई रोगी नहीं। इतिहास रखने के लिए विश्लेषण से पहले रोगी चुनें या बनाएँ।',
+  'history.count': '{count} विश्लेषण',
+  'history.deletePatient': 'रोगी हटाएँ',
+  'history.confirmDeletePatient': 'रोगी {patient} और सभी सहेजे गए विश्लेषण व रिकॉर्डिंग हटाएँ?',
+  'history.confirmDeleteAnalysis': '{date} का विश्लेषण हटाएँ?',
+  'history.earlier': 'पहले',
+  'history.later': 'बाद में',
+  'history.change': 'बदलाव',
+  'history.compareHint': 'संभावनाओं की तुलना के लिए दो रोग वर्गीकरण विश्लेषण चुनें।',
+  'history.compare': 'तुलना करें',
+  'history.compareAnalysis': '{date} का विश्लेषण तुलना करें',
+  'history.play': 'रिकॉर्डिंग चलाएँ',
+  'history.pause': 'रिकॉर्डिंग रोकें',
+  'history.noRecording': 'कोई रिकॉर्डिंग सहेजी नहीं गई',
+  'history.by': '{name} द्वारा',
+  'history.deleteAnalysis': 'विश्लेषण हटाएँ',
+  'history.deleteAnalysisFrom': '{date} का विश्लेषण हटाएँ',
+  'history.events': '{count} घटनाएँ: {events}',
+
+  'modelSettings.title': 'मॉडल सेटिंग',
+  'modelSettings.save': 'सेटिंग सहेजें',
+  'modelSettings.saved': 'सहेजा गया। हर ब्राउज़र अगली बार पेज लोड होने पर सेटिंग ले लेगा।',
+  'modelSettings.intro': 'सीमाएँ और अंतर प्रतिशत में हैं; मॉडल सूची का मान उपयोग करने के लिए फ़ील्ड खाली छोड़ें।',
+  'modelSettings.minMargin': 'न्यूनतम अंतर %',
+  'modelSettings.threshold': '{label} के लिए {model} की सीमा, प्रतिशत',
+
+  'preprocess.enable': 'अपलोड से पहले प्रीप्रोसेस करें',
+  'preprocess.resample': 'मोनो, {rate} Hz पर रीसैंपल',
+  'preprocess.bandPass': 'बैंड-पास',
+  'preprocess.to': 'से',
+  'preprocess.normalize': 'तीव्रता को {level} dBFS पर सामान्य करें',
+  'preprocess.trim': 'इतना काटें',
+  'preprocess.trimOf': 'से. ({duration} में से)',
+  'preprocess.size': 'अपलोड आकार: {original} के बजाय लगभग {estimated}',
+
+  'report.generate': 'रिपोर्ट बनाएँ (PDF)',
+  'report.generating': 'रिपोर्ट बन रही है...',
+  'report.failed': 'रिपोर्ट नहीं बनाई जा सकी।',
+
+  'segments.enable': 'खंडों में बाँटें',
+  'segments.window': 'विंडो की लंबाई',
+  'segments.overlap': 'से., इतना ओवरलैप',
+  'segments.combine': 'इस तरह मिलाएँ',
+  'segments.mean': 'औसत संभावना',
+  'segments.meanHint': 'सभी खंडों पर वर्ग संभावनाओं का औसत; निर्णय सबसे ऊँचा औसत है।',
+  'segments.majority': 'बहुमत मत',
+  'segments.majorityHint': 'हर खंड अपने पूर्वानुमान के लिए मत देता है; विश्वास सहमत खंडों का हिस्सा है।',
+  'segments.maxConfidence': 'सबसे अधिक विश्वास वाला खंड',
+  'segments.maxConfidenceHint': 'उस एक खंड का निर्णय जिस पर मॉडल को सबसे अधिक विश्वास था।',
+  'segments.requestsOne': '{count} अनुरोध भेजा जाएगा।',
+  'segments.requests': '{count} अनुरोध भेजे जाएँगे।',
+  'segments.timeline': 'खंड समयरेखा',
+  'segments.summary': '{count} खंड · {method} से संयोजित।',
+  'segments.group': 'खंड',
+  'segments.segment': 'खंड {number}, {start} से {end}: {prediction}, {confidence}',
+  'segments.time': 'समय',
+
+  'users.title': 'उपयोगकर्ता',
+  'users.name': 'नाम',
+  'users.role': 'भूमिका',
+  'users.password': 'पासवर्ड (वैकल्पिक)',
+  'users.passwordHint': 'पासवर्ड, सिंगल साइन-ऑन खातों के लिए वैकल्पिक',
+  'users.add': 'उपयोगकर्ता जोड़ें',
+  'users.loading': 'उपयोगकर्ता लोड हो रहे हैं...',
+  'users.hasPassword': 'पासवर्ड',
+  'users.ssoOnly': 'केवल सिंगल साइन-ऑन',
+  'users.roleFor': '{email} की भूमिका',
+  'users.disabled': 'अक्षम',
+  'users.setPassword': 'पासवर्ड सेट करें',
+  'users.passwordPrompt':
+    '{email} के लिए नया पासवर्ड। इसे हटाने के लिए खाली छोड़ें, तब खाता केवल सिंगल साइन-ऑन से साइन इन कर सकेगा।',
+  'users.delete': 'उपयोगकर्ता हटाएँ',
+  'users.deleteUser': 'उपयोगकर्ता {email} हटाएँ',
+  'users.confirmDelete': '{email} का खाता हटाएँ? उनके अनुमोदन ऑडिट लॉग में बने रहेंगे।',
+  'users.note':
+    'किसी उपयोगकर्ता को अक्षम करने या उसकी भूमिका बदलने से उसके अनुमोदन और व्यवस्थापक कार्य तुरंत रुक जाते हैं; वह कौन-से पेज खोल सकता है, यह अगले साइन-इन पर बदलता है।',
+
+  'server.internal': 'आंतरिक सर्वर त्रुटि',
+  'server.expectedJson': 'JSON ऑब्जेक्ट अपेक्षित था',
+  'server.signInRequired': 'जारी रखने के लिए साइन इन करें',
+  'server.roleRefused': 'आपकी भूमिका इसकी अनुमति नहीं देती',
+  'server.unknownProvider': 'अज्ञात साइन-इन तरीका',
+  'server.incorrect': 'ईमेल या पासवर्ड गलत है',
+  'server.stateExpired': 'साइन-इन में बहुत देर लगी या इसे किसी अन्य ब्राउज़र में शुरू किया गया था',
+  'server.providerUnreachable': 'साइन-इन सेवा तक नहीं पहुँचा जा सका',
+  'server.oidcUnavailable': 'पहचान प्रदाता साइन-इन पूरा नहीं कर सका',
+  'server.oidcRefused': 'पहचान प्रदाता ने साइन-इन अस्वीकार कर दिया',
+  'server.oidcMismatch': 'साइन-इन का जवाब इस ब्राउज़र से मेल नहीं खाता',
+  'server.oidcToken': 'ID टोकन इस साइन-इन के लिए जारी नहीं किया गया था',
+  'server.oidcNoEmail': 'पहचान प्रदाता ने ईमेल पता साझा नहीं किया',
+  'server.oidcUnverified':
+    'पहचान प्रदाता ने यह ईमेल पता सत्यापित नहीं किया है, इसलिए यह मौजूदा खाते में साइन इन नहीं कर सकता',
+  'server.accountDisabled': 'यह खाता अक्षम कर दिया गया है',
+  'server.noRole': 'इस खाते की अभी कोई RespireX भूमिका नहीं है; किसी व्यवस्थापक से इसे जोड़ने को कहें',
+  'server.invalidEmail': 'मान्य ईमेल पता दर्ज करें',
+  'server.nameRequired': 'नाम दर्ज करें',
+  'server.roleRequired': 'भूमिका चुनें',
+  'server.passwordLength': 'पासवर्ड में कम से कम {min} अक्षर होने चाहिए',
+  'server.lastAdmin': 'कम से कम एक सक्रिय व्यवस्थापक रहना चाहिए',
+  'server.emailTaken': 'इस ईमेल वाला उपयोगकर्ता पहले से मौजूद है',
+  'server.userNotFound': 'उपयोगकर्ता नहीं मिला',
+  'server.deleteSelf': 'आप अपना खाता नहीं हटा सकते',
+  'server.fieldRequired': '{field} आवश्यक है',
+  'server.settingsShape': 'मॉडल आईडी के अनुसार सेटिंग अपेक्षित थीं',
+  'server.settingsObject': '{path} एक ऑब्जेक्ट होना चाहिए',
+  'server.settingsEnabled': '{path} true या false होना चाहिए',
+  'server.settingsNumber': '{path} 0 और 1 के बीच की संख्या होनी चाहिए',
+
+  'report.shaded': 'छायांकित:',
+}
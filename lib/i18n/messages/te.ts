@@ -0,0 +1,615 @@
+import type { Messages } from './en'
+
+export const te: Messages = {
+  'nav.home': 'హోమ్',
+  'nav.models': 'మోడల్స్',
+  'nav.analyze': 'విశ్లేషణ',
+  'nav.exam': 'పరీక్ష',
+  'nav.annotate': 'అనొటేట్',
+  'nav.history': 'చరిత్ర',
+  'nav.faq': 'తరచు అడిగే ప్రశ్నలు',
+  'nav.team': 'బృందం',
+  'nav.language': 'భాష',
+  'nav.menu': 'మెనూ',
+  'nav.main': 'ప్రధాన',
+  'nav.homeLink': 'RespireX హోమ్',
+  'nav.admin': 'నిర్వహణ',
+  'nav.signIn': 'సైన్ ఇన్',
+  'nav.signOut': 'సైన్ అవుట్',
+
+  'a11y.skipToContent': 'ప్రధాన విషయానికి వెళ్లండి',
+  'a11y.reduceMotion': 'యానిమేషన్ తగ్గించండి',
+
+  'footer.tagline': 'మెరుగైన ఆరోగ్య ఫలితాల కోసం AI ఆధారిత శ్వాసకోశ వ్యాధి గుర్తింపు.',
+  'footer.quickLinks': 'త్వరిత లింకులు',
+  'footer.contact': 'సంప్రదించండి',
+  'footer.email': 'ఇమెయిల్: {email}',
+  'footer.phone': 'ఫోన్: {phone}',
+  'footer.copyright': '© 2025 RespireX. సర్వ హక్కులు రిజర్వ్ చేయబడ్డాయి. | మెడికల్ AI పరిశోధన వేదిక',
+
+  'page.analyze.title': 'వ్యాధి వర్గీకరణ',
+  'page.analyze.description': 'శ్వాసకోశ వ్యాధిని వర్గీకరించడానికి శ్వాస శబ్దాన్ని అప్‌లోడ్ లేదా రికార్డ్ చేయండి, లేదా మొత్తం ఫోల్డర్‌ను విశ్లేషించండి',
+  'page.annotate.title': 'అనొటేషన్ మోడల్',
+  'page.annotate.description': 'రికార్డింగ్ ప్లే అవుతున్నప్పుడు క్రాకిల్స్ మరియు వీజ్‌లను గుర్తించండి, తర్వాత గుర్తించిన సంఘటనలను మోడల్ అంచనా వేస్తుంది',
+  'page.exam.title': 'బహుళ-స్థాన ఛాతీ పరీక్ష',
+  'page.exam.description': 'ముందు మరియు వెనుక, ప్రతి ఆస్కల్టేషన్ స్థానాన్ని వరుసగా రికార్డ్ చేసి, ఏ స్థానాలు అసాధారణంగా వినిపిస్తున్నాయో ఛాతీ పటంలో చూడండి',
+  'page.history.title': 'రోగి చరిత్ర',
+  'page.history.description': 'రోగి పేరుతో సేవ్ చేసిన విశ్లేషణలు ఈ పరికరంలోనే ఉంటాయి, కాబట్టి తదుపరి సందర్శనల్లో వాటిని మళ్లీ విని పోల్చవచ్చు',
+  'page.admin.title': 'నిర్వహణ',
+  'page.admin.description': 'ఎవరు ఏ పాత్రలో సైన్ ఇన్ చేయవచ్చో నిర్ణయించండి, ప్రతి వైద్యుడికి కనిపించే మోడల్స్‌ను సర్దుబాటు చేయండి',
+  'page.signin.title': 'సైన్ ఇన్',
+  'page.signin.description': 'రికార్డింగ్‌లను విశ్లేషించడానికి, అనొటేట్ చేయడానికి లేదా సేవను నిర్వహించడానికి మీ RespireX ఖాతాతో సైన్ ఇన్ చేయండి',
+  'page.forbidden.title': 'అందుబాటులో లేదు',
+  'page.forbidden.description': 'ఈ పేజీ {role} పాత్రకు అందుబాటులో లేదు',
+
+  'hero.tagline': 'AI ఆధారిత శ్వాసకోశ వ్యాధి గుర్తింపు',
+  'hero.description':
+    'శ్వాస శబ్దాలను విశ్లేషించి వైద్య-స్థాయి ఖచ్చితత్వంతో శ్వాసకోశ వ్యాధులను గుర్తించే అధునాతన మెషిన్ లెర్నింగ్ సాంకేతికత',
+  'hero.tryNow': 'RespireX ప్రయత్నించండి',
+  'hero.learnMore': 'మరింత తెలుసుకోండి',
+
+  'why.title': 'RespireX ఎందుకు?',
+  'why.subtitle': 'అత్యాధునిక AI సాంకేతికత మరియు వైద్య నైపుణ్యం కలిసి ఖచ్చితమైన, వేగవంతమైన మరియు నమ్మకమైన శ్వాసకోశ వ్యాధి గుర్తింపును అందిస్తాయి',
+  'why.ai.title': 'AI ఆధారిత విశ్లేషణ',
+  'why.ai.description': 'వేలాది శ్వాసకోశ శబ్ద నమూనాలపై శిక్షణ పొందిన అధునాతన మెషిన్ లెర్నింగ్ అల్గారిథమ్‌లు',
+  'why.insights.title': 'డేటా ఆధారిత అవగాహన',
+  'why.insights.description': 'వ్యక్తిగత అంచనాకు బదులుగా నిష్పాక్షికమైన, డేటా ఆధారిత అవగాహనతో ఆస్కల్టేషన్ విశ్లేషణ',
+  'why.fast.title': 'వేగవంతమైన ఫలితాలు',
+  'why.fast.description': 'రోజుల్లో కాదు, సెకన్లలో విశ్లేషణ ఫలితాలు పొందండి. మెరుగైన రోగి సంరక్షణ కోసం త్వరిత స్క్రీనింగ్',
+  'why.secure.title': 'సురక్షితం మరియు గోప్యం',
+  'why.secure.description': 'మీ డేటా ఉన్నత-స్థాయి భద్రత మరియు గోప్యతా చర్యలతో రక్షించబడుతుంది',
+
+  'how.title': 'ఇది ఎలా పనిచేస్తుంది?',
+  'how.subtitle': 'మా AI వ్యవస్థ అధునాతన మెషిన్ లెర్నింగ్‌తో శ్వాసకోశ శబ్దాలను విశ్లేషించి ఖచ్చితమైన నిర్ధారణను అందిస్తుంది',
+  'how.upload.title': 'ఆడియో అప్‌లోడ్ చేయండి',
+  'how.upload.description': 'మా సురక్షిత వేదిక ద్వారా శ్వాస శబ్దాలను రికార్డ్ లేదా అప్‌లోడ్ చేయండి',
+  'how.analysis.title': 'AI విశ్లేషణ',
+  'how.analysis.description': 'మా మోడల్స్ 243+ ఆడియో లక్షణాలను వెలికితీసి నమూనాలను విశ్లేషిస్తాయి',
+  'how.detection.title': 'వ్యాధి గుర్తింపు',
+  'how.detection.description': 'అధునాతన అల్గారిథమ్‌లు వైద్య-స్థాయి ఖచ్చితత్వంతో శ్వాసకోశ వ్యాధులను వర్గీకరిస్తాయి',
+  'how.results.title': 'ఫలితాలు మరియు అవగాహన',
+  'how.results.description': 'విశ్వాస స్కోర్లు మరియు సూచనలతో వివరమైన విశ్లేషణ పొందండి',
+
+  'models.title': 'మా AI మోడల్స్',
+  'models.subtitle': 'సమగ్ర శ్వాసకోశ విశ్లేషణ కోసం కలిసి పనిచేసే ప్రత్యేక మోడల్స్',
+  'models.classification': 'వ్యాధి వర్గీకరణ',
+  'models.eventDetection': 'సంఘటన గుర్తింపు',
+  'models.classesDetected': 'గుర్తించే వర్గాలు',
+  'models.eventsDetected': 'గుర్తించే సంఘటనలు',
+  'models.processingTime': 'ప్రాసెసింగ్ సమయం',
+  'models.latency': '~{seconds} సెకన్లు',
+  'models.openAnalyzer': 'రికార్డింగ్‌ను విశ్లేషించండి',
+  'models.openAnnotator': 'అనొటేటర్ తెరవండి',
+  'models.select': 'మోడల్',
+  'models.classCount': '{count} వర్గాలు',
+  'models.eventTypeCount': '{count} సంఘటన రకాలు',
+  'models.perAnalysis': 'ఒక్కో విశ్లేషణకు సుమారు {seconds} సెకన్లు',
+  'models.none': 'ఇక్కడ ఏ మోడల్ అందుబాటులో లేదు. మోడల్ సెట్టింగ్‌లలో ఒకదాన్ని ప్రారంభించమని నిర్వాహకుడిని అడగండి.',
+
+  'team.title': 'మా బృందం',
+  'team.subtitle': 'RespireX వెనుక ఉన్న నిపుణులను కలవండి - AI ఆవిష్కరణ మరియు వైద్య నైపుణ్యాల కలయిక',
+
+  'faq.title': 'తరచు అడిగే ప్రశ్నలు',
+  'faq.subtitle': 'RespireX గురించి మీరు తెలుసుకోవలసిన ప్రతిదీ',
+  'faq.what.question': 'RespireX అంటే ఏమిటి?',
+  'faq.what.answer':
+    'RespireX అనేది AI ఆధారిత శ్వాసకోశ వ్యాధి గుర్తింపు వ్యవస్థ. ఇది శ్వాస శబ్దాల రికార్డింగ్‌లను విశ్లేషించి వైద్య-స్థాయి ఖచ్చితత్వంతో సంభావ్య శ్వాసకోశ వ్యాధులను గుర్తిస్తుంది.',
+  'faq.reliable.question': 'నిర్ధారణ ఎంత నమ్మదగినది?',
+  'faq.reliable.answer':
+    'మా AI మోడల్స్ వ్యాధి వర్గీకరణలో వైద్య-స్థాయి పనితీరును, అనొటేషన్ ఆధారిత అంచనాలలో క్లినికల్-స్థాయి విశ్లేషణను అందిస్తాయి, అందుకే ఇవి వైద్య స్క్రీనింగ్‌కు అనుకూలం.',
+  'faq.formats.question': 'ఏ ఆడియో ఫార్మాట్‌లు సపోర్ట్ అవుతాయి?',
+  'faq.formats.answer':
+    'మేము WAV, MP3, M4A మరియు FLAC ఆడియో ఫార్మాట్‌లను సపోర్ట్ చేస్తాము. మంచి ఫలితాల కోసం తక్కువ నేపథ్య శబ్దం ఉన్న నాణ్యమైన రికార్డింగ్‌లను ఉపయోగించండి.',
+  'faq.replacement.question': 'ఇది వైద్య నిర్ధారణకు ప్రత్యామ్నాయమా?',
+  'faq.replacement.answer':
+    'కాదు, RespireX ఆరోగ్య నిపుణులకు సహాయం చేయడానికి రూపొందించిన స్క్రీనింగ్ సాధనం. తుది నిర్ధారణ మరియు చికిత్స కోసం ఎల్లప్పుడూ అర్హత కలిగిన వైద్యులను సంప్రదించండి.',
+  'faq.duration.question': 'విశ్లేషణకు ఎంత సమయం పడుతుంది?',
+  'faq.duration.answer':
+    'ఆడియో ఫైల్ పరిమాణం మరియు సర్వర్ భారాన్ని బట్టి విశ్లేషణకు సాధారణంగా 10-30 సెకన్లు పడుతుంది. మా వ్యవస్థ త్వరిత ఫలితాల కోసం రూపొందించబడింది.',
+  'faq.security.question': 'నా ఆడియో డేటా సురక్షితమేనా?',
+  'faq.security.answer':
+    'అవును, మేము డేటా గోప్యత మరియు భద్రతకు ప్రాధాన్యం ఇస్తాము. ఆడియో ఫైల్‌లు సురక్షితంగా ప్రాసెస్ చేయబడతాయి మరియు మా సర్వర్లలో శాశ్వతంగా నిల్వ చేయబడవు.',
+
+  'disclaimer.title': 'ముఖ్యమైన వైద్య నిరాకరణ',
+  'disclaimer.body':
+    'RespireX ఆరోగ్య నిపుణులకు సహాయం చేయడానికి రూపొందించిన స్క్రీనింగ్ సాధనం మాత్రమే. దీనిని వృత్తిపరమైన వైద్య నిర్ధారణ, చికిత్స లేదా సలహాకు ప్రత్యామ్నాయంగా ఉపయోగించకూడదు. శ్వాసకోశ వ్యాధుల సరైన నిర్ధారణ మరియు చికిత్స కోసం ఎల్లప్పుడూ అర్హత కలిగిన వైద్యులను సంప్రదించండి.',
+
+  'analyze.mode.upload': 'ఫైల్ అప్‌లోడ్',
+  'analyze.mode.record': 'రికార్డ్',
+  'analyze.mode.batch': 'బ్యాచ్',
+  'analyze.button': 'ఆడియోను విశ్లేషించండి',
+  'analyze.buttonAnyway': 'అయినా విశ్లేషించండి',
+  'analyze.compare': '{count} మోడల్స్‌ను పోల్చండి',
+  'analyze.cancel': 'రద్దు చేయండి',
+  'analyze.segments': 'భాగాలను విశ్లేషిస్తోంది ({completed}/{total})...',
+  'analyze.queuedOffline':
+    'విశ్లేషణ సర్వర్‌ను చేరుకోలేకపోయాము. రికార్డింగ్ క్యూలో ఉంచబడింది, సర్వర్ తిరిగి అందుబాటులోకి రాగానే స్వయంచాలకంగా పంపబడుతుంది.',
+  'analyze.saved': '{patient} చరిత్రలో సేవ్ చేయబడింది.',
+  'analyze.inputMode': 'ఇన్‌పుట్ పద్ధతి',
+  'analyze.progress': 'విశ్లేషణ పురోగతి',
+
+  'dropzone.drop': 'ఆడియో ఫైల్‌ను ఇక్కడ వదలండి...',
+  'dropzone.prompt': 'ఆడియో ఫైల్‌ను ఇక్కడికి లాగి వదలండి, లేదా ఎంచుకోవడానికి క్లిక్ చేయండి',
+  'dropzone.formats': 'WAV, MP3, M4A, FLAC ఫార్మాట్‌లు సపోర్ట్ అవుతాయి',
+  'file.size': '{size} MB',
+  'file.remove': '{name} తీసివేయండి',
+  'dropzone.label': 'ఆడియో ఫైల్ ఎంచుకోండి',
+
+  'progress.analyzing': 'విశ్లేషిస్తోంది...',
+  'progress.uploading': 'అప్‌లోడ్ అవుతోంది...',
+  'progress.uploadingPercent': 'అప్‌లోడ్ అవుతోంది {percent}...',
+  'progress.sent': '{total} లో {sent}',
+  'progress.queued': 'సర్వర్ క్యూలో వేచి ఉంది...',
+  'progress.processing': 'సర్వర్‌లో ప్రాసెస్ అవుతోంది...',
+  'progress.retry':
+    'సర్వర్ స్పందించడం లేదు (ప్రారంభమవుతూ ఉండవచ్చు). {seconds} సెకన్లలో మళ్లీ ప్రయత్నిస్తాము, {attempts} లో {attempt}వ ప్రయత్నం.',
+
+  'results.title': 'విశ్లేషణ ఫలితాలు',
+  'results.inconclusive': 'నిర్ధారణ కాలేదు — మళ్లీ రికార్డ్ చేయండి',
+  'results.predicted': 'అంచనా వేసిన వర్గం',
+  'results.overall': 'మొత్తం నిర్ణయం',
+  'results.leading': 'ముందున్న వర్గం (నిర్ధారణ కాదు)',
+  'results.aggregation': '{count} భాగాలపై {method}',
+  'results.probabilities': 'అన్ని వర్గాల సంభావ్యతలు',
+  'results.events': 'గుర్తించిన సంఘటనలు',
+  'results.eventConfidence': '({confidence} విశ్వాసం)',
+  'results.loadReference': 'రిఫరెన్స్ లోడ్ చేయండి',
+  'results.referenceComparison':
+    '{referenceTotal} రిఫరెన్స్ సంఘటనల్లో {referenceMatched} అదే రకమైన గుర్తించిన సంఘటనతో సరిపోలుతున్నాయి; {detectedTotal} గుర్తించిన సంఘటనల్లో {detectedMatched} రిఫరెన్స్‌తో సరిపోలుతున్నాయి.',
+  'results.announceComplete': 'విశ్లేషణ పూర్తయింది: {label}, {confidence} విశ్వాసం.',
+  'results.announceInconclusive': 'విశ్లేషణ నిర్ధారణ కాలేదు: {label}, {confidence} విశ్వాసం. దీనిపై చర్య తీసుకునే ముందు మళ్లీ రికార్డ్ చేయండి.',
+
+  'decision.threshold': 'పరిమితి',
+  'decision.thresholdHint': 'ఈ వర్గాన్ని ఫలితంగా చూపించడానికి అవసరమైన కనీస విశ్వాసం',
+  'decision.margin': '{label} పై ఆధిక్యం',
+  'decision.marginHint': 'రెండో స్థానంలోని వర్గంపై మొదటి వర్గం ఆధిక్యం',
+  'decision.entropy': 'ఎంట్రోపీ',
+  'decision.entropyHint': 'వర్గ సంభావ్యతలు ఎంత విస్తరించి ఉన్నాయి: 0 అంటే అంతా ఒకే వర్గంపై, 1 అంటే సమానంగా విస్తరించి ఉన్నాయి',
+  'decision.nextStep': 'తదుపరి చర్య:',
+  'decision.inconclusive': 'నిర్ధారణ కాలేదు',
+  'decision.belowThreshold': 'విశ్వాసం {confidence}, {label} కోసం ఉన్న {threshold} పరిమితి కంటే తక్కువ.',
+  'decision.outscored': 'చూపిన {label} కంటే {runnerUp} కు {margin} ఎక్కువ స్కోరు వచ్చింది.',
+  'decision.narrowMargin': '{label}, {runnerUp} కంటే కేవలం {margin} ముందుంది; కనీసం {minMargin} అవసరం.',
+  'decision.rerecord':
+    'నిశ్శబ్ద గదిలో స్టెతస్కోప్‌ను కదలకుండా పట్టుకొని కనీసం 20 సెకన్లు మళ్లీ రికార్డ్ చేసి, మళ్లీ విశ్లేషించండి. ఈ ఫలితం ఒక్కదాని ఆధారంగా చర్య తీసుకోవద్దు.',
+  'decision.generic': 'ఫలితాన్ని వైద్యునితో సమీక్షించి, ప్రామాణిక నిర్ధారణ పరీక్షలతో ధృవీకరించండి.',
+
+  'error.unexpected': 'ఊహించని లోపం: {message}',
+  'error.detail': 'లోపం: {detail}',
+  'error.server': 'సర్వర్ లోపం. దయచేసి కొద్దిసేపటి తర్వాత మళ్లీ ప్రయత్నించండి.',
+  'error.badRequest': 'చెల్లని అభ్యర్థన. దయచేసి మీ ఇన్‌పుట్‌ను తనిఖీ చేసి మళ్లీ ప్రయత్నించండి.',
+  'error.timeout': 'అభ్యర్థన సమయం ముగిసింది. దయచేసి మళ్లీ ప్రయత్నించండి.',
+  'error.network': 'విశ్లేషణ సర్వర్‌ను చేరుకోలేకపోయాము. మీ ఇంటర్నెట్ కనెక్షన్‌ను తనిఖీ చేసి మళ్లీ ప్రయత్నించండి.',
+  'error.invalidResponse': 'సర్వర్ ఊహించని సమాధానం ఇచ్చింది: {message}',
+  'error.cancelled': 'అభ్యర్థన రద్దు చేయబడింది.',
+  'error.failed': 'అభ్యర్థన విఫలమైంది: {message}',
+
+  'role.clinician': 'వైద్యుడు',
+  'role.annotator': 'అనొటేటర్',
+  'role.admin': 'నిర్వాహకుడు',
+
+  'signin.email': 'ఈమెయిల్',
+  'signin.password': 'పాస్‌వర్డ్',
+  'signin.submit': 'సైన్ ఇన్ చేయండి',
+  'signin.incorrect': 'ఈమెయిల్ లేదా పాస్‌వర్డ్ తప్పు.',
+  'signin.failed': 'సైన్ ఇన్ విఫలమైంది. దయచేసి మళ్లీ ప్రయత్నించండి.',
+  'signin.or': 'లేదా',
+  'signin.with': '{provider}తో సైన్ ఇన్ చేయండి',
+  'signin.unavailable': 'సైన్ ఇన్ పద్ధతి ఏదీ సెట్ చేయలేదు. మీ నిర్వాహకుడిని అడగండి.',
+  'forbidden.home': 'మీ ప్రారంభ పేజీకి వెళ్లండి',
+
+  'signoff.signed': '{name} ({role}) {date}న ఆమోదించారు',
+  'signoff.pending': 'ఇంకా వైద్యుడు ఆమోదించలేదు',
+  'signoff.action': '{name}గా ఆమోదించండి',
+  'signoff.failed': 'ఆమోదించలేకపోయాం: {message}',
+
+  'player.play': 'ప్లే చేయండి',
+  'player.pause': 'పాజ్ చేయండి',
+  'player.back': '{seconds} సెకన్లు వెనక్కి',
+  'player.position': 'ప్లేబ్యాక్ స్థానం',
+  'player.positionValue': '{total}లో {current}',
+  'player.speed': 'వేగం',
+  'player.loop': 'ఎంచుకున్న ఘటనను పదే పదే ప్లే చేయండి',
+  'player.zoom': 'జూమ్',
+  'player.zoomIn': 'జూమ్ ఇన్',
+  'player.zoomOut': 'జూమ్ అవుట్',
+  'player.waveform': 'గుర్తించిన ఘటనలు హైలైట్ చేసిన ఆడియో తరంగరూపం',
+  'player.decoding': 'ఆడియో డీకోడ్ అవుతోంది...',
+  'player.inspirationShort': 'ఉచ్ఛ్వాస',
+  'player.expirationShort': 'నిశ్వాస',
+  'player.reference': 'రిఫరెన్స్: {label}',
+
+  'annotation.crackle': 'క్రాకిల్',
+  'annotation.wheeze': 'వీజ్',
+  'annotation.title': 'వైద్యుల సహాయంతో అనొటేషన్',
+  'annotation.intro': 'రికార్డింగ్‌ను లోడ్ చేసి ప్లే చేయండి, క్రాకిల్ లేదా వీజ్ వినిపించినప్పుడు బటన్ నొక్కండి',
+  'annotation.undo': 'రద్దు చేయండి',
+  'annotation.undoHint': 'రద్దు చేయండి (Ctrl+Z)',
+  'annotation.redo': 'మళ్లీ చేయండి',
+  'annotation.redoHint': 'మళ్లీ చేయండి (Ctrl+Shift+Z)',
+  'annotation.clear': 'అన్నీ తొలగించండి',
+  'annotation.shortcuts':
+    'షార్ట్‌కట్‌లు: C క్రాకిల్ · W వీజ్ · Space ప్లే/పాజ్ · Delete ఎంచుకున్నది తొలగించు · Ctrl+Z రద్దు · Ctrl+Shift+Z మళ్లీ · బాణం కీలు టైమ్‌లైన్‌పై ఫోకస్ ఉన్న గుర్తును జరుపుతాయి',
+  'annotation.marked': 'గుర్తించిన ఘటనలు:',
+  'annotation.total': 'మొత్తం: {count} ఘటనలు',
+  'annotation.analyze': 'అనొటేషన్‌లను విశ్లేషించండి',
+  'annotation.none': 'దయచేసి ముందుగా కొన్ని క్రాకిల్స్ లేదా వీజ్‌లను గుర్తించండి.',
+  'annotation.skipped': '{count} వదిలేశాం: క్రాకిల్ లేదా వీజ్ కాదు, లేదా రికార్డింగ్ ముగిసిన తర్వాత ఉన్నాయి',
+  'annotation.announceMarked': '{time} సె. వద్ద {type} గుర్తించబడింది',
+  'annotation.announceDeleted': '{time} సె. వద్ద {type} తొలగించబడింది',
+  'annotation.timeline': 'అనొటేషన్ టైమ్‌లైన్',
+  'annotation.timelineHint':
+    'గుర్తును ఎంచుకోవడానికి Tab నొక్కండి. ఎడమ, కుడి బాణాలు దాన్ని జరుపుతాయి, Shiftతో బాణం దాని ముగింపును మారుస్తుంది, Delete దాన్ని తొలగిస్తుంది.',
+  'annotation.mark': '{start} నుండి {end} సెకన్ల వరకు {type}',
+  'annotation.eventType': 'ఘటన రకం',
+  'annotation.startLabel': '{type} ప్రారంభం, సెకన్లు',
+  'annotation.endLabel': '{type} ముగింపు, సెకన్లు',
+  'annotation.secondsUnit': 'సె.',
+  'annotation.delete': 'ఘటనను తొలగించండి',
+  'annotation.deleteAt': '{time} సె. వద్ద {type} తొలగించండి',
+
+  'quality.checking': 'రికార్డింగ్ నాణ్యత తనిఖీ అవుతోంది...',
+  'quality.good': 'మంచి నాణ్యత',
+  'quality.warning': 'ఉపయోగించవచ్చు, హెచ్చరికలతో',
+  'quality.blocked': 'విశ్లేషించలేము',
+  'quality.score': 'స్కోరు {score}/100',
+  'quality.metric.duration': 'వ్యవధి:',
+  'quality.metric.sampleRate': 'శాంపిల్ రేటు:',
+  'quality.metric.channels': 'ఛానెల్‌లు:',
+  'quality.metric.clipping': 'క్లిప్పింగ్:',
+  'quality.metric.silence': 'నిశ్శబ్దం:',
+  'quality.metric.snr': 'SNR:',
+  'quality.seconds': '{value} సె.',
+  'quality.hertz': '{value} Hz',
+  'quality.decibels': '{value} dB',
+  'quality.notAvailable': 'అందుబాటులో లేదు',
+  'quality.duration':
+    'రికార్డింగ్ కేవలం {duration} సె. మాత్రమే ఉంది; కనీసం {minimum} సె. (అనేక శ్వాసలు) రికార్డ్ చేయండి.',
+  'quality.sampleRate': 'శాంపిల్ రేటు {rate} Hz; క్రాకిల్స్, వీజ్‌లను పట్టుకోవడానికి కనీసం {minimum} Hz అవసరం.',
+  'quality.clipping': '{percent} శాంపిల్స్ క్లిప్ అయ్యాయి; ఇన్‌పుట్ గెయిన్ లేదా స్టెతస్కోప్ ఒత్తిడిని తగ్గించండి.',
+  'quality.silence': 'రికార్డింగ్‌లో {percent} నిశ్శబ్దంగా ఉంది; స్టెతస్కోప్ స్పర్శ, మైక్రోఫోన్‌ను తనిఖీ చేయండి.',
+  'quality.snr':
+    'అంచనా వేసిన సిగ్నల్-టు-నాయిస్ నిష్పత్తి {snr} dB; నిశ్శబ్ద గదిలో, ఛాతీకి గట్టిగా ఆనించి రికార్డ్ చేయండి.',
+  'quality.tooLarge': 'ఫైల్ {size} MB; పరిమితి {limit} MB.',
+  'quality.empty': 'ఫైల్ ఖాళీగా ఉంది.',
+  'quality.undecodable':
+    'ఈ ఫైల్‌ను ఆడియోగా డీకోడ్ చేయలేకపోయాము. ఇది పాడై ఉండవచ్చు లేదా మద్దతు లేని కోడెక్‌లో ఉండవచ్చు.',
+  'quality.failed': 'నాణ్యత తనిఖీ: {issues}',
+
+  'annotationFile.icbhi': 'ICBHI 2017',
+  'annotationFile.audacity': 'Audacity లేబుల్‌లు',
+  'annotationFile.json': 'RespireX JSON',
+  'annotationFile.import': 'దిగుమతి చేయండి',
+  'annotationFile.export': 'ఎగుమతి చేయండి',
+  'annotationFile.loaded': '{format} ఫైల్ నుండి {count} ఘటనలు లోడ్ అయ్యాయి',
+  'annotationFile.loadedWithNote': '{format} ఫైల్ నుండి {count} ఘటనలు లోడ్ అయ్యాయి ({note})',
+  'annotationFile.unreadable': '{name} చదవలేకపోయాము',
+  'annotationFile.unreadableDetail': '{name} చదవలేకపోయాము: {message}',
+  'annotationFile.line': 'పంక్తి {line}: {message}',
+  'annotationFile.invalidTime': 'చెల్లని సమయం "{value}"',
+  'annotationFile.endBeforeStart': 'ముగింపు ప్రారంభానికి ముందు ఉంది',
+  'annotationFile.icbhiColumns': 'ప్రారంభం, ముగింపు, క్రాకిల్ ఫ్లాగ్, వీజ్ ఫ్లాగ్ ఆశించబడ్డాయి',
+  'annotationFile.icbhiFlags': 'క్రాకిల్, వీజ్ ఫ్లాగ్‌లు 0 లేదా 1 అయి ఉండాలి',
+  'annotationFile.invalidJson': 'ఫైల్ చెల్లుబాటు అయ్యే JSON కాదు',
+  'annotationFile.notDocument': 'events జాబితాతో "{format}" పత్రం ఆశించబడింది',
+  'annotationFile.version': 'మద్దతు లేని పత్ర సంస్కరణ {version}',
+  'annotationFile.noLabel': 'events[{index}]కు లేబుల్ లేదు',
+
+  'recorder.unsupported': 'ఈ బ్రౌజర్‌లో ఆడియో రికార్డింగ్‌కు మద్దతు లేదు. దయచేసి బదులుగా ఫైల్‌ను అప్‌లోడ్ చేయండి.',
+  'recorder.encodeFailed': 'రికార్డింగ్‌ను ప్రాసెస్ చేయలేకపోయాము. దయచేసి మళ్లీ ప్రయత్నించండి.',
+  'recorder.denied': 'మైక్రోఫోన్ అనుమతి నిరాకరించబడింది. రికార్డ్ చేయడానికి బ్రౌజర్ సెట్టింగ్‌లలో అనుమతించండి.',
+  'recorder.deviceFailed': 'ఎంచుకున్న ఇన్‌పుట్ పరికరాన్ని తెరవలేకపోయాము.',
+  'recorder.device': 'ఇన్‌పుట్ పరికరం',
+  'recorder.defaultDevice': 'డిఫాల్ట్ ఇన్‌పుట్',
+  'recorder.deviceNumber': 'ఇన్‌పుట్ {number}',
+  'recorder.refresh': 'పరికరాలను రిఫ్రెష్ చేయండి',
+  'recorder.duration': 'వ్యవధి',
+  'recorder.seconds': '{seconds} సెకన్లు',
+  'recorder.level': 'ఇన్‌పుట్ స్థాయి',
+  'recorder.clipping': 'క్లిప్పింగ్ - గెయిన్ తగ్గించండి',
+  'recorder.remainingValue': '{seconds} సె.',
+  'recorder.remaining': 'మిగిలింది',
+  'recorder.start': 'రికార్డింగ్ ప్రారంభించండి',
+  'recorder.stop': 'రికార్డింగ్ ఆపండి',
+  'recorder.encoding': 'ఎన్‌కోడ్ అవుతోంది...',
+
+  'admin.requestFailed': 'అభ్యర్థన విఫలమైంది, స్థితి {status}',
+
+  'exam.protocol.basic': '6 స్థానాలు',
+  'exam.protocol.basicHint': 'పైన ముందు, తర్వాత కింద మరియు మధ్య వెనుక, రెండు వైపులా.',
+  'exam.protocol.full': '12 స్థానాలు',
+  'exam.protocol.fullHint': 'పై, మధ్య మరియు కింది భాగాలు, ముందు మరియు వెనుక, రెండు వైపులా.',
+  'exam.dropAll': 'అన్ని రికార్డింగ్‌లను ఒకేసారి వదలండి, స్థానం పేరుతో, ఉదా. LL_post_2.wav లేదా RUL_ant.wav',
+  'exam.unmatchedOne': '{files} స్థానాన్ని గుర్తించలేకపోయాము. మ్యాప్‌లో స్థానాన్ని ఎంచుకుని అక్కడ జోడించండి.',
+  'exam.unmatched': '{files} స్థానాలను గుర్తించలేకపోయాము. మ్యాప్‌లో స్థానాన్ని ఎంచుకుని వాటిని అక్కడ జోడించండి.',
+  'exam.analyzeOne': '{count} స్థానాన్ని విశ్లేషించండి',
+  'exam.analyze': '{count} స్థానాలను విశ్లేషించండి',
+  'exam.missing': '{total}లో {count} స్థానాలకు ఇంకా రికార్డింగ్ లేదు; వాటిని తర్వాత జోడించి విశ్లేషించవచ్చు.',
+  'exam.startOver': 'కొత్త పరీక్ష ప్రారంభించండి',
+  'exam.front': 'ముందు',
+  'exam.back': 'వెనుక',
+  'exam.rightShort': 'కు',
+  'exam.leftShort': 'ఎ',
+  'exam.slot.failed': 'విఫలమైంది',
+  'exam.slot.analyzing': 'విశ్లేషిస్తోంది',
+  'exam.slot.recorded': 'రికార్డ్ అయింది',
+  'exam.slot.empty': 'రికార్డ్ కాలేదు',
+  'exam.previous': 'మునుపటి స్థానం',
+  'exam.next': 'తదుపరి స్థానం',
+  'exam.position': '{total}లో స్థానం {position}',
+  'exam.waiting': 'ఇతర స్థానాల కోసం వేచి ఉంది...',
+  'exam.cancelled': 'ఫలితం రాకముందే రద్దు చేయబడింది.',
+  'exam.summary': 'పరీక్ష సారాంశం',
+  'exam.analysed': '{total}లో {count} స్థానాలు విశ్లేషించబడ్డాయి',
+  'exam.empty': 'ఏవి అసాధారణంగా వినిపిస్తాయో చూడటానికి స్థానాలను రికార్డ్ చేసి విశ్లేషించండి.',
+  'exam.abnormalAt': 'విశ్లేషించిన {analysed}లో {count} స్థానాల్లో అసాధారణం.',
+  'exam.abnormalAtIn': 'విశ్లేషించిన {analysed}లో {count} స్థానాల్లో అసాధారణం, {distribution}.',
+  'exam.bilateral': 'రెండు ఊపిరితిత్తుల్లో',
+  'exam.leftOnly': 'ఎడమ ఊపిరితిత్తిలో మాత్రమే',
+  'exam.rightOnly': 'కుడి ఊపిరితిత్తిలో మాత్రమే',
+  'exam.allNormal': 'విశ్లేషించిన {count}లో అసాధారణ స్థానాలు లేవు.',
+  'exam.sitesOne': '{count} స్థానం: {sites}',
+  'exam.sites': '{count} స్థానాలు: {sites}',
+  'exam.rerecordOne': 'ఈ స్థానాన్ని మళ్లీ రికార్డ్ చేయండి, ఫలితం అనిశ్చితంగా ఉంది: {sites}',
+  'exam.rerecord': 'ఈ స్థానాలను మళ్లీ రికార్డ్ చేయండి, ఫలితం అనిశ్చితంగా ఉంది: {sites}',
+  'exam.normal': 'సాధారణం',
+  'exam.abnormal': 'అసాధారణం',
+  'exam.recorded': 'రికార్డ్ అయింది, విశ్లేషించలేదు',
+  'exam.savedOne': '{count} స్థానం {patient} చరిత్రలో సేవ్ అయింది.',
+  'exam.saved': '{count} స్థానాలు {patient} చరిత్రలో సేవ్ అయ్యాయి.',
+
+  'site.name': '{side} {level} {view}',
+  'site.left': 'ఎడమ',
+  'site.right': 'కుడి',
+  'site.upper': 'పై',
+  'site.middle': 'మధ్య',
+  'site.lower': 'కింది',
+  'site.anterior': 'ముందు',
+  'site.posterior': 'వెనుక',
+
+  'backend.unknown': 'సర్వర్',
+  'backend.unknownHint': 'సర్వర్ స్థితి ఇంకా తనిఖీ చేయలేదు',
+  'backend.checking': 'తనిఖీ చేస్తోంది',
+  'backend.checkingHint': 'విశ్లేషణ సర్వర్‌ను తనిఖీ చేస్తోంది',
+  'backend.warming': 'సిద్ధమవుతోంది',
+  'backend.warmingHint':
+    'విశ్లేషణ సర్వర్ నిష్క్రియంగా ఉన్న తర్వాత ప్రారంభమవుతోంది. దీనికి సుమారు ఒక నిమిషం పట్టవచ్చు; విశ్లేషణలు స్వయంచాలకంగా మళ్లీ ప్రయత్నిస్తాయి',
+  'backend.ready': 'సిద్ధం',
+  'backend.readyHint': 'విశ్లేషణ సర్వర్ సిద్ధంగా ఉంది',
+  'backend.down': 'సర్వర్ పనిచేయడం లేదు',
+  'backend.downHint':
+    'విశ్లేషణ సర్వర్ స్పందించడం లేదు. రికార్డింగ్‌లు క్యూలో ఉంచబడి, అది తిరిగి వచ్చినప్పుడు పంపబడతాయి',
+  'backend.latency': '{hint} ({latency} ms)',
+  'backend.title': '{hint}. మళ్లీ తనిఖీ చేయడానికి క్లిక్ చేయండి.',
+
+  'status.queued': 'క్యూలో ఉంది',
+  'status.running': 'నడుస్తోంది',
+  'status.retrying': 'మళ్లీ ప్రయత్నిస్తోంది',
+  'status.done': 'పూర్తయింది',
+  'status.failed': 'విఫలమైంది',
+  'status.cancelled': 'రద్దయింది',
+
+  'batch.drop': 'రికార్డింగ్‌లు లేదా ఫోల్డర్‌ను ఇక్కడ వదలండి, లేదా అనేక ఫైల్‌లను ఎంచుకోవడానికి క్లిక్ చేయండి',
+  'batch.folder': 'ఫోల్డర్ ఎంచుకోండి',
+  'batch.analyze': '{count} ఫైల్‌లను విశ్లేషించండి',
+  'batch.concurrency': 'సమాంతర అప్‌లోడ్‌లు',
+  'batch.csv': 'CSV',
+  'batch.clear': 'పూర్తయినవి తొలగించండి',
+  'batch.processed': '{total}లో {count} ప్రాసెస్ అయ్యాయి',
+  'batch.counts': '{done} పూర్తయ్యాయి · {failed} విఫలమయ్యాయి · {running} కొనసాగుతున్నాయి',
+  'batch.file': 'ఫైల్',
+  'batch.status': 'స్థితి',
+  'batch.prediction': 'అంచనా',
+  'batch.confidence': 'విశ్వాసం',
+  'batch.top': 'టాప్ 3',
+  'batch.retry': 'మళ్లీ ప్రయత్నించండి',
+  'batch.retryFile': '{name} మళ్లీ ప్రయత్నించండి',
+  'batch.remove': 'తొలగించండి',
+
+  'breathing.title': 'శ్వాస చక్రాలు',
+  'breathing.fromServer': 'విశ్లేషణ సర్వర్ విభజించింది.',
+  'breathing.estimated': 'రికార్డింగ్ శబ్ద తీవ్రత నుండి బ్రౌజర్‌లో అంచనా వేయబడింది; మీరు వినేదానితో సరిపోల్చండి.',
+  'breathing.finding': 'శ్వాసలను కనుగొంటోంది...',
+  'breathing.none': 'ఈ రికార్డింగ్‌లో స్పష్టమైన శ్వాస చక్రాలు కనిపించలేదు.',
+  'breathing.rate': 'శ్వాస రేటు',
+  'breathing.perMinute': '{rate} /నిమి',
+  'breathing.ieRatio': 'I:E నిష్పత్తి',
+  'breathing.cycles': 'చక్రాలు',
+  'breathing.breath': 'శ్వాస {number}: {phase}',
+  'breathing.shade': 'వేవ్‌ఫారమ్‌పై దశలను షేడ్ చేయండి',
+  'breathing.inspiration': 'శ్వాస తీసుకోవడం',
+  'breathing.expiration': 'శ్వాస వదలడం',
+  'breathing.earlyInspiratory': 'ప్రారంభ ఉచ్ఛ్వాస',
+  'breathing.midInspiratory': 'మధ్య ఉచ్ఛ్వాస',
+  'breathing.lateInspiratory': 'చివరి ఉచ్ఛ్వాస',
+  'breathing.earlyExpiratory': 'ప్రారంభ నిశ్వాస',
+  'breathing.midExpiratory': 'మధ్య నిశ్వాస',
+  'breathing.lateExpiratory': 'చివరి నిశ్వాస',
+  'breathing.biphasic': 'ఉచ్ఛ్వాస మరియు నిశ్వాస',
+  'breathing.between': 'శ్వాసల మధ్య',
+
+  'case.title': 'రోగి & సందర్శన',
+  'case.new': 'కొత్త రోగి',
+  'case.id': 'రోగి / కేసు ఐడీ',
+  'case.idRequired': 'రోగి లేదా కేసు ఐడీని నమోదు చేయండి.',
+  'case.exists': 'రోగి {id} ఇప్పటికే ఉన్నారు. బదులుగా జాబితా నుండి ఎంచుకోండి.',
+  'case.taken': 'రోగి {id} ఈ పరికరంలో మరొక వినియోగదారు ద్వారా నమోదు చేయబడ్డారు. వేరే ఐడీని ఉపయోగించండి.',
+  'case.saveFailed': 'రోగి రికార్డును సేవ్ చేయలేకపోయాము.',
+  'case.ageBand': 'వయస్సు వర్గం',
+  'case.age': 'వయస్సు {band}',
+  'case.sex': 'లింగం',
+  'case.sex.female': 'స్త్రీ',
+  'case.sex.male': 'పురుషుడు',
+  'case.sex.other': 'ఇతర',
+  'case.sex.unknown': 'తెలియదు',
+  'case.save': 'రోగిని సేవ్ చేయండి',
+  'case.none': 'రోగి లేరు (ఫలితం సేవ్ కాదు)',
+  'case.siteUnspecified': 'రికార్డింగ్ స్థానం పేర్కొనలేదు',
+  'case.site.Tc': 'శ్వాసనాళం',
+  'case.site.Al': 'ముందు ఎడమ',
+  'case.site.Ar': 'ముందు కుడి',
+  'case.site.Pl': 'వెనుక ఎడమ',
+  'case.site.Pr': 'వెనుక కుడి',
+  'case.site.Ll': 'పక్క ఎడమ',
+  'case.site.Lr': 'పక్క కుడి',
+  'case.symptom.cough': 'దగ్గు',
+  'case.symptom.fever': 'జ్వరం',
+  'case.symptom.breathless': 'ఊపిరి ఆడకపోవడం',
+  'case.symptom.wheezing': 'గురక శ్వాస',
+  'case.symptom.chestPain': 'ఛాతీ నొప్పి',
+  'case.symptom.sputum': 'కఫం',
+
+  'comparison.enable': 'మోడళ్లను పోల్చండి',
+  'comparison.selected': 'రికార్డింగ్ ఎంచుకున్న ప్రతి మోడల్‌కు ఒకేసారి పంపబడుతుంది; {count} ఎంచుకున్నారు.',
+  'comparison.pickTwo': 'కనీసం రెండు ఎంచుకోండి.',
+  'comparison.title': 'మోడల్ పోలిక',
+  'comparison.agree': 'మొత్తం {count} మోడళ్లు {label} అని అంచనా వేస్తున్నాయి.',
+  'comparison.disagree':
+    'మోడళ్లు ఏకీభవించడం లేదు: {labels}. వాటిలో దేనిపైనైనా ఆధారపడే ముందు ప్రతి సమాధానాన్ని సమీక్షించండి.',
+  'comparison.versus': ' vs ',
+  'comparison.serverVersion': 'సర్వర్ సంస్కరణ {version}',
+  'comparison.probabilities': 'వర్గ సంభావ్యతలు',
+  'comparison.highlighted': 'హైలైట్ చేసిన వరుసలు మోడళ్ల మధ్య {difference} లేదా అంతకంటే ఎక్కువ తేడా ఉన్నాయి.',
+  'comparison.class': 'వర్గం',
+  'comparison.classDisagree': 'మోడళ్లు ఏకీభవించడం లేదు',
+  'comparison.events': 'ఘటనలు: {model}',
+  'comparison.noEvents': 'ఘటనలు ఏవీ కనుగొనబడలేదు.',
+  'comparison.onlyThis': 'ఈ మోడల్ మాత్రమే',
+  'comparison.savedOne': '{count} ఫలితం {patient} చరిత్రలో సేవ్ అయింది.',
+  'comparison.saved': '{count} ఫలితాలు {patient} చరిత్రలో సేవ్ అయ్యాయి.',
+
+  'explanation.title': '{label} ఎందుకు?',
+  'explanation.intro': 'మోడల్ దేనిపై ఆధారపడింది. ఎరుపు {label}ను సమర్థిస్తుంది, నీలం దానికి వ్యతిరేకం.',
+  'explanation.introMethod':
+    'మోడల్ దేనిపై ఆధారపడింది, {method}తో లెక్కించబడింది. ఎరుపు {label}ను సమర్థిస్తుంది, నీలం దానికి వ్యతిరేకం.',
+  'explanation.overlay': 'వేవ్‌ఫారమ్‌పై హీట్ ఓవర్‌లే చూపించండి',
+  'explanation.strongest': 'బలమైన ఆధారం {windows} వద్ద.',
+  'explanation.features': 'అత్యధికంగా దోహదపడిన లక్షణాలు',
+  'explanation.showFewer': 'తక్కువ చూపించండి',
+  'explanation.showAll': 'మొత్తం {count} లక్షణాలు చూపించండి',
+
+  'outbox.offline': 'ఆఫ్‌లైన్. కొత్త విశ్లేషణలు క్యూలో ఉంచబడి, కనెక్షన్ తిరిగి వచ్చినప్పుడు పంపబడతాయి.',
+  'outbox.title': 'క్యూలోని విశ్లేషణలు',
+  'outbox.queued': 'కనెక్షన్ కోసం వేచి ఉంది',
+  'outbox.sending': 'పంపుతోంది...',
+  'outbox.sent': 'విశ్లేషించబడింది',
+  'outbox.savedTo': '{patient}కు సేవ్ అయింది',
+  'outbox.waiting': '{count} వేచి ఉన్నాయి',
+  'outbox.waitingOffline': '{count} వేచి ఉన్నాయి · ఆఫ్‌లైన్',
+  'outbox.send': 'ఇప్పుడే పంపండి',
+  'outbox.confirmDiscard': 'క్యూలోని ఈ రికార్డింగ్‌ను తీసివేయాలా? ఇది ఇంకా విశ్లేషించబడలేదు.',
+  'outbox.dismiss': 'మూసివేయండి',
+  'outbox.discard': 'తీసివేయండి',
+
+  'history.unavailable': 'ఈ బ్రౌజర్‌లో స్థానిక చరిత్ర అందుబాటులో లేదు.',
+  'history.empty': 'ఇంకా రోగులు లేరు. చరిత్ర ఉంచడానికి విశ్లేషించే ముందు రోగిని ఎంచుకోండి లేదా సృష్టించండి.',
+  'history.count': '{count} విశ్లేషణలు',
+  'history.deletePatient': 'రోగిని తొలగించండి',
+  'history.confirmDeletePatient': 'రోగి {patient}ను మరియు నిల్వ చేసిన అన్ని విశ్లేషణలు, రికార్డింగ్‌లను తొలగించాలా?',
+  'history.confirmDeleteAnalysis': '{date} నాటి విశ్లేషణను తొలగించాలా?',
+  'history.earlier': 'ముందు',
+  'history.later': 'తర్వాత',
+  'history.change': 'మార్పు',
+  'history.compareHint': 'సంభావ్యతలను పోల్చడానికి రెండు వ్యాధి వర్గీకరణ విశ్లేషణలను ఎంచుకోండి.',
+  'history.compare': 'పోల్చండి',
+  'history.compareAnalysis': '{date} నాటి విశ్లేషణను పోల్చండి',
+  'history.play': 'రికార్డింగ్ ప్లే చేయండి',
+  'history.pause': 'రికార్డింగ్ పాజ్ చేయండి',
+  'history.noRecording': 'రికార్డింగ్ నిల్వ చేయలేదు',
+  'history.by': '{name} ద్వారా',
+  'history.deleteAnalysis': 'విశ్లేషణను తొలగించండి',
+  'history.deleteAnalysisFrom': '{date} నాటి విశ్లేషణను తొలగించండి',
+  'history.events': '{count} ఘటనలు: {events}',
+
+  'modelSettings.title': 'మోడల్ సెట్టింగ్‌లు',
+  'modelSettings.save': 'సెట్టింగ్‌లను సేవ్ చేయండి',
+  'modelSettings.saved': 'సేవ్ అయింది. ప్రతి బ్రౌజర్ తదుపరి పేజీ లోడ్‌లో సెట్టింగ్‌లను తీసుకుంటుంది.',
+  'modelSettings.intro':
+    'పరిమితులు మరియు అంతరాలు శాతాలలో ఉంటాయి; మోడల్ జాబితా విలువను ఉపయోగించడానికి ఫీల్డ్‌ను ఖాళీగా ఉంచండి.',
+  'modelSettings.minMargin': 'కనిష్ఠ అంతరం %',
+  'modelSettings.threshold': '{label} కోసం {model} పరిమితి, శాతం',
+
+  'preprocess.enable': 'అప్‌లోడ్‌కు ముందు ప్రీప్రాసెస్ చేయండి',
+  'preprocess.resample': 'మోనో, {rate} Hzకు రీశాంపుల్',
+  'preprocess.bandPass': 'బ్యాండ్-పాస్',
+  'preprocess.to': 'నుండి',
+  'preprocess.normalize': 'శబ్ద తీవ్రతను {level} dBFSకు సమం చేయండి',
+  'preprocess.trim': 'ఇంతకు కత్తిరించండి',
+  'preprocess.trimOf': 'సె. ({duration}లో)',
+  'preprocess.size': 'అప్‌లోడ్ పరిమాణం: {original}కు బదులుగా సుమారు {estimated}',
+
+  'report.generate': 'నివేదిక రూపొందించండి (PDF)',
+  'report.generating': 'నివేదిక రూపొందుతోంది...',
+  'report.failed': 'నివేదికను రూపొందించలేకపోయాము.',
+
+  'segments.enable': 'విభాగాలుగా విభజించండి',
+  'segments.window': 'విండో పొడవు',
+  'segments.overlap': 'సె., ఇంత అతివ్యాప్తి',
+  'segments.combine': 'ఇలా కలపండి',
+  'segments.mean': 'సగటు సంభావ్యత',
+  'segments.meanHint': 'అన్ని విభాగాలపై వర్గ సంభావ్యతల సగటు; తీర్పు అత్యధిక సగటు.',
+  'segments.majority': 'మెజారిటీ ఓటు',
+  'segments.majorityHint': 'ప్రతి విభాగం తన అంచనాకు ఓటు వేస్తుంది; విశ్వాసం ఏకీభవించే విభాగాల వాటా.',
+  'segments.maxConfidence': 'అత్యధిక విశ్వాసం గల విభాగం',
+  'segments.maxConfidenceHint': 'మోడల్‌కు అత్యధిక విశ్వాసం ఉన్న ఒకే విభాగం తీర్పు.',
+  'segments.requestsOne': '{count} అభ్యర్థన పంపబడుతుంది.',
+  'segments.requests': '{count} అభ్యర్థనలు పంపబడతాయి.',
+  'segments.timeline': 'విభాగాల కాలక్రమం',
+  'segments.summary': '{count} విభాగాలు · {method} ద్వారా కలపబడ్డాయి.',
+  'segments.group': 'విభాగాలు',
+  'segments.segment': 'విభాగం {number}, {start} నుండి {end}: {prediction}, {confidence}',
+  'segments.time': 'సమయం',
+
+  'users.title': 'వినియోగదారులు',
+  'users.name': 'పేరు',
+  'users.role': 'పాత్ర',
+  'users.password': 'పాస్‌వర్డ్ (ఐచ్ఛికం)',
+  'users.passwordHint': 'పాస్‌వర్డ్, సింగిల్ సైన్-ఆన్ ఖాతాలకు ఐచ్ఛికం',
+  'users.add': 'వినియోగదారుని జోడించండి',
+  'users.loading': 'వినియోగదారులు లోడ్ అవుతున్నారు...',
+  'users.hasPassword': 'పాస్‌వర్డ్',
+  'users.ssoOnly': 'సింగిల్ సైన్-ఆన్ మాత్రమే',
+  'users.roleFor': '{email} పాత్ర',
+  'users.disabled': 'నిలిపివేయబడింది',
+  'users.setPassword': 'పాస్‌వర్డ్ సెట్ చేయండి',
+  'users.passwordPrompt':
+    '{email} కోసం కొత్త పాస్‌వర్డ్. దాన్ని తీసివేయడానికి ఖాళీగా ఉంచండి, అప్పుడు ఖాతా సింగిల్ సైన్-ఆన్ ద్వారా మాత్రమే సైన్ ఇన్ అవుతుంది.',
+  'users.delete': 'వినియోగదారుని తొలగించండి',
+  'users.deleteUser': 'వినియోగదారు {email}ను తొలగించండి',
+  'users.confirmDelete': '{email} ఖాతాను తొలగించాలా? వారి ఆమోదాలు ఆడిట్ లాగ్‌లో ఉంటాయి.',
+  'users.note':
+    'వినియోగదారుని నిలిపివేయడం లేదా పాత్ర మార్చడం వారి ఆమోదాలు మరియు నిర్వాహక చర్యలను వెంటనే ఆపుతుంది; వారు తెరవగల పేజీలు తదుపరి సైన్-ఇన్‌లో మారుతాయి.',
+
+  'server.internal': 'అంతర్గత సర్వర్ లోపం',
+  'server.expectedJson': 'JSON ఆబ్జెక్ట్ ఆశించబడింది',
+  'server.signInRequired': 'కొనసాగడానికి సైన్ ఇన్ చేయండి',
+  'server.roleRefused': 'మీ పాత్ర దీనికి అనుమతించదు',
+  'server.unknownProvider': 'తెలియని సైన్-ఇన్ పద్ధతి',
+  'server.incorrect': 'ఇమెయిల్ లేదా పాస్‌వర్డ్ తప్పు',
+  'server.stateExpired': 'సైన్-ఇన్‌కు చాలా సమయం పట్టింది లేదా మరొక బ్రౌజర్‌లో ప్రారంభించబడింది',
+  'server.providerUnreachable': 'సైన్-ఇన్ సేవను చేరుకోలేకపోయాము',
+  'server.oidcUnavailable': 'గుర్తింపు ప్రదాత సైన్-ఇన్‌ను పూర్తి చేయలేకపోయింది',
+  'server.oidcRefused': 'గుర్తింపు ప్రదాత సైన్-ఇన్‌ను తిరస్కరించింది',
+  'server.oidcMismatch': 'సైన్-ఇన్ ప్రతిస్పందన ఈ బ్రౌజర్‌తో సరిపోలలేదు',
+  'server.oidcToken': 'ID టోకెన్ ఈ సైన్-ఇన్ కోసం జారీ చేయబడలేదు',
+  'server.oidcNoEmail': 'గుర్తింపు ప్రదాత ఇమెయిల్ చిరునామాను పంచుకోలేదు',
+  'server.oidcUnverified':
+    'గుర్తింపు ప్రదాత ఈ ఇమెయిల్ చిరునామాను ధృవీకరించలేదు, కాబట్టి ఇది ఉన్న ఖాతాలోకి సైన్ ఇన్ కాలేదు',
+  'server.accountDisabled': 'ఈ ఖాతా నిలిపివేయబడింది',
+  'server.noRole': 'ఈ ఖాతాకు ఇంకా RespireX పాత్ర లేదు; దాన్ని జోడించమని నిర్వాహకుడిని అడగండి',
+  'server.invalidEmail': 'చెల్లుబాటు అయ్యే ఇమెయిల్ చిరునామాను నమోదు చేయండి',
+  'server.nameRequired': 'పేరు నమోదు చేయండి',
+  'server.roleRequired': 'పాత్రను ఎంచుకోండి',
+  'server.passwordLength': 'పాస్‌వర్డ్‌లో కనీసం {min} అక్షరాలు ఉండాలి',
+  'server.lastAdmin': 'కనీసం ఒక సక్రియ నిర్వాహకుడు ఉండాలి',
+  'server.emailTaken': 'ఈ ఇమెయిల్‌తో వినియోగదారు ఇప్పటికే ఉన్నారు',
+  'server.userNotFound': 'వినియోగదారు కనుగొనబడలేదు',
+  'server.deleteSelf': 'మీరు మీ స్వంత ఖాతాను తొలగించలేరు',
+  'server.fieldRequired': '{field} అవసరం',
+  'server.settingsShape': 'మోడల్ ఐడీ వారీగా సెట్టింగ్‌లు ఆశించబడ్డాయి',
+  'server.settingsObject': '{path} ఒక ఆబ్జెక్ట్ అయి ఉండాలి',
+  'server.settingsEnabled': '{path} true లేదా false అయి ఉండాలి',
+  'server.settingsNumber': '{path} 0 మరియు 1 మధ్య సంఖ్య అయి ఉండాలి',
+
+  'report.shaded': 'షేడ్ చేసినవి:',
+}
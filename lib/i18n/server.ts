@@ -0,0 +1,11 @@
+import { cookies, headers } from 'next/headers'
+import { LOCALE_COOKIE, createTranslator, isLocale, matchLocale, parseAcceptLanguage } from '@/lib/i18n'
+
+// Server components only: the saved choice, else the browser's Accept-Language
+export const getRequestLocale = () => {
+  const saved = cookies().get(LOCALE_COOKIE)?.value
+  if (isLocale(saved)) return saved
+  return matchLocale(parseAcceptLanguage(headers().get('accept-language')))
+}
+
+export const getServerTranslator = () => createTranslator(getRequestLocale())
@@ -0,0 +1,37 @@
+import type { ModelInfo } from '@/lib/api'
+
+// Administrator overrides on top of the model catalogue, kept on the app server and applied in every browser
+export interface ModelSetting {
+  // false hides the model from the model pickers; saved results keep their model
+  enabled?: boolean
+  min_margin?: number
+  // Per-class confidence thresholds, by class label
+  thresholds?: Record<string, number>
+}
+
+// By catalogue model id
+export type ModelSettings = Record<string, ModelSetting>
+
+export const MODEL_SETTINGS_URL = '/api/model-settings'
+
+export const isModelEnabled = (id: string, settings: ModelSettings) => settings[id]?.enabled !== false
+
+export const applyModelSettings = (models: ModelInfo[], settings: ModelSettings): ModelInfo[] =>
+  models.map((model) => {
+    const setting = settings[model.id]
+    if (!setting) return model
+    const thresholds = setting.thresholds ?? {}
+    return {
+      ...model,
+      min_margin: setting.min_margin ?? model.min_margin,
+      classes: model.classes.map((item) =>
+        item.label in thresholds ? { ...item, threshold: thresholds[item.label] } : item
+      ),
+    }
+  })
+
+export const fetchModelSettings = async (): Promise<ModelSettings> => {
+  const response = await fetch(MODEL_SETTINGS_URL, { cache: 'no-store' })
+  if (!response.ok) throw new Error(`Model settings answered ${response.status}`)
+  return response.json()
+}
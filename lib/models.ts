@@ -0,0 +1,140 @@
+import { ApiError, ModelInfo, RequestOptions, respirex } from '@/lib/api'
+import { ModelSettings, applyModelSettings, fetchModelSettings, isModelEnabled } from '@/lib/modelSettings'
+
+// Used until the backend's /models answers, and whenever it cannot; mirrors the two original endpoints
+export const BUILTIN_MODELS: ModelInfo[] = [
+  {
+    id: 'disease',
+    name: 'Disease Classifier',
+    description:
+      'Classifies respiratory disease from a breathing recording using an ensemble of SVM, MLP and RandomForest models.',
+    endpoint: '/predict_disease',
+    input_type: 'audio',
+    task: 'classification',
+    // A missed disease costs more than a second look, so "Healthy" needs more certainty than the rest
+    classes: [
+      { label: 'COPD', color: '#dc2626', action: 'Confirm with spirometry and review smoking and exposure history.' },
+      { label: 'Asthma', color: '#2563eb', action: 'Confirm with spirometry and bronchodilator reversibility testing.' },
+      { label: 'Pneumonia', color: '#ea580c', action: 'Check vital signs and oxygen saturation; consider a chest X-ray.' },
+      { label: 'Healthy', color: '#16a34a', threshold: 0.7, normal: true, action: 'No further action unless symptoms persist or worsen.' },
+      { label: 'Bronchiectasis', color: '#9333ea', action: 'Consider high-resolution CT of the chest to confirm.' },
+      { label: 'Bronchiolitis', color: '#ca8a04', action: 'Monitor breathing effort, feeding and oxygen saturation.' },
+      { label: 'LRTI', color: '#4f46e5', action: 'Examine the chest; consider a chest X-ray if symptoms are severe.' },
+      { label: 'URTI', color: '#db2777', action: 'Usually self-limiting; review if symptoms worsen or last over 10 days.' },
+    ],
+    expected_latency_seconds: 15,
+    min_margin: 0.1,
+  },
+  {
+    id: 'annotation',
+    name: 'Annotation Model',
+    description: 'Detects wheezes and crackles with precise timestamps from events marked while listening.',
+    endpoint: '/predict_annotation',
+    input_type: 'annotation_events',
+    task: 'event_detection',
+    classes: [
+      { label: 'crackle', color: '#f97316' },
+      { label: 'wheeze', color: '#ef4444' },
+    ],
+    expected_latency_seconds: 20,
+  },
+]
+
+export type CatalogueSource = 'server' | 'builtin'
+
+export interface ModelCatalogue {
+  models: ModelInfo[]
+  source: CatalogueSource
+}
+
+const FALLBACK_COLOR = '#6b7280'
+
+const BUILTIN_CATALOGUE: ModelCatalogue = { models: BUILTIN_MODELS, source: 'builtin' }
+
+// The catalogue as the backend describes it, and with the administrator's settings applied
+let base = BUILTIN_CATALOGUE
+let settings: ModelSettings = {}
+let current = BUILTIN_CATALOGUE
+let loading: Promise<ModelCatalogue> | null = null
+
+const applySettings = () => {
+  current = { models: applyModelSettings(base.models, settings), source: base.source }
+  return current
+}
+
+export const getModelCatalogue = () => current
+
+// Catalogue values before settings, for the admin screen's defaults
+export const getBaseModelCatalogue = () => base
+
+export const getModelSettings = () => settings
+
+// After an administrator saves, so this browser does not wait for the next page load
+export const setModelSettings = (next: ModelSettings) => {
+  settings = next
+  return applySettings()
+}
+
+// Fetched once per page load; a failed fetch falls back to the built-in list and is tried again next time.
+// Settings come from this app's server and apply to whichever list loaded
+export const loadModelCatalogue = () => {
+  if (!loading) {
+    const settingsLoad = fetchModelSettings()
+      .then((next) => {
+        settings = next
+      })
+      .catch((err) => console.error('Load model settings error:', err))
+    loading = respirex
+      .listModels()
+      .then((models) => {
+        base = models.length > 0 ? { models, source: 'server' } : BUILTIN_CATALOGUE
+      })
+      .catch((err) => {
+        console.error('Load model catalogue error:', err)
+        loading = null
+      })
+      .then(() => settingsLoad)
+      .then(applySettings)
+  }
+  return loading
+}
+
+export const findModel = (id: string | null | undefined, models = current.models) =>
+  models.find((model) => model.id === id) ?? BUILTIN_MODELS.find((model) => model.id === id)
+
+// Records saved before a model was retired still show a readable name
+export const modelName = (id: string) => findModel(id)?.name ?? id
+
+// Models an administrator has switched off are left out of the pickers and the landing page
+export const enabledModels = (models = current.models) => models.filter((model) => isModelEnabled(model.id, settings))
+
+export const modelsFor = (inputType: ModelInfo['input_type'], models = current.models) =>
+  enabledModels(models).filter((model) => model.input_type === inputType)
+
+// Class colour from the given model, else from any model that knows the label
+export const getClassColor = (label: string, modelId?: string) => {
+  const match = (model: ModelInfo | undefined) =>
+    model?.classes.find((item) => item.label.toLowerCase() === label.toLowerCase())?.color
+  const fromModel = match(findModel(modelId))
+  if (fromModel) return fromModel
+  const models = current.models.concat(BUILTIN_MODELS)
+  for (let i = 0; i < models.length; i++) {
+    const color = match(models[i])
+    if (color) return color
+  }
+  return FALLBACK_COLOR
+}
+
+export const withAlpha = (hex: string, alpha: number) => {
+  const value = parseInt(hex.slice(1), 16)
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`
+}
+
+// Audio classification through whichever model is selected; segmentation, batches and the outbox need class probabilities
+export const classifyAudio = async (model: ModelInfo, file: Blob, options: RequestOptions = {}) => {
+  const result = await respirex.predictWithModel(model, file, options)
+  if (!('class_probabilities' in result)) {
+    throw new ApiError('invalid_response', `${model.name} did not return class probabilities`)
+  }
+  return result
+}
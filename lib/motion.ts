@@ -0,0 +1,3 @@
+// Remembers the in-app "Reduce motion" switch; the operating system setting is honoured either way.
+// Kept out of the hook module so the server layout can read the cookie without pulling in React context
+export const REDUCED_MOTION_COOKIE = 'respirex-reduce-motion'
@@ -0,0 +1,30 @@
+import { Role, canAccess } from '@/lib/auth/roles'
+import type { MessageKey } from '@/lib/i18n'
+
+export interface NavItem {
+  href: string
+  label: MessageKey
+}
+
+// Single source for the header, mobile menu and footer links
+export const NAV_ITEMS: NavItem[] = [
+  { href: '/', label: 'nav.home' },
+  { href: '/#models', label: 'nav.models' },
+  { href: '/analyze', label: 'nav.analyze' },
+  { href: '/exam', label: 'nav.exam' },
+  { href: '/annotate', label: 'nav.annotate' },
+  { href: '/history', label: 'nav.history' },
+  { href: '/admin', label: 'nav.admin' },
+  { href: '/#faq', label: 'nav.faq' },
+  { href: '/#team', label: 'nav.team' },
+]
+
+// Section links on the landing page are never "active"; routes match on their path prefix
+export const isActiveNavItem = (item: NavItem, pathname: string) => {
+  if (item.href.indexOf('#') !== -1) return false
+  if (item.href === '/') return pathname === '/'
+  return pathname === item.href || pathname.indexOf(`${item.href}/`) === 0
+}
+
+// Signed-out visitors see the public sections; each role sees the screens it may open
+export const navItemsFor = (role: Role | null | undefined) => NAV_ITEMS.filter((item) => canAccess(role, item.href))
@@ -0,0 +1,107 @@
+import { DiseasePredictionResult, ModelInfo, describeApiError, isRetryable } from '@/lib/api'
+import { markBackendReady, markBackendUnreachable } from '@/lib/backendStatus'
+import { CaseSelection, RecordAuthor, newId, saveAnalysis } from '@/lib/cases'
+import { classifyAudio } from '@/lib/models'
+import { AggregationMethod, SegmentOptions, predictInSegments } from '@/lib/segmentation'
+import { getAll, isStorageAvailable, put, remove } from '@/lib/storage/db'
+
+export type OutboxStatus = 'queued' | 'sending' | 'sent' | 'failed'
+
+// A disease analysis captured while the backend was unreachable, kept until it has been submitted
+export interface OutboxItem {
+  id: string
+  createdAt: string
+  // The file to submit, after any preprocessing; it is also what the patient's history keeps, since result times
+  // are relative to it
+  upload: File
+  caseSelection: CaseSelection
+  // Signed-in user who captured the recording; the analysis is saved under their name when it is sent
+  analysedBy?: RecordAuthor
+  // Catalogue entry at the time of capture, so the item can be sent even if the catalogue cannot be loaded
+  model: ModelInfo
+  segmentation: { options: SegmentOptions; method: AggregationMethod } | null
+  status: OutboxStatus
+  attempts: number
+  lastError?: string
+  sentAt?: string
+  result?: DiseasePredictionResult
+}
+
+export type OutboxRequest = Pick<OutboxItem, 'upload' | 'caseSelection' | 'analysedBy' | 'model' | 'segmentation'>
+
+const listeners: Array<() => void> = []
+
+const notify = () => listeners.slice().forEach((listener) => listener())
+
+export const subscribeOutbox = (listener: () => void) => {
+  listeners.push(listener)
+  return () => {
+    const index = listeners.indexOf(listener)
+    if (index !== -1) listeners.splice(index, 1)
+  }
+}
+
+const saveItem = async (item: OutboxItem) => {
+  await put<OutboxItem>('outbox', item)
+  notify()
+  return item
+}
+
+export const listOutbox = async () =>
+  (await getAll<OutboxItem>('outbox')).sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+export const enqueueAnalysis = (request: OutboxRequest) =>
+  saveItem({ ...request, id: newId('outbox'), createdAt: new Date().toISOString(), status: 'queued', attempts: 0 })
+
+export const removeOutboxItem = async (id: string) => {
+  await remove('outbox', id)
+  notify()
+}
+
+export const retryOutboxItem = async (item: OutboxItem) => {
+  await saveItem({ ...item, status: 'queued' })
+  return flushOutbox()
+}
+
+// Resolves false when the server could not be reached, so the rest of the queue waits for the next attempt
+const submit = async (queued: OutboxItem) => {
+  const item = await saveItem({ ...queued, status: 'sending', attempts: queued.attempts + 1 })
+  try {
+    const signal = new AbortController().signal
+    const result = item.segmentation
+      ? await predictInSegments(item.upload, item.model, item.segmentation.options, item.segmentation.method, signal)
+      : await classifyAudio(item.model, item.upload)
+    markBackendReady()
+    const { patientId, visit } = item.caseSelection
+    if (patientId) await saveAnalysis(patientId, visit, item.model.id, result, item.upload, item.analysedBy)
+    await saveItem({ ...item, status: 'sent', sentAt: new Date().toISOString(), result, lastError: undefined })
+    return true
+  } catch (err) {
+    const transient = isRetryable(err)
+    if (transient) markBackendUnreachable()
+    await saveItem({ ...item, status: transient ? 'queued' : 'failed', lastError: describeApiError(err) })
+    return !transient
+  }
+}
+
+let flushing: Promise<void> | null = null
+
+// Submit queued items oldest first; concurrent calls share one run
+export const flushOutbox = () => {
+  if (!isStorageAvailable()) return Promise.resolve()
+  if (!flushing) {
+    flushing = (async () => {
+      // Anything left "sending" was interrupted by a reload or closed tab
+      const pending = (await listOutbox())
+        .filter((item) => item.status === 'queued' || item.status === 'sending')
+        .reverse()
+      for (let i = 0; i < pending.length; i++) {
+        if (!navigator.onLine) return
+        if (!(await submit(pending[i]))) return
+      }
+    })().finally(() => {
+      flushing = null
+    })
+  }
+  return flushing
+}
@@ -0,0 +1,25 @@
+import type { DiseasePredictionResult, PredictionResult } from '@/lib/api'
+import { getTranslator } from '@/lib/i18n'
+import { getClassColor, withAlpha } from '@/lib/models'
+
+export interface RankedClass {
+  label: string
+  probability: number
+}
+
+// Class probabilities ordered from most to least likely
+export const rankProbabilities = (probabilities: Record<string, number>): RankedClass[] =>
+  Object.keys(probabilities)
+    .map((label) => ({ label, probability: probabilities[label] }))
+    .sort((a, b) => b.probability - a.probability)
+
+export const formatPercent = (value: number, digits = 1) => getTranslator().formatPercent(value, digits)
+
+// Disease and annotation endpoints name the top class differently
+export const predictedLabel = (result: PredictionResult) =>
+  'prediction' in result ? result.prediction : result.disease
+
+export const isDiseaseResult = (result: PredictionResult): result is DiseasePredictionResult =>
+  'class_probabilities' in result
+
+export const getEventColor = (label: string, alpha = 0.3, modelId?: string) => withAlpha(getClassColor(label, modelId), alpha)
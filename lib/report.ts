@@ -0,0 +1,351 @@
+import type { jsPDF } from 'jspdf'
+import type { BreathingCycle, DetectedEvent, PredictionResult } from '@/lib/api'
+import { Patient, RecordAuthor, SignOff, VisitDetails, recordingSiteName } from '@/lib/cases'
+import { decodeAudio, toMono } from '@/lib/audio/wav'
+import { ROLE_LABELS } from '@/lib/auth/roles'
+import { formatIeRatio, locateEvent, summarizeBreathing } from '@/lib/breathing'
+import { assessResult } from '@/lib/decision'
+import { rankFeatures } from '@/lib/explanation'
+import { formatTime } from '@/lib/format'
+import { createTranslator } from '@/lib/i18n'
+import { getClassColor, modelName } from '@/lib/models'
+import { AGGREGATION_METHODS, isSegmentedResult } from '@/lib/segmentation'
+import {
+  formatPercent,
+  getEventColor,
+  isDiseaseResult,
+  predictedLabel,
+  rankProbabilities,
+} from '@/lib/predictions'
+
+export interface ReportInput {
+  result: PredictionResult
+  // Catalogue id of the model that produced the result
+  model: string
+  patient?: Patient | null
+  visit?: VisitDetails
+  recording?: Blob | null
+  // Defaults to the cycles in the result
+  cycles?: BreathingCycle[]
+  analysedBy?: RecordAuthor
+  signOff?: SignOff
+  generatedAt?: Date
+}
+
+const PAGE_MARGIN = 15
+const LINE_HEIGHT = 5.5
+const WAVEFORM_WIDTH = 1600
+const WAVEFORM_HEIGHT = 320
+const REPORT_FEATURES = 10
+// jsPDF's built-in fonts only cover Latin script, so the report stays in English whatever the UI language
+const REPORT_TRANSLATOR = createTranslator('en')
+const EVENT_SHADE_ALPHA = 0.35
+const LEGEND_SWATCH = 2.5
+
+// Event colour as it shows when shaded over the white waveform background, as RGB for jsPDF
+const shadeOnWhite = (label: string): [number, number, number] => {
+  const value = parseInt(getClassColor(label).slice(1), 16)
+  const blend = (channel: number) => Math.round(255 - EVENT_SHADE_ALPHA * (255 - channel))
+  return [blend((value >> 16) & 255), blend((value >> 8) & 255), blend(value & 255)]
+}
+
+// Min/max envelope of the recording with detected events shaded, as a PNG data URL
+export const renderWaveformImage = (samples: Float32Array, duration: number, events: DetectedEvent[]) => {
+  const canvas = document.createElement('canvas')
+  canvas.width = WAVEFORM_WIDTH
+  canvas.height = WAVEFORM_HEIGHT
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return null
+
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, WAVEFORM_WIDTH, WAVEFORM_HEIGHT)
+
+  events.forEach((event) => {
+    const x = (event.start / duration) * WAVEFORM_WIDTH
+    const width = Math.max(2, ((event.end - event.start) / duration) * WAVEFORM_WIDTH)
+    ctx.fillStyle = getEventColor(event.label, EVENT_SHADE_ALPHA)
+    ctx.fillRect(x, 0, width, WAVEFORM_HEIGHT)
+  })
+
+  let peak = 0
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]))
+  const scale = peak > 0 ? (WAVEFORM_HEIGHT / 2 - 4) / peak : 0
+  const middle = WAVEFORM_HEIGHT / 2
+  const samplesPerPixel = Math.max(1, Math.floor(samples.length / WAVEFORM_WIDTH))
+
+  ctx.fillStyle = '#2563eb'
+  for (let x = 0; x < WAVEFORM_WIDTH; x++) {
+    const from = x * samplesPerPixel
+    if (from >= samples.length) break
+    let min = 0
+    let max = 0
+    for (let i = from; i < Math.min(from + samplesPerPixel, samples.length); i++) {
+      min = Math.min(min, samples[i])
+      max = Math.max(max, samples[i])
+    }
+    ctx.fillRect(x, middle - max * scale, 1, Math.max(1, (max - min) * scale))
+  }
+
+  return canvas.toDataURL('image/png')
+}
+
+const loadWaveform = async (recording: Blob, events: DetectedEvent[]) => {
+  try {
+    const buffer = await decodeAudio(recording)
+    return renderWaveformImage(toMono(buffer), buffer.duration, events)
+  } catch (err) {
+    console.error('Report waveform error:', err)
+    return null
+  }
+}
+
+// Builds an A4 report for the chart: case details, full probability breakdown, sign-off, waveform, events and disclaimer
+export const generateReport = async ({
+  result,
+  model,
+  patient,
+  visit,
+  recording,
+  cycles = result.cycles ?? [],
+  analysedBy,
+  signOff,
+  generatedAt = new Date(),
+}: ReportInput) => {
+  const { jsPDF } = await import('jspdf')
+  const doc: jsPDF = new jsPDF({ unit: 'mm', format: 'a4' })
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const pageHeight = doc.internal.pageSize.getHeight()
+  const contentWidth = pageWidth - PAGE_MARGIN * 2
+  const events = 'events' in result ? result.events : []
+  let y = PAGE_MARGIN
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= pageHeight - PAGE_MARGIN - 8) return
+    doc.addPage()
+    y = PAGE_MARGIN
+  }
+
+  const heading = (text: string) => {
+    ensureSpace(LINE_HEIGHT * 3)
+    y += 3
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(12)
+    doc.text(text, PAGE_MARGIN, y)
+    doc.setDrawColor(209, 213, 219)
+    doc.line(PAGE_MARGIN, y + 1.5, pageWidth - PAGE_MARGIN, y + 1.5)
+    y += LINE_HEIGHT + 1.5
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(10)
+  }
+
+  const field = (label: string, value: string) => {
+    const lines: string[] = doc.splitTextToSize(value, contentWidth - 45)
+    ensureSpace(lines.length * LINE_HEIGHT)
+    doc.setTextColor(107, 114, 128)
+    doc.text(label, PAGE_MARGIN, y)
+    doc.setTextColor(17, 24, 39)
+    doc.text(lines, PAGE_MARGIN + 45, y)
+    y += lines.length * LINE_HEIGHT
+  }
+
+  const table = (columns: { title: string; width: number; align?: 'right' }[], rows: string[][]) => {
+    const row = (cells: string[]) => {
+      let x = PAGE_MARGIN
+      cells.forEach((cell, i) => {
+        const { width, align } = columns[i]
+        if (align === 'right') doc.text(cell, x + width, y, { align: 'right' })
+        else doc.text(cell, x, y)
+        x += width
+      })
+      y += LINE_HEIGHT
+    }
+    ensureSpace(LINE_HEIGHT * 2)
+    doc.setFont('helvetica', 'bold')
+    row(columns.map((column) => column.title))
+    doc.setFont('helvetica', 'normal')
+    rows.forEach((cells) => {
+      ensureSpace(LINE_HEIGHT)
+      row(cells)
+    })
+  }
+
+  // One swatch per event label, centred under the waveform in the colours it was shaded with
+  const legend = (labels: string[]) => {
+    const distinct = labels.filter((label, index) => labels.indexOf(label) === index)
+    const title = REPORT_TRANSLATOR.t('report.shaded')
+    const gap = 2
+    const width = distinct.reduce(
+      (total, label) => total + gap * 2 + LEGEND_SWATCH + 1 + doc.getTextWidth(label),
+      doc.getTextWidth(title)
+    )
+    let x = (pageWidth - width) / 2
+    doc.text(title, x, y)
+    x += doc.getTextWidth(title)
+    distinct.forEach((label) => {
+      x += gap * 2
+      doc.setFillColor(...shadeOnWhite(label))
+      doc.rect(x, y - LEGEND_SWATCH, LEGEND_SWATCH, LEGEND_SWATCH, 'F')
+      x += LEGEND_SWATCH + 1
+      doc.text(label, x, y)
+      x += doc.getTextWidth(label)
+    })
+  }
+
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(18)
+  doc.setTextColor(37, 99, 235)
+  doc.text('RespireX Analysis Report', PAGE_MARGIN, y + 4)
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(9)
+  doc.setTextColor(107, 114, 128)
+  doc.text(`Generated ${generatedAt.toLocaleString()}`, pageWidth - PAGE_MARGIN, y + 4, { align: 'right' })
+  doc.setTextColor(17, 24, 39)
+  y += 12
+
+  heading('Patient and Visit')
+  if (patient) {
+    field('Patient / case ID', patient.id)
+    field('Age band', patient.ageBand)
+    field('Sex', patient.sex)
+    field('Recording site', visit?.recordingSite ? `${recordingSiteName(visit.recordingSite, REPORT_TRANSLATOR)} (${visit.recordingSite})` : 'Not specified')
+    field('Symptoms', visit && visit.symptoms.length > 0 ? visit.symptoms.join(', ') : 'None recorded')
+  } else {
+    field('Patient / case ID', 'Not recorded')
+  }
+
+  heading('Recording')
+  field('File', result.filename || 'Unnamed recording')
+  field('Duration', `${result.audio_info.duration.toFixed(1)} s`)
+  field('Sample rate', `${result.audio_info.sample_rate} Hz`)
+
+  const decision = assessResult(result, model, REPORT_TRANSLATOR)
+  const inconclusive = decision.outcome === 'inconclusive'
+  heading('Result')
+  field('Model', modelName(model))
+  field('Model version', result.model_version ?? 'Not reported by the server')
+  doc.setFont('helvetica', 'bold')
+  field('Outcome', inconclusive ? 'INCONCLUSIVE - re-record' : 'Conclusive')
+  field(inconclusive ? 'Leading class' : 'Prediction', predictedLabel(result))
+  doc.setFont('helvetica', 'normal')
+  field('Confidence', `${formatPercent(result.confidence)} (threshold ${formatPercent(decision.threshold, 0)})`)
+  if (decision.margin !== undefined) field('Margin', `${formatPercent(decision.margin)} over ${decision.runnerUp}`)
+  if (decision.entropy !== undefined) field('Entropy', `${decision.entropy.toFixed(2)} (0 certain, 1 evenly spread)`)
+  decision.reasons.forEach((reason) => field('Reason', reason))
+  field('Next step', decision.action)
+  if (isSegmentedResult(result)) {
+    field('Aggregation', `${REPORT_TRANSLATOR.t(AGGREGATION_METHODS[result.aggregation].label)} across ${result.segments.length} segments`)
+  }
+  if (analysedBy) field('Analysed by', `${analysedBy.name} (${REPORT_TRANSLATOR.t(ROLE_LABELS[analysedBy.role])})`)
+  doc.setFont('helvetica', 'bold')
+  field(
+    'Signed off',
+    signOff
+      ? `${signOff.name} (${REPORT_TRANSLATOR.t(ROLE_LABELS[signOff.role])}), ${new Date(signOff.signedAt).toLocaleString()}`
+      : 'NOT SIGNED OFF - not reviewed by a clinician'
+  )
+  doc.setFont('helvetica', 'normal')
+
+  if (isDiseaseResult(result)) {
+    heading('Class Probabilities')
+    table(
+      [{ title: 'Class', width: 120 }, { title: 'Probability', width: 30, align: 'right' }],
+      rankProbabilities(result.class_probabilities).map(({ label, probability }) => [label, formatPercent(probability)])
+    )
+  }
+
+  if (result.explanation && result.explanation.features.length > 0) {
+    heading(`Top Contributing Features (${result.explanation.target ?? predictedLabel(result)})`)
+    table(
+      [{ title: 'Feature', width: 120 }, { title: 'Contribution', width: 30, align: 'right' }],
+      rankFeatures(result.explanation.features)
+        .slice(0, REPORT_FEATURES)
+        .map((feature) => [feature.name, `${feature.importance >= 0 ? '+' : ''}${feature.importance.toPrecision(2)}`])
+    )
+  }
+
+  if (isSegmentedResult(result)) {
+    heading('Segments')
+    table(
+      [
+        { title: '#', width: 15 },
+        { title: 'Time', width: 40 },
+        { title: 'Prediction', width: 65 },
+        { title: 'Confidence', width: 30, align: 'right' },
+      ],
+      result.segments.map((segment) => [
+        String(segment.index + 1),
+        `${formatTime(segment.start)}-${formatTime(segment.end)}`,
+        segment.prediction,
+        formatPercent(segment.confidence),
+      ])
+    )
+  }
+
+  const waveform = recording ? await loadWaveform(recording, events) : null
+  if (waveform) {
+    const height = contentWidth * (WAVEFORM_HEIGHT / WAVEFORM_WIDTH)
+    heading('Waveform')
+    ensureSpace(height + LINE_HEIGHT)
+    doc.addImage(waveform, 'PNG', PAGE_MARGIN, y, contentWidth, height)
+    doc.setDrawColor(209, 213, 219)
+    doc.rect(PAGE_MARGIN, y, contentWidth, height)
+    y += height + 4
+    doc.setFontSize(8)
+    doc.setTextColor(107, 114, 128)
+    doc.text('0:00', PAGE_MARGIN, y)
+    doc.text(formatTime(result.audio_info.duration), pageWidth - PAGE_MARGIN, y, { align: 'right' })
+    if (events.length > 0) legend(events.map((event) => event.label))
+    doc.setFontSize(10)
+    doc.setTextColor(17, 24, 39)
+    y += LINE_HEIGHT
+  }
+
+  if (cycles.length > 0) {
+    const breathing = summarizeBreathing(cycles)
+    heading('Breathing')
+    field('Cycles', `${breathing.cycles}${result.cycles ? '' : ' (estimated from the recording)'}`)
+    if (breathing.ratePerMinute !== null) field('Respiratory rate', `${Math.round(breathing.ratePerMinute)} breaths/min`)
+    if (breathing.ieRatio !== null) field('I:E ratio', formatIeRatio(breathing.ieRatio))
+  }
+
+  if ('events' in result) {
+    heading('Detected Events')
+    if (events.length === 0) {
+      field('Events', 'None detected')
+    } else {
+      table(
+        [
+          { title: 'Type', width: 30 },
+          { title: 'Phase', width: 45 },
+          { title: 'Start (s)', width: 25, align: 'right' },
+          { title: 'End (s)', width: 25, align: 'right' },
+          { title: 'Duration (s)', width: 30, align: 'right' },
+          { title: 'Confidence', width: 25, align: 'right' },
+        ],
+        events.map((event) => [
+          event.label,
+          cycles.length > 0 ? locateEvent(event, cycles, REPORT_TRANSLATOR).description : '-',
+          event.start.toFixed(2),
+          event.end.toFixed(2),
+          (event.end - event.start).toFixed(2),
+          formatPercent(event.confidence),
+        ])
+      )
+    }
+  }
+
+  heading('Important Medical Disclaimer')
+  const disclaimer: string[] = doc.splitTextToSize(REPORT_TRANSLATOR.t('disclaimer.body'), contentWidth)
+  ensureSpace(disclaimer.length * LINE_HEIGHT)
+  doc.text(disclaimer, PAGE_MARGIN, y)
+
+  const pages = doc.getNumberOfPages()
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page)
+    doc.setFontSize(8)
+    doc.setTextColor(107, 114, 128)
+    doc.text(`Page ${page} of ${pages}`, pageWidth - PAGE_MARGIN, pageHeight - PAGE_MARGIN / 2, { align: 'right' })
+  }
+
+  return doc.output('blob')
+}
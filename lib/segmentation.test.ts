@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { SegmentPrediction, aggregateSegments, planSegments } from './segmentation'
+
+const segment = (index: number, prediction: string, probabilities: Record<string, number>): SegmentPrediction => ({
+  index,
+  start: index * 15,
+  end: index * 15 + 20,
+  prediction,
+  confidence: probabilities[prediction],
+  class_probabilities: probabilities,
+})
+
+const segments = [
+  segment(0, 'COPD', { COPD: 0.6, Healthy: 0.4 }),
+  segment(1, 'COPD', { COPD: 0.55, Healthy: 0.45 }),
+  segment(2, 'Healthy', { COPD: 0.05, Healthy: 0.95 }),
+]
+
+describe('planSegments', () => {
+  it('keeps a short recording whole', () => {
+    expect(planSegments(12, { windowSeconds: 20, overlapSeconds: 5 })).toEqual([{ index: 0, start: 0, end: 12 }])
+  })
+
+  it('steps by window minus overlap and pulls the last window back to the end', () => {
+    expect(planSegments(50, { windowSeconds: 20, overlapSeconds: 5 })).toEqual([
+      { index: 0, start: 0, end: 20 },
+      { index: 1, start: 15, end: 35 },
+      { index: 2, start: 30, end: 50 },
+    ])
+  })
+})
+
+describe('aggregateSegments', () => {
+  it('averages class probabilities for every method', () => {
+    const { class_probabilities } = aggregateSegments(segments, 'majority')
+    expect(class_probabilities.COPD).toBeCloseTo(0.4)
+    expect(class_probabilities.Healthy).toBeCloseTo(0.6)
+  })
+
+  it('takes the highest mean probability', () => {
+    const result = aggregateSegments(segments, 'mean')
+    expect(result.prediction).toBe('Healthy')
+    expect(result.confidence).toBeCloseTo(0.6)
+  })
+
+  it('reports the share of agreeing segments for a majority vote', () => {
+    const result = aggregateSegments(segments, 'majority')
+    expect(result.prediction).toBe('COPD')
+    expect(result.confidence).toBeCloseTo(2 / 3)
+  })
+
+  it('breaks vote ties on the mean probability', () => {
+    const result = aggregateSegments(segments.slice(1), 'majority')
+    expect(result.prediction).toBe('Healthy')
+  })
+
+  it('uses the single most confident segment', () => {
+    const result = aggregateSegments(segments, 'max_confidence')
+    expect(result.prediction).toBe('Healthy')
+    expect(result.confidence).toBe(0.95)
+  })
+})
@@ -0,0 +1,166 @@
+import { ApiError, DiseasePredictionResult, ModelInfo, PredictionResult, withRetry } from '@/lib/api'
+import { decodeAudio, encodeWav, toMono } from '@/lib/audio/wav'
+import { runWithConcurrency } from '@/lib/concurrency'
+import { baseName } from '@/lib/download'
+import type { MessageKey } from '@/lib/i18n'
+import { classifyAudio } from '@/lib/models'
+import { rankProbabilities } from '@/lib/predictions'
+
+export interface SegmentOptions {
+  windowSeconds: number
+  overlapSeconds: number
+}
+
+export const DEFAULT_SEGMENT_OPTIONS: SegmentOptions = { windowSeconds: 20, overlapSeconds: 5 }
+
+// Recordings longer than this are split by default; a single request for them risks the API timeout
+export const LONG_RECORDING_SECONDS = 30
+
+const SEGMENT_CONCURRENCY = 2
+const SEGMENT_RETRIES = 2
+
+export interface SegmentWindow {
+  index: number
+  start: number
+  end: number
+}
+
+export interface SegmentPrediction extends SegmentWindow {
+  prediction: string
+  confidence: number
+  class_probabilities: Record<string, number>
+}
+
+export type AggregationMethod = 'mean' | 'majority' | 'max_confidence'
+
+export const AGGREGATION_METHODS: Record<AggregationMethod, { label: MessageKey; description: MessageKey }> = {
+  mean: { label: 'segments.mean', description: 'segments.meanHint' },
+  majority: { label: 'segments.majority', description: 'segments.majorityHint' },
+  max_confidence: { label: 'segments.maxConfidence', description: 'segments.maxConfidenceHint' },
+}
+
+// A whole-recording result built from per-segment predictions. class_probabilities are always the segment mean
+export interface SegmentedPredictionResult extends DiseasePredictionResult {
+  segments: SegmentPrediction[]
+  aggregation: AggregationMethod
+}
+
+export const isSegmentedResult = (result: PredictionResult): result is SegmentedPredictionResult =>
+  'segments' in result
+
+// Fixed-length windows stepping by (window - overlap); the last one is pulled back to end with the recording
+export const planSegments = (duration: number, { windowSeconds, overlapSeconds }: SegmentOptions): SegmentWindow[] => {
+  if (duration <= windowSeconds) return [{ index: 0, start: 0, end: duration }]
+  const step = Math.max(1, windowSeconds - overlapSeconds)
+  const windows: SegmentWindow[] = []
+  for (let start = 0; ; start += step) {
+    const end = Math.min(start + windowSeconds, duration)
+    windows.push({ index: windows.length, start: Math.max(0, end - windowSeconds), end })
+    if (end >= duration) break
+  }
+  return windows
+}
+
+export const splitRecording = async (file: File, options: SegmentOptions) => {
+  const buffer = await decodeAudio(file)
+  const samples = toMono(buffer)
+  const stem = baseName(file.name)
+  return planSegments(buffer.duration, options).map((window) => {
+    const from = Math.floor(window.start * buffer.sampleRate)
+    const to = Math.min(samples.length, Math.ceil(window.end * buffer.sampleRate))
+    const wav = encodeWav(samples.subarray(from, to), buffer.sampleRate)
+    return {
+      window,
+      file: new File([wav], `${stem}-segment-${window.index + 1}.wav`, { type: 'audio/wav' }),
+      sampleRate: buffer.sampleRate,
+      duration: buffer.duration,
+    }
+  })
+}
+
+const meanProbabilities = (segments: SegmentPrediction[]) => {
+  const sums: Record<string, number> = {}
+  segments.forEach((segment) => {
+    Object.keys(segment.class_probabilities).forEach((label) => {
+      sums[label] = (sums[label] ?? 0) + segment.class_probabilities[label]
+    })
+  })
+  Object.keys(sums).forEach((label) => {
+    sums[label] /= segments.length
+  })
+  return sums
+}
+
+export const aggregateSegments = (segments: SegmentPrediction[], method: AggregationMethod) => {
+  const classProbabilities = meanProbabilities(segments)
+  const ranked = rankProbabilities(classProbabilities)
+
+  if (method === 'majority') {
+    const votes: Record<string, number> = {}
+    segments.forEach((segment) => {
+      votes[segment.prediction] = (votes[segment.prediction] ?? 0) + 1
+    })
+    // Ties go to the class with the higher mean probability
+    const winner = Object.keys(votes).sort(
+      (a, b) => votes[b] - votes[a] || (classProbabilities[b] ?? 0) - (classProbabilities[a] ?? 0)
+    )[0]
+    return { prediction: winner, confidence: votes[winner] / segments.length, class_probabilities: classProbabilities }
+  }
+
+  if (method === 'max_confidence') {
+    const best = segments.reduce((a, b) => (b.confidence > a.confidence ? b : a))
+    return { prediction: best.prediction, confidence: best.confidence, class_probabilities: classProbabilities }
+  }
+
+  return { prediction: ranked[0]?.label ?? 'Unknown', confidence: ranked[0]?.probability ?? 0, class_probabilities: classProbabilities }
+}
+
+// Submit each window as its own request and combine the answers into one result
+export const predictInSegments = async (
+  file: File,
+  model: ModelInfo,
+  options: SegmentOptions,
+  method: AggregationMethod,
+  signal: AbortSignal,
+  onProgress?: (completed: number, total: number) => void
+): Promise<SegmentedPredictionResult> => {
+  const parts = await splitRecording(file, options)
+  // One failed segment fails the whole run, so stop the others rather than let them finish
+  const controller = new AbortController()
+  const abort = () => controller.abort()
+  signal.addEventListener('abort', abort, { once: true })
+
+  const segments: SegmentPrediction[] = []
+  let completed = 0
+  let modelVersion: string | undefined
+  onProgress?.(0, parts.length)
+  try {
+    await runWithConcurrency(parts, SEGMENT_CONCURRENCY, async ({ window, file: part }) => {
+      try {
+        const result = await withRetry(
+          () => classifyAudio(model, part, { signal: controller.signal }),
+          { retries: SEGMENT_RETRIES, signal: controller.signal }
+        )
+        segments[window.index] = { ...window, prediction: result.prediction, confidence: result.confidence, class_probabilities: result.class_probabilities }
+        modelVersion = modelVersion ?? result.model_version
+        onProgress?.(++completed, parts.length)
+      } catch (err) {
+        controller.abort()
+        throw err
+      }
+    }, controller.signal)
+  } finally {
+    signal.removeEventListener('abort', abort)
+  }
+  if (signal.aborted) throw new ApiError('cancelled', 'request was cancelled')
+
+  return {
+    success: true,
+    filename: file.name,
+    ...aggregateSegments(segments, method),
+    audio_info: { duration: parts[0]?.duration ?? 0, sample_rate: parts[0]?.sampleRate ?? 0 },
+    model_version: modelVersion,
+    segments,
+    aggregation: method,
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { MessageKey, MessageParams, createTranslator } from '@/lib/i18n'
+
+const english = createTranslator('en')
+
+// Thrown by server-side stores and validation; route handlers turn it into a JSON error response.
+// The code is a message key the browser words in the user's language; the message is the English text for logs
+export class HttpError extends Error {
+  readonly status: number
+  readonly code: MessageKey
+  readonly params?: MessageParams
+
+  constructor(status: number, code: MessageKey, params?: MessageParams) {
+    super(english.t(code, params))
+    this.name = 'HttpError'
+    this.status = status
+    this.code = code
+    this.params = params
+  }
+}
+
+// Same { detail } shape as the backend's errors, so the client's error handling reads both, plus the code to translate
+export const errorResponse = (err: unknown) => {
+  if (err instanceof HttpError) {
+    return NextResponse.json({ detail: err.message, code: err.code, params: err.params }, { status: err.status })
+  }
+  console.error('Route handler error:', err)
+  return NextResponse.json({ detail: english.t('server.internal'), code: 'server.internal' }, { status: 500 })
+}
+
+export const readJsonBody = async (request: Request): Promise<Record<string, unknown>> => {
+  const body = await request.json().catch(() => null)
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) throw new HttpError(400, 'server.expectedJson')
+  return body as Record<string, unknown>
+}
@@ -0,0 +1,57 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises'
+import path from 'path'
+
+// Server-side state lives in plain files under one directory. A production server refuses to start until the
+// directory is named explicitly, and never runs the store on Vercel, whose functions discard their files
+export const dataDir = () => {
+  if (process.env.VERCEL) {
+    throw new Error('The RespireX data store needs a persistent filesystem; Vercel functions do not keep files')
+  }
+  const dir = process.env.RESPIREX_DATA_DIR
+  if (!dir && process.env.NODE_ENV === 'production') {
+    throw new Error('RESPIREX_DATA_DIR must point at persistent storage in production')
+  }
+  return path.resolve(dir || '.respirex')
+}
+
+const dataPath = (name: string) => path.join(dataDir(), name)
+
+export const readJsonFile = async <T>(name: string, fallback: T): Promise<T> => {
+  try {
+    return JSON.parse(await readFile(dataPath(name), 'utf8')) as T
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return fallback
+    throw err
+  }
+}
+
+// Written to a temporary file and renamed, so a crash mid-write never leaves half a file
+export const writeJsonFile = async (name: string, value: unknown) => {
+  const target = dataPath(name)
+  await mkdir(path.dirname(target), { recursive: true })
+  const temporary = `${target}.${process.pid}.tmp`
+  await writeFile(temporary, JSON.stringify(value, null, 2) + '\n', 'utf8')
+  await rename(temporary, target)
+}
+
+// Append-only logs, one JSON object per line
+export const appendJsonLine = async (name: string, value: unknown) => {
+  const target = dataPath(name)
+  await mkdir(path.dirname(target), { recursive: true })
+  await appendFile(target, JSON.stringify(value) + '\n', 'utf8')
+}
+
+// Serialises read-modify-write cycles on one file within this server process
+const queues: Record<string, Promise<unknown>> = {}
+
+export const updateJsonFile = <T, R>(name: string, fallback: T, update: (current: T) => Promise<[T, R]> | [T, R]): Promise<R> => {
+  const run = (queues[name] ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(async () => {
+      const [next, result] = await update(await readJsonFile(name, fallback))
+      await writeJsonFile(name, next)
+      return result
+    })
+  queues[name] = run
+  return run
+}
@@ -0,0 +1,46 @@
+import type { ModelSetting, ModelSettings } from '@/lib/modelSettings'
+import { HttpError } from './errors'
+import { readJsonFile, updateJsonFile } from './jsonStore'
+
+const SETTINGS_FILE = 'model-settings.json'
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const readFraction = (value: unknown, path: string) => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) {
+    throw new HttpError(400, 'server.settingsNumber', { path })
+  }
+  return value
+}
+
+const readSetting = (value: unknown, id: string): ModelSetting => {
+  if (!isObject(value)) throw new HttpError(400, 'server.settingsObject', { path: id })
+  const setting: ModelSetting = {}
+  if (value.enabled !== undefined) {
+    if (typeof value.enabled !== 'boolean') throw new HttpError(400, 'server.settingsEnabled', { path: `${id}.enabled` })
+    setting.enabled = value.enabled
+  }
+  if (value.min_margin !== undefined) setting.min_margin = readFraction(value.min_margin, `${id}.min_margin`)
+  if (value.thresholds !== undefined) {
+    if (!isObject(value.thresholds)) throw new HttpError(400, 'server.settingsObject', { path: `${id}.thresholds` })
+    const thresholds: Record<string, number> = {}
+    Object.keys(value.thresholds).forEach((label) => {
+      thresholds[label] = readFraction((value.thresholds as Record<string, unknown>)[label], `${id}.thresholds.${label}`)
+    })
+    setting.thresholds = thresholds
+  }
+  return setting
+}
+
+export const readModelSettings = () => readJsonFile<ModelSettings>(SETTINGS_FILE, {})
+
+// Replaces all settings at once; the admin screen always sends the full set
+export const saveModelSettings = (value: unknown) => {
+  if (!isObject(value)) throw new HttpError(400, 'server.settingsShape')
+  const settings: ModelSettings = {}
+  Object.keys(value).forEach((id) => {
+    settings[id] = readSetting(value[id], id)
+  })
+  return updateJsonFile<ModelSettings, ModelSettings>(SETTINGS_FILE, {}, () => [settings, settings])
+}
@@ -0,0 +1,28 @@
+import type { SessionUser } from '@/lib/auth/session'
+import type { SignOff } from '@/lib/cases'
+import { HttpError } from './errors'
+import { appendJsonLine } from './jsonStore'
+
+// Append-only audit trail of who signed off which result; analyses themselves stay in the clinician's browser
+const SIGNOFF_LOG = 'signoffs.jsonl'
+
+const readText = (value: unknown, field: string) => {
+  if (typeof value !== 'string' || !value) throw new HttpError(400, 'server.fieldRequired', { field })
+  return value
+}
+
+// The signer comes from the session, never from the request body
+export const recordSignOff = async (user: SessionUser, body: Record<string, unknown>): Promise<SignOff> => {
+  const signOff: SignOff = { id: user.id, name: user.name, role: user.role, signedAt: new Date().toISOString() }
+  await appendJsonLine(SIGNOFF_LOG, {
+    analysisId: readText(body.analysisId, 'analysisId'),
+    patientId: readText(body.patientId, 'patientId'),
+    model: readText(body.model, 'model'),
+    label: readText(body.label, 'label'),
+    confidence: typeof body.confidence === 'number' ? body.confidence : null,
+    analysedAt: typeof body.analysedAt === 'string' ? body.analysedAt : null,
+    signedBy: { id: user.id, name: user.name, email: user.email, role: user.role, provider: user.provider },
+    signedAt: signOff.signedAt,
+  })
+  return signOff
+}
@@ -0,0 +1,25 @@
+import { describeServerError } from '@/lib/api/errors'
+import { AnalysisRecord, saveSignOff } from '@/lib/cases'
+import { t } from '@/lib/i18n'
+import { predictedLabel } from '@/lib/predictions'
+
+export const SIGNOFFS_URL = '/api/signoffs'
+
+// Logged on the app server first, which names the signer from the session, then stamped on the stored analysis
+export const signOffAnalysis = async (record: AnalysisRecord) => {
+  const response = await fetch(SIGNOFFS_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      analysisId: record.id,
+      patientId: record.patientId,
+      model: record.model,
+      label: predictedLabel(record.result),
+      confidence: record.result.confidence,
+      analysedAt: record.createdAt,
+    }),
+  })
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) throw new Error(describeServerError(body, t('admin.requestFailed', { status: response.status })))
+  return saveSignOff(record.id, body)
+}
@@ -0,0 +1,85 @@
+// Minimal promise wrapper around IndexedDB; every store uses an "id" keyPath
+const DB_NAME = 'respirex'
+const DB_VERSION = 2
+
+export type StoreName = 'patients' | 'analyses' | 'recordings' | 'outbox'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains('patients')) {
+    db.createObjectStore('patients', { keyPath: 'id' })
+  }
+  if (!db.objectStoreNames.contains('analyses')) {
+    const analyses = db.createObjectStore('analyses', { keyPath: 'id' })
+    analyses.createIndex('patientId', 'patientId')
+  }
+  if (!db.objectStoreNames.contains('recordings')) {
+    db.createObjectStore('recordings', { keyPath: 'id' })
+  }
+  if (!db.objectStoreNames.contains('outbox')) {
+    db.createObjectStore('outbox', { keyPath: 'id' })
+  }
+}
+
+export const isStorageAvailable = () => typeof indexedDB !== 'undefined'
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!isStorageAvailable()) return Promise.reject(new Error('IndexedDB is not available in this browser'))
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => upgrade(request.result)
+      request.onsuccess = () => {
+        const db = request.result
+        // Let a newer version opened in another tab upgrade instead of blocking on this connection
+        db.onversionchange = () => {
+          db.close()
+          dbPromise = null
+        }
+        resolve(db)
+      }
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+export const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+// Run fn inside a transaction and resolve once the transaction has committed
+export const transact = async <T>(
+  stores: StoreName | StoreName[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase()
+  const tx = db.transaction(stores, mode)
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+  const result = await fn(tx)
+  await done
+  return result
+}
+
+export const getAll = <T>(store: StoreName) =>
+  transact(store, 'readonly', (tx) => promisify(tx.objectStore(store).getAll() as IDBRequest<T[]>))
+
+export const getOne = <T>(store: StoreName, id: string) =>
+  transact(store, 'readonly', (tx) => promisify(tx.objectStore(store).get(id) as IDBRequest<T | undefined>))
+
+export const put = <T>(store: StoreName, value: T) =>
+  transact(store, 'readwrite', (tx) => promisify(tx.objectStore(store).put(value)).then(() => value))
+
+export const remove = (store: StoreName, id: string) =>
+  transact(store, 'readwrite', (tx) => promisify(tx.objectStore(store).delete(id)).then(() => undefined))
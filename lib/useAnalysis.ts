@@ -0,0 +1,144 @@
+import { useEffect, useRef, useState } from 'react'
+import { PredictionResult, RequestProgress, describeApiError, isCancelled, isRetryable, withRetry } from '@/lib/api'
+import { markBackendReady, markBackendUnreachable, warmUpBackend } from '@/lib/backendStatus'
+import { AnalysisRecord, CaseSelection, EMPTY_CASE, saveAnalysis, toRecordAuthor } from '@/lib/cases'
+import { t } from '@/lib/i18n'
+import { useLeaveWarning } from '@/lib/useLeaveWarning'
+import { useSession } from '@/lib/useSession'
+
+// Enough attempts to ride out a cold start of the hosted backend
+export const UPLOAD_RETRY_OPTIONS = { retries: 3, baseDelayMs: 4000, maxDelayMs: 20000 }
+
+export const describeRetry = (attempt: number, delayMs: number) =>
+  t('progress.retry', { seconds: Math.ceil(delayMs / 1000), attempt: attempt + 1, attempts: UPLOAD_RETRY_OPTIONS.retries + 1 })
+
+// Wraps a request in backoff retries for timeouts, 5xx answers and dropped connections
+export type RetryRunner = <T>(task: () => Promise<T>) => Promise<T>
+
+// Runs one prediction at a time and saves it to the selected patient's history; only clinicians keep patient history
+export const useAnalysis = (model: AnalysisRecord['model']) => {
+  const [result, setResult] = useState<PredictionResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isUploading, setIsUploading] = useState(false)
+  const [savedNote, setSavedNote] = useState<string | null>(null)
+  // The history entry for the current result, once saved; sign-off is recorded on it
+  const [savedRecord, setSavedRecord] = useState<AnalysisRecord | null>(null)
+  const user = useSession()
+  // Shown instead of an error when a fallback took over a failed request
+  const [notice, setNotice] = useState<string | null>(null)
+  const [retryNote, setRetryNote] = useState<string | null>(null)
+  const [progress, setProgress] = useState<RequestProgress | null>(null)
+  // Case details as they were when the result came back, so a report never picks up a later selection
+  const [resultCase, setResultCase] = useState<CaseSelection>(EMPTY_CASE)
+  const [resultModel, setResultModel] = useState(model)
+  const [historyVersion, setHistoryVersion] = useState(0)
+  const requestRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    warmUpBackend()
+    return () => requestRef.current?.abort()
+  }, [])
+
+  useLeaveWarning(isUploading)
+
+  const analyze = async (
+    request: (signal: AbortSignal, retry: RetryRunner, onProgress: (progress: RequestProgress) => void) => Promise<PredictionResult>,
+    caseSelection: CaseSelection,
+    // The audio the result was computed on, read once the request is done since preprocessing may replace the file;
+    // result times are relative to it, so history stores it rather than the original
+    recording: () => File | null,
+    // Handles a failed request some other way; resolves to the notice to show, or null to report the error
+    fallback?: (err: unknown) => Promise<string | null>
+  ) => {
+    requestRef.current?.abort()
+    const controller = new AbortController()
+    requestRef.current = controller
+
+    setIsUploading(true)
+    setError(null)
+    setSavedNote(null)
+    setSavedRecord(null)
+    setNotice(null)
+    setRetryNote(null)
+    setProgress(null)
+
+    const retry: RetryRunner = (task) =>
+      withRetry(task, {
+        ...UPLOAD_RETRY_OPTIONS,
+        signal: controller.signal,
+        // Offline failures go straight to the fallback instead of waiting out the backoff
+        shouldRetry: (err) => isRetryable(err) && navigator.onLine,
+        onRetry: (attempt, _err, delayMs) => {
+          markBackendUnreachable()
+          setProgress(null)
+          setRetryNote(describeRetry(attempt, delayMs))
+        },
+      })
+
+    try {
+      const response = await request(controller.signal, retry, setProgress)
+      markBackendReady()
+      setResult(response)
+      setResultCase(caseSelection)
+      setResultModel(model)
+      if (caseSelection.patientId && user?.role === 'clinician') {
+        const patientId = caseSelection.patientId
+        saveAnalysis(patientId, caseSelection.visit, model, response, recording(), toRecordAuthor(user))
+          .then((record) => {
+            // A newer request may have started while this one was saving
+            if (requestRef.current === null || requestRef.current === controller) setSavedRecord(record)
+            setHistoryVersion((v) => v + 1)
+            setSavedNote(t('analyze.saved', { patient: patientId }))
+          })
+          .catch((err) => console.error('Save analysis error:', err))
+      }
+    } catch (err) {
+      if (isCancelled(err)) return
+      if (isRetryable(err)) markBackendUnreachable()
+      const handled = fallback ? await fallback(err).catch(() => null) : null
+      if (handled) {
+        setNotice(handled)
+        return
+      }
+      console.error(`${model} prediction error:`, err)
+      setError(describeApiError(err))
+    } finally {
+      if (requestRef.current === controller) {
+        requestRef.current = null
+        setIsUploading(false)
+        setRetryNote(null)
+        setProgress(null)
+      }
+    }
+  }
+
+  const cancel = () => {
+    requestRef.current?.abort()
+  }
+
+  const reset = () => {
+    setResult(null)
+    setSavedRecord(null)
+    setError(null)
+    setNotice(null)
+  }
+
+  return {
+    result,
+    error,
+    setError,
+    notice,
+    retryNote,
+    progress,
+    isUploading,
+    savedNote,
+    savedRecord,
+    setSavedRecord,
+    resultCase,
+    resultModel,
+    historyVersion,
+    analyze,
+    cancel,
+    reset,
+  }
+}
@@ -0,0 +1,178 @@
+import { useEffect, useRef, useState } from 'react'
+import { DiseasePredictionResult, ModelInfo, describeApiError, isCancelled, isRetryable, withRetry } from '@/lib/api'
+import { checkAudioQuality } from '@/lib/audio/quality'
+import { EMPTY_SLOT, ExamSite, SiteSlot, siteForFilename } from '@/lib/auscultation'
+import { markBackendReady, markBackendUnreachable, warmUpBackend } from '@/lib/backendStatus'
+import { CaseSelection, saveAnalysis, toRecordAuthor } from '@/lib/cases'
+import { runWithConcurrency } from '@/lib/concurrency'
+import { t } from '@/lib/i18n'
+import { classifyAudio } from '@/lib/models'
+import { UPLOAD_RETRY_OPTIONS, describeRetry } from '@/lib/useAnalysis'
+import { useLeaveWarning } from '@/lib/useLeaveWarning'
+import { useSession } from '@/lib/useSession'
+
+const CONCURRENCY = 2
+
+// One recording per chest site, each classified on its own so abnormal sites can be shown on the map
+export const useAuscultation = () => {
+  const [slots, setSlots] = useState<Record<string, SiteSlot>>({})
+  const [isRunning, setIsRunning] = useState(false)
+  const [savedNote, setSavedNote] = useState<string | null>(null)
+  const [historyVersion, setHistoryVersion] = useState(0)
+  const user = useSession()
+  const requestRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    warmUpBackend()
+    return () => requestRef.current?.abort()
+  }, [])
+
+  useLeaveWarning(isRunning)
+
+  const update = (id: string, patch: Partial<SiteSlot>) => {
+    setSlots((current) => ({ ...current, [id]: { ...(current[id] ?? EMPTY_SLOT), ...patch } }))
+  }
+
+  // A new recording replaces the site's previous one and its result
+  const setFile = (id: string, file: File | null) => {
+    setSlots((current) => ({ ...current, [id]: file ? { ...EMPTY_SLOT, file, status: 'ready' } : EMPTY_SLOT }))
+  }
+
+  // Places files by their names, e.g. "LL_post_2.wav"; returns the names that matched no site
+  const assignFiles = (files: File[], sites: ExamSite[]) => {
+    const unmatched: string[] = []
+    files.forEach((file) => {
+      const site = siteForFilename(file.name, sites)
+      if (site) {
+        setFile(site.id, file)
+      } else {
+        unmatched.push(file.name)
+      }
+    })
+    return unmatched
+  }
+
+  const analyzeSite = async (model: ModelInfo, site: ExamSite, file: File, controller: AbortController) => {
+    const { signal } = controller
+    // A run that was reset must not write into the slots that replaced it
+    const set = (patch: Partial<SiteSlot>) => {
+      if (requestRef.current === controller) update(site.id, patch)
+    }
+    set({ status: 'running', progress: null, error: undefined, note: undefined, result: undefined })
+    // Recordings that would fail the pre-flight check on their own are not uploaded
+    const quality = await checkAudioQuality(file)
+    const blocking = quality.issues.filter((issue) => issue.severity === 'blocking')
+    if (blocking.length > 0) {
+      set({ status: 'failed', error: t('quality.failed', { issues: blocking.map((issue) => issue.message).join(' ') }) })
+      return null
+    }
+    try {
+      const result = await withRetry(
+        () => classifyAudio(model, file, { signal, onProgress: (progress) => set({ progress }) }),
+        {
+          ...UPLOAD_RETRY_OPTIONS,
+          signal,
+          shouldRetry: (err) => isRetryable(err) && navigator.onLine,
+          onRetry: (attempt, _err, delayMs) => {
+            markBackendUnreachable()
+            set({ status: 'retrying', progress: null, note: describeRetry(attempt, delayMs) })
+          },
+        }
+      )
+      markBackendReady()
+      set({ status: 'done', progress: null, note: undefined, result })
+      return result
+    } catch (err) {
+      if (isCancelled(err) || signal.aborted) {
+        set({ status: 'cancelled', progress: null, note: undefined })
+        return null
+      }
+      if (isRetryable(err)) markBackendUnreachable()
+      console.error(`${site.id} analysis error:`, err)
+      set({ status: 'failed', progress: null, note: undefined, error: describeApiError(err) })
+      return null
+    }
+  }
+
+  // Sends every site that has a recording but no result yet
+  const analyze = async (model: ModelInfo, sites: ExamSite[], caseSelection: CaseSelection) => {
+    const pending = sites.filter((site) => {
+      const slot = slots[site.id]
+      return slot?.file && slot.status !== 'done'
+    })
+    if (pending.length === 0) return
+    const controller = new AbortController()
+    requestRef.current = controller
+    setIsRunning(true)
+    setSavedNote(null)
+    pending.forEach((site) => update(site.id, { status: 'queued', error: undefined }))
+
+    const finished: { site: ExamSite; file: File; result: DiseasePredictionResult }[] = []
+    try {
+      await runWithConcurrency(
+        pending,
+        CONCURRENCY,
+        async (site) => {
+          const file = slots[site.id].file as File
+          const result = await analyzeSite(model, site, file, controller)
+          if (result) finished.push({ site, file, result })
+        },
+        controller.signal
+      )
+    } finally {
+      // Sites that never started stay visible as cancelled rather than silently queued
+      if (controller.signal.aborted && requestRef.current === controller) {
+        const ids = pending.map((site) => site.id)
+        setSlots((current) => {
+          const next = { ...current }
+          ids.forEach((id) => {
+            if (next[id]?.status === 'queued') next[id] = { ...next[id], status: 'cancelled' }
+          })
+          return next
+        })
+      }
+      if (requestRef.current === controller) requestRef.current = null
+      setIsRunning(false)
+    }
+
+    const patientId = caseSelection.patientId
+    if (patientId && finished.length > 0) {
+      Promise.all(
+        finished.map(({ site, file, result }) =>
+          saveAnalysis(patientId, { ...caseSelection.visit, recordingSite: site.icbhi }, model.id, result, file, toRecordAuthor(user))
+        )
+      )
+        .then(() => {
+          setHistoryVersion((v) => v + 1)
+          setSavedNote(t(finished.length === 1 ? 'exam.savedOne' : 'exam.saved', { count: finished.length, patient: patientId }))
+        })
+        .catch((err) => console.error('Save exam error:', err))
+    }
+  }
+
+  // Keeps the recordings but drops answers that came from another model
+  const clearResults = () => {
+    setSlots((current) => {
+      const next: Record<string, SiteSlot> = {}
+      Object.keys(current).forEach((id) => {
+        const file = current[id].file
+        next[id] = file ? { ...EMPTY_SLOT, file, status: 'ready' } : EMPTY_SLOT
+      })
+      return next
+    })
+    setSavedNote(null)
+  }
+
+  const cancel = () => {
+    requestRef.current?.abort()
+  }
+
+  const reset = () => {
+    requestRef.current?.abort()
+    requestRef.current = null
+    setSlots({})
+    setSavedNote(null)
+  }
+
+  return { slots, isRunning, savedNote, historyVersion, setFile, assignFiles, analyze, clearResults, cancel, reset }
+}
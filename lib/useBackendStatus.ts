@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react'
+import { getBackendState, probeBackend, subscribeBackendStatus } from '@/lib/backendStatus'
+
+// Backend status shared by every component; the first subscriber triggers the initial probe
+export const useBackendStatus = () => {
+  const [state, setState] = useState(getBackendState)
+
+  useEffect(() => {
+    const unsubscribe = subscribeBackendStatus(setState)
+    setState(getBackendState())
+    if (getBackendState().status === 'unknown') probeBackend()
+    const recheck = () => probeBackend()
+    window.addEventListener('online', recheck)
+    return () => {
+      unsubscribe()
+      window.removeEventListener('online', recheck)
+    }
+  }, [])
+
+  return state
+}
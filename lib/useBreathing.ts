@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react'
+import type { BreathingCycle, PredictionResult } from '@/lib/api'
+import { estimateCyclesFromFile } from '@/lib/audio/breathing'
+import { BreathingSource } from '@/lib/breathing'
+
+const NO_CYCLES: BreathingCycle[] = []
+
+// Cycles from the backend when it sends them, otherwise estimated in the browser from the recording
+export const useBreathing = (result: PredictionResult | null, file: Blob | null) => {
+  const [estimated, setEstimated] = useState<BreathingCycle[]>(NO_CYCLES)
+  const [isEstimating, setIsEstimating] = useState(false)
+  const fromServer = result?.cycles
+
+  useEffect(() => {
+    setEstimated(NO_CYCLES)
+    if (!result || fromServer || !file) {
+      setIsEstimating(false)
+      return
+    }
+    let active = true
+    setIsEstimating(true)
+    estimateCyclesFromFile(file)
+      .then((cycles) => {
+        if (active) setEstimated(cycles)
+      })
+      .catch((err) => console.error('Breathing cycle estimate error:', err))
+      .finally(() => {
+        if (active) setIsEstimating(false)
+      })
+    return () => {
+      active = false
+    }
+  }, [result, fromServer, file])
+
+  const source: BreathingSource = fromServer ? 'server' : 'estimated'
+  return { cycles: fromServer ?? estimated, source, isEstimating }
+}
@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState } from 'react'
+import { ModelInfo, PredictionResult, describeApiError, isCancelled, isRetryable, respirex, withRetry } from '@/lib/api'
+import { markBackendReady, markBackendUnreachable, warmUpBackend } from '@/lib/backendStatus'
+import { CaseSelection, EMPTY_CASE, saveAnalysis, toRecordAuthor } from '@/lib/cases'
+import { ComparisonRun } from '@/lib/comparison'
+import { t } from '@/lib/i18n'
+import { UPLOAD_RETRY_OPTIONS, describeRetry } from '@/lib/useAnalysis'
+import { useLeaveWarning } from '@/lib/useLeaveWarning'
+import { useSession } from '@/lib/useSession'
+
+// Sends one recording to several models at once and keeps each model's progress and answer apart
+export const useComparison = () => {
+  const [runs, setRuns] = useState<ComparisonRun[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [savedNote, setSavedNote] = useState<string | null>(null)
+  const [resultCase, setResultCase] = useState<CaseSelection>(EMPTY_CASE)
+  const [historyVersion, setHistoryVersion] = useState(0)
+  const user = useSession()
+  const requestRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    warmUpBackend()
+    return () => requestRef.current?.abort()
+  }, [])
+
+  useLeaveWarning(isRunning)
+
+  const compare = async (
+    models: ModelInfo[],
+    // Produces the file every model receives, e.g. after preprocessing; it is also the one saved to history
+    prepare: (signal: AbortSignal) => Promise<File>,
+    caseSelection: CaseSelection
+  ) => {
+    requestRef.current?.abort()
+    const controller = new AbortController()
+    requestRef.current = controller
+    const { signal } = controller
+
+    // A superseded comparison must not touch the runs of the one that replaced it
+    const update = (id: string, patch: Partial<ComparisonRun>) => {
+      if (requestRef.current !== controller) return
+      setRuns((current) => current.map((run) => (run.model.id === id ? { ...run, ...patch } : run)))
+    }
+
+    setRuns(models.map((model) => ({ model, status: 'running', progress: null })))
+    setIsRunning(true)
+    setError(null)
+    setSavedNote(null)
+    setResultCase(caseSelection)
+
+    try {
+      const upload = await prepare(signal)
+      const finished: { model: ModelInfo; result: PredictionResult }[] = []
+      await Promise.all(
+        models.map(async (model) => {
+          try {
+            const result = await withRetry(
+              () => respirex.predictWithModel(model, upload, { signal, onProgress: (progress) => update(model.id, { progress }) }),
+              {
+                ...UPLOAD_RETRY_OPTIONS,
+                signal,
+                shouldRetry: (err) => isRetryable(err) && navigator.onLine,
+                onRetry: (attempt, _err, delayMs) => {
+                  markBackendUnreachable()
+                  update(model.id, { status: 'retrying', progress: null, note: describeRetry(attempt, delayMs) })
+                },
+              }
+            )
+            markBackendReady()
+            update(model.id, { status: 'done', progress: null, note: undefined, result })
+            finished.push({ model, result })
+          } catch (err) {
+            if (isCancelled(err)) {
+              update(model.id, { status: 'cancelled', progress: null, note: undefined })
+              return
+            }
+            if (isRetryable(err)) markBackendUnreachable()
+            console.error(`${model.id} comparison error:`, err)
+            update(model.id, { status: 'failed', progress: null, note: undefined, error: describeApiError(err) })
+          }
+        })
+      )
+
+      const patientId = caseSelection.patientId
+      if (patientId && finished.length > 0) {
+        Promise.all(finished.map(({ model, result }) => saveAnalysis(patientId, caseSelection.visit, model.id, result, upload, toRecordAuthor(user))))
+          .then(() => {
+            setHistoryVersion((v) => v + 1)
+            setSavedNote(t(finished.length === 1 ? 'comparison.savedOne' : 'comparison.saved', { count: finished.length, patient: patientId }))
+          })
+          .catch((err) => console.error('Save comparison error:', err))
+      }
+    } catch (err) {
+      // Only preparing the upload gets here; each model's failure stays on its own run
+      if (isCancelled(err)) {
+        if (requestRef.current === controller) setRuns([])
+        return
+      }
+      setRuns([])
+      console.error('Comparison error:', err)
+      setError(describeApiError(err))
+    } finally {
+      if (requestRef.current === controller) {
+        requestRef.current = null
+        setIsRunning(false)
+      }
+    }
+  }
+
+  const cancel = () => {
+    requestRef.current?.abort()
+  }
+
+  const reset = () => {
+    setRuns([])
+    setError(null)
+  }
+
+  return { runs, error, isRunning, savedNote, resultCase, historyVersion, compare, cancel, reset }
+}
@@ -0,0 +1,57 @@
+import { useCallback, useState } from 'react'
+
+const HISTORY_LIMIT = 200
+
+interface HistoryState<T> {
+  past: T[]
+  present: T
+  future: T[]
+}
+
+type Update<T> = T | ((previous: T) => T)
+
+// State with an undo/redo stack; every set() is one undoable step
+export function useHistory<T>(initial: T) {
+  const [history, setHistory] = useState<HistoryState<T>>({ past: [], present: initial, future: [] })
+
+  const set = useCallback((update: Update<T>) => {
+    setHistory((h) => {
+      const next = typeof update === 'function' ? (update as (previous: T) => T)(h.present) : update
+      if (Object.is(next, h.present)) return h
+      return { past: [...h.past, h.present].slice(-HISTORY_LIMIT), present: next, future: [] }
+    })
+  }, [])
+
+  const undo = useCallback(() => {
+    setHistory((h) => {
+      if (h.past.length === 0) return h
+      return {
+        past: h.past.slice(0, -1),
+        present: h.past[h.past.length - 1],
+        future: [h.present, ...h.future],
+      }
+    })
+  }, [])
+
+  const redo = useCallback(() => {
+    setHistory((h) => {
+      if (h.future.length === 0) return h
+      return { past: [...h.past, h.present], present: h.future[0], future: h.future.slice(1) }
+    })
+  }, [])
+
+  // Replace the value and drop the history, e.g. when a new recording is loaded
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [] })
+  }, [])
+
+  return {
+    value: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  }
+}
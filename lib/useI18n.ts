@@ -0,0 +1,14 @@
+import { createContext, useContext } from 'react'
+import { DEFAULT_LOCALE, Locale, Translator, createTranslator } from '@/lib/i18n'
+
+export interface I18nContextValue extends Translator {
+  setLocale: (locale: Locale) => void
+}
+
+export const I18nContext = createContext<I18nContextValue>({
+  ...createTranslator(DEFAULT_LOCALE),
+  setLocale: () => {},
+})
+
+// Messages and number/time formatting for the current language; components re-render when it changes
+export const useI18n = () => useContext(I18nContext)
@@ -0,0 +1,14 @@
+import { useEffect } from 'react'
+
+// Reloading mid-request loses the analysis, so ask first
+export const useLeaveWarning = (active: boolean) => {
+  useEffect(() => {
+    if (!active) return
+    const warn = (e: BeforeUnloadEvent) => {
+      e.preventDefault()
+      e.returnValue = ''
+    }
+    window.addEventListener('beforeunload', warn)
+    return () => window.removeEventListener('beforeunload', warn)
+  }, [active])
+}
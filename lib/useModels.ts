@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react'
+import type { ModelInfo } from '@/lib/api'
+import { getModelCatalogue, loadModelCatalogue, modelsFor } from '@/lib/models'
+
+// Model catalogue, starting from the last known list so screens render before the fetch completes
+export const useModels = () => {
+  const [catalogue, setCatalogue] = useState(getModelCatalogue)
+
+  useEffect(() => {
+    let active = true
+    loadModelCatalogue().then((next) => {
+      if (active) setCatalogue(next)
+    })
+    return () => {
+      active = false
+    }
+  }, [])
+
+  return catalogue
+}
+
+// Models a screen can run, with the selection preset from a ?model= link. No model when none of the type is enabled,
+// so a screen never runs one an administrator turned off
+export const useModelSelection = (inputType: ModelInfo['input_type']) => {
+  const { models } = useModels()
+  const [modelId, setModelId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const requested = new URLSearchParams(window.location.search).get('model')
+    if (requested) setModelId(requested)
+  }, [])
+
+  const available = modelsFor(inputType, models)
+  const model = available.find((item) => item.id === modelId) ?? available[0] ?? null
+
+  return { models: available, model, setModelId }
+}
+
+// A selection with a model to run, passed to a screen once one is available
+export type ModelChoice = ReturnType<typeof useModelSelection> & { model: ModelInfo }
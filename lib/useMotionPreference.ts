@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react'
+
+export interface MotionPreferenceValue {
+  reduced: boolean
+  setReduced: (reduced: boolean) => void
+}
+
+export const MotionPreferenceContext = createContext<MotionPreferenceValue>({
+  reduced: false,
+  setReduced: () => {},
+})
+
+export const useMotionPreference = () => useContext(MotionPreferenceContext)
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react'
+import { OutboxItem, listOutbox, subscribeOutbox } from '@/lib/outbox'
+
+// Outbox contents, refreshed whenever an item is queued, sent or removed
+export const useOutbox = () => {
+  const [items, setItems] = useState<OutboxItem[]>([])
+
+  useEffect(() => {
+    let active = true
+    const load = () =>
+      listOutbox()
+        .then((next) => {
+          if (active) setItems(next)
+        })
+        .catch((err) => console.error('Load outbox error:', err))
+    load()
+    const unsubscribe = subscribeOutbox(load)
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [])
+
+  return items
+}
+
+export const useOnlineStatus = () => {
+  const [online, setOnline] = useState(true)
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine)
+    update()
+    window.addEventListener('online', update)
+    window.addEventListener('offline', update)
+    return () => {
+      window.removeEventListener('online', update)
+      window.removeEventListener('offline', update)
+    }
+  }, [])
+
+  return online
+}
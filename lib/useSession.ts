@@ -0,0 +1,7 @@
+import { createContext, useContext } from 'react'
+import type { SessionUser } from '@/lib/auth/session'
+
+// Signed-in user as the server saw it when the page rendered; null when signed out
+export const SessionContext = createContext<SessionUser | null>(null)
+
+export const useSession = () => useContext(SessionContext)
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requiredRoles } from '@/lib/auth/roles'
+import { SESSION_COOKIE, verifySessionToken } from '@/lib/auth/session'
+
+// Role checks for every protected page and API route, before anything renders.
+// API refusals carry the same message codes as HttpError; the catalogues stay out of the edge bundle
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+  const roles = requiredRoles(pathname)
+  if (!roles) return NextResponse.next()
+
+  const isApi = pathname.indexOf('/api/') === 0
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value)
+
+  if (!session) {
+    if (isApi) return NextResponse.json({ detail: 'Sign in to continue', code: 'server.signInRequired' }, { status: 401 })
+    const signIn = new URL('/signin', request.url)
+    signIn.searchParams.set('next', pathname + search)
+    return NextResponse.redirect(signIn)
+  }
+
+  if (roles.indexOf(session.user.role) === -1) {
+    if (isApi) return NextResponse.json({ detail: 'Your role does not allow this', code: 'server.roleRefused' }, { status: 403 })
+    // Rewritten rather than redirected, so the address bar keeps the page that was refused
+    return NextResponse.rewrite(new URL('/forbidden', request.url), { status: 403 })
+  }
+
+  return NextResponse.next()
+}
+
+export const config = {
+  // Everything except Next's own assets and files with an extension; ROUTE_ACCESS decides the rest
+  matcher: ['/((?!_next/static|_next/image|.*\\..*).*)'],
+}
@@ -3,6 +3,10 @@ const nextConfig = {
   images: {
     domains: [],
   },
+  experimental: {
+    // Runs instrumentation.ts once when the server starts
+    instrumentationHook: true,
+  },
 }
 
 module.exports = nextConfig
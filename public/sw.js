@@ -0,0 +1,96 @@
+// Service worker: keeps the public app shell available offline. API requests go to another origin and are never cached;
+// analyses made while offline are queued in IndexedDB by the page (see lib/outbox.ts).
+// Pages can carry a signed-in user's data, so each page is cached by its path only after it loads, in a cache of its
+// own that signing out deletes; that keeps the installed app's start page (/analyze) and its outbox working offline.
+// RSC payloads are never cached. The public shell is fetched without cookies
+const CACHE_VERSION = 'respirex-v3'
+const PAGES_CACHE = 'respirex-pages-v3'
+const APP_SHELL = ['/', '/icon.svg', '/logo.png']
+const SIGN_OUT_PATH = '/api/auth/signout'
+
+const precache = () =>
+  caches.open(CACHE_VERSION).then((cache) => cache.addAll(APP_SHELL.map((path) => new Request(path, { credentials: 'omit' }))))
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precache().then(() => self.skipWaiting()))
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_VERSION && key !== PAGES_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+// Drops everything cached while signed in and fetches the anonymous shell again
+const clearCaches = () =>
+  caches
+    .keys()
+    .then((keys) => Promise.all(keys.map((key) => caches.delete(key))))
+    .then(precache)
+    .catch((err) => console.error('Service worker cache reset error:', err))
+
+const putInCache = (request, response) => {
+  if (response.ok && !response.redirected) {
+    const copy = response.clone()
+    caches.open(CACHE_VERSION).then((cache) => cache.put(request, copy))
+  }
+  return response
+}
+
+// Pages: network first, keeping the last copy of each path; a redirect to sign-in or a refusal is never kept.
+// Offline, the cached copy of the path, else the landing page
+const networkFirstPage = (request, url) => {
+  const key = url.origin + url.pathname
+  return fetch(request)
+    .then((response) => {
+      if (response.status === 200 && !response.redirected) {
+        const copy = response.clone()
+        caches.open(PAGES_CACHE).then((cache) => cache.put(key, copy))
+      }
+      return response
+    })
+    .catch(() =>
+      caches
+        .open(PAGES_CACHE)
+        .then((cache) => cache.match(key))
+        .then((cached) => cached || caches.match('/'))
+        .then((cached) => cached || Response.error())
+    )
+}
+
+// Build output under /_next/static is content-hashed, so a cached copy never goes stale
+const cacheFirst = (request) =>
+  caches.match(request).then((cached) => cached || fetch(request).then((response) => putInCache(request, response)))
+
+const staleWhileRevalidate = (request) =>
+  caches.match(request).then((cached) => {
+    const fresh = fetch(request)
+      .then((response) => putInCache(request, response))
+      .catch(() => cached || Response.error())
+    return cached || fresh
+  })
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin) return
+
+  if (request.method === 'POST' && url.pathname === SIGN_OUT_PATH) {
+    event.waitUntil(clearCaches())
+    return
+  }
+  // Same-origin API routes and RSC payloads depend on the session
+  if (request.method !== 'GET' || url.pathname.startsWith('/api/')) return
+  if (url.searchParams.has('_rsc') || request.headers.get('RSC')) return
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request, url))
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request))
+  } else {
+    event.respondWith(staleWhileRevalidate(request))
+  }
+})